@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { TeamLogo } from "@/components/team-logo";
+import { Gavel, Clock, Wallet } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { endpoints } from "@/lib/endpoints";
+import { formatPickClock } from "@shared/utils/draftMode";
+import { MIN_AUCTION_BID } from "@shared/utils/auction";
+
+interface AuctionTeam {
+  id: string;
+  code: string;
+  name: string;
+  city: string;
+  logoUrl: string;
+}
+
+export interface AuctionState {
+  budget: number;
+  bidSeconds: number;
+  nominatorId: string | null;
+  nominationTimeRemaining: number;
+  lot: {
+    nflTeam: AuctionTeam & { conference: string; division: string };
+    nominatorId: string;
+    highBid: number;
+    highBidderId: string;
+    timeRemaining: number;
+  } | null;
+  members: Array<{
+    userId: string;
+    spent: number;
+    remaining: number;
+    slotsLeft: number;
+    maxBid: number;
+  }>;
+}
+
+interface AuctionPanelProps {
+  draftId: string;
+  auction: AuctionState;
+  participants: Array<{ id: string; name: string }>;
+  userId?: string;
+  selectedTeam: AuctionTeam | null; // Picked on the board by the member nominating
+  nominationTimeLimit: number;
+  onNominated?: () => void;
+}
+
+export default function AuctionPanel({
+  draftId,
+  auction,
+  participants,
+  userId,
+  selectedTeam,
+  nominationTimeLimit,
+  onNominated
+}: AuctionPanelProps) {
+  const { toast } = useToast();
+  const [countdown, setCountdown] = useState(0);
+  const [openingBid, setOpeningBid] = useState(MIN_AUCTION_BID);
+  const [customBid, setCustomBid] = useState('');
+
+  // The server sends seconds left with each update; count down locally between them
+  useEffect(() => {
+    setCountdown(auction.lot ? auction.lot.timeRemaining : auction.nominationTimeRemaining);
+    const interval = setInterval(() => setCountdown(seconds => Math.max(0, seconds - 1)), 1000);
+    return () => clearInterval(interval);
+  }, [auction]);
+
+  const nameOf = (id: string | null | undefined) =>
+    id === userId ? 'You' : participants.find(participant => participant.id === id)?.name ?? 'Unknown';
+  const me = auction.members.find(member => member.userId === userId);
+  const lot = auction.lot;
+  const isNominating = !lot && auction.nominatorId === userId;
+
+  const nominate = useMutation({
+    mutationFn: () => apiRequest('POST', endpoints.draftNominate(draftId), { nflTeamId: selectedTeam!.id, openingBid }),
+    onSuccess: () => {
+      setOpeningBid(MIN_AUCTION_BID);
+      onNominated?.();
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't nominate team", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const bid = useMutation({
+    mutationFn: (amount: number) => apiRequest('POST', endpoints.draftBid(draftId), { amount }),
+    onSuccess: () => setCustomBid(''),
+    onError: (error: any) => {
+      toast({ title: "Bid not placed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canBid = !!lot && !!me && me.slotsLeft > 0 && lot.highBidderId !== userId;
+  const quickBids = lot ? [1, 5].map(step => lot.highBid + step).filter(amount => me && amount <= me.maxBid) : [];
+  const timeLimit = lot ? auction.bidSeconds : nominationTimeLimit;
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 space-y-4">
+        {lot ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <TeamLogo logoUrl={lot.nflTeam.logoUrl} teamCode={lot.nflTeam.code} teamName={lot.nflTeam.name} size="lg" />
+                <div>
+                  <p className="font-medium">{lot.nflTeam.city} {lot.nflTeam.name}</p>
+                  <p className="text-xs text-muted-foreground">Nominated by {nameOf(lot.nominatorId)}</p>
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-2xl font-bold">${lot.highBid}</p>
+                <p className="text-xs text-muted-foreground">
+                  {lot.highBidderId === userId ? 'Your bid' : nameOf(lot.highBidderId)}
+                </p>
+              </div>
+            </div>
+
+            {canBid && (
+              <div className="flex items-center gap-2">
+                {quickBids.map(amount => (
+                  <Button key={amount} size="sm" onClick={() => bid.mutate(amount)} disabled={bid.isPending}>
+                    <Gavel className="h-4 w-4 mr-1" />
+                    ${amount}
+                  </Button>
+                ))}
+                <Input
+                  type="number"
+                  min={lot.highBid + 1}
+                  max={me?.maxBid}
+                  value={customBid}
+                  onChange={(event) => setCustomBid(event.target.value)}
+                  placeholder={`Up to $${me?.maxBid ?? 0}`}
+                  className="h-9 w-28"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => bid.mutate(Number(customBid))}
+                  disabled={bid.isPending || !customBid}
+                >
+                  Bid
+                </Button>
+              </div>
+            )}
+          </div>
+        ) : isNominating ? (
+          <div className="space-y-3">
+            <p className="font-medium">Your turn to nominate</p>
+            <p className="text-sm text-muted-foreground">
+              {selectedTeam ? `${selectedTeam.city} ${selectedTeam.name}` : 'Pick a team from the board to put it up for bidding'}
+            </p>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={MIN_AUCTION_BID}
+                max={me?.maxBid}
+                value={openingBid}
+                onChange={(event) => setOpeningBid(Number(event.target.value))}
+                className="h-9 w-24"
+              />
+              <Button
+                onClick={() => nominate.mutate()}
+                disabled={!selectedTeam || nominate.isPending}
+                className="flex-1"
+              >
+                <Gavel className="h-4 w-4 mr-2" />
+                Nominate for ${openingBid}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="font-medium">
+            {auction.nominatorId ? `${nameOf(auction.nominatorId)} is nominating...` : 'Waiting for the auction to open'}
+          </p>
+        )}
+
+        {countdown > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                {lot ? 'Sold in' : 'Nomination clock'}
+              </span>
+              <span>{formatPickClock(countdown)}</span>
+            </div>
+            <Progress value={timeLimit > 0 ? ((timeLimit - countdown) / timeLimit) * 100 : 0} className="h-2" />
+          </div>
+        )}
+
+        {/* Every member's purse - max bid keeps a dollar back for each slot still to fill */}
+        <div className="pt-3 border-t space-y-1">
+          {auction.members.map(member => (
+            <div key={member.userId} className="flex items-center justify-between text-sm">
+              <span className={member.userId === userId ? 'font-medium' : ''}>
+                {nameOf(member.userId)}
+                {member.slotsLeft === 0 && <Badge variant="secondary" className="text-xs ml-2">Full</Badge>}
+              </span>
+              <span className="flex items-center gap-1 text-muted-foreground">
+                <Wallet className="h-3 w-3" />
+                ${member.remaining}
+                {member.slotsLeft > 0 && <span className="text-xs">(max ${member.maxBid})</span>}
+              </span>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gavel } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { formatPoints } from "@/lib/utils";
+
+type CommissionerActionType = 'adjust_points' | 'reassign_team' | 'void_lock';
+
+interface CommissionerActionView {
+  id: string;
+  action: CommissionerActionType;
+  commissionerName: string;
+  targetUserName: string;
+  counterpartName: string | null;
+  nflTeamCode: string | null;
+  week: number;
+  pointsDelta: number | null;
+  details: string;
+  reason: string;
+  createdAt: string;
+}
+
+interface CommissionerActionsResponse {
+  season: number;
+  week: number;
+  isCommissioner: boolean;
+  actions: CommissionerActionView[];
+}
+
+interface MemberRoster {
+  userId: string;
+  name: string;
+  teams: Array<{ id: string; code: string; name: string }>;
+}
+
+const actionLabels: Record<CommissionerActionType, string> = {
+  adjust_points: 'Points',
+  reassign_team: 'Reassign',
+  void_lock: 'Void lock',
+};
+
+interface CommissionerToolsProps {
+  leagueId: string;
+}
+
+export default function CommissionerTools({ leagueId }: CommissionerToolsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [actionType, setActionType] = useState<CommissionerActionType>('adjust_points');
+  const [userId, setUserId] = useState("");
+  const [week, setWeek] = useState("");
+  const [points, setPoints] = useState("");
+  const [nflTeamId, setNflTeamId] = useState("");
+  const [lockType, setLockType] = useState<'lock' | 'lockAndLoad'>('lock');
+  const [reason, setReason] = useState("");
+
+  const { data } = useQuery<CommissionerActionsResponse>({
+    queryKey: [`/api/leagues/${leagueId}/commissioner/actions`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${leagueId}/commissioner/actions`),
+    enabled: !!leagueId,
+  });
+
+  const { data: rosters = [] } = useQuery<MemberRoster[]>({
+    queryKey: [`/api/leagues/${leagueId}/rosters`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${leagueId}/rosters`),
+    enabled: !!leagueId && !!data?.isCommissioner,
+  });
+
+  const submitMutation = useMutation({
+    mutationFn: () => {
+      const base = `/api/leagues/${leagueId}/commissioner`;
+      if (actionType === 'adjust_points') {
+        return apiRequest('POST', `${base}/adjust-points`, { userId, week: Number(week), points: Number(points), reason });
+      }
+      if (actionType === 'reassign_team') {
+        return apiRequest('POST', `${base}/reassign-team`, { nflTeamId, toUserId: userId, reason });
+      }
+      return apiRequest('POST', `${base}/void-lock`, { userId, week: Number(week), lockType, reason });
+    },
+    onSuccess: (result: any) => {
+      toast({ title: result?.message || "Correction saved", description: "Logged for the whole league to see" });
+      setPoints("");
+      setNflTeamId("");
+      setReason("");
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}/commissioner/actions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}/rosters`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}/standings`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Correction failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!data) return null;
+
+  // Nothing to show members until the commissioner has actually changed something
+  if (!data.isCommissioner && data.actions.length === 0) return null;
+
+  const allTeams = rosters.flatMap(roster => roster.teams.map(team => ({ ...team, ownerName: roster.name })));
+  const needsWeek = actionType !== 'reassign_team';
+  const canSubmit = !!userId
+    && reason.trim().length >= 3
+    && (!needsWeek || !!week)
+    && (actionType !== 'adjust_points' || (points !== "" && Number(points) !== 0))
+    && (actionType !== 'reassign_team' || !!nflTeamId);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <Gavel className="w-5 h-5 text-primary" />
+          <span>Commissioner Log</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.isCommissioner && (
+          <div className="space-y-3 p-4 bg-secondary/50 rounded-lg">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Correction</Label>
+                <Select value={actionType} onValueChange={(value) => setActionType(value as CommissionerActionType)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="adjust_points">Adjust weekly points</SelectItem>
+                    <SelectItem value="reassign_team">Reassign team</SelectItem>
+                    <SelectItem value="void_lock">Void lock</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{actionType === 'reassign_team' ? 'New owner' : 'Member'}</Label>
+                <Select value={userId} onValueChange={setUserId}>
+                  <SelectTrigger><SelectValue placeholder="Select member" /></SelectTrigger>
+                  <SelectContent>
+                    {rosters.map(roster => (
+                      <SelectItem key={roster.userId} value={roster.userId}>{roster.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {needsWeek && (
+                <div className="space-y-1">
+                  <Label htmlFor="commissioner-week" className="text-xs text-muted-foreground">Week</Label>
+                  <Input id="commissioner-week" type="number" min={1} max={18} value={week} onChange={(e) => setWeek(e.target.value)} />
+                </div>
+              )}
+
+              {actionType === 'adjust_points' && (
+                <div className="space-y-1">
+                  <Label htmlFor="commissioner-points" className="text-xs text-muted-foreground">Points (+/-)</Label>
+                  <Input id="commissioner-points" type="number" step={0.5} value={points} onChange={(e) => setPoints(e.target.value)} />
+                </div>
+              )}
+
+              {actionType === 'void_lock' && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Lock</Label>
+                  <Select value={lockType} onValueChange={(value) => setLockType(value as 'lock' | 'lockAndLoad')}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="lock">Lock</SelectItem>
+                      <SelectItem value="lockAndLoad">Lock & Load</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {actionType === 'reassign_team' && (
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Team</Label>
+                  <Select value={nflTeamId} onValueChange={setNflTeamId}>
+                    <SelectTrigger><SelectValue placeholder="Select team" /></SelectTrigger>
+                    <SelectContent>
+                      {allTeams.map(team => (
+                        <SelectItem key={team.id} value={team.id}>{team.code} ({team.ownerName})</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="commissioner-reason" className="text-xs text-muted-foreground">Reason (shown to the league)</Label>
+              <Textarea id="commissioner-reason" value={reason} maxLength={500} onChange={(e) => setReason(e.target.value)} />
+            </div>
+
+            <Button className="w-full" disabled={!canSubmit || submitMutation.isPending} onClick={() => submitMutation.mutate()}>
+              {submitMutation.isPending ? "Saving..." : "Apply Correction"}
+            </Button>
+          </div>
+        )}
+
+        {data.actions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No commissioner corrections this season</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Week</TableHead>
+                <TableHead>Member</TableHead>
+                <TableHead>Change</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.actions.map(action => (
+                <TableRow key={action.id}>
+                  <TableCell className="text-xs">{action.week}</TableCell>
+                  <TableCell className="text-xs">
+                    {action.targetUserName}
+                    {action.counterpartName && <span className="text-muted-foreground"> → {action.counterpartName}</span>}
+                  </TableCell>
+                  <TableCell className="text-xs space-y-1">
+                    <Badge variant="secondary" className="text-xs">{actionLabels[action.action]}</Badge>
+                    <div>{action.details}</div>
+                    {action.action === 'void_lock' && !!action.pointsDelta && (
+                      <div className={action.pointsDelta > 0 ? "text-green-600" : "text-red-600"}>
+                        {action.pointsDelta > 0 ? '+' : ''}{formatPoints(action.pointsDelta)} pts
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {action.reason}
+                    <div className="text-muted-foreground">by {action.commissionerName} • {new Date(action.createdAt).toLocaleDateString()}</div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
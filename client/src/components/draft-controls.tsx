@@ -12,9 +12,30 @@ import { apiRequest } from "@/features/query/api";
 import { useLocation } from "wouter";
 import { apiFetch } from "@/lib/api";
 import { endpoints } from "@/lib/endpoints";
+import { getFreeAgentCount } from "@shared/utils/leagueSize";
+import {
+  DRAFT_MODES,
+  DRAFT_MODE_LABELS,
+  LIVE_PICK_TIME_OPTIONS,
+  SLOW_PICK_WINDOW_HOURS,
+  DEFAULT_LIVE_PICK_TIME,
+  DEFAULT_SLOW_PICK_WINDOW_HOURS,
+  formatPickClock,
+  type DraftMode
+} from "@shared/utils/draftMode";
+import {
+  DRAFT_FORMATS,
+  DRAFT_FORMAT_LABELS,
+  AUCTION_BUDGET_OPTIONS,
+  AUCTION_BID_SECONDS,
+  DEFAULT_AUCTION_BUDGET,
+  type DraftFormat
+} from "@shared/utils/auction";
 
 interface DraftControlsProps {
   leagueId: string;
+  memberCount: number;
+  totalRounds: number; // League's teams per member
   canCreateDraft: boolean;
   canStartDraft: boolean;
   draftId?: string;
@@ -24,6 +45,8 @@ interface DraftControlsProps {
 
 export default function DraftControls({
   leagueId,
+  memberCount,
+  totalRounds,
   canCreateDraft,
   canStartDraft,
   draftId,
@@ -35,9 +58,12 @@ export default function DraftControls({
   const [, setLocation] = useLocation();
   
   const [showSettings, setShowSettings] = useState(false);
-  const [pickTimeLimit, setPickTimeLimit] = useState(120); // Default 2 minutes to match server
+  const [draftMode, setDraftMode] = useState<DraftMode>('live');
+  const [draftFormat, setDraftFormat] = useState<DraftFormat>('snake');
+  const [auctionBudget, setAuctionBudget] = useState(DEFAULT_AUCTION_BUDGET);
+  const [pickTimeLimit, setPickTimeLimit] = useState(DEFAULT_LIVE_PICK_TIME); // Default 2 minutes to match server
   const [starting, setStarting] = useState(false);
-  const totalRounds = 5; // Fixed to 5 rounds for 6-person leagues
+  const freeAgentCount = getFreeAgentCount(memberCount, totalRounds);
   
 
   // Start draft and navigate immediately - idempotent handler
@@ -53,7 +79,10 @@ export default function DraftControls({
     try {
       console.log('[StartDraft] ✅ Starting draft for league:', leagueId);
       
-      const res = await apiFetch(endpoints.startLeagueDraft(leagueId), { method: "POST" });
+      const res = await apiFetch(endpoints.startLeagueDraft(leagueId), {
+        method: "POST",
+        body: JSON.stringify({ draftMode, pickTimeLimit, draftFormat, auctionBudget })
+      });
       if (!res.ok) throw new Error(await res.text().catch(() => `Failed (${res.status})`));
       const body = await res.json();
       
@@ -278,27 +307,106 @@ export default function DraftControls({
                       Total Rounds
                     </Label>
                     <div className="text-sm text-muted-foreground mt-1">
-                      Fixed at 5 rounds for 6-person leagues
+                      {totalRounds} rounds - set by the league's teams per member
                     </div>
                   </div>
                   
+                  <div>
+                    <Label htmlFor="draftFormat" className="text-sm">
+                      Draft Format
+                    </Label>
+                    <Select
+                      value={draftFormat}
+                      onValueChange={(value) => {
+                        const format = value as DraftFormat;
+                        setDraftFormat(format);
+                        // Bidding happens in real time, so auctions are always live
+                        if (format === 'auction' && draftMode === 'slow') {
+                          setDraftMode('live');
+                          setPickTimeLimit(DEFAULT_LIVE_PICK_TIME);
+                        }
+                      }}
+                    >
+                      <SelectTrigger id="draftFormat">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DRAFT_FORMATS.map(format => (
+                          <SelectItem key={format} value={format}>{DRAFT_FORMAT_LABELS[format]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {draftFormat === 'auction' && (
+                    <div>
+                      <Label htmlFor="auctionBudget" className="text-sm">
+                        Budget per Member
+                      </Label>
+                      <Select
+                        value={auctionBudget.toString()}
+                        onValueChange={(value) => setAuctionBudget(Number(value))}
+                      >
+                        <SelectTrigger id="auctionBudget">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {AUCTION_BUDGET_OPTIONS.map(budget => (
+                            <SelectItem key={budget} value={budget.toString()}>${budget}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {draftFormat === 'snake' && (
+                    <div>
+                      <Label htmlFor="draftMode" className="text-sm">
+                        Draft Mode
+                      </Label>
+                      <Select
+                        value={draftMode}
+                        onValueChange={(value) => {
+                          const mode = value as DraftMode;
+                          setDraftMode(mode);
+                          setPickTimeLimit(mode === 'slow' ? DEFAULT_SLOW_PICK_WINDOW_HOURS * 3600 : DEFAULT_LIVE_PICK_TIME);
+                        }}
+                      >
+                        <SelectTrigger id="draftMode">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DRAFT_MODES.map(mode => (
+                            <SelectItem key={mode} value={mode}>{DRAFT_MODE_LABELS[mode]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   <div>
                     <Label htmlFor="pickTimeLimit" className="text-sm">
-                      Pick Timer (seconds)
+                      {draftMode === 'slow' ? 'Pick Window' : draftFormat === 'auction' ? 'Nomination Timer' : 'Pick Timer (seconds)'}
                     </Label>
                     <Select 
                       value={pickTimeLimit.toString()} 
                       onValueChange={(value) => setPickTimeLimit(Number(value))}
                     >
-                      <SelectTrigger>
+                      <SelectTrigger id="pickTimeLimit">
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="30">30 seconds</SelectItem>
-                        <SelectItem value="60">60 seconds</SelectItem>
-                        <SelectItem value="90">90 seconds</SelectItem>
-                        <SelectItem value="120">2 minutes</SelectItem>
-                        <SelectItem value="180">3 minutes</SelectItem>
+                        {draftMode === 'slow'
+                          ? SLOW_PICK_WINDOW_HOURS.map(hours => (
+                              <SelectItem key={hours} value={(hours * 3600).toString()}>
+                                {hours} {hours === 1 ? 'hour' : 'hours'}
+                              </SelectItem>
+                            ))
+                          : LIVE_PICK_TIME_OPTIONS.map(seconds => (
+                              <SelectItem key={seconds} value={seconds.toString()}>
+                                {seconds < 120 ? `${seconds} seconds` : `${seconds / 60} minutes`}
+                              </SelectItem>
+                            ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -309,9 +417,19 @@ export default function DraftControls({
                     <Users className="w-3 h-3" />
                     <span>Each user drafts {totalRounds} teams</span>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <Users className="w-3 h-3" />
+                    <span>{freeAgentCount} {freeAgentCount === 1 ? 'team stays' : 'teams stay'} in the free agent pool</span>
+                  </div>
                   <div className="flex items-center space-x-2">
                     <Clock className="w-3 h-3" />
-                    <span>{pickTimeLimit}s timer per pick (auto-pick on timeout)</span>
+                    <span>
+                      {draftFormat === 'auction'
+                        ? `$${auctionBudget} each, ${pickTimeLimit}s to nominate, ${AUCTION_BID_SECONDS}s countdown that restarts on every bid`
+                        : draftMode === 'slow'
+                        ? `${formatPickClock(pickTimeLimit)} per pick with push reminders (auto-pick on timeout)`
+                        : `${pickTimeLimit}s timer per pick (auto-pick on timeout)`}
+                    </span>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, ListOrdered, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { endpoints } from "@/lib/endpoints";
+
+interface QueueTeam {
+  id: string;
+  code: string;
+  city: string;
+  name: string;
+}
+
+interface DraftQueueResponse {
+  queue: Array<{ nflTeamId: string; rank: number; nflTeam: QueueTeam }>;
+}
+
+interface DraftQueueProps {
+  draftId: string;
+  availableTeams: QueueTeam[];
+}
+
+export default function DraftQueue({ draftId, availableTeams }: DraftQueueProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [teamToAdd, setTeamToAdd] = useState("");
+
+  const queueKey = [endpoints.draftQueue(draftId)];
+
+  const { data } = useQuery<DraftQueueResponse>({
+    queryKey: queueKey,
+    queryFn: () => apiRequest('GET', endpoints.draftQueue(draftId)),
+    enabled: !!draftId,
+  });
+
+  const saveQueue = useMutation({
+    mutationFn: (nflTeamIds: string[]) => apiRequest('PUT', endpoints.draftQueue(draftId), { nflTeamIds }),
+    onSuccess: (result: DraftQueueResponse) => {
+      queryClient.setQueryData(queueKey, { queue: result.queue });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save queue", description: error.message, variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: queueKey });
+    },
+  });
+
+  // Teams drafted since the queue was loaded drop off straight away
+  const availableIds = new Set(availableTeams.map(team => team.id));
+  const queue = (data?.queue ?? []).filter(entry => availableIds.has(entry.nflTeamId));
+  const queuedIds = queue.map(entry => entry.nflTeamId);
+  const unqueuedTeams = availableTeams.filter(team => !queuedIds.includes(team.id));
+
+  const moveTeam = (index: number, offset: number) => {
+    const next = [...queuedIds];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    saveQueue.mutate(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          My Queue
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          If your clock runs out, auto-pick takes the highest team here you're allowed to draft.
+          With an empty queue it falls back to the best records from last season.
+        </p>
+
+        <div className="flex gap-2">
+          <Select value={teamToAdd} onValueChange={setTeamToAdd}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Add a team" />
+            </SelectTrigger>
+            <SelectContent>
+              {unqueuedTeams.map(team => (
+                <SelectItem key={team.id} value={team.id}>{team.city} {team.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            disabled={!teamToAdd || saveQueue.isPending}
+            onClick={() => {
+              saveQueue.mutate([...queuedIds, teamToAdd]);
+              setTeamToAdd("");
+            }}
+          >
+            Add
+          </Button>
+        </div>
+
+        {queue.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No teams queued</p>
+        ) : (
+          <div className="space-y-2 max-h-72 overflow-y-auto">
+            {queue.map((entry, index) => (
+              <div key={entry.nflTeamId} className="flex items-center gap-2 p-2 rounded border">
+                <div className="text-sm font-mono w-6">{index + 1}</div>
+                <p className="flex-1 text-sm font-medium truncate">{entry.nflTeam.city} {entry.nflTeam.name}</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  disabled={index === 0 || saveQueue.isPending}
+                  onClick={() => moveTeam(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  disabled={index === queue.length - 1 || saveQueue.isPending}
+                  onClick={() => moveTeam(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  disabled={saveQueue.isPending}
+                  onClick={() => saveQueue.mutate(queuedIds.filter(id => id !== entry.nflTeamId))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
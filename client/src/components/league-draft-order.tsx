@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListOrdered, ChevronUp, ChevronDown, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { DRAFT_ORDER_METHODS, DRAFT_ORDER_LABELS, type DraftOrderMethod } from "@shared/utils/draftOrder";
+
+interface DraftOrderMember {
+  id: string;
+  name: string;
+}
+
+interface LeagueDraftOrderResponse {
+  method: DraftOrderMethod;
+  manualOrder: string[];
+  members: DraftOrderMember[];
+  isCommissioner: boolean;
+  editable: boolean;
+  draft: {
+    id: string;
+    status: string;
+    orderMethod: DraftOrderMethod;
+    orderSeed: string | null;
+    orderSeason: number | null;
+    order: DraftOrderMember[];
+  } | null;
+}
+
+interface LeagueDraftOrderProps {
+  leagueId: string;
+}
+
+// Members in the saved manual order first, anyone who joined since at the end
+function arrangeMembers(members: DraftOrderMember[], manualOrder: string[]): DraftOrderMember[] {
+  const arranged = manualOrder
+    .map(id => members.find(member => member.id === id))
+    .filter((member): member is DraftOrderMember => !!member);
+  return [...arranged, ...members.filter(member => !manualOrder.includes(member.id))];
+}
+
+export default function LeagueDraftOrder({ leagueId }: LeagueDraftOrderProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [method, setMethod] = useState<DraftOrderMethod>('random');
+  const [manualOrder, setManualOrder] = useState<DraftOrderMember[]>([]);
+
+  const { data } = useQuery<LeagueDraftOrderResponse>({
+    queryKey: [`/api/leagues/${leagueId}/draft-order`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${leagueId}/draft-order`),
+    enabled: !!leagueId,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setMethod(data.method);
+    setManualOrder(arrangeMembers(data.members, data.manualOrder));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('PUT', `/api/leagues/${leagueId}/draft-order`, {
+      method,
+      manualOrder: method === 'manual' ? manualOrder.map(member => member.id) : undefined,
+    }),
+    onSuccess: () => {
+      toast({ title: "Draft order saved", description: DRAFT_ORDER_LABELS[method] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}/draft-order`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save draft order", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!data) return null;
+
+  const moveMember = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= manualOrder.length) return;
+    const next = [...manualOrder];
+    [next[index], next[target]] = [next[target], next[index]];
+    setManualOrder(next);
+  };
+
+  const isDirty = method !== data.method
+    || (method === 'manual' && manualOrder.map(member => member.id).join() !== data.manualOrder.join());
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <ListOrdered className="w-5 h-5 text-primary" />
+            <span>Draft Order</span>
+          </span>
+          {!data.editable && data.isCommissioner && <Badge variant="secondary" className="text-xs">Draft in progress</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-1">
+          <Label htmlFor="draft-order-method" className="text-xs text-muted-foreground">Method</Label>
+          <Select
+            value={method}
+            onValueChange={(value) => setMethod(value as DraftOrderMethod)}
+            disabled={!data.editable}
+          >
+            <SelectTrigger id="draft-order-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DRAFT_ORDER_METHODS.map(option => (
+                <SelectItem key={option} value={option}>{DRAFT_ORDER_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {method === 'manual' && data.editable && (
+          <ol className="space-y-1">
+            {manualOrder.map((member, index) => (
+              <li key={member.id} className="flex items-center gap-2 text-sm">
+                <span className="w-6 text-muted-foreground">{index + 1}.</span>
+                <span className="flex-1 truncate">{member.name}</span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => moveMember(index, -1)}>
+                  <ChevronUp className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === manualOrder.length - 1} onClick={() => moveMember(index, 1)}>
+                  <ChevronDown className="w-4 h-4" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {data.editable && (
+          <Button
+            className="w-full"
+            disabled={!isDirty || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            <Save className="w-4 h-4 mr-2" />
+            Save
+          </Button>
+        )}
+
+        {/* What the draft actually used - the lottery seed lets anyone re-check the order */}
+        {data.draft && (
+          <div className="pt-3 border-t space-y-2">
+            <p className="text-xs text-muted-foreground">
+              {DRAFT_ORDER_LABELS[data.draft.orderMethod]}
+              {data.draft.orderSeason && ` (${data.draft.orderSeason} season)`}
+              {data.draft.orderSeed && <> &middot; seed <code className="font-mono">{data.draft.orderSeed}</code></>}
+            </p>
+            <ol className="text-sm space-y-0.5">
+              {data.draft.order.map((member, index) => (
+                <li key={member.id}>
+                  <span className="text-muted-foreground mr-2">{index + 1}.</span>
+                  {member.name}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        {!data.isCommissioner && (
+          <p className="text-xs text-muted-foreground">Only the commissioner can choose how the draft order is set.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,184 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TeamLogo } from "@/components/team-logo";
+import { Lock, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { keeperRoundCosts } from "@shared/utils/keepers";
+
+interface KeeperTeam {
+  id: string;
+  code: string;
+  name: string;
+  city: string;
+  conference: string;
+  division: string;
+  logoUrl: string;
+}
+
+interface LeagueKeepersResponse {
+  keeperLimit: number;
+  maxKeeperLimit: number;
+  season: number | null;
+  isCommissioner: boolean;
+  editable: boolean;
+  stable: KeeperTeam[];
+  myKeepers: string[];
+  members: Array<{
+    id: string;
+    name: string;
+    keepers: Array<KeeperTeam & { roundCost: number }>;
+  }>;
+}
+
+interface LeagueKeepersProps {
+  leagueId: string;
+  teamsPerMember: number;
+}
+
+export default function LeagueKeepers({ leagueId, teamsPerMember }: LeagueKeepersProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const { data } = useQuery<LeagueKeepersResponse>({
+    queryKey: [`/api/leagues/${leagueId}/keepers`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${leagueId}/keepers`),
+    enabled: !!leagueId,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setSelected(data.myKeepers);
+  }, [data]);
+
+  const limitMutation = useMutation({
+    mutationFn: (keeperLimit: number) => apiRequest('PUT', `/api/leagues/${leagueId}/keepers/limit`, { keeperLimit }),
+    onSuccess: (_result, keeperLimit) => {
+      toast({ title: "Keeper limit saved", description: keeperLimit === 0 ? "Keepers are off" : `Up to ${keeperLimit} per member` });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}/keepers`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save keeper limit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('PUT', `/api/leagues/${leagueId}/keepers`, { nflTeamIds: selected }),
+    onSuccess: () => {
+      toast({ title: "Keepers saved", description: selected.length === 0 ? "You're not keeping any teams" : `Keeping ${selected.length}` });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}/keepers`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save keepers", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Nothing to show a member until the commissioner turns keepers on
+  if (!data || (data.keeperLimit === 0 && !data.isCommissioner)) return null;
+
+  const toggleTeam = (teamId: string) => {
+    setSelected(current => current.includes(teamId)
+      ? current.filter(id => id !== teamId)
+      : current.length < data.keeperLimit ? [...current, teamId] : current);
+  };
+
+  const roundCosts = keeperRoundCosts(selected.length, teamsPerMember);
+  const isDirty = selected.join() !== data.myKeepers.join();
+  const keptMembers = data.members.filter(member => member.keepers.length > 0);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Lock className="w-5 h-5 text-primary" />
+            <span>Keepers</span>
+          </span>
+          {!data.editable && <Badge variant="secondary" className="text-xs">Locked</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.isCommissioner && (
+          <div className="space-y-1">
+            <Label htmlFor="keeper-limit" className="text-xs text-muted-foreground">Keepers per member</Label>
+            <Select
+              value={data.keeperLimit.toString()}
+              onValueChange={(value) => limitMutation.mutate(parseInt(value))}
+              disabled={!data.editable || limitMutation.isPending}
+            >
+              <SelectTrigger id="keeper-limit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: data.maxKeeperLimit + 1 }, (_, count) => (
+                  <SelectItem key={count} value={count.toString()}>
+                    {count === 0 ? 'No keepers' : `${count} ${count === 1 ? 'team' : 'teams'}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {/* The member's own stable - tap in priority order; the first costs the last round */}
+        {data.keeperLimit > 0 && data.editable && data.stable.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">
+              Keep up to {data.keeperLimit} from last season. Each keeper takes one of your picks, starting with your last round.
+            </p>
+            <div className="space-y-1">
+              {data.stable.map(team => {
+                const order = selected.indexOf(team.id);
+                return (
+                  <button
+                    key={team.id}
+                    type="button"
+                    onClick={() => toggleTeam(team.id)}
+                    className={`w-full flex items-center justify-between p-2 rounded-lg border text-left ${order >= 0 ? 'border-primary/40 bg-primary/5' : 'border-border/50'}`}
+                  >
+                    <span className="flex items-center space-x-3">
+                      <TeamLogo logoUrl={team.logoUrl} teamCode={team.code} teamName={team.name} size="sm" />
+                      <span className="text-sm">{team.city} {team.name}</span>
+                    </span>
+                    {order >= 0 && <Badge className="text-xs">Round {roundCosts[order]}</Badge>}
+                  </button>
+                );
+              })}
+            </div>
+            <Button
+              className="w-full"
+              disabled={!isDirty || saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save Keepers
+            </Button>
+          </div>
+        )}
+
+        {keptMembers.length > 0 && (
+          <div className="pt-3 border-t space-y-2">
+            {keptMembers.map(member => (
+              <div key={member.id} className="text-sm">
+                <span className="font-medium">{member.name}</span>
+                <span className="text-muted-foreground">
+                  {' '}&middot; {member.keepers.map(keeper => `${keeper.code} (Rd ${keeper.roundCost})`).join(', ')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data.season !== null && (
+          <p className="text-xs text-muted-foreground">Keepers for the {data.season} draft lock when it starts.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Trophy, RotateCcw, Save } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import type { MokScoringRules } from "@shared/utils/scoring";
+
+interface LeagueScoringRulesResponse {
+  rules: MokScoringRules;
+  defaults: MokScoringRules;
+  isCommissioner: boolean;
+  editable: boolean;
+  seasonStarted: boolean;
+}
+
+// Display order and labels - half-point steps for point values, whole numbers for margins and limits
+const RULE_FIELDS: { key: keyof MokScoringRules; label: string; step: number }[] = [
+  { key: 'winPoints', label: 'Win', step: 0.5 },
+  { key: 'tiePoints', label: 'Tie', step: 0.5 },
+  { key: 'lossPoints', label: 'Loss', step: 0.5 },
+  { key: 'blowoutPoints', label: 'Blowout bonus', step: 0.5 },
+  { key: 'blowoutMargin', label: 'Blowout margin (pts)', step: 1 },
+  { key: 'shutoutPoints', label: 'Shutout bonus', step: 0.5 },
+  { key: 'weeklyHighPoints', label: 'Weekly high bonus', step: 0.5 },
+  { key: 'weeklyLowPenalty', label: 'Weekly low penalty', step: 0.5 },
+  { key: 'lockBonusPoints', label: 'Lock win bonus', step: 0.5 },
+  { key: 'lockAndLoadWinPoints', label: 'Lock & Load win', step: 0.5 },
+  { key: 'lockAndLoadLossPenalty', label: 'Lock & Load loss', step: 0.5 },
+  { key: 'maxLocksPerTeamPerSeason', label: 'Locks per team / season', step: 1 },
+  { key: 'maxLockAndLoadPerTeamPerSeason', label: 'Lock & Loads per team / season', step: 1 },
+];
+
+interface LeagueScoringRulesProps {
+  leagueId: string;
+}
+
+export default function LeagueScoringRules({ leagueId }: LeagueScoringRulesProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [draftRules, setDraftRules] = useState<MokScoringRules | null>(null);
+
+  const { data } = useQuery<LeagueScoringRulesResponse>({
+    queryKey: [`/api/leagues/${leagueId}/scoring-rules`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${leagueId}/scoring-rules`),
+    enabled: !!leagueId,
+  });
+
+  useEffect(() => {
+    if (data?.rules) setDraftRules(data.rules);
+  }, [data?.rules]);
+
+  const saveMutation = useMutation({
+    mutationFn: (rules: MokScoringRules) => apiRequest('PUT', `/api/leagues/${leagueId}/scoring-rules`, rules),
+    onSuccess: () => {
+      toast({ title: "Scoring rules saved", description: "New rules apply to every week this season" });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}/scoring-rules`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't save scoring rules", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!data || !draftRules) return null;
+
+  const isDirty = RULE_FIELDS.some(({ key }) => draftRules[key] !== data.rules[key]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center space-x-2">
+            <Trophy className="w-5 h-5 text-primary" />
+            <span>Scoring Rules</span>
+          </span>
+          {data.seasonStarted && <Badge variant="secondary" className="text-xs">Locked for season</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          {RULE_FIELDS.map(({ key, label, step }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`rule-${key}`} className="text-xs text-muted-foreground">{label}</Label>
+              <Input
+                id={`rule-${key}`}
+                type="number"
+                step={step}
+                value={draftRules[key]}
+                disabled={!data.editable}
+                onChange={(e) => setDraftRules({ ...draftRules, [key]: Number(e.target.value) })}
+              />
+            </div>
+          ))}
+        </div>
+
+        {data.editable && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => setDraftRules(data.defaults)}
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Official Rules
+            </Button>
+            <Button
+              className="flex-1"
+              disabled={!isDirty || saveMutation.isPending}
+              onClick={() => saveMutation.mutate(draftRules)}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save
+            </Button>
+          </div>
+        )}
+        {!data.isCommissioner && (
+          <p className="text-xs text-muted-foreground">Only the commissioner can change scoring rules, and only before the season starts.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
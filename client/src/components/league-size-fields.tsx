@@ -0,0 +1,75 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  MIN_LEAGUE_MEMBERS,
+  MAX_LEAGUE_MEMBERS,
+  MIN_TEAMS_PER_MEMBER,
+  getMaxTeamsPerMember,
+  getFreeAgentCount,
+} from "@shared/utils/leagueSize";
+
+export interface LeagueSize {
+  maxTeams: number;
+  teamsPerMember: number;
+}
+
+interface LeagueSizeFieldsProps {
+  value: LeagueSize;
+  onChange: (value: LeagueSize) => void;
+  testIdSuffix?: string;
+}
+
+function range(min: number, max: number): number[] {
+  return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+}
+
+export default function LeagueSizeFields({ value, onChange, testIdSuffix = "" }: LeagueSizeFieldsProps) {
+  const maxTeamsPerMember = getMaxTeamsPerMember(value.maxTeams);
+  const freeAgentCount = getFreeAgentCount(value.maxTeams, value.teamsPerMember);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Members</Label>
+          <Select
+            value={value.maxTeams.toString()}
+            onValueChange={(members) => {
+              const maxTeams = Number(members);
+              // Shrink stables that no longer fit in the 32 NFL teams
+              onChange({ maxTeams, teamsPerMember: Math.min(value.teamsPerMember, getMaxTeamsPerMember(maxTeams)) });
+            }}
+          >
+            <SelectTrigger data-testid={`select-league-members${testIdSuffix}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {range(MIN_LEAGUE_MEMBERS, MAX_LEAGUE_MEMBERS).map(members => (
+                <SelectItem key={members} value={members.toString()}>{members} players</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Teams per member</Label>
+          <Select
+            value={value.teamsPerMember.toString()}
+            onValueChange={(teams) => onChange({ ...value, teamsPerMember: Number(teams) })}
+          >
+            <SelectTrigger data-testid={`select-teams-per-member${testIdSuffix}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {range(MIN_TEAMS_PER_MEMBER, maxTeamsPerMember).map(teams => (
+                <SelectItem key={teams} value={teams.toString()}>{teams} teams</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {value.teamsPerMember}-round snake draft • {freeAgentCount} {freeAgentCount === 1 ? 'team' : 'teams'} left as free agents
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState, startTransition } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bot } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { LIVE_PICK_TIME_OPTIONS, DEFAULT_LIVE_PICK_TIME } from "@shared/utils/draftMode";
+
+interface MockDraftDialogProps {
+  className?: string;
+}
+
+export default function MockDraftDialog({ className }: MockDraftDialogProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [open, setOpen] = useState(false);
+  const [pickTimeLimit, setPickTimeLimit] = useState(DEFAULT_LIVE_PICK_TIME);
+
+  const startMockDraft = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/mock-drafts', { pickTimeLimit }),
+    onSuccess: (result: any) => {
+      setOpen(false);
+      startTransition(() => navigate(`/draft/${result.draft.id}`));
+    },
+    onError: (error: any) => {
+      toast({ title: "Couldn't start mock draft", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className={className}>
+          <Bot className="w-4 h-4 mr-2" />
+          Mock Draft
+        </Button>
+      </DialogTrigger>
+      <DialogContent aria-describedby="mock-draft-desc">
+        <DialogHeader>
+          <DialogTitle>Mock Draft</DialogTitle>
+          <DialogDescription id="mock-draft-desc">
+            Practice a live draft against five robots. Nothing from it touches your leagues, and it's deleted an hour after the last pick.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="mock-pick-timer" className="text-xs text-muted-foreground">Pick Timer</Label>
+            <Select
+              value={pickTimeLimit.toString()}
+              onValueChange={(value) => setPickTimeLimit(parseInt(value))}
+            >
+              <SelectTrigger id="mock-pick-timer">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LIVE_PICK_TIME_OPTIONS.map(seconds => (
+                  <SelectItem key={seconds} value={seconds.toString()}>
+                    {seconds < 120 ? `${seconds} seconds` : `${seconds / 60} minutes`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            className="w-full"
+            disabled={startMockDraft.isPending}
+            onClick={() => startMockDraft.mutate()}
+          >
+            {startMockDraft.isPending ? "Starting..." : "Start Mock Draft"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ interface League {
   joinCode: string;
   memberCount: number;
   maxTeams: number;
+  teamsPerMember: number;
   creatorId: string;
   draftStarted: boolean;
   draftId: string | null;
@@ -4,8 +4,18 @@ import { wsUrl } from "@/lib/endpoints";
 type Callbacks = {
   onDraftState?(state: any): void;
   onTimerUpdate?(t: { display: number }): void;
+  onDraftControl?(event: { type: DraftControlEvent; data: any }): void;
+  onAuctionEvent?(event: { type: AuctionEvent; data: any }): void;
 };
 
+// Commissioner actions that change the draft underneath everyone
+export type DraftControlEvent = "draft_paused" | "draft_resumed" | "pick_undone";
+const draftControlEvents: DraftControlEvent[] = ["draft_paused", "draft_resumed", "pick_undone"];
+
+// Nominations and bids update the open lot; a sale also adds a pick to the board
+export type AuctionEvent = "auction_update" | "auction_sold";
+const auctionEvents: AuctionEvent[] = ["auction_update", "auction_sold"];
+
 function decodeMessage(raw: any) {
   let msg: any = raw;
   if (typeof raw === "string") {
@@ -68,6 +78,10 @@ export function useDraftWebSocket(
         if (t && typeof t.display !== "undefined") {
           cbsRef.current?.onTimerUpdate?.(t);
         }
+      } else if (draftControlEvents.includes(msg.type)) {
+        cbsRef.current?.onDraftControl?.({ type: msg.type, data: msg.data });
+      } else if (auctionEvents.includes(msg.type)) {
+        cbsRef.current?.onAuctionEvent?.({ type: msg.type, data: msg.data });
       }
     };
 
@@ -12,6 +12,11 @@ export const endpoints = {
   draft: (draftId: string) => `${apiBase}/drafts/${draftId}`,
   draftState: (draftId: string) => `${apiBase}/drafts/${draftId}/state`,
   draftAvailableTeams: (draftId: string) => `${apiBase}/drafts/${draftId}/available-teams`,
+  draftQueue: (draftId: string) => `${apiBase}/drafts/${draftId}/queue`,
+  draftRecap: (draftId: string) => `${apiBase}/drafts/${draftId}/recap`,
+  draftAuction: (draftId: string) => `${apiBase}/drafts/${draftId}/auction`,
+  draftNominate: (draftId: string) => `${apiBase}/drafts/${draftId}/nominate`,
+  draftBid: (draftId: string) => `${apiBase}/drafts/${draftId}/bid`,
   draftsLeague: (leagueId: string) => `${apiBase}/drafts/league/${leagueId}`,
   
   // League endpoints
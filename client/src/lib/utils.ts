@@ -3,4 +3,10 @@ import { twMerge } from "tailwind-merge"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+// Mok points can include tie half-points - show "2.5" but never "3.0"
+export function formatPoints(points: number | string | null | undefined): string {
+  const value = Number(points ?? 0)
+  if (!Number.isFinite(value)) return "0"
+  return Number.isInteger(value) ? String(value) : value.toFixed(1)
+}
@@ -3,7 +3,7 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Calendar, ChevronRight, RotateCcw, LogOut } from "lucide-react";
+import { ArrowLeft, Calendar, ChevronRight, RotateCcw, LogOut, RefreshCw } from "lucide-react";
 import { useLocation } from "wouter";
 
 import { useAuth } from "@/features/auth/useAuth";
@@ -19,6 +19,19 @@ interface AdminState {
   season: number;
 }
 
+// One league's end-of-week processing for a week
+interface WeekProcessingRun {
+  id: string;
+  leagueId: string;
+  leagueName: string;
+  week: number;
+  status: 'running' | 'completed' | 'failed';
+  attempts: number;
+  startedAt: string;
+  completedAt: string | null;
+  error: string | null;
+}
+
 export default function AdminPanel() {
   const [, navigate] = useLocation();
   const { logout } = useAuth();
@@ -69,6 +82,25 @@ export default function AdminPanel() {
     }
   });
 
+  const { data: weekRuns } = useQuery<{ season: number; runs: WeekProcessingRun[] }>({
+    queryKey: ['/api/admin/week-processing-runs'],
+    refetchInterval: 5000
+  });
+
+  const retryRunMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const response = await fetch(`/api/admin/week-processing-runs/${runId}/retry`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      if (!response.ok) throw new Error('Failed to retry week processing');
+      return response.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/week-processing-runs'] });
+    }
+  });
+
   // Removed season switching - focus on 2024 testing season only
 
   // Helper functions
@@ -239,6 +271,53 @@ export default function AdminPanel() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* End-of-week processing per league */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Week Processing</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!weekRuns?.runs.length ? (
+                  <p className="text-sm text-muted-foreground">No weeks processed yet this season.</p>
+                ) : (
+                  weekRuns.runs.map(run => (
+                    <div key={run.id} className="flex items-start justify-between gap-3 border-b pb-3 last:border-0 last:pb-0">
+                      <div className="space-y-1 min-w-0">
+                        <div className="text-sm font-medium">
+                          Week {run.week} · {run.leagueName}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {run.completedAt
+                            ? `Completed ${new Date(run.completedAt).toLocaleString()}`
+                            : `Started ${new Date(run.startedAt).toLocaleString()}`}
+                          {run.attempts > 1 && ` · ${run.attempts} attempts`}
+                        </div>
+                        {run.status === 'failed' && run.error && (
+                          <div className="text-xs text-destructive break-words">{run.error}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge variant={run.status === 'failed' ? "destructive" : run.status === 'running' ? "default" : "secondary"}>
+                          {run.status}
+                        </Badge>
+                        {run.status === 'failed' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => retryRunMutation.mutate(run.id)}
+                            disabled={retryRunMutation.isPending}
+                          >
+                            <RefreshCw className="w-4 h-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
           </div>
         </div>
       </div>
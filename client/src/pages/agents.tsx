@@ -1,28 +1,299 @@
 import { BottomNav } from "@/components/layout/bottom-nav";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Star } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { TeamLogo } from "@/components/team-logo";
+import { useAuth } from "@/features/auth/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect } from "react";
+import { Star, Plus, Search, Clock, ArrowLeftRight, Hourglass, X } from "lucide-react";
+
+interface FreeAgentTeam {
+  id: string;
+  code: string;
+  name: string;
+  city: string;
+  logoUrl: string;
+  record: string;
+  upcomingOpponent: string;
+  gameDate: string | null;
+  gameTime: string | null;
+  isBye: boolean;
+}
+
+interface FreeAgentPool {
+  week: number;
+  season: number;
+  tradeWindowOpen: boolean;
+  teams: FreeAgentTeam[];
+}
+
+interface WaiverStatus {
+  season: number;
+  week: number;
+  inWaiverPeriod: boolean;
+  waiverPeriodEndsAt: string | null;
+  waiverOrder: { priority: number; userId: string; userName: string; isCurrentUser: boolean }[];
+  claims: {
+    id: string;
+    week: number;
+    status: 'pending' | 'won' | 'lost' | 'cancelled';
+    failureReason: string | null;
+    claimTeam: FreeAgentTeam | null;
+    dropTeam: FreeAgentTeam | null;
+  }[];
+}
 
 export default function AgentsPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [searchQuery, setSearchQuery] = useState("");
+  const [claimTeam, setClaimTeam] = useState<FreeAgentTeam | null>(null);
+  const [dropTeamId, setDropTeamId] = useState<string | null>(null);
+
+  const { data: leagues = [] } = useQuery({
+    queryKey: ['/api/user/leagues'],
+    enabled: !!user,
+  });
+
+  // Same league selection as the stable page
+  const [selectedLeague, setSelectedLeague] = useState<string>(() =>
+    localStorage.getItem('selectedLeague') || localStorage.getItem('lastDraftLeagueId') || ''
+  );
+
+  useEffect(() => {
+    if (!selectedLeague && Array.isArray(leagues) && leagues.length) {
+      setSelectedLeague((leagues as any[])[0].id);
+    }
+  }, [leagues, selectedLeague]);
+
+  const { data: pool, isLoading } = useQuery<FreeAgentPool>({
+    queryKey: [`/api/leagues/${selectedLeague}/free-agents`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${selectedLeague}/free-agents`),
+    enabled: !!user && !!selectedLeague,
+  });
+
+  const { data: myTeams = [] } = useQuery<any[]>({
+    queryKey: [`/api/user/stable/${selectedLeague}`],
+    queryFn: () => apiRequest('GET', `/api/user/stable/${selectedLeague}`),
+    enabled: !!user && !!selectedLeague,
+  });
+
+  const { data: waivers } = useQuery<WaiverStatus>({
+    queryKey: [`/api/leagues/${selectedLeague}/waivers`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${selectedLeague}/waivers`),
+    enabled: !!user && !!selectedLeague,
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: ({ claimTeamId, dropTeamId }: { claimTeamId: string; dropTeamId: string }) =>
+      apiRequest('POST', '/api/stable/claim-free-agent', { leagueId: selectedLeague, claimTeamId, dropTeamId }),
+    onSuccess: (result: any) => {
+      toast(result?.queued ? {
+        title: "Waiver claim submitted",
+        description: `Your claim for the ${claimTeam?.city} ${claimTeam?.name} will be processed when waivers clear`,
+      } : {
+        title: "Free agent claimed!",
+        description: `${claimTeam?.city} ${claimTeam?.name} joined your stable`,
+      });
+      setClaimTeam(null);
+      setDropTeamId(null);
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${selectedLeague}/free-agents`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${selectedLeague}/waivers`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/user/stable/${selectedLeague}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${selectedLeague}/transactions`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Claim failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelWaiverMutation = useMutation({
+    mutationFn: (claimId: string) => apiRequest('POST', `/api/waivers/${claimId}/cancel`),
+    onSuccess: () => {
+      toast({ title: "Waiver claim cancelled" });
+      queryClient.invalidateQueries({ queryKey: [`/api/leagues/${selectedLeague}/waivers`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Cancel failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pendingClaims = (waivers?.claims || []).filter(claim => claim.status === 'pending');
+  const recentClaims = (waivers?.claims || []).filter(claim => claim.status !== 'pending' && claim.week === waivers?.week);
+  const myWaiverPriority = waivers?.waiverOrder.find(entry => entry.isCurrentUser)?.priority;
+
+  const tradeWindowOpen = pool?.tradeWindowOpen ?? false;
+  const filteredTeams = (pool?.teams || []).filter(team =>
+    `${team.city} ${team.name} ${team.code}`.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
-        <div className="flex items-center space-x-2">
-          <Star className="w-6 h-6 text-primary" />
-          <h1 className="text-2xl font-bold">Free Agents</h1>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Star className="w-6 h-6 text-primary" />
+            <h1 className="text-2xl font-bold">Free Agents</h1>
+          </div>
+          {pool && (
+            <Badge variant={tradeWindowOpen ? "default" : "secondary"} className="text-xs">
+              Week {pool.week} • {tradeWindowOpen ? 'Open' : 'Closed'}
+            </Badge>
+          )}
+        </div>
+
+        {pool && !tradeWindowOpen && (
+          <div className="flex items-center space-x-2 p-3 rounded-md bg-orange-50 dark:bg-orange-950/20 text-orange-700 dark:text-orange-300">
+            <Clock className="w-4 h-4" />
+            <span className="text-sm font-medium">Claims reopen Monday night after the week's games</span>
+          </div>
+        )}
+
+        {waivers?.inWaiverPeriod && (
+          <div className="flex items-center justify-between p-3 rounded-md bg-blue-50 dark:bg-blue-950/20 text-blue-700 dark:text-blue-300">
+            <div className="flex items-center space-x-2">
+              <Hourglass className="w-4 h-4" />
+              <span className="text-sm font-medium">
+                Waiver period - claims process {waivers.waiverPeriodEndsAt ? new Date(waivers.waiverPeriodEndsAt).toLocaleString() : 'soon'}
+              </span>
+            </div>
+            {myWaiverPriority && (
+              <Badge variant="outline" className="text-xs">Priority #{myWaiverPriority}</Badge>
+            )}
+          </div>
+        )}
+
+        {(pendingClaims.length > 0 || recentClaims.length > 0) && (
+          <Card>
+            <CardContent className="p-4 space-y-2">
+              <div className="text-sm font-semibold">My Waiver Claims</div>
+              {[...pendingClaims, ...recentClaims].map((claim) => (
+                <div key={claim.id} className="flex items-center justify-between text-sm">
+                  <div>
+                    <span className="font-medium">+ {claim.claimTeam?.city} {claim.claimTeam?.name}</span>
+                    {claim.dropTeam && (
+                      <span className="text-muted-foreground"> / - {claim.dropTeam.city} {claim.dropTeam.name}</span>
+                    )}
+                    {claim.status === 'lost' && claim.failureReason && (
+                      <div className="text-xs text-muted-foreground">{claim.failureReason}</div>
+                    )}
+                  </div>
+                  {claim.status === 'pending' ? (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={cancelWaiverMutation.isPending}
+                      onClick={() => cancelWaiverMutation.mutate(claim.id)}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  ) : (
+                    <Badge variant={claim.status === 'won' ? "default" : "secondary"} className="text-xs capitalize">
+                      {claim.status}
+                    </Badge>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search teams..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <div className="space-y-3">
+          {isLoading && (
+            <div className="text-sm text-muted-foreground text-center py-6">Loading free agents...</div>
+          )}
+          {!isLoading && filteredTeams.length === 0 && (
+            <div className="text-sm text-muted-foreground text-center py-6">No free agents available</div>
+          )}
+          {filteredTeams.map((team) => (
+            <Card key={team.id} className="hover:shadow-sm transition-shadow">
+              <CardContent className="p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <TeamLogo
+                      logoUrl={team.logoUrl}
+                      teamCode={team.code}
+                      teamName={team.name}
+                      size="lg"
+                      className="w-10 h-10"
+                    />
+                    <div>
+                      <div className="font-medium">{team.city} {team.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {team.record} • {team.upcomingOpponent}
+                      </div>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    disabled={!tradeWindowOpen || myTeams.length === 0}
+                    className="min-w-[80px]"
+                    onClick={() => setClaimTeam(team)}
+                  >
+                    <Plus className="w-3 h-3 mr-2" />
+                    {tradeWindowOpen ? 'Claim' : 'Locked'}
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
         </div>
-        
-        <Card>
-          <CardHeader>
-            <CardTitle>Coming Soon</CardTitle>
-          </CardHeader>
-          <CardContent>
-            <p className="text-muted-foreground">
-              Available teams for trading and the trade market will be available here.
-            </p>
-          </CardContent>
-        </Card>
       </div>
+
+      {/* Choose which team to drop */}
+      <Dialog open={!!claimTeam} onOpenChange={(open) => { if (!open) { setClaimTeam(null); setDropTeamId(null); } }}>
+        <DialogContent className="sm:max-w-md" aria-describedby="claim-dialog-desc">
+          <DialogHeader>
+            <DialogTitle>Claim {claimTeam?.city} {claimTeam?.name}</DialogTitle>
+            <DialogDescription id="claim-dialog-desc">
+              Choose a team to drop. This uses your roster move for Week {pool?.week}.
+              {waivers?.inWaiverPeriod && ' Waiver claims are resolved in reverse standings order when the waiver period ends.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            {myTeams.map((team: any) => (
+              <button
+                key={team.nflTeam.id}
+                type="button"
+                onClick={() => setDropTeamId(team.nflTeam.id)}
+                className={`w-full flex items-center space-x-3 p-2 rounded-md border transition-colors ${
+                  dropTeamId === team.nflTeam.id ? 'border-primary bg-primary/10' : 'border-transparent bg-muted/30'
+                }`}
+              >
+                <TeamLogo logoUrl={team.nflTeam.logoUrl} teamCode={team.nflTeam.code} teamName={team.nflTeam.name} size="md" />
+                <span className="text-sm">{team.nflTeam.city} {team.nflTeam.name}</span>
+              </button>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setClaimTeam(null); setDropTeamId(null); }}>Cancel</Button>
+            <Button
+              disabled={!dropTeamId || claimMutation.isPending}
+              onClick={() => claimTeam && dropTeamId && claimMutation.mutate({ claimTeamId: claimTeam.id, dropTeamId })}
+            >
+              <ArrowLeftRight className="w-3 h-3 mr-2" />
+              Drop & Claim
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
       <BottomNav />
     </div>
   );
-}
\ No newline at end of file
+}
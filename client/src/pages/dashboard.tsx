@@ -15,6 +15,9 @@ import { setLastLeagueId } from "@/hooks/useLastLeague";
 import { apiRequest } from "@/features/query/api";
 import { useHasLeague } from "@/features/leagues/useHasLeague";
 import { apiFetch } from "@/lib/api";
+import LeagueSizeFields, { type LeagueSize } from "@/components/league-size-fields";
+import MockDraftDialog from "@/components/mock-draft-dialog";
+import { DEFAULT_LEAGUE_MEMBERS, DEFAULT_TEAMS_PER_MEMBER } from "@shared/utils/leagueSize";
 
 const enableDebugUI =
   (import.meta as any).env?.VITE_ENABLE_DEBUG_UI === "true" ||
@@ -42,6 +45,7 @@ export default function DashboardPage() {
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [joinDialogOpen, setJoinDialogOpen] = useState(false);
   const [leagueName, setLeagueName] = useState("");
+  const [leagueSize, setLeagueSize] = useState<LeagueSize>({ maxTeams: DEFAULT_LEAGUE_MEMBERS, teamsPerMember: DEFAULT_TEAMS_PER_MEMBER });
   const [joinCode, setJoinCode] = useState("");
 
   // 🔌 Lazy-load debug panels only if enabled
@@ -94,7 +98,8 @@ export default function DashboardPage() {
       // Ensure proper payload format
       const payload = {
         name: name.trim(),
-        maxTeams: 6
+        maxTeams: leagueSize.maxTeams,
+        teamsPerMember: leagueSize.teamsPerMember
       };
 
       console.log("[CreateLeague] Sending payload:", payload);
@@ -255,7 +260,7 @@ export default function DashboardPage() {
                 <DialogHeader>
                   <DialogTitle>Create New League</DialogTitle>
                   <DialogDescription id="create-league-desc">
-                    Create a new 6-player fantasy league. You'll need to invite 5 other players to start drafting.
+                    Create a new fantasy league for 4–10 players, each drafting 3–8 NFL teams. Everyone has to join before the draft starts.
                   </DialogDescription>
                 </DialogHeader>
                 <form onSubmit={handleCreateLeague} className="space-y-4">
@@ -278,6 +283,7 @@ export default function DashboardPage() {
                       </p>
                     )}
                   </div>
+                  <LeagueSizeFields value={leagueSize} onChange={setLeagueSize} />
                   <Button 
                     type="submit" 
                     className="w-full"
@@ -327,6 +333,8 @@ export default function DashboardPage() {
                 </form>
               </DialogContent>
             </Dialog>
+
+            <MockDraftDialog className="w-full" />
           </div>
           
           <Button variant="ghost" onClick={logout} className="text-muted-foreground mt-6">
@@ -373,7 +381,7 @@ export default function DashboardPage() {
               <DialogHeader>
                 <DialogTitle>Create New League</DialogTitle>
                 <DialogDescription id="create-league-quick-desc">
-                  Create a new 6-player fantasy league. You'll need to invite 5 other players to start drafting.
+                  Create a new fantasy league for 4–10 players, each drafting 3–8 NFL teams. Everyone has to join before the draft starts.
                 </DialogDescription>
               </DialogHeader>
               <form onSubmit={handleCreateLeague} className="space-y-4">
@@ -396,6 +404,7 @@ export default function DashboardPage() {
                     </p>
                   )}
                 </div>
+                <LeagueSizeFields value={leagueSize} onChange={setLeagueSize} testIdSuffix="-quick" />
                 <Button 
                   type="submit" 
                   className="w-full"
@@ -443,6 +452,8 @@ export default function DashboardPage() {
               </form>
             </DialogContent>
           </Dialog>
+
+          <MockDraftDialog className="flex-1 sm:flex-none" />
         </div>
 
         {/* Your Leagues */}
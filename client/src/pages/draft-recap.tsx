@@ -0,0 +1,226 @@
+import { BottomNav } from "@/components/layout/bottom-nav";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { TeamLogo } from "@/components/team-logo";
+import { ArrowLeft, Share2, Trophy, LayoutGrid, Loader2 } from "lucide-react";
+import { useLocation, useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/features/auth/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { endpoints } from "@/lib/endpoints";
+import { startTransition } from "react";
+
+interface RecapTeam {
+  id: string;
+  code: string;
+  name: string;
+  city: string;
+  conference: string;
+  division: string;
+  logoUrl: string;
+}
+
+interface RecapPick {
+  pickNumber: number;
+  round: number;
+  userId: string;
+  userName: string;
+  team: RecapTeam;
+  isAutoPick: boolean;
+  isKeeper: boolean;
+  winningBid: number | null;
+  projectedWins: number | null;
+}
+
+interface RecapMember {
+  userId: string;
+  name: string;
+  draftPosition: number;
+  teamCodes: string[];
+  autoPicks: number;
+  divisionSpread: Array<{ division: string; count: number }>;
+  projectedWins: number | null;
+  strengthRank: number | null;
+}
+
+interface DraftRecap {
+  draftId: string;
+  leagueId: string;
+  leagueName: string;
+  season: number;
+  completedAt: string | null;
+  totalRounds: number;
+  projectionSource: 'betting_odds' | 'last_season' | null;
+  picks: RecapPick[];
+  members: RecapMember[];
+  summary: string;
+}
+
+const projectionSourceLabels: Record<NonNullable<DraftRecap['projectionSource']>, string> = {
+  betting_odds: 'Projected from this season\'s betting lines',
+  last_season: 'Projected from last season\'s records - no betting lines yet',
+};
+
+export default function DraftRecapPage() {
+  const { draftId } = useParams<{ draftId: string }>();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const { data: recap, isLoading, error } = useQuery<DraftRecap>({
+    queryKey: [endpoints.draftRecap(draftId ?? '')],
+    queryFn: () => apiRequest('GET', endpoints.draftRecap(draftId!)),
+    enabled: !!user && !!draftId,
+  });
+
+  const shareRecap = () => {
+    if (!recap) return;
+    if (navigator.share) {
+      navigator.share({
+        title: `${recap.leagueName} Draft Recap`,
+        text: recap.summary,
+      });
+    } else {
+      navigator.clipboard.writeText(recap.summary);
+      toast({
+        title: "Copied!",
+        description: "Draft recap copied to clipboard",
+      });
+    }
+  };
+
+  const rounds = recap ? Array.from({ length: recap.totalRounds }, (_, index) => index + 1) : [];
+  const rankedMembers = recap
+    ? [...recap.members].sort((a, b) =>
+        (a.strengthRank ?? Infinity) - (b.strengthRank ?? Infinity) || a.draftPosition - b.draftPosition)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border/50 bg-card sticky top-0 z-10">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => startTransition(() => navigate('/teams'))}
+              className="p-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-xl font-bold">Draft Recap</h1>
+              <p className="text-sm text-muted-foreground">
+                {recap ? `${recap.leagueName} • ${recap.season} season` : ''}
+              </p>
+            </div>
+          </div>
+          {recap && (
+            <Button variant="outline" size="sm" onClick={shareRecap}>
+              <Share2 className="w-4 h-4 mr-2" />
+              Share
+            </Button>
+          )}
+        </div>
+
+        {error ? (
+          <p className="text-sm text-muted-foreground text-center py-20">{(error as Error).message}</p>
+        ) : isLoading || !recap ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="p-4 space-y-6">
+            {/* Projected strength */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center space-x-2">
+                  <Trophy className="w-5 h-5 text-yellow-500" />
+                  <span>Projected Strength</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {rankedMembers.map(member => (
+                  <div
+                    key={member.userId}
+                    className={`p-3 rounded-lg border ${member.userId === user?.id ? 'border-primary/40 bg-primary/5' : 'border-border/50'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">
+                        {member.strengthRank !== null && `${member.strengthRank}. `}
+                        {member.name}{member.userId === user?.id && ' (You)'}
+                      </span>
+                      <span className="text-sm font-semibold">
+                        {member.projectedWins !== null ? `${member.projectedWins} wins` : '—'}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      Pick #{member.draftPosition} • {member.teamCodes.join(', ')}
+                      {member.autoPicks > 0 && ` • ${member.autoPicks} auto`}
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {member.divisionSpread.map(({ division, count }) => (
+                        <Badge key={division} variant={count > 1 ? 'default' : 'secondary'} className="text-xs">
+                          {division}{count > 1 && ` ×${count}`}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground pt-2">
+                  {recap.projectionSource ? projectionSourceLabels[recap.projectionSource] : 'No projections available yet'}
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* Pick board */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center space-x-2">
+                  <LayoutGrid className="w-5 h-5 text-primary" />
+                  <span>Pick Board</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {rounds.map(round => (
+                  <div key={round}>
+                    <div className="text-xs font-medium text-muted-foreground mb-2">Round {round}</div>
+                    <div className="space-y-1">
+                      {recap.picks.filter(pick => pick.round === round).map(pick => (
+                        <div
+                          key={pick.pickNumber}
+                          className={`flex items-center justify-between p-2 rounded-lg border ${pick.isAutoPick ? 'border-orange-200 bg-orange-50 dark:border-orange-800 dark:bg-orange-900/20' : 'border-border/50'}`}
+                        >
+                          <div className="flex items-center space-x-3">
+                            <span className="w-6 text-xs text-muted-foreground">{pick.pickNumber}</span>
+                            <TeamLogo logoUrl={pick.team.logoUrl} teamCode={pick.team.code} teamName={pick.team.name} size="lg" />
+                            <div>
+                              <div className="text-sm font-medium">{pick.team.city} {pick.team.name}</div>
+                              <div className="text-xs text-muted-foreground">{pick.userName}</div>
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            {pick.isKeeper && <Badge variant="secondary" className="text-xs">Keeper</Badge>}
+                            {pick.winningBid !== null && <Badge variant="secondary" className="text-xs">${pick.winningBid}</Badge>}
+                            {pick.isAutoPick && <Badge variant="outline" className="text-xs">Auto</Badge>}
+                            {pick.projectedWins !== null && (
+                              <span className="text-xs text-muted-foreground">{pick.projectedWins} W</span>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+      <BottomNav />
+    </div>
+  );
+}
@@ -8,10 +8,13 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { ArrowLeft, Clock, CheckCircle, Users, Timer } from 'lucide-react';
-import { useDraftWebSocket } from '@/hooks/use-draft-websocket';
+import { ArrowLeft, Clock, CheckCircle, Users, Timer, Pause, Play, Undo2, Trophy, Square } from 'lucide-react';
+import { useDraftWebSocket, type DraftControlEvent } from '@/hooks/use-draft-websocket';
 import { endpoints } from '@/lib/endpoints';
 import { apiRequest } from '@/features/query/api';
+import DraftQueue from '@/components/draft-queue';
+import AuctionPanel, { type AuctionState } from '@/components/auction-panel';
+import { formatPickClock } from '@shared/utils/draftMode';
 
 // Simple interface for draft data
 interface SimpleDraftData {
@@ -33,6 +36,8 @@ interface SimpleDraftData {
     user: { id: string; name: string; avatar?: string };
     nflTeam: { id: string; name: string; city: string; code: string; logoUrl: string };
     isAutoPick: boolean;
+    isKeeper: boolean;
+    winningBid: number | null;
   }>;
   availableTeams: Array<{
     id: string;
@@ -45,12 +50,6 @@ interface SimpleDraftData {
   canMakePick: boolean;
 }
 
-function formatTime(seconds: number): string {
-  const mins = Math.floor(seconds / 60);
-  const secs = seconds % 60;
-  return `${mins}:${secs.toString().padStart(2, '0')}`;
-}
-
 // Simple team logo component
 function TeamLogo({ logoUrl, teamCode, size = 'md' }: { logoUrl: string; teamCode: string; size?: 'sm' | 'md' }) {
   const sizeClass = size === 'sm' ? 'w-8 h-8' : 'w-12 h-12';
@@ -79,6 +78,7 @@ export default function DraftPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [selectedTeam, setSelectedTeam] = useState<string | null>(null);
   const [display, setDisplay] = useState(0);
+  const [auction, setAuction] = useState<AuctionState | null>(null);
 
   // ---- SAFE DERIVEDS (crash-resistant)
   const teams = draft?.teams ?? [];
@@ -86,12 +86,15 @@ export default function DraftPage() {
   const participants = draft?.participants ?? [];
   const restrictions = draft?.restrictions ?? {};
   const status = draft?.status ?? 'starting';
-  const timerLimit = draft?.timer?.limit ?? 120;
+  const timerLimit = draft?.timer?.limit ?? draft?.pickTimeLimit ?? 120;
   const timerDisplay = draft?.timer?.display ?? display;
+  const isAuction = draft?.draftFormat === 'auction';
 
   // UI state computed from draft data
   const isCountdown = status === 'starting';
   const isDraftActive = status === 'in_progress';
+  const isPaused = status === 'paused';
+  const isLive = status === 'active' || isDraftActive;
   const canMakePicks = isDraftActive && draft?.canMakePick;
   const timerProgress = timerLimit > 0 ? ((timerLimit - timerDisplay) / timerLimit) * 100 : 0;
 
@@ -100,29 +103,49 @@ export default function DraftPage() {
   const enableDivisionRule = restrictions.enableDivisionRule ?? true;
   const maxTeamsPerDivision = restrictions.maxTeamsPerDivision ?? 1;
 
-  // Check team eligibility based on division rules
+  // Check team eligibility based on division rules - the server flags teams that would leave
+  // the member on the clock no division-legal way to fill their stable
   const checkTeamEligibility = (team: any) => {
-    if (!enableDivisionRule) return { eligible: true, reason: '' };
-    
+    if (!enableDivisionRule || !team.breaksDivisionRule) return { eligible: true, reason: '' };
+
+    if (restrictions.divisionRuleOverride) {
+      return { eligible: true, reason: 'Override: no division-legal options left' };
+    }
+
     const teamDivision = `${team.conference} ${team.division}`;
     const divisionCount = userPicks.filter((pick: any) => 
       `${pick.nflTeam?.conference} ${pick.nflTeam?.division}` === teamDivision
     ).length;
     
-    if (divisionCount >= maxTeamsPerDivision) {
-      const hasOtherOptions = teams.some((t: any) => 
-        `${t.conference} ${t.division}` !== teamDivision
-      );
-      
-      return {
-        eligible: !hasOtherOptions, // Only eligible if no other division options
-        reason: hasOtherOptions 
-          ? `Already have team from ${teamDivision}` 
-          : 'Override: no other divisions available'
-      };
+    return {
+      eligible: false,
+      reason: divisionCount >= maxTeamsPerDivision
+        ? `Already have team from ${teamDivision}`
+        : 'Would leave no division-legal way to fill your stable'
+    };
+  };
+
+  const refreshDraft = async () => {
+    if (!draftId) return;
+    try {
+      const data = await apiRequest('GET', endpoints.draft(draftId));
+      setDraft(data);
+      // No timer ticks while paused, so take the frozen clock from the draft
+      if (data?.status === 'paused') setDisplay(data.timerSeconds ?? 0);
+    } catch (error) {
+      console.error('Failed to refresh draft:', error);
     }
-    
-    return { eligible: true, reason: '' };
+  };
+
+  const draftControlMessages: Record<DraftControlEvent, (data: any) => { title: string; description: string }> = {
+    draft_paused: () => ({ title: "Draft paused", description: "The commissioner has stopped the clock" }),
+    draft_resumed: () => ({ title: "Draft resumed", description: "The clock is running again" }),
+    pick_undone: (data) => ({
+      title: "Last pick undone",
+      description: data?.pick?.nflTeam
+        ? `${data.pick.nflTeam.city} ${data.pick.nflTeam.name} is back on the board`
+        : "The team is back on the board"
+    }),
   };
 
   useDraftWebSocket(draftId, user?.id, {
@@ -132,8 +155,28 @@ export default function DraftPage() {
       setIsLoading(false);
     },
     onTimerUpdate: (t) => setDisplay(t.display ?? 0),
+    onDraftControl: ({ type, data }) => {
+      if (typeof data?.timeRemaining === 'number') setDisplay(data.timeRemaining);
+      toast(draftControlMessages[type](data));
+      refreshDraft();
+    },
+    onAuctionEvent: ({ type, data }) => {
+      if (data?.auction) setAuction(data.auction);
+      if (type === 'auction_sold') {
+        setSelectedTeam(null);
+        refreshDraft();
+      }
+    },
   });
 
+  // Auction drafts: budgets and the open lot come separately, then stay current over the websocket
+  useEffect(() => {
+    if (!draftId || !isAuction || status === 'starting') return;
+    apiRequest('GET', endpoints.draftAuction(draftId))
+      .then(setAuction)
+      .catch(error => console.error('Failed to load auction:', error));
+  }, [draftId, isAuction, status]);
+
   useEffect(() => {
     if (!draftId || authLoading || draft) return;
     let cancelled = false;
@@ -171,6 +214,41 @@ export default function DraftPage() {
     }
   });
 
+  // Commissioner controls - everyone else hears about it over the websocket
+  const draftControl = useMutation({
+    mutationFn: async (action: 'pause' | 'resume' | 'undo-pick') => {
+      return apiRequest('POST', `/api/drafts/${draftId}/${action}`);
+    },
+    onSuccess: () => {
+      refreshDraft();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Draft control failed",
+        description: error?.message || "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Mock drafts can be thrown away before the last pick
+  const endMockDraft = useMutation({
+    mutationFn: async () => {
+      return apiRequest('DELETE', `/api/mock-drafts/${draftId}`);
+    },
+    onSuccess: () => {
+      toast({ title: "Mock draft ended", description: "Nothing from it was kept" });
+      navigate('/');
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't end mock draft",
+        description: error?.message || "Please try again",
+        variant: "destructive"
+      });
+    }
+  });
+
   // Loading state - show visible spinner
   if (isLoading || !draftId) {
     return (
@@ -204,8 +282,16 @@ export default function DraftPage() {
           <div className="text-center">
             <h1 className="text-2xl font-bold">Draft Room</h1>
             <p className="text-sm text-muted-foreground">
-              Round {draft?.currentRound ?? 1}, Pick {draft?.currentPick ?? 1}
+              {isAuction
+                ? `Auction • Nomination ${draft?.currentPick ?? 1}`
+                : `Round ${draft?.currentRound ?? 1}, Pick ${draft?.currentPick ?? 1}`}
             </p>
+            {draft?.draftMode === 'slow' && (
+              <Badge variant="secondary" className="text-xs mt-1">Slow draft - you'll get a push when you're up</Badge>
+            )}
+            {draft?.league?.isMock && (
+              <Badge variant="outline" className="text-xs mt-1">Mock draft vs. robots - nothing here counts</Badge>
+            )}
           </div>
 
           <div className="flex items-center gap-2 text-sm">
@@ -214,57 +300,117 @@ export default function DraftPage() {
                 <Timer className="h-4 w-4" />
                 <span className="font-bold">Starting in {Math.max(0, Math.ceil(timerDisplay))}s</span>
               </div>
-            ) : (
+            ) : !isAuction && (
               <>
                 <Clock className="h-4 w-4" />
-                {formatTime(Math.max(0, timerDisplay))}
+                {formatPickClock(Math.max(0, timerDisplay))}
               </>
             )}
           </div>
         </div>
 
-        {/* Current Turn */}
-        <Card className="mb-6">
-          <CardContent className="p-4">
-            {isCountdown ? (
-              <div className="text-center space-y-3">
-                <div className="flex items-center justify-center gap-2 text-orange-500">
-                  <Timer className="h-5 w-5" />
-                  <p className="font-bold text-lg">Draft starting in {Math.max(0, Math.ceil(timerDisplay))} seconds...</p>
-                </div>
-                <p className="text-sm text-muted-foreground">Get ready to pick your teams!</p>
-              </div>
+        {/* Commissioner Controls */}
+        {/* Auction sales are final and the bidding clock doesn't stop */}
+        {draft?.isCommissioner && !isAuction && (isLive || isPaused) && (
+          <div className="flex items-center justify-end gap-2 mb-4">
+            {isPaused ? (
+              <Button size="sm" onClick={() => draftControl.mutate('resume')} disabled={draftControl.isPending}>
+                <Play className="h-4 w-4 mr-1" />
+                Resume
+              </Button>
             ) : (
-              <>
-                <div className="flex items-center justify-between mb-3">
-                  <div className="flex items-center gap-3">
-                    <Users className="h-5 w-5" />
-                    <div>
-                      <p className="font-medium">
-                        {isCurrentUser ? "Your turn to pick!" : `${currentPlayer?.name || 'Unknown'} is picking...`}
-                      </p>
-                      <p className="text-sm text-muted-foreground">
-                        {teams.length} teams remaining
-                      </p>
-                    </div>
+              <Button size="sm" variant="outline" onClick={() => draftControl.mutate('pause')} disabled={draftControl.isPending}>
+                <Pause className="h-4 w-4 mr-1" />
+                Pause
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => draftControl.mutate('undo-pick')}
+              disabled={draftControl.isPending || picks.length === 0}
+            >
+              <Undo2 className="h-4 w-4 mr-1" />
+              Undo Last Pick
+            </Button>
+            {draft?.league?.isMock && (
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => endMockDraft.mutate()}
+                disabled={endMockDraft.isPending}
+              >
+                <Square className="h-4 w-4 mr-1" />
+                End Mock Draft
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Current Turn - or the auction block once bidding is open */}
+        {isAuction && isLive && auction ? (
+          <AuctionPanel
+            draftId={draftId}
+            auction={auction}
+            participants={participants}
+            userId={user?.id}
+            selectedTeam={teams.find((team: any) => team.id === selectedTeam) ?? null}
+            nominationTimeLimit={timerLimit}
+            onNominated={() => setSelectedTeam(null)}
+          />
+        ) : (
+          <Card className="mb-6">
+            <CardContent className="p-4">
+              {isPaused ? (
+                <div className="text-center space-y-2">
+                  <div className="flex items-center justify-center gap-2 text-orange-500">
+                    <Pause className="h-5 w-5" />
+                    <p className="font-bold text-lg">Draft paused</p>
                   </div>
-                  {isCurrentUser && isDraftActive && (
-                    <Badge variant="default">Your Turn</Badge>
-                  )}
+                  <p className="text-sm text-muted-foreground">
+                    {formatPickClock(Math.max(0, timerDisplay))} left on the clock when the draft resumes
+                  </p>
+                </div>
+              ) : isCountdown ? (
+                <div className="text-center space-y-3">
+                  <div className="flex items-center justify-center gap-2 text-orange-500">
+                    <Timer className="h-5 w-5" />
+                    <p className="font-bold text-lg">Draft starting in {Math.max(0, Math.ceil(timerDisplay))} seconds...</p>
+                  </div>
+                  <p className="text-sm text-muted-foreground">Get ready to pick your teams!</p>
                 </div>
-                {isDraftActive && timerDisplay > 0 && (
-                  <div className="space-y-2">
-                    <div className="flex items-center justify-between text-xs text-muted-foreground">
-                      <span>Time remaining</span>
-                      <span>{formatTime(Math.max(0, timerDisplay))}</span>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center gap-3">
+                      <Users className="h-5 w-5" />
+                      <div>
+                        <p className="font-medium">
+                          {isCurrentUser ? "Your turn to pick!" : `${currentPlayer?.name || 'Unknown'} is picking...`}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {teams.length} teams remaining
+                        </p>
+                      </div>
                     </div>
-                    <Progress value={timerProgress} className="h-2" />
+                    {isCurrentUser && isDraftActive && (
+                      <Badge variant="default">Your Turn</Badge>
+                    )}
                   </div>
-                )}
-              </>
-            )}
-          </CardContent>
-        </Card>
+                  {isDraftActive && timerDisplay > 0 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>Time remaining</span>
+                        <span>{formatPickClock(Math.max(0, timerDisplay))}</span>
+                      </div>
+                      <Progress value={timerProgress} className="h-2" />
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Available Teams - Simple Grid */}
@@ -277,7 +423,10 @@ export default function DraftPage() {
                 {teams.map((team: any) => {
                   const isSelected = selectedTeam === team.id;
                   const eligibility = checkTeamEligibility(team);
-                  const canSelect = canMakePicks && isCurrentUser && eligibility.eligible;
+                  // In an auction the board is for picking what to nominate
+                  const canSelect = isAuction
+                    ? isLive && !!auction && !auction.lot && auction.nominatorId === user?.id && eligibility.eligible
+                    : canMakePicks && isCurrentUser && eligibility.eligible;
                   
                   return (
                     <Card
@@ -315,7 +464,7 @@ export default function DraftPage() {
               </div>
 
               {/* Draft Button */}
-              {selectedTeam && canMakePicks && isCurrentUser && (() => {
+              {selectedTeam && !isAuction && canMakePicks && isCurrentUser && (() => {
                 const selectedTeamData = teams.find((t: any) => t.id === selectedTeam);
                 const eligibility = selectedTeamData ? checkTeamEligibility(selectedTeamData) : { eligible: false, reason: 'Team not found' };
                 
@@ -358,6 +507,12 @@ export default function DraftPage() {
                       <p className="font-medium text-sm">{pick.nflTeam.city} {pick.nflTeam.name}</p>
                       <p className="text-xs text-muted-foreground">{pick.user.name}</p>
                     </div>
+                    {pick.isKeeper && (
+                      <Badge variant="secondary" className="text-xs">Keeper</Badge>
+                    )}
+                    {pick.winningBid !== null && pick.winningBid !== undefined && (
+                      <Badge variant="secondary" className="text-xs">${pick.winningBid}</Badge>
+                    )}
                     {pick.isAutoPick && (
                       <Badge variant="outline" className="text-xs">Auto</Badge>
                     )}
@@ -367,6 +522,23 @@ export default function DraftPage() {
             </CardContent>
           </Card>
         </div>
+
+        {/* Recap once the last pick is in */}
+        {status === 'completed' && (
+          <div className="mt-6 text-center">
+            <Button onClick={() => navigate(`/draft/${draftId}/recap`)}>
+              <Trophy className="h-4 w-4 mr-2" />
+              View Draft Recap
+            </Button>
+          </div>
+        )}
+
+        {/* Auto-pick queue */}
+        {status !== 'completed' && participants.some((p: any) => p.id === user?.id) && (
+          <div className="mt-6">
+            <DraftQueue draftId={draftId} availableTeams={teams} />
+          </div>
+        )}
       </div>
     </div>
   );
@@ -14,12 +14,16 @@ import { setLastLeagueId } from "@/hooks/useLastLeague";
 import { DraftNotificationReminder } from "@/components/draft-notification-reminder";
 import DraftControls from "@/components/draft-controls";
 import { DraftTestingPanel } from "@/components/draft-testing-panel";
+import LeagueScoringRules from "@/components/league-scoring-rules";
+import LeagueDraftOrder from "@/components/league-draft-order";
+import LeagueKeepers from "@/components/league-keepers";
 
 interface League {
   id: string;
   name: string;
   joinCode: string;
   maxTeams: number;
+  teamsPerMember: number;
   memberCount: number;
   isActive: boolean;
   createdAt: string;
@@ -343,6 +347,9 @@ export function LeagueWaiting() {
                   <Users className="w-4 h-4 mr-1" />
                   {league.memberCount}/{league.maxTeams} Teams
                 </Badge>
+                <Badge variant="outline">
+                  {league.teamsPerMember} NFL teams each
+                </Badge>
                 <Badge variant="outline">
                   <Clock className="w-4 h-4 mr-1" />
                   Waiting
@@ -427,7 +434,7 @@ export function LeagueWaiting() {
                       <span className="font-semibold text-fantasy-green">League is Full!</span>
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      All 6 spots are filled. You can now start the snake draft.
+                      All {league.maxTeams} spots are filled. You can now start the {league.teamsPerMember}-round snake draft.
                     </p>
                   </div>
                 </div>
@@ -448,7 +455,7 @@ export function LeagueWaiting() {
                       User is Creator: {user?.id === league.creatorId ? 'Yes' : 'No'} | League Full: {isLeagueFull ? 'Yes' : 'No'}
                     </p>
                     <p className="text-sm text-muted-foreground">
-                      canCreateDraft: {!league.draftId ? 'Yes' : 'No'} | canStartDraft: {!!league.draftId && !league.draftStarted ? 'Yes' : 'No'}
+                      canCreateDraft: {!league.draftId || league.draftStatus === 'completed' ? 'Yes' : 'No'} | canStartDraft: {!!league.draftId && !league.draftStarted && league.draftStatus !== 'completed' ? 'Yes' : 'No'}
                     </p>
                   </div>
                   
@@ -456,9 +463,11 @@ export function LeagueWaiting() {
                   {!league.draftStarted && (
                     <DraftControls
                       leagueId={league.id}
-                      canCreateDraft={!league.draftId}
-                      canStartDraft={!!league.draftId && !league.draftStarted}
-                      draftId={league.draftId}
+                      memberCount={league.memberCount}
+                      totalRounds={league.teamsPerMember}
+                      canCreateDraft={!league.draftId || league.draftStatus === 'completed'}
+                      canStartDraft={!!league.draftId && !league.draftStarted && league.draftStatus !== 'completed'}
+                      draftId={league.draftStatus === 'completed' ? undefined : league.draftId}
                       onDraftCreated={(draftId: string) => {
                         queryClient.invalidateQueries({ queryKey: [`/api/leagues/${leagueId}`] });
                         toast({
@@ -517,6 +526,15 @@ export function LeagueWaiting() {
                 }}
               />
 
+              {/* Draft order - commissioner picks lottery, reverse standings or a manual order */}
+              <LeagueDraftOrder leagueId={league.id} />
+
+              {/* Keepers - carry teams over from last season at a late-round cost */}
+              <LeagueKeepers leagueId={league.id} teamsPerMember={league.teamsPerMember} />
+
+              {/* Scoring rules - commissioner can customize before the season */}
+              <LeagueScoringRules leagueId={league.id} />
+
               {/* League Status */}
               <div className="text-center pt-4 border-t">
                 {!isLeagueFull && (
@@ -29,6 +29,8 @@ import {
   Coins
 } from "lucide-react";
 import { getCurrentSeason } from "@/lib/season";
+import { formatPoints } from "@/lib/utils";
+import CommissionerTools from "@/components/commissioner-tools";
 
 export default function LeaguePage() {
   const { user } = useAuth();
@@ -180,7 +182,7 @@ export default function LeaguePage() {
                 </div>
                 <div>
                   <CardTitle className="text-xl font-bold">Season Standings</CardTitle>
-                  <p className="text-sm text-muted-foreground">Week {(currentWeekData as any)?.currentWeek || leagueInfo?.week} • 6 players</p>
+                  <p className="text-sm text-muted-foreground">Week {(currentWeekData as any)?.currentWeek || leagueInfo?.week} • {standings?.length ?? 0} players</p>
                 </div>
               </div>
             </div>
@@ -234,7 +236,7 @@ export default function LeaguePage() {
                         
                         {/* Total Season Points - Most Prominent */}
                         <div className="text-right min-w-[50px] mr-4">
-                          <div className="text-2xl font-black text-foreground">{member.points}</div>
+                          <div className="text-2xl font-black text-foreground">{formatPoints(member.points)}</div>
                           <div className="text-xs text-muted-foreground font-medium">PTS</div>
                         </div>
                         
@@ -288,6 +290,9 @@ export default function LeaguePage() {
           </CardContent>
         </Card>
 
+        {/* Commissioner corrections - form for the commissioner, audit log for everyone */}
+        <CommissionerTools leagueId={targetLeagueId} />
+
         {/* Season Prizes */}
         <div className="pb-6">
           <div className="mb-4 flex items-center space-x-2">
@@ -323,7 +328,7 @@ export default function LeaguePage() {
                       <div className="text-sm text-muted-foreground">
                         {prize.leader}
                         {prize.points !== '-' && (
-                          <span className="ml-1">• {prize.points} pts</span>
+                          <span className="ml-1">• {prize.points}</span>
                         )}
                       </div>
                     </div>
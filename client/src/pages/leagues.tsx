@@ -9,6 +9,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, Di
 import { Trophy, Crown, Medal, Award, TrendingUp, Zap, Eye, Lock, Shield } from "lucide-react";
 import { MainLayout } from "@/components/layout/main-layout";
 import { getCurrentSeason } from "@/lib/season";
+import { formatPoints } from "@/lib/utils";
 
 interface SeasonStandings {
   userId: string;
@@ -268,7 +269,7 @@ export default function LeaguesPage() {
                   
                   <div className="text-right">
                     <div className="text-lg font-bold text-foreground">
-                      {player.totalMokPoints}
+                      {formatPoints(player.totalMokPoints)}
                     </div>
                     <div className="text-xs text-muted-foreground">
                       points
@@ -285,7 +286,7 @@ export default function LeaguesPage() {
           <div className="grid grid-cols-3 gap-3 px-4">
             <div className="text-center py-3 bg-card rounded-lg border">
               <div className="text-lg font-bold text-foreground">
-                {standings[0]?.totalMokPoints || 0}
+                {formatPoints(standings[0]?.totalMokPoints)}
               </div>
               <div className="text-xs text-muted-foreground">Leader Points</div>
             </div>
@@ -406,7 +407,7 @@ export default function LeaguesPage() {
                         <div className="text-xs text-muted-foreground">{team.conference}</div>
                       </div>
                       <div className="text-right">
-                        <div className="text-sm font-medium">{team.seasonPoints || 0} pts</div>
+                        <div className="text-sm font-medium">{formatPoints(team.seasonPoints)} pts</div>
                         <div className="text-xs text-muted-foreground">{team.record || "0-0"}</div>
                       </div>
                     </div>
@@ -44,6 +44,7 @@ import { useAuth } from "@/features/auth/useAuth";
 import mokSportsLogoWhite from "@assets/MokSports_White_1755068930869.png";
 import mokSportsLogo from "@assets/moksports logo_1755069436420.png";
 import { getCurrentSeason } from "@/lib/season";
+import { formatPoints } from "@/lib/utils";
 
 // Industry-standard logo component using imported assets (same pattern as team logos)
 const LogoDisplay = () => {
@@ -367,7 +368,7 @@ function MainPageContent({
               <div className="flex items-center justify-between">
                 {/* Total Season Points - Hero Stat */}
                 <div className="flex-1">
-                  <div className="text-5xl font-black text-foreground leading-none mb-1">{userTotalPoints}</div>
+                  <div className="text-5xl font-black text-foreground leading-none mb-1">{formatPoints(userTotalPoints)}</div>
                   <div className="text-sm font-medium text-muted-foreground">Season Points</div>
                 </div>
                 
@@ -472,7 +473,7 @@ function MainPageContent({
                           <p className={`text-lg font-bold ${
                             shouldShowWinner ? 'text-purple-600 dark:text-purple-400' : 'text-primary'
                           }`}>
-                            {member.weeklyPoints || 0}
+                            {formatPoints(member.weeklyPoints)}
                           </p>
                           <p className={`text-xs ${
                             shouldShowWinner ? 'text-purple-500 dark:text-purple-400' : 'text-muted-foreground'
@@ -1,7 +1,7 @@
 import { startTransition } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/features/auth/useAuth";
-import { Shield, LogOut, Settings, User, TrendingUp, Database } from "lucide-react";
+import { Shield, LogOut, Settings, User, TrendingUp, Database, DollarSign } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
 interface MoreRowProps {
@@ -78,6 +78,12 @@ export default function MoreHub() {
             description="Manage team trades and free agents"
             onClick={() => startTransition(() => navigate("/more/trades"))}
           />
+          <MoreRow
+            icon={DollarSign}
+            label="Payouts"
+            description="Season winnings and who owes whom"
+            onClick={() => startTransition(() => navigate("/more/payouts"))}
+          />
           {isAdmin && (
             <MoreRow
               icon={Shield}
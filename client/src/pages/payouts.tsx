@@ -0,0 +1,224 @@
+import { BottomNav } from "@/components/layout/bottom-nav";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, ArrowRight, DollarSign, Trophy, Loader2 } from "lucide-react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/features/auth/useAuth";
+import { apiRequest } from "@/features/query/api";
+import { formatPoints } from "@/lib/utils";
+import { useState, useEffect, startTransition } from "react";
+
+interface SeasonPrize {
+  key: 'mostPoints' | 'superBowlOwner' | 'mostCorrectLocks';
+  name: string;
+  amount: number;
+  status: 'awarded' | 'leading' | 'pending';
+  winners: Array<{ userId: string; name: string }>;
+  value: number | string | null;
+}
+
+interface MemberPayout {
+  userId: string;
+  name: string;
+  skinsWon: number;
+  skinsWinnings: number;
+  prizeWinnings: number;
+  totalWinnings: number;
+  share: number;
+  net: number;
+  totalPoints: number;
+  correctLocks: number;
+  isCurrentUser: boolean;
+}
+
+interface Settlement {
+  fromUserId: string;
+  fromName: string;
+  toUserId: string;
+  toName: string;
+  amount: number;
+}
+
+interface LeaguePayouts {
+  season: number;
+  regularSeasonComplete: boolean;
+  seasonPot: number;
+  seasonBuyIn: number;
+  awardedSoFar: number;
+  prizes: SeasonPrize[];
+  members: MemberPayout[];
+  settlements: Settlement[];
+}
+
+function formatMoney(amount: number): string {
+  return `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+}
+
+function formatPrizeValue(prize: SeasonPrize): string | null {
+  if (prize.value === null) return null;
+  if (prize.key === 'mostPoints') return `${formatPoints(Number(prize.value))} pts`;
+  if (prize.key === 'mostCorrectLocks') return `${prize.value} correct`;
+  return String(prize.value);
+}
+
+const prizeStatusLabels: Record<SeasonPrize['status'], string> = {
+  awarded: 'Paid',
+  leading: 'Leader',
+  pending: 'TBD',
+};
+
+export default function PayoutsPage() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+
+  const { data: leagues = [] } = useQuery({
+    queryKey: ['/api/user/leagues'],
+    enabled: !!user,
+  });
+
+  // Same league selection as the stable page
+  const [selectedLeague, setSelectedLeague] = useState<string>(() =>
+    localStorage.getItem('selectedLeague') || localStorage.getItem('lastDraftLeagueId') || ''
+  );
+
+  useEffect(() => {
+    if (!selectedLeague && Array.isArray(leagues) && leagues.length) {
+      setSelectedLeague((leagues as any[])[0].id);
+    }
+  }, [leagues, selectedLeague]);
+
+  const { data: payouts, isLoading } = useQuery<LeaguePayouts>({
+    queryKey: [`/api/leagues/${selectedLeague}/payouts`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${selectedLeague}/payouts`),
+    enabled: !!user && !!selectedLeague,
+  });
+
+  return (
+    <div className="min-h-screen bg-background pb-20">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-border/50 bg-card sticky top-0 z-10">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => startTransition(() => navigate('/more'))}
+              className="p-2"
+            >
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="text-xl font-bold">Payouts</h1>
+              <p className="text-sm text-muted-foreground">Season {payouts?.season ?? ''} winnings and settle-up</p>
+            </div>
+          </div>
+          {payouts && (
+            <Badge variant="secondary" className="text-xs">
+              {formatMoney(payouts.awardedSoFar)} of {formatMoney(payouts.seasonPot)} paid out
+            </Badge>
+          )}
+        </div>
+
+        {isLoading || !payouts ? (
+          <div className="flex items-center justify-center py-20">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="p-4 space-y-6">
+            {/* Who owes whom */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center space-x-2">
+                  <DollarSign className="w-5 h-5 text-primary" />
+                  <span>Who Owes Whom</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {payouts.settlements.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-4">Nothing to settle yet</p>
+                ) : payouts.settlements.map((settlement, index) => {
+                  const involvesYou = settlement.fromUserId === user?.id || settlement.toUserId === user?.id;
+                  return (
+                    <div
+                      key={index}
+                      className={`flex items-center justify-between p-3 rounded-lg border ${involvesYou ? 'border-primary/40 bg-primary/5' : 'border-border/50'}`}
+                    >
+                      <div className="flex items-center space-x-2 text-sm">
+                        <span className="font-medium">{settlement.fromName}</span>
+                        <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                        <span className="font-medium">{settlement.toName}</span>
+                      </div>
+                      <span className="font-semibold text-emerald-600">{formatMoney(settlement.amount)}</span>
+                    </div>
+                  );
+                })}
+                <p className="text-xs text-muted-foreground pt-2">
+                  Everyone pays an equal share of the prizes awarded so far. Full-season buy-in is {formatMoney(payouts.seasonBuyIn)} per member.
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* Season prizes */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg flex items-center space-x-2">
+                  <Trophy className="w-5 h-5 text-yellow-500" />
+                  <span>Season Prizes</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {payouts.prizes.map(prize => (
+                  <div key={prize.key} className="flex items-center justify-between p-3 rounded-lg border border-border/50">
+                    <div>
+                      <div className="text-sm font-medium">{prize.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {prize.winners.map(winner => winner.name).join(', ') || 'TBD'}
+                        {formatPrizeValue(prize) && <span> • {formatPrizeValue(prize)}</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant={prize.status === 'awarded' ? 'default' : 'secondary'} className="text-xs">
+                        {prizeStatusLabels[prize.status]}
+                      </Badge>
+                      <span className="text-sm font-semibold text-emerald-600">{formatMoney(prize.amount)}</span>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Member ledger */}
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Ledger</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {payouts.members.map(member => (
+                  <div
+                    key={member.userId}
+                    className={`p-3 rounded-lg border ${member.isCurrentUser ? 'border-primary/40 bg-primary/5' : 'border-border/50'}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">{member.name}{member.isCurrentUser && ' (You)'}</span>
+                      <span className={`text-sm font-semibold ${member.net > 0 ? 'text-emerald-600' : member.net < 0 ? 'text-red-600' : 'text-muted-foreground'}`}>
+                        {member.net > 0 ? '+' : member.net < 0 ? '-' : ''}{formatMoney(Math.abs(member.net))}
+                      </span>
+                    </div>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {member.skinsWon} {member.skinsWon === 1 ? 'skin' : 'skins'} ({formatMoney(member.skinsWinnings)})
+                      {' • '}prizes {formatMoney(member.prizeWinnings)}
+                      {' • '}share {formatMoney(member.share)}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+      <BottomNav />
+    </div>
+  );
+}
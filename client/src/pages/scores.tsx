@@ -15,21 +15,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { getWeekLabel } from "@shared/utils/weekUtils";
-
-interface MokScoringRules {
-  winPoints: number;
-  tiePoints: number;
-  lossPoints: number;
-  blowoutPoints: number;
-  shutoutPoints: number;
-  weeklyHighPoints: number;
-  weeklyLowPenalty: number;
-  lockBonusPoints: number;
-  lockAndLoadWinPoints: number;
-  lockAndLoadLossPenalty: number;
-  maxLocksPerTeamPerSeason: number;
-  maxLockAndLoadPerTeamPerSeason: number;
-}
+import { formatPoints } from "@/lib/utils";
+import { getGameOutcome, type MokScoringRules } from "@shared/utils/scoring";
 
 interface UserWeeklyScore {
   userId: string;
@@ -329,11 +316,6 @@ export default function ScoresPage() {
     enabled: !!user,
   });
 
-  // Get scoring rules
-  const { data: scoringRules } = useQuery<MokScoringRules>({
-    queryKey: ["/api/scoring/rules"],
-  });
-
   // Get current league (use real EEW2YU test league)
   const currentLeague =
     userLeagues && Array.isArray(userLeagues) && userLeagues.length > 0
@@ -344,6 +326,12 @@ export default function ScoresPage() {
           season: 2024,
         };
 
+  // Get this league's scoring rules
+  const { data: scoringRules } = useQuery<MokScoringRules>({
+    queryKey: [`/api/scoring/rules?leagueId=${currentLeague?.id}`],
+    enabled: !!currentLeague?.id,
+  });
+
   // Get NFL teams to map logos and owners
   const { data: nflTeams } = useQuery({
     queryKey: ["/api/nfl-teams"],
@@ -577,6 +565,19 @@ export default function ScoresPage() {
     return weekEndResults.lowScoreTeams.some((team: any) => team.teamCode === teamCode);
   };
 
+  // Blowout/shutout badges use the same engine and league rules the server scores with
+  const getGameBonuses = (homeScore: number | null, awayScore: number | null) => {
+    if (homeScore === null || awayScore === null) {
+      return { isBlowout: false, isShutout: false };
+    }
+    const home = getGameOutcome(homeScore, awayScore, scoringRules);
+    const away = getGameOutcome(awayScore, homeScore, scoringRules);
+    return {
+      isBlowout: home.isBlowout || away.isBlowout,
+      isShutout: home.isShutout || away.isShutout,
+    };
+  };
+
   return (
     <div className="flex flex-col min-h-screen">
       {/* Main Content */}
@@ -661,12 +662,7 @@ export default function ScoresPage() {
                 const homeIsLowScore = isLowScoreTeam(game.homeTeam);
                 const awayIsLowScore = isLowScoreTeam(game.awayTeam);
                 
-                const scoreDiff =
-                  game.homeScore !== null && game.awayScore !== null
-                    ? Math.abs(game.homeScore - game.awayScore)
-                    : 0;
-                const isBlowout = scoreDiff >= 20;
-                const isShutout = game.homeScore === 0 || game.awayScore === 0;
+                const { isBlowout, isShutout } = getGameBonuses(game.homeScore, game.awayScore);
 
                 const homeLockStatus = isTeamLocked(game.homeTeam);
                 const awayLockStatus = isTeamLocked(game.awayTeam);
@@ -750,7 +746,7 @@ export default function ScoresPage() {
                                   <div className="flex items-center space-x-1">
                                     <Flame className="w-3 h-3 text-purple-500" />
                                     <span className="text-xs text-purple-600 font-medium">
-                                      +{game.awayMokPoints}
+                                      +{formatPoints(game.awayMokPoints)}
                                     </span>
                                   </div>
                                 )}
@@ -830,7 +826,7 @@ export default function ScoresPage() {
                                   <div className="flex items-center space-x-1">
                                     <Flame className="w-3 h-3 text-purple-500" />
                                     <span className="text-xs text-purple-600 font-medium">
-                                      +{game.homeMokPoints}
+                                      +{formatPoints(game.homeMokPoints)}
                                     </span>
                                   </div>
                                 )}
@@ -974,7 +970,7 @@ export default function ScoresPage() {
                       <div className="flex items-center gap-1 bg-purple-100 dark:bg-purple-900/30 px-2 py-1 rounded-full">
                         <Flame className="w-3 h-3 text-purple-600" />
                         <span className="text-xs font-medium text-purple-700 dark:text-purple-300">
-                          +{selectedGame.awayMokPoints}
+                          +{formatPoints(selectedGame.awayMokPoints)}
                         </span>
                       </div>
                     )}
@@ -1028,7 +1024,7 @@ export default function ScoresPage() {
                       <div className="flex items-center gap-1 bg-purple-100 dark:bg-purple-900/30 px-2 py-1 rounded-full">
                         <Flame className="w-3 h-3 text-purple-600" />
                         <span className="text-xs font-medium text-purple-700 dark:text-purple-300">
-                          +{selectedGame.homeMokPoints}
+                          +{formatPoints(selectedGame.homeMokPoints)}
                         </span>
                       </div>
                     )}
@@ -1082,13 +1078,10 @@ export default function ScoresPage() {
 
                 {/* Game bonuses if applicable */}
                 {(() => {
-                  const scoreDiff = Math.abs(
-                    selectedGame.homeScore - selectedGame.awayScore,
+                  const { isBlowout, isShutout } = getGameBonuses(
+                    selectedGame.homeScore,
+                    selectedGame.awayScore,
                   );
-                  const isBlowout = scoreDiff >= 20;
-                  const isShutout =
-                    selectedGame.homeScore === 0 ||
-                    selectedGame.awayScore === 0;
 
                   if (isBlowout || isShutout) {
                     return (
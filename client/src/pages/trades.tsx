@@ -4,60 +4,323 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { RefreshCw, ArrowLeftRight, Clock, Users, ArrowLeft, Search, Plus, User, Send } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeftRight, ArrowLeft, Clock, Search, Send, Check, X, Inbox } from "lucide-react";
 import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { TeamLogo } from "@/components/team-logo";
-import { useState, startTransition } from "react";
+import { useAuth } from "@/features/auth/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/features/query/api";
+import { useState, useEffect, startTransition } from "react";
+
+interface TradeTeam {
+  id: string;
+  code: string;
+  name: string;
+  city: string;
+  logoUrl: string;
+}
+
+interface TradeWindowStatus {
+  isOpen: boolean;
+  reason?: string;
+  week: number;
+  opensAt?: string;
+  closesAt?: string;
+  message: string;
+}
+
+interface MemberRoster {
+  userId: string;
+  name: string;
+  avatar: string | null;
+  teams: TradeTeam[];
+}
+
+interface TradeProposalView {
+  id: string;
+  leagueId: string;
+  proposerId: string;
+  recipientId: string;
+  proposerName: string;
+  recipientName: string;
+  offeredTeams: TradeTeam[];
+  requestedTeams: TradeTeam[];
+  status: 'pending' | 'accepted' | 'rejected' | 'countered' | 'cancelled';
+  message: string | null;
+  counterOfId: string | null;
+  createdAt: string;
+}
+
+interface RosterTransactionView {
+  id: string;
+  userId: string;
+  userName: string;
+  counterpartName: string | null;
+  type: 'draft' | 'trade' | 'add' | 'drop' | 'commissioner';
+  week: number;
+  teamsInDetails: TradeTeam[];
+  teamsOutDetails: TradeTeam[];
+  createdAt: string;
+}
+
+const transactionLabels: Record<RosterTransactionView['type'], string> = {
+  draft: 'Drafted',
+  trade: 'Trade',
+  add: 'Added',
+  drop: 'Dropped',
+  commissioner: 'Commissioner',
+};
+
+// Dialog state for building a new proposal or a counter offer
+interface TradeDraft {
+  partner: MemberRoster;
+  counterOf?: TradeProposalView;
+  offered: Set<string>;
+  requested: Set<string>;
+  message: string;
+}
+
+function initials(name: string) {
+  return name.split(' ').map(part => part[0]).join('').slice(0, 2).toUpperCase();
+}
+
+function TeamChips({ teams }: { teams: TradeTeam[] }) {
+  return (
+    <div className="flex flex-wrap gap-2">
+      {teams.map((team) => (
+        <div key={team.id} className="flex items-center space-x-1 px-2 py-1 rounded-md bg-muted/30">
+          <TeamLogo logoUrl={team.logoUrl} teamCode={team.code} teamName={team.name} size="sm" />
+          <span className="text-xs font-medium">{team.code}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
 
 export default function TradesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
   const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
   const [selectedTab, setSelectedTab] = useState("team-trades");
   const [searchQuery, setSearchQuery] = useState("");
+  const [tradeDraft, setTradeDraft] = useState<TradeDraft | null>(null);
+
+  const { data: leagues = [] } = useQuery({
+    queryKey: ['/api/user/leagues'],
+    enabled: !!user,
+  });
+
+  // Same league selection as the stable page
+  const [selectedLeague, setSelectedLeague] = useState<string>(() =>
+    localStorage.getItem('selectedLeague') || localStorage.getItem('lastDraftLeagueId') || ''
+  );
+
+  useEffect(() => {
+    if (!selectedLeague && Array.isArray(leagues) && leagues.length) {
+      setSelectedLeague((leagues as any[])[0].id);
+    }
+  }, [leagues, selectedLeague]);
+
+  const { data: rosters = [], isLoading: rostersLoading } = useQuery<MemberRoster[]>({
+    queryKey: [`/api/leagues/${selectedLeague}/rosters`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${selectedLeague}/rosters`),
+    enabled: !!user && !!selectedLeague,
+  });
+
+  const { data: proposals = [] } = useQuery<TradeProposalView[]>({
+    queryKey: [`/api/leagues/${selectedLeague}/trades`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${selectedLeague}/trades`),
+    enabled: !!user && !!selectedLeague,
+    refetchInterval: 30000,
+  });
+
+  const { data: tradeWindow } = useQuery<TradeWindowStatus>({
+    queryKey: ['/api/trade-window'],
+    queryFn: () => apiRequest('GET', '/api/trade-window'),
+    enabled: !!user,
+    refetchInterval: 60000,
+  });
 
-  const myTeams = [
-    { id: 1, code: "KC", name: "Kansas City Chiefs", record: "3-0", logoUrl: "/images/nfl/team_logos/KC.png", tradable: true },
-    { id: 2, code: "SF", name: "San Francisco 49ers", record: "2-1", logoUrl: "/images/nfl/team_logos/SF.png", tradable: true },
-    { id: 3, code: "BUF", name: "Buffalo Bills", record: "2-1", logoUrl: "/images/nfl/team_logos/BUF.png", tradable: false, reason: "Week started" },
-    { id: 4, code: "PHI", name: "Philadelphia Eagles", record: "1-2", logoUrl: "/images/nfl/team_logos/PHI.png", tradable: true },
-    { id: 5, code: "LAR", name: "Los Angeles Rams", record: "1-2", logoUrl: "/images/nfl/team_logos/LAR.png", tradable: true }
-  ];
-
-  const leagueMembers = [
-    { id: 1, name: "Mike Chen", avatar: "MC", teams: [
-      { code: "DAL", name: "Dallas Cowboys", record: "2-1", logoUrl: "/images/nfl/team_logos/DAL.png" },
-      { code: "MIA", name: "Miami Dolphins", record: "2-1", logoUrl: "/images/nfl/team_logos/MIA.png" }
-    ]},
-    { id: 2, name: "Sarah Wilson", avatar: "SW", teams: [
-      { code: "BAL", name: "Baltimore Ravens", record: "3-0", logoUrl: "/images/nfl/team_logos/BAL.png" },
-      { code: "GB", name: "Green Bay Packers", record: "2-1", logoUrl: "/images/nfl/team_logos/GB.png" }
-    ]},
-    { id: 3, name: "Alex Rodriguez", avatar: "AR", teams: [
-      { code: "TB", name: "Tampa Bay Buccaneers", record: "2-1", logoUrl: "/images/nfl/team_logos/TB.png" },
-      { code: "SEA", name: "Seattle Seahawks", record: "1-2", logoUrl: "/images/nfl/team_logos/SEA.png" }
-    ]}
-  ];
-
-  const freeAgents = [
-    { id: 6, code: "NYG", name: "New York Giants", record: "0-3", logoUrl: "/images/nfl/team_logos/NYG.png" },
-    { id: 7, code: "ARI", name: "Arizona Cardinals", record: "1-2", logoUrl: "/images/nfl/team_logos/ARI.png" }
-  ];
-
-  const tradeWindowOpen = true; // Mock data
-
-  const filteredMembers = leagueMembers.filter(member => 
+  const tradeWindowOpen = tradeWindow?.isOpen ?? true;
+
+  const { data: transactions = [] } = useQuery<RosterTransactionView[]>({
+    queryKey: [`/api/leagues/${selectedLeague}/transactions`],
+    queryFn: () => apiRequest('GET', `/api/leagues/${selectedLeague}/transactions`),
+    enabled: !!user && !!selectedLeague,
+  });
+
+  const refreshTrades = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/leagues/${selectedLeague}/trades`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/leagues/${selectedLeague}/rosters`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/leagues/${selectedLeague}/transactions`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/user/stable/${selectedLeague}`] });
+  };
+
+  const showError = (title: string) => (error: any) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const submitTradeMutation = useMutation({
+    mutationFn: async (draft: TradeDraft) => {
+      const body = {
+        offeredTeamIds: Array.from(draft.offered),
+        requestedTeamIds: Array.from(draft.requested),
+        message: draft.message || undefined,
+      };
+      if (draft.counterOf) {
+        return apiRequest('POST', `/api/trades/${draft.counterOf.id}/counter`, body);
+      }
+      return apiRequest('POST', `/api/leagues/${selectedLeague}/trades`, { ...body, recipientId: draft.partner.userId });
+    },
+    onSuccess: (_data, draft) => {
+      setTradeDraft(null);
+      toast({
+        title: draft.counterOf ? "Counter offer sent" : "Trade proposed",
+        description: `Waiting on ${draft.partner.name} to respond`,
+      });
+      refreshTrades();
+    },
+    onError: showError("Trade failed"),
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: ({ tradeId, action }: { tradeId: string; action: 'accept' | 'reject' | 'cancel' }) =>
+      apiRequest('POST', `/api/trades/${tradeId}/${action}`),
+    onSuccess: (data: any) => {
+      toast({ title: data?.message || "Trade updated" });
+      refreshTrades();
+    },
+    onError: showError("Unable to update trade"),
+  });
+
+  const myRoster = rosters.find(r => r.userId === user?.id);
+  const otherMembers = rosters.filter(r => r.userId !== user?.id);
+  const filteredMembers = otherMembers.filter(member =>
     member.name.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
+  const incoming = proposals.filter(p => p.status === 'pending' && p.recipientId === user?.id);
+  const outgoing = proposals.filter(p => p.status === 'pending' && p.proposerId === user?.id);
+  const history = proposals.filter(p => p.status !== 'pending');
+
+  const openProposal = (partner: MemberRoster) => {
+    setTradeDraft({ partner, offered: new Set(), requested: new Set(), message: '' });
+  };
+
+  const openCounter = (proposal: TradeProposalView) => {
+    const partner = rosters.find(r => r.userId === proposal.proposerId);
+    if (!partner) return;
+    // Start from the original terms, flipped to our side
+    setTradeDraft({
+      partner,
+      counterOf: proposal,
+      offered: new Set(proposal.requestedTeams.map(t => t.id)),
+      requested: new Set(proposal.offeredTeams.map(t => t.id)),
+      message: '',
+    });
+  };
+
+  const toggleTeam = (side: 'offered' | 'requested', teamId: string) => {
+    if (!tradeDraft) return;
+    const next = new Set(tradeDraft[side]);
+    next.has(teamId) ? next.delete(teamId) : next.add(teamId);
+    setTradeDraft({ ...tradeDraft, [side]: next });
+  };
+
+  const draftIsValid = !!tradeDraft &&
+    tradeDraft.offered.size > 0 &&
+    tradeDraft.offered.size === tradeDraft.requested.size;
+
+  const renderProposal = (proposal: TradeProposalView) => {
+    const isIncoming = proposal.recipientId === user?.id;
+    const partnerName = isIncoming ? proposal.proposerName : proposal.recipientName;
+    const youGive = isIncoming ? proposal.requestedTeams : proposal.offeredTeams;
+    const youGet = isIncoming ? proposal.offeredTeams : proposal.requestedTeams;
+
+    return (
+      <Card key={proposal.id}>
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-medium">
+              {isIncoming ? `From ${partnerName}` : `To ${partnerName}`}
+              {proposal.counterOfId && <span className="text-muted-foreground"> • Counter</span>}
+            </div>
+            <Badge variant={proposal.status === 'accepted' ? "default" : "secondary"} className="text-xs capitalize">
+              {proposal.status}
+            </Badge>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">You give</div>
+              <TeamChips teams={youGive} />
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground mb-1">You get</div>
+              <TeamChips teams={youGet} />
+            </div>
+          </div>
+          {proposal.message && (
+            <p className="text-sm text-muted-foreground italic">"{proposal.message}"</p>
+          )}
+          {proposal.status === 'pending' && (
+            <div className="flex justify-end space-x-2">
+              {isIncoming ? (
+                <>
+                  <Button size="sm" variant="outline" disabled={respondMutation.isPending}
+                    onClick={() => respondMutation.mutate({ tradeId: proposal.id, action: 'reject' })}>
+                    <X className="w-3 h-3 mr-1" /> Reject
+                  </Button>
+                  <Button size="sm" variant="outline" disabled={!tradeWindowOpen} onClick={() => openCounter(proposal)}>
+                    <ArrowLeftRight className="w-3 h-3 mr-1" /> Counter
+                  </Button>
+                  <Button size="sm" disabled={!tradeWindowOpen || respondMutation.isPending}
+                    onClick={() => respondMutation.mutate({ tradeId: proposal.id, action: 'accept' })}>
+                    <Check className="w-3 h-3 mr-1" /> Accept
+                  </Button>
+                </>
+              ) : (
+                <Button size="sm" variant="outline" disabled={respondMutation.isPending}
+                  onClick={() => respondMutation.mutate({ tradeId: proposal.id, action: 'cancel' })}>
+                  Cancel Offer
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderTeamPicker = (side: 'offered' | 'requested', teams: TradeTeam[]) => (
+    <div className="space-y-2">
+      {teams.map((team) => (
+        <label key={team.id} className="flex items-center space-x-3 p-2 rounded-md bg-muted/30 cursor-pointer">
+          <Checkbox
+            checked={tradeDraft?.[side].has(team.id) ?? false}
+            onCheckedChange={() => toggleTeam(side, team.id)}
+          />
+          <TeamLogo logoUrl={team.logoUrl} teamCode={team.code} teamName={team.name} size="md" />
+          <span className="text-sm">{team.city} {team.name}</span>
+        </label>
+      ))}
+    </div>
+  );
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <div className="max-w-4xl mx-auto">
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-border/50 bg-card sticky top-0 z-10">
           <div className="flex items-center space-x-3">
-            <Button 
-              variant="ghost" 
-              size="sm" 
+            <Button
+              variant="ghost"
+              size="sm"
               onClick={() => startTransition(() => navigate('/'))}
               className="p-2"
             >
@@ -68,28 +331,38 @@ export default function TradesPage() {
               <p className="text-sm text-muted-foreground">Manage your roster</p>
             </div>
           </div>
-          <Badge variant={tradeWindowOpen ? "default" : "secondary"} className="text-xs">
-            {tradeWindowOpen ? 'Open' : 'Closed'}
-          </Badge>
+          <div className="flex items-center space-x-2">
+            {incoming.length > 0 && (
+              <Badge className="text-xs">{incoming.length} new</Badge>
+            )}
+            <Badge variant={tradeWindowOpen ? "default" : "secondary"} className="text-xs">
+              {tradeWindowOpen ? 'Open' : 'Closed'}
+            </Badge>
+          </div>
         </div>
 
         {/* Trade Window Status Banner */}
-        {!tradeWindowOpen && (
-          <div className="p-3 bg-orange-50 dark:bg-orange-950/20 border-b border-orange-200 dark:border-orange-800">
-            <div className="flex items-center space-x-2 text-orange-700 dark:text-orange-300">
+        {tradeWindow && (
+          <div className={`p-3 border-b ${tradeWindowOpen
+            ? 'bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-800'
+            : 'bg-orange-50 dark:bg-orange-950/20 border-orange-200 dark:border-orange-800'}`}>
+            <div className={`flex items-center space-x-2 ${tradeWindowOpen
+              ? 'text-green-700 dark:text-green-300'
+              : 'text-orange-700 dark:text-orange-300'}`}>
               <Clock className="w-4 h-4" />
-              <span className="text-sm font-medium">Trade window opens Monday night</span>
+              <span className="text-sm font-medium">{tradeWindow.message}</span>
             </div>
           </div>
         )}
 
         <Tabs value={selectedTab} onValueChange={setSelectedTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3 m-4 mb-0">
+          <TabsList className="grid w-full grid-cols-4 m-4 mb-0">
             <TabsTrigger value="team-trades" className="text-xs">Team Trades</TabsTrigger>
-            <TabsTrigger value="free-agents" className="text-xs">Free Agents</TabsTrigger>
+            <TabsTrigger value="offers" className="text-xs">Offers</TabsTrigger>
+            <TabsTrigger value="activity" className="text-xs">Activity</TabsTrigger>
             <TabsTrigger value="my-roster" className="text-xs">My Roster</TabsTrigger>
           </TabsList>
-          
+
           {/* Team Trades Tab */}
           <TabsContent value="team-trades" className="p-4 space-y-4">
             {/* Search */}
@@ -105,30 +378,38 @@ export default function TradesPage() {
 
             {/* League Members */}
             <div className="space-y-3">
+              {rostersLoading && (
+                <div className="text-sm text-muted-foreground text-center py-6">Loading league rosters...</div>
+              )}
               {filteredMembers.map((member) => (
-                <Card key={member.id} className="hover:shadow-sm transition-shadow">
+                <Card key={member.userId} className="hover:shadow-sm transition-shadow">
                   <CardContent className="p-4">
                     <div className="flex items-center justify-between mb-3">
                       <div className="flex items-center space-x-3">
                         <Avatar className="w-8 h-8">
-                          <AvatarFallback className="text-xs">{member.avatar}</AvatarFallback>
+                          <AvatarFallback className="text-xs">{initials(member.name)}</AvatarFallback>
                         </Avatar>
                         <div>
                           <div className="font-medium text-sm">{member.name}</div>
                           <div className="text-xs text-muted-foreground">{member.teams.length} teams</div>
                         </div>
                       </div>
-                      <Button size="sm" variant="outline" disabled={!tradeWindowOpen}>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!tradeWindowOpen || !myRoster?.teams.length || !member.teams.length}
+                        onClick={() => openProposal(member)}
+                      >
                         <Send className="w-3 h-3 mr-2" />
                         Propose Trade
                       </Button>
                     </div>
-                    
+
                     {/* Member's Teams */}
                     <div className="grid grid-cols-2 gap-2">
-                      {member.teams.map((team, index) => (
-                        <div key={index} className="flex items-center space-x-2 p-2 rounded-md bg-muted/30">
-                          <TeamLogo 
+                      {member.teams.map((team) => (
+                        <div key={team.id} className="flex items-center space-x-2 p-2 rounded-md bg-muted/30">
+                          <TeamLogo
                             logoUrl={team.logoUrl}
                             teamCode={team.code}
                             teamName={team.name}
@@ -137,7 +418,7 @@ export default function TradesPage() {
                           />
                           <div className="flex-1 min-w-0">
                             <div className="text-xs font-medium truncate">{team.code}</div>
-                            <div className="text-xs text-muted-foreground">{team.record}</div>
+                            <div className="text-xs text-muted-foreground truncate">{team.name}</div>
                           </div>
                         </div>
                       ))}
@@ -147,94 +428,96 @@ export default function TradesPage() {
               ))}
             </div>
           </TabsContent>
-          
-          {/* Free Agents Tab */}
-          <TabsContent value="free-agents" className="p-4 space-y-4">
-            <div className="space-y-3">
-              {freeAgents.map((team) => (
-                <Card key={team.id} className="hover:shadow-sm transition-shadow">
-                  <CardContent className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-4">
-                        <TeamLogo 
-                          logoUrl={team.logoUrl}
-                          teamCode={team.code}
-                          teamName={team.name}
-                          size="md"
-                          className="w-10 h-10"
-                        />
-                        <div>
-                          <div className="font-medium">{team.name}</div>
-                          <div className="text-sm text-muted-foreground">{team.record} • Free Agent</div>
-                        </div>
-                      </div>
-                      <Button 
-                        size="sm" 
-                        disabled={!tradeWindowOpen}
-                        className="min-w-[80px]"
-                      >
-                        <Plus className="w-3 h-3 mr-2" />
-                        {tradeWindowOpen ? 'Add' : 'Locked'}
-                      </Button>
+
+          {/* Offers Tab */}
+          <TabsContent value="offers" className="p-4 space-y-4">
+            {proposals.length === 0 && (
+              <div className="flex flex-col items-center text-muted-foreground py-10">
+                <Inbox className="w-8 h-8 mb-2" />
+                <span className="text-sm">No trade offers yet</span>
+              </div>
+            )}
+            {incoming.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-sm font-semibold">Received</h2>
+                {incoming.map(renderProposal)}
+              </div>
+            )}
+            {outgoing.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-sm font-semibold">Sent</h2>
+                {outgoing.map(renderProposal)}
+              </div>
+            )}
+            {history.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-sm font-semibold">History</h2>
+                {history.map(renderProposal)}
+              </div>
+            )}
+          </TabsContent>
+
+          {/* League Activity Tab */}
+          <TabsContent value="activity" className="p-4 space-y-3">
+            {transactions.length === 0 && (
+              <div className="text-sm text-muted-foreground text-center py-10">No roster moves yet this season</div>
+            )}
+            {transactions.map((transaction) => (
+              <Card key={transaction.id}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm font-medium">
+                      {transaction.userName}
+                      {transaction.counterpartName && (
+                        <span className="text-muted-foreground"> with {transaction.counterpartName}</span>
+                      )}
                     </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
-            
-            {/* Quick Stats */}
-            <Card className="bg-muted/30">
-              <CardContent className="p-4">
-                <div className="text-center">
-                  <div className="text-sm text-muted-foreground mb-1">Available Free Agents</div>
-                  <div className="text-2xl font-bold">{freeAgents.length}</div>
-                </div>
-              </CardContent>
-            </Card>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="secondary" className="text-xs">{transactionLabels[transaction.type]}</Badge>
+                      <span className="text-xs text-muted-foreground">Week {transaction.week}</span>
+                    </div>
+                  </div>
+                  {transaction.teamsInDetails.length > 0 && (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs text-green-600 w-8">In</span>
+                      <TeamChips teams={transaction.teamsInDetails} />
+                    </div>
+                  )}
+                  {transaction.teamsOutDetails.length > 0 && (
+                    <div className="flex items-center space-x-2">
+                      <span className="text-xs text-red-600 w-8">Out</span>
+                      <TeamChips teams={transaction.teamsOutDetails} />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
           </TabsContent>
 
           {/* My Roster Tab */}
           <TabsContent value="my-roster" className="p-4 space-y-4">
             <div className="space-y-3">
-              {myTeams.map((team) => (
-                <Card key={team.id} className={`${!team.tradable ? 'opacity-60' : 'hover:shadow-sm'} transition-all`}>
+              {(myRoster?.teams || []).map((team) => (
+                <Card key={team.id} className="hover:shadow-sm transition-all">
                   <CardContent className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-4">
-                        <TeamLogo 
-                          logoUrl={team.logoUrl}
-                          teamCode={team.code}
-                          teamName={team.name}
-                          size="md"
-                          className="w-10 h-10"
-                        />
-                        <div>
-                          <div className="font-medium">{team.name}</div>
-                          <div className="text-sm text-muted-foreground">
-                            {team.record} • {team.tradable ? 'Tradable' : team.reason}
-                          </div>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        {!team.tradable && (
-                          <Badge variant="secondary" className="text-xs">Locked</Badge>
-                        )}
-                        <Button 
-                          size="sm" 
-                          variant="outline"
-                          disabled={!team.tradable || !tradeWindowOpen}
-                          className="min-w-[80px]"
-                        >
-                          <ArrowLeftRight className="w-3 h-3 mr-2" />
-                          Trade
-                        </Button>
+                    <div className="flex items-center space-x-4">
+                      <TeamLogo
+                        logoUrl={team.logoUrl}
+                        teamCode={team.code}
+                        teamName={team.name}
+                        size="md"
+                        className="w-10 h-10"
+                      />
+                      <div>
+                        <div className="font-medium">{team.city} {team.name}</div>
+                        <div className="text-sm text-muted-foreground">{team.code}</div>
                       </div>
                     </div>
                   </CardContent>
                 </Card>
               ))}
             </div>
-            
+
             {/* Trading Rules */}
             <Card className="bg-blue-50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-800">
               <CardHeader className="pb-3">
@@ -243,15 +526,57 @@ export default function TradesPage() {
               <CardContent className="space-y-2 text-sm text-blue-700 dark:text-blue-300">
                 <p>• Trade window: Monday night to Thursday 8:20 PM ET</p>
                 <p>• Team-to-team trades allowed during window</p>
-                <p>• No lock restrictions on newly acquired teams</p>
-                <p>• Cannot trade teams once their week has started</p>
+                <p>• Both sides must swap the same number of teams</p>
+                <p>• Lock usage stays with each team when it is traded</p>
                 <p>• Maximum 1 trade transaction per week</p>
               </CardContent>
             </Card>
           </TabsContent>
         </Tabs>
       </div>
+
+      {/* Propose / Counter Dialog */}
+      <Dialog open={!!tradeDraft} onOpenChange={(open) => !open && setTradeDraft(null)}>
+        <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto" aria-describedby="trade-dialog-desc">
+          <DialogHeader>
+            <DialogTitle>
+              {tradeDraft?.counterOf ? 'Counter Offer' : 'Propose Trade'} with {tradeDraft?.partner.name}
+            </DialogTitle>
+            <DialogDescription id="trade-dialog-desc">
+              Pick the same number of teams on each side.
+            </DialogDescription>
+          </DialogHeader>
+          {tradeDraft && (
+            <div className="space-y-4">
+              <div>
+                <div className="text-sm font-medium mb-2">You give</div>
+                {renderTeamPicker('offered', myRoster?.teams || [])}
+              </div>
+              <div>
+                <div className="text-sm font-medium mb-2">You get</div>
+                {renderTeamPicker('requested', tradeDraft.partner.teams)}
+              </div>
+              <Textarea
+                placeholder="Add a message (optional)"
+                maxLength={280}
+                value={tradeDraft.message}
+                onChange={(e) => setTradeDraft({ ...tradeDraft, message: e.target.value })}
+              />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTradeDraft(null)}>Cancel</Button>
+            <Button
+              disabled={!draftIsValid || submitTradeMutation.isPending}
+              onClick={() => tradeDraft && submitTradeMutation.mutate(tradeDraft)}
+            >
+              <Send className="w-3 h-3 mr-2" />
+              {tradeDraft?.counterOf ? 'Send Counter' : 'Send Offer'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
       <BottomNav />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -8,11 +8,13 @@ const Main = React.lazy(() => import("@/pages/main"));
 const Login = React.lazy(() => import("@/pages/login"));
 const Dashboard = React.lazy(() => import("@/pages/dashboard"));
 const Draft = React.lazy(() => import("@/pages/draft"));
+const DraftRecap = React.lazy(() => import("@/pages/draft-recap"));
 const Scores = React.lazy(() => import("@/pages/scores"));
 const Teams = React.lazy(() => import("@/pages/teams"));
 const Leagues = React.lazy(() => import("@/pages/leagues"));
 const LeagueWaiting = React.lazy(() => import("@/pages/league-waiting"));
 const Trades = React.lazy(() => import("@/pages/trades"));
+const Payouts = React.lazy(() => import("@/pages/payouts"));
 const Admin = React.lazy(() => import("@/pages/admin"));
 const DatabaseViewer = React.lazy(() => import("@/pages/database-viewer"));
 const Agents = React.lazy(() => import("@/pages/agents"));
@@ -48,6 +50,7 @@ export function getRouter() {
     <Switch>
       <Route path="/login" component={Login} />
       <Route path="/dashboard" component={() => <AuthGuard><Dashboard /></AuthGuard>} />
+      <Route path="/draft/:draftId/recap" component={() => <AuthGuard><RequireLeague><DraftRecap /></RequireLeague></AuthGuard>} />
       <Route path="/draft/:draftId" component={() => <AuthGuard><RequireLeague><Draft /></RequireLeague></AuthGuard>} />
       <Route path="/draft" component={() => <AuthGuard><RequireLeague><Draft /></RequireLeague></AuthGuard>} />
       <Route path="/scores" component={() => <AuthGuard><RequireLeague><Scores /></RequireLeague></AuthGuard>} />
@@ -59,6 +62,8 @@ export function getRouter() {
       <Route path="/more" component={() => <AuthGuard><RequireLeague><MoreHub /></RequireLeague></AuthGuard>} />
       <Route path="/more/trades" component={() => <AuthGuard><RequireLeague><Trades /></RequireLeague></AuthGuard>} />
       <Route path="/trades" component={() => <AuthGuard><RequireLeague><Trades /></RequireLeague></AuthGuard>} />
+      <Route path="/more/payouts" component={() => <AuthGuard><RequireLeague><Payouts /></RequireLeague></AuthGuard>} />
+      <Route path="/payouts" component={() => <AuthGuard><RequireLeague><Payouts /></RequireLeague></AuthGuard>} />
       <Route path="/admin" component={() => <AuthGuard><Admin /></AuthGuard>} />
       <Route path="/database" component={() => <AuthGuard><DatabaseViewer /></AuthGuard>} />
       <Route path="/agents" component={() => <AuthGuard><Agents /></AuthGuard>} />
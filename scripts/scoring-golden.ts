@@ -0,0 +1,105 @@
+#!/usr/bin/env tsx
+
+/**
+ * Scoring golden-file check
+ * Scores the 2024 week 1 results (plus a few hand-made edge games) through the shared scoring
+ * engine and compares the output against the checked-in expected file.
+ * Usage: tsx scripts/scoring-golden.ts [--update]   (--update rewrites the expected file)
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import { isDeepStrictEqual } from "util";
+import {
+  getGameOutcome,
+  calculateGamePoints,
+  scoreTeamGame,
+  getWeeklyHighLow
+} from "../shared/utils/scoring.js";
+
+const RESULTS_PATH = new URL("../server/data/nfl2024week1results.json", import.meta.url);
+const EXPECTED_PATH = new URL("../server/data/nfl2024week1scoring.expected.json", import.meta.url);
+
+interface GameResult {
+  date: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+}
+
+// Games the real week doesn't cover: either side of the 21-point blowout line, a shutout and a tie
+const EDGE_GAMES: GameResult[] = [
+  { date: "edge", homeTeam: "MARGIN20_HOME", awayTeam: "MARGIN20_AWAY", homeScore: 30, awayScore: 10 },
+  { date: "edge", homeTeam: "MARGIN21_HOME", awayTeam: "MARGIN21_AWAY", homeScore: 31, awayScore: 10 },
+  { date: "edge", homeTeam: "SHUTOUT_HOME", awayTeam: "SHUTOUT_AWAY", homeScore: 0, awayScore: 3 },
+  { date: "edge", homeTeam: "TIE_HOME", awayTeam: "TIE_AWAY", homeScore: 17, awayScore: 17 }
+];
+
+function scoreSide(team: string, teamScore: number, opponentScore: number) {
+  const outcome = getGameOutcome(teamScore, opponentScore);
+  return {
+    team,
+    score: teamScore,
+    outcome,
+    gamePoints: calculateGamePoints(outcome),
+    locked: scoreTeamGame(teamScore, opponentScore, true, false).totalPoints,
+    lockAndLoad: scoreTeamGame(teamScore, opponentScore, false, true).totalPoints
+  };
+}
+
+function scoreWeek(games: GameResult[]) {
+  const teams = games.flatMap(game => [
+    scoreSide(game.homeTeam, game.homeScore, game.awayScore),
+    scoreSide(game.awayTeam, game.awayScore, game.homeScore)
+  ]);
+  const highLow = getWeeklyHighLow(teams.map(team => team.score));
+
+  return {
+    teams,
+    weeklyHigh: teams.filter(team => team.score === highLow?.highScore).map(team => team.team),
+    weeklyLow: teams.filter(team => team.score === highLow?.lowScore).map(team => team.team)
+  };
+}
+
+const results: GameResult[] = JSON.parse(readFileSync(RESULTS_PATH, "utf8")).week1_2024_results;
+const actual = {
+  week1: scoreWeek(results),
+  edgeCases: scoreWeek(EDGE_GAMES)
+};
+
+if (process.argv.includes("--update")) {
+  writeFileSync(EXPECTED_PATH, JSON.stringify(actual, null, 2) + "\n");
+  console.log(`✅ Wrote ${EXPECTED_PATH.pathname}`);
+  process.exit(0);
+}
+
+const expected = JSON.parse(readFileSync(EXPECTED_PATH, "utf8"));
+let failures = 0;
+
+for (const section of Object.keys(expected) as (keyof typeof actual)[]) {
+  const expectedTeams = new Map<string, unknown>(expected[section].teams.map((team: { team: string }) => [team.team, team]));
+  for (const team of actual[section].teams) {
+    if (!isDeepStrictEqual(team, expectedTeams.get(team.team))) {
+      failures++;
+      console.error(`❌ ${section} ${team.team}: expected ${JSON.stringify(expectedTeams.get(team.team))}, got ${JSON.stringify(team)}`);
+    }
+  }
+  for (const key of ["weeklyHigh", "weeklyLow"] as const) {
+    if (!isDeepStrictEqual(actual[section][key], expected[section][key])) {
+      failures++;
+      console.error(`❌ ${section} ${key}: expected ${expected[section][key]}, got ${actual[section][key]}`);
+    }
+  }
+}
+
+if (!isDeepStrictEqual(actual, expected) && failures === 0) {
+  failures++;
+  console.error("❌ Output doesn't match the expected file (teams added or removed)");
+}
+
+if (failures > 0) {
+  console.error(`\n${failures} scoring mismatch(es) - if the rules changed on purpose, rerun with --update and review the diff`);
+  process.exit(1);
+}
+
+console.log(`✅ Scoring matches the golden file (${actual.week1.teams.length + actual.edgeCases.teams.length} team results)`);
@@ -0,0 +1,62 @@
+/**
+ * Auction Turns and Budgets
+ *
+ * Nominations rotate through the draft order, skipping members whose stables are full. Both the
+ * nominator and every member's budget are worked out from the sales so far, so nothing about the
+ * turn order has to be stored.
+ */
+
+import type { Draft, DraftPick } from "@shared/schema";
+import { DEFAULT_AUCTION_BUDGET, maxAuctionBid } from "@shared/utils/auction";
+
+export interface AuctionBudget {
+  userId: string;
+  spent: number;
+  remaining: number;
+  slotsLeft: number;
+  maxBid: number;
+}
+
+type AuctionSale = Pick<DraftPick, "userId" | "winningBid">;
+
+function countTeams(picks: AuctionSale[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const pick of picks) {
+    counts.set(pick.userId, (counts.get(pick.userId) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * The member whose turn it is to put a team up, or null once every stable is full
+ */
+export function getAuctionNominator(draft: Pick<Draft, "draftOrder" | "totalRounds">, picks: AuctionSale[]): string | null {
+  const counts = countTeams(picks);
+  const members = draft.draftOrder.length;
+  if (members === 0) return null;
+
+  for (let offset = 0; offset < members; offset++) {
+    const userId = draft.draftOrder[(picks.length + offset) % members];
+    if ((counts.get(userId) || 0) < draft.totalRounds) return userId;
+  }
+  return null;
+}
+
+export function getAuctionBudgets(draft: Pick<Draft, "draftOrder" | "totalRounds" | "auctionBudget">, picks: AuctionSale[]): AuctionBudget[] {
+  const budget = draft.auctionBudget ?? DEFAULT_AUCTION_BUDGET;
+  const counts = countTeams(picks);
+
+  return draft.draftOrder.map(userId => {
+    const spent = picks
+      .filter(pick => pick.userId === userId)
+      .reduce((total, pick) => total + (pick.winningBid ?? 0), 0);
+    const slotsLeft = draft.totalRounds - (counts.get(userId) || 0);
+    return {
+      userId,
+      spent,
+      remaining: budget - spent,
+      slotsLeft,
+      maxBid: maxAuctionBid(budget - spent, slotsLeft)
+    };
+  });
+}
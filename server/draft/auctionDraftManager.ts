@@ -0,0 +1,478 @@
+/**
+ * Auction Draft Manager
+ *
+ * Runs the live auction format alongside the snake engine:
+ * - Members take turns nominating a team with an opening bid (see auction.ts for the turn order)
+ * - Bids land over the REST API and go out to the room over the draft websocket; each one
+ *   restarts the countdown
+ * - When the countdown runs out the high bidder wins the team as an ordinary draft pick, and the
+ *   finished draft builds stables the same way a snake draft does
+ * - Robots nominate from their strategies and bid up to what the team is worth to them
+ *
+ * The open lot lives in memory. After a restart the lot in progress is dropped and the member
+ * whose turn it was gets a fresh nomination clock - nothing is sold until the countdown ends.
+ */
+
+import type { IStorage } from "../storage.js";
+import type { Draft, NflTeam } from "@shared/schema";
+import type SnakeDraftManager from "./snakeDraftManager.js";
+import type { RobotManager } from "../testing/robotManager.js";
+import { getAuctionBudgets, getAuctionNominator, type AuctionBudget } from "./auction.js";
+import { findDivisionRuleBreakers } from "./divisionRule.js";
+import { getMaxTeamsPerDivision } from "@shared/utils/leagueSize";
+import { AUCTION_BID_SECONDS, DEFAULT_AUCTION_BUDGET, MIN_AUCTION_BID } from "@shared/utils/auction";
+
+const ROBOT_NOMINATION_DELAY_MS = 3000;
+const ROBOT_BID_DELAY_MS = { min: 2000, max: 6000 }; // Inside the countdown so a robot never bids at the buzzer
+
+interface AuctionLot {
+  nominatorId: string;
+  nflTeam: NflTeam;
+  highBid: number;
+  highBidderId: string;
+  expiresAt: number;
+}
+
+export interface AuctionState {
+  budget: number;
+  bidSeconds: number;
+  nominatorId: string | null;
+  nominationTimeRemaining: number;
+  lot: {
+    nflTeam: Pick<NflTeam, 'id' | 'code' | 'name' | 'city' | 'conference' | 'division' | 'logoUrl'>;
+    nominatorId: string;
+    highBid: number;
+    highBidderId: string;
+    timeRemaining: number;
+  } | null;
+  members: AuctionBudget[];
+}
+
+export interface AuctionActionResult {
+  success: boolean;
+  error?: string;
+  auction?: AuctionState;
+}
+
+function secondsUntil(timestamp: number): number {
+  return Math.max(0, Math.ceil((timestamp - Date.now()) / 1000));
+}
+
+export class AuctionDraftManager {
+  private storage: IStorage;
+  private draftManager: SnakeDraftManager;
+  private webSocketManager?: any;
+  private robotManager?: RobotManager;
+  private lots: Map<string, AuctionLot> = new Map();
+  private nominationDeadlines: Map<string, { userId: string; expiresAt: number }> = new Map();
+  private clocks: Map<string, NodeJS.Timeout> = new Map(); // Nomination clock or lot countdown, one per draft
+  private robotTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(storage: IStorage, draftManager: SnakeDraftManager, webSocketManager?: any, robotManager?: RobotManager) {
+    this.storage = storage;
+    this.draftManager = draftManager;
+    this.webSocketManager = webSocketManager;
+    this.robotManager = robotManager;
+  }
+
+  /**
+   * Picks up auctions that were running when the server went down
+   */
+  async recoverActiveAuctions(): Promise<void> {
+    const drafts = await this.storage.getActiveAuctionDrafts();
+    for (const draft of drafts) {
+      try {
+        await this.openNominations(draft.id);
+      } catch (error) {
+        console.error(`[Auction] Failed to recover auction draft ${draft.id}:`, error);
+      }
+    }
+    if (drafts.length > 0) {
+      console.log(`[Auction] Recovered ${drafts.length} active auction drafts`);
+    }
+  }
+
+  /**
+   * Puts the next member on the nomination clock - called when the draft goes live and after every sale
+   */
+  async openNominations(draftId: string): Promise<void> {
+    const draft = await this.storage.getDraft(draftId);
+    if (!draft || draft.status !== 'active') return;
+
+    const picks = await this.storage.getDraftPicks(draftId);
+    const nominatorId = getAuctionNominator(draft, picks);
+    if (!nominatorId) return;
+
+    this.lots.delete(draftId);
+    this.nominationDeadlines.set(draftId, { userId: nominatorId, expiresAt: Date.now() + draft.pickTimeLimit * 1000 });
+    this.setClock(draftId, draft.pickTimeLimit * 1000, () => this.handleNominationExpired(draftId, nominatorId));
+
+    if (this.robotManager?.isRobot(nominatorId)) {
+      this.setRobotTimer(draftId, ROBOT_NOMINATION_DELAY_MS, () => this.autoNominate(draftId, nominatorId));
+    }
+
+    await this.broadcastUpdate(draftId);
+  }
+
+  /**
+   * Puts a team up for bidding with the nominator as the opening high bidder
+   */
+  async nominate(draftId: string, userId: string, nflTeamId: string, openingBid: number): Promise<AuctionActionResult> {
+    const draft = await this.storage.getDraft(draftId);
+    if (!draft || draft.draftFormat !== 'auction') {
+      return { success: false, error: 'Auction draft not found' };
+    }
+    if (draft.status !== 'active') {
+      return { success: false, error: 'Draft is not active' };
+    }
+    if (this.lots.has(draftId)) {
+      return { success: false, error: 'A team is already up for bidding' };
+    }
+
+    const picks = await this.storage.getDraftPicks(draftId);
+    if (getAuctionNominator(draft, picks) !== userId) {
+      return { success: false, error: 'Not your turn to nominate' };
+    }
+
+    const availableTeams = await this.storage.getAvailableNflTeams(draftId);
+    const nflTeam = availableTeams.find(team => team.id === nflTeamId);
+    if (!nflTeam) {
+      return { success: false, error: 'Team is not available' };
+    }
+
+    const bidError = this.checkBid(draft, picks, availableTeams, userId, nflTeam, openingBid);
+    if (bidError) {
+      return { success: false, error: bidError };
+    }
+
+    // Someone may have nominated while the checks above were waiting on the database
+    if (this.lots.has(draftId)) {
+      return { success: false, error: 'A team is already up for bidding' };
+    }
+
+    this.nominationDeadlines.delete(draftId);
+    this.lots.set(draftId, {
+      nominatorId: userId,
+      nflTeam,
+      highBid: openingBid,
+      highBidderId: userId,
+      expiresAt: Date.now() + AUCTION_BID_SECONDS * 1000
+    });
+    this.setClock(draftId, AUCTION_BID_SECONDS * 1000, () => this.sellLot(draftId));
+
+    console.log(`[Auction] ${userId} nominated ${nflTeam.code} for $${openingBid} in draft ${draftId}`);
+
+    const auction = await this.broadcastUpdate(draftId);
+    this.scheduleRobotBid(draftId);
+    return { success: true, auction };
+  }
+
+  /**
+   * Raises the high bid on the open lot and starts the countdown over
+   */
+  async placeBid(draftId: string, userId: string, amount: number): Promise<AuctionActionResult> {
+    const lot = this.lots.get(draftId);
+    if (!lot) {
+      return { success: false, error: 'No team is up for bidding' };
+    }
+
+    const draft = await this.storage.getDraft(draftId);
+    if (!draft || draft.status !== 'active') {
+      return { success: false, error: 'Draft is not active' };
+    }
+    if (!draft.draftOrder.includes(userId)) {
+      return { success: false, error: 'You are not in this draft' };
+    }
+
+    const [picks, availableTeams] = await Promise.all([
+      this.storage.getDraftPicks(draftId),
+      this.storage.getAvailableNflTeams(draftId)
+    ]);
+
+    const bidError = this.checkBid(draft, picks, availableTeams, userId, lot.nflTeam, amount);
+    if (bidError) {
+      return { success: false, error: bidError };
+    }
+
+    // Re-check against the lot as it stands now - another bid may have landed in the meantime
+    if (this.lots.get(draftId) !== lot) {
+      return { success: false, error: 'Bidding on that team has closed' };
+    }
+    if (lot.highBidderId === userId) {
+      return { success: false, error: 'You already have the high bid' };
+    }
+    if (amount <= lot.highBid) {
+      return { success: false, error: `Bid must be more than $${lot.highBid}` };
+    }
+
+    lot.highBid = amount;
+    lot.highBidderId = userId;
+    lot.expiresAt = Date.now() + AUCTION_BID_SECONDS * 1000;
+    this.setClock(draftId, AUCTION_BID_SECONDS * 1000, () => this.sellLot(draftId));
+
+    console.log(`[Auction] ${userId} bid $${amount} on ${lot.nflTeam.code} in draft ${draftId}`);
+
+    const auction = await this.broadcastUpdate(draftId);
+    this.scheduleRobotBid(draftId);
+    return { success: true, auction };
+  }
+
+  async getAuctionState(draft: Draft): Promise<AuctionState> {
+    const picks = await this.storage.getDraftPicks(draft.id);
+    const lot = this.lots.get(draft.id);
+    const deadline = this.nominationDeadlines.get(draft.id);
+
+    return {
+      budget: draft.auctionBudget ?? DEFAULT_AUCTION_BUDGET,
+      bidSeconds: AUCTION_BID_SECONDS,
+      nominatorId: draft.status === 'active' ? getAuctionNominator(draft, picks) : null,
+      nominationTimeRemaining: !lot && deadline ? secondsUntil(deadline.expiresAt) : 0,
+      lot: lot ? {
+        nflTeam: {
+          id: lot.nflTeam.id,
+          code: lot.nflTeam.code,
+          name: lot.nflTeam.name,
+          city: lot.nflTeam.city,
+          conference: lot.nflTeam.conference,
+          division: lot.nflTeam.division,
+          logoUrl: lot.nflTeam.logoUrl
+        },
+        nominatorId: lot.nominatorId,
+        highBid: lot.highBid,
+        highBidderId: lot.highBidderId,
+        timeRemaining: secondsUntil(lot.expiresAt)
+      } : null,
+      members: getAuctionBudgets(draft, picks)
+    };
+  }
+
+  /**
+   * Stops every clock for a draft, e.g. before it is reset or deleted
+   */
+  stopAuction(draftId: string): void {
+    for (const timers of [this.clocks, this.robotTimers]) {
+      const timer = timers.get(draftId);
+      if (timer) clearTimeout(timer);
+      timers.delete(draftId);
+    }
+    this.lots.delete(draftId);
+    this.nominationDeadlines.delete(draftId);
+  }
+
+  /**
+   * Why a member can't bid `amount` on the team, or null if they can
+   */
+  private checkBid(
+    draft: Draft,
+    picks: Awaited<ReturnType<IStorage['getDraftPicks']>>,
+    availableTeams: NflTeam[],
+    userId: string,
+    nflTeam: NflTeam,
+    amount: number
+  ): string | null {
+    const budget = getAuctionBudgets(draft, picks).find(member => member.userId === userId);
+    if (!budget || budget.slotsLeft <= 0) {
+      return 'Your stable is already full';
+    }
+    if (!Number.isInteger(amount) || amount < MIN_AUCTION_BID) {
+      return `Bids start at $${MIN_AUCTION_BID}`;
+    }
+    if (amount > budget.maxBid) {
+      return `You can bid at most $${budget.maxBid} and still fill your stable`;
+    }
+
+    const breakers = this.getDivisionRuleBreakers(draft, picks, availableTeams, userId, budget.slotsLeft);
+    if (breakers.has(nflTeam.id) && breakers.size < availableTeams.length) {
+      return 'Division rule violation: winning this team would leave no division-legal way to fill your stable';
+    }
+    return null;
+  }
+
+  private getDivisionRuleBreakers(
+    draft: Draft,
+    picks: Awaited<ReturnType<IStorage['getDraftPicks']>>,
+    availableTeams: NflTeam[],
+    userId: string,
+    slotsLeft: number
+  ): Set<string> {
+    const memberTeams = picks.filter(pick => pick.userId === userId).map(pick => pick.nflTeam);
+    return findDivisionRuleBreakers(memberTeams, availableTeams, slotsLeft, getMaxTeamsPerDivision(draft.totalRounds));
+  }
+
+  private async sellLot(draftId: string): Promise<void> {
+    const lot = this.lots.get(draftId);
+    if (!lot) return;
+    this.lots.delete(draftId);
+    this.clearRobotTimer(draftId);
+
+    try {
+      const { pick, completed } = await this.storage.createAuctionPickAtomic({
+        draftId,
+        userId: lot.highBidderId,
+        nflTeamId: lot.nflTeam.id,
+        winningBid: lot.highBid
+      });
+
+      console.log(`[Auction] ${lot.nflTeam.code} sold to ${lot.highBidderId} for $${lot.highBid} in draft ${draftId}`);
+
+      const picks = await this.storage.getDraftPicks(draftId);
+      const pickWithData = picks.find(p => p.id === pick.id);
+      const draft = await this.storage.getDraft(draftId);
+      if (this.webSocketManager && draft) {
+        this.webSocketManager.broadcastAuctionSold(draftId, pickWithData, await this.getAuctionState(draft));
+      }
+
+      if (completed) {
+        this.stopAuction(draftId);
+        if (draft) await this.draftManager.initializeStables(draft);
+        this.webSocketManager?.broadcastDraftCompleted(draftId);
+        console.log(`[Auction] Auction draft ${draftId} completed`);
+      } else {
+        await this.openNominations(draftId);
+      }
+    } catch (error) {
+      console.error(`[Auction] Failed to record sale of ${lot.nflTeam.code} in draft ${draftId}:`, error);
+
+      // The lot is gone either way - put the next nominator on the clock so the auction doesn't stall.
+      // If the sale never landed, the team is simply back on the board.
+      await this.openNominations(draftId).catch(reopenError => {
+        console.error(`[Auction] Failed to reopen nominations in draft ${draftId}:`, reopenError);
+      });
+    }
+  }
+
+  private async handleNominationExpired(draftId: string, userId: string): Promise<void> {
+    const deadline = this.nominationDeadlines.get(draftId);
+    if (!deadline || deadline.userId !== userId || this.lots.has(draftId)) return;
+
+    console.log(`[Auction] Nomination clock ran out for ${userId} in draft ${draftId}`);
+    await this.autoNominate(draftId, userId);
+  }
+
+  /**
+   * Nominates for a member at the minimum bid - robots by their strategy, anyone else by the
+   * default ranking
+   */
+  private async autoNominate(draftId: string, userId: string): Promise<void> {
+    try {
+      const draft = await this.storage.getDraft(draftId);
+      if (!draft || draft.status !== 'active' || this.lots.has(draftId)) return;
+
+      const [picks, availableTeams] = await Promise.all([
+        this.storage.getDraftPicks(draftId),
+        this.storage.getAvailableNflTeams(draftId)
+      ]);
+      const slotsLeft = draft.totalRounds - picks.filter(pick => pick.userId === userId).length;
+      const breakers = this.getDivisionRuleBreakers(draft, picks, availableTeams, userId, slotsLeft);
+      const eligibleTeams = breakers.size === availableTeams.length
+        ? availableTeams
+        : availableTeams.filter(team => !breakers.has(team.id));
+      if (eligibleTeams.length === 0) return;
+
+      const ranked = this.robotManager?.isRobot(userId)
+        ? await this.robotManager.getRobotTeamPreference(userId, eligibleTeams, draft)
+        : await this.draftManager.getDefaultTeamRanking(draft, eligibleTeams);
+
+      const result = await this.nominate(draftId, userId, ranked[0].id, MIN_AUCTION_BID);
+      if (!result.success) {
+        console.log(`[Auction] Auto-nomination for ${userId} in draft ${draftId} skipped: ${result.error}`);
+      }
+    } catch (error) {
+      console.error(`[Auction] Auto-nomination failed for ${userId} in draft ${draftId}:`, error);
+    }
+  }
+
+  /**
+   * Lets the robot that values the open lot most raise the bid, if any of them will
+   */
+  private scheduleRobotBid(draftId: string): void {
+    if (!this.robotManager) return;
+    this.clearRobotTimer(draftId);
+
+    const delay = ROBOT_BID_DELAY_MS.min + Math.random() * (ROBOT_BID_DELAY_MS.max - ROBOT_BID_DELAY_MS.min);
+    this.setRobotTimer(draftId, delay, async () => {
+      const lot = this.lots.get(draftId);
+      if (!lot) return;
+
+      try {
+        const bid = await this.chooseRobotBid(draftId, lot);
+        if (bid && this.lots.get(draftId) === lot) {
+          await this.placeBid(draftId, bid.robotId, bid.amount);
+        }
+      } catch (error) {
+        console.error(`[Auction] Robot bid failed in draft ${draftId}:`, error);
+      }
+    });
+  }
+
+  private async chooseRobotBid(draftId: string, lot: AuctionLot): Promise<{ robotId: string; amount: number } | null> {
+    const draft = await this.storage.getDraft(draftId);
+    if (!draft || draft.status !== 'active' || !this.robotManager) return null;
+
+    const [picks, availableTeams] = await Promise.all([
+      this.storage.getDraftPicks(draftId),
+      this.storage.getAvailableNflTeams(draftId)
+    ]);
+    const budgets = getAuctionBudgets(draft, picks);
+
+    let best: { robotId: string; value: number } | null = null;
+    for (const budget of budgets) {
+      if (!this.robotManager.isRobot(budget.userId) || budget.userId === lot.highBidderId) continue;
+      if (budget.slotsLeft <= 0 || budget.maxBid <= lot.highBid) continue;
+
+      const breakers = this.getDivisionRuleBreakers(draft, picks, availableTeams, budget.userId, budget.slotsLeft);
+      if (breakers.has(lot.nflTeam.id) && breakers.size < availableTeams.length) continue;
+
+      // Worth a fair share of what's left, more for the robot's favorites and less for its afterthoughts
+      const ranked = await this.robotManager.getRobotTeamPreference(budget.userId, availableTeams, draft);
+      const rank = ranked.findIndex(team => team.id === lot.nflTeam.id);
+      const fairShare = budget.remaining / budget.slotsLeft;
+      const value = Math.min(budget.maxBid, Math.round(fairShare * (1.6 - 1.2 * rank / Math.max(1, ranked.length - 1))));
+
+      if (value > lot.highBid && (!best || value > best.value)) {
+        best = { robotId: budget.userId, value };
+      }
+    }
+
+    if (!best) return null;
+    // Jump halfway to what the team is worth so robot bidding wars settle quickly
+    return { robotId: best.robotId, amount: lot.highBid + Math.max(1, Math.floor((best.value - lot.highBid) / 2)) };
+  }
+
+  private async broadcastUpdate(draftId: string): Promise<AuctionState | undefined> {
+    const draft = await this.storage.getDraft(draftId);
+    if (!draft) return undefined;
+
+    const auction = await this.getAuctionState(draft);
+    this.webSocketManager?.broadcastAuctionUpdate(draftId, auction);
+    return auction;
+  }
+
+  private setClock(draftId: string, delayMs: number, onExpire: () => Promise<void>): void {
+    const existing = this.clocks.get(draftId);
+    if (existing) clearTimeout(existing);
+
+    this.clocks.set(draftId, setTimeout(() => {
+      this.clocks.delete(draftId);
+      onExpire().catch(error => {
+        console.error(`[Auction] Clock handler failed for draft ${draftId}:`, error);
+      });
+    }, delayMs));
+  }
+
+  private setRobotTimer(draftId: string, delayMs: number, action: () => Promise<void>): void {
+    this.clearRobotTimer(draftId);
+    this.robotTimers.set(draftId, setTimeout(() => {
+      this.robotTimers.delete(draftId);
+      action().catch(error => {
+        console.error(`[Auction] Robot action failed for draft ${draftId}:`, error);
+      });
+    }, delayMs));
+  }
+
+  private clearRobotTimer(draftId: string): void {
+    const timer = this.robotTimers.get(draftId);
+    if (timer) clearTimeout(timer);
+    this.robotTimers.delete(draftId);
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Division Rule Feasibility
+ *
+ * A member may hold at most `divisionLimit` teams from one division, unless that is unavoidable.
+ * Rather than checking only the pick in front of them, each available team is tested against the
+ * whole rest of the member's stable: a team is flagged when taking it leaves no division-legal way
+ * to fill the remaining slots from the teams still on the board.
+ */
+
+import type { NflTeam } from "@shared/schema";
+
+function divisionKey(team: Pick<NflTeam, "conference" | "division">): string {
+  return `${team.conference} ${team.division}`;
+}
+
+function countByDivision(teams: NflTeam[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const team of teams) {
+    const key = divisionKey(team);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * IDs of the available teams that would make a division-legal stable impossible for a member
+ * who already holds `memberTeams` and has `slotsLeft` picks to make, this one included.
+ * An empty board or a full stable flags nothing.
+ */
+export function findDivisionRuleBreakers(
+  memberTeams: NflTeam[],
+  availableTeams: NflTeam[],
+  slotsLeft: number,
+  divisionLimit: number
+): Set<string> {
+  const breakers = new Set<string>();
+  if (slotsLeft <= 0) return breakers;
+
+  const held = countByDivision(memberTeams);
+  const onBoard = countByDivision(availableTeams);
+  const divisions = new Set([...Array.from(held.keys()), ...Array.from(onBoard.keys())]);
+
+  for (const team of availableTeams) {
+    const picked = divisionKey(team);
+    if ((held.get(picked) || 0) + 1 > divisionLimit) {
+      breakers.add(team.id);
+      continue;
+    }
+
+    // Most teams each division can still contribute once this one is taken
+    let room = 0;
+    for (const division of Array.from(divisions)) {
+      const holding = (held.get(division) || 0) + (division === picked ? 1 : 0);
+      const left = (onBoard.get(division) || 0) - (division === picked ? 1 : 0);
+      room += Math.max(0, Math.min(divisionLimit - holding, left));
+    }
+
+    if (room < slotsLeft - 1) {
+      breakers.add(team.id);
+    }
+  }
+
+  return breakers;
+}
@@ -0,0 +1,70 @@
+/**
+ * Draft Order Generation
+ *
+ * Builds a draft's pick order from the league's chosen method:
+ * - Random lottery with a seed that is revealed on the draft
+ * - Reverse of last season's final standings (worst record picks first)
+ * - Manual order arranged by the commissioner
+ */
+
+import { randomBytes } from "crypto";
+import type { IStorage } from "../storage.js";
+import type { League } from "@shared/schema";
+import { seededDraftOrder, type DraftOrderMethod } from "@shared/utils/draftOrder";
+
+export interface GeneratedDraftOrder {
+  draftOrder: string[];
+  orderMethod: DraftOrderMethod;
+  orderSeed: string | null;
+  orderSeason: number | null;
+}
+
+export function lotteryDraftOrder(memberIds: string[], seed = randomBytes(8).toString("hex")): GeneratedDraftOrder {
+  return {
+    draftOrder: seededDraftOrder(memberIds, seed),
+    orderMethod: "random",
+    orderSeed: seed,
+    orderSeason: null
+  };
+}
+
+/**
+ * Generates the order for a new draft. Members who joined since last season (or since the
+ * commissioner arranged the order) pick after everyone else; if the chosen method can't
+ * be applied at all the draft falls back to a lottery, and the draft records that.
+ */
+export async function generateDraftOrder(
+  storage: Pick<IStorage, "getLastSeasonStandings">,
+  league: Pick<League, "id" | "draftOrderMethod" | "manualDraftOrder">,
+  memberIds: string[]
+): Promise<GeneratedDraftOrder> {
+  if (league.draftOrderMethod === "reverse_standings") {
+    const lastSeason = await storage.getLastSeasonStandings(league.id);
+    const ranked = (lastSeason?.standings ?? [])
+      .map(row => row.userId)
+      .filter(userId => memberIds.includes(userId));
+
+    if (lastSeason && ranked.length > 0) {
+      return {
+        draftOrder: [...ranked, ...memberIds.filter(id => !ranked.includes(id))],
+        orderMethod: "reverse_standings",
+        orderSeed: null,
+        orderSeason: lastSeason.season
+      };
+    }
+
+    console.log(`[DraftOrder] No previous standings for league ${league.id} - falling back to a lottery`);
+  }
+
+  if (league.draftOrderMethod === "manual" && league.manualDraftOrder?.length) {
+    const arranged = league.manualDraftOrder.filter(id => memberIds.includes(id));
+    return {
+      draftOrder: [...arranged, ...memberIds.filter(id => !arranged.includes(id))],
+      orderMethod: "manual",
+      orderSeed: null,
+      orderSeason: null
+    };
+  }
+
+  return lotteryDraftOrder(memberIds);
+}
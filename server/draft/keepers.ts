@@ -0,0 +1,95 @@
+/**
+ * Keeper Slots
+ *
+ * Keepers are pre-assigned picks: each one fills the member's slot in its cost round of the
+ * snake, and the draft steps over those slots when it moves to the next pick.
+ */
+
+import type { Draft, InsertDraftPick, Keeper } from "@shared/schema";
+
+/**
+ * Season a draft is for. Drafts record it when they're created; older drafts from before that
+ * ran before kickoff, so their calendar year is the season.
+ */
+export function getDraftSeason(draft: Pick<Draft, "season" | "createdAt">): number {
+  return draft.season ?? new Date(draft.createdAt).getFullYear();
+}
+
+/**
+ * Season the league's next draft is for: the current season for its first draft, the season after
+ * once a draft has completed. A draft still underway keeps its own season, so it can't be doubled.
+ */
+export function getNextDraftSeason(latestDraft: Pick<Draft, "season" | "createdAt" | "status"> | undefined, currentSeason: number): number {
+  if (!latestDraft) return currentSeason;
+  return getDraftSeason(latestDraft) + (latestDraft.status === 'completed' ? 1 : 0);
+}
+
+/**
+ * Overall pick number of a member's turn in a round of the snake
+ */
+export function snakePickNumber(draftOrder: string[], userId: string, round: number): number {
+  const position = draftOrder.indexOf(userId);
+  const slot = round % 2 === 1 ? position : draftOrder.length - 1 - position;
+  return (round - 1) * draftOrder.length + slot + 1;
+}
+
+/**
+ * The first pick after `currentPick` that no keeper already fills, or null once every slot is used
+ */
+export function findNextOpenPick(
+  currentPick: number,
+  takenPickNumbers: Set<number>,
+  totalUsers: number,
+  totalRounds: number
+): { nextRound: number; nextPick: number } | null {
+  let nextPick = currentPick + 1;
+  while (takenPickNumbers.has(nextPick)) nextPick++;
+
+  if (nextPick > totalUsers * totalRounds) return null;
+  return { nextRound: Math.ceil(nextPick / totalUsers), nextPick };
+}
+
+/**
+ * Draft picks for the keepers of members in the draft. A cost round past the end of a shorter
+ * draft, or one the member has already used, falls back to their latest free round.
+ */
+export function buildKeeperPicks(draft: Pick<Draft, "id" | "draftOrder" | "totalRounds">, keepers: Keeper[]): InsertDraftPick[] {
+  const picks: InsertDraftPick[] = [];
+  const usedRounds = new Map<string, Set<number>>();
+
+  const ordered = keepers
+    .filter(keeper => draft.draftOrder.includes(keeper.userId))
+    .sort((a, b) => b.roundCost - a.roundCost);
+
+  for (const keeper of ordered) {
+    const used = usedRounds.get(keeper.userId) ?? new Set<number>();
+    let round = Math.min(keeper.roundCost, draft.totalRounds);
+    while (round > 0 && used.has(round)) round--;
+    if (round === 0) continue; // More keepers than rounds - the rest can't be kept
+
+    used.add(round);
+    usedRounds.set(keeper.userId, used);
+    picks.push({
+      draftId: draft.id,
+      userId: keeper.userId,
+      nflTeamId: keeper.nflTeamId,
+      round,
+      pickNumber: snakePickNumber(draft.draftOrder, keeper.userId, round),
+      isAutoPick: false,
+      isKeeper: true
+    });
+  }
+
+  return picks;
+}
+
+/**
+ * Season members are choosing keepers for, or null while the window is closed. It opens once
+ * last season's draft is complete and closes when the next season's draft starts.
+ */
+export function getKeeperSeason(draft: Pick<Draft, "season" | "createdAt" | "status"> | undefined, currentSeason: number): number | null {
+  if (!draft || draft.status === 'not_started' || draft.status === 'completed') {
+    return getNextDraftSeason(draft, currentSeason);
+  }
+  return null;
+}
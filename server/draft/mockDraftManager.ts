@@ -0,0 +1,118 @@
+/**
+ * Mock Draft Manager
+ *
+ * Lets any user practice a live draft against the five robots without touching a real league:
+ * - Each mock draft gets its own hidden, inactive league (never listed by getUserLeagues)
+ * - Robots pick by their drafting strategies (see robotStrategies.ts)
+ * - Finished mock drafts stay around long enough to read the recap, then are swept away
+ *   along with any that were abandoned
+ */
+
+import type { IStorage } from "../storage.js";
+import type { Draft } from "@shared/schema";
+import type SnakeDraftManager from "./snakeDraftManager.js";
+import type { RobotManager } from "../testing/robotManager.js";
+import { lotteryDraftOrder } from "./draftOrder.js";
+import { DEFAULT_TEAMS_PER_MEMBER } from "@shared/utils/leagueSize";
+
+const MOCK_DRAFT_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+const MOCK_DRAFT_RETENTION_MS = 60 * 60 * 1000; // After completion - time to look over the recap
+const MOCK_DRAFT_MAX_AGE_MS = 6 * 60 * 60 * 1000; // Backstop for mock drafts nobody finished
+
+export class MockDraftManager {
+  private storage: IStorage;
+  private draftManager: SnakeDraftManager;
+  private robotManager: RobotManager;
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  constructor(storage: IStorage, draftManager: SnakeDraftManager, robotManager: RobotManager) {
+    this.storage = storage;
+    this.draftManager = draftManager;
+    this.robotManager = robotManager;
+  }
+
+  start(): void {
+    if (this.sweepInterval) return;
+
+    console.log('[MockDraft] Starting mock draft cleanup');
+    this.sweepInterval = setInterval(() => {
+      this.sweepExpiredMockDrafts().catch(error => {
+        console.error('[MockDraft] Scheduled cleanup failed:', error);
+      });
+    }, MOCK_DRAFT_SWEEP_INTERVAL_MS);
+
+    // Catch mock drafts that expired while the server was down
+    this.sweepExpiredMockDrafts().catch(error => {
+      console.error('[MockDraft] Startup cleanup failed:', error);
+    });
+  }
+
+  stop(): void {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  /**
+   * Creates and starts a live mock draft for the user against every robot, in a random order
+   */
+  async createMockDraft(userId: string, pickTimeLimit: number): Promise<Draft> {
+    if (this.robotManager.getRobots().length === 0) {
+      await this.robotManager.initializeRobots();
+    }
+    const robotIds = this.robotManager.getRobots().map(robot => robot.id);
+
+    const league = await this.storage.createMockLeague(userId, robotIds, DEFAULT_TEAMS_PER_MEMBER);
+    const draft = await this.storage.createDraft({
+      leagueId: league.id,
+      totalRounds: league.teamsPerMember,
+      pickTimeLimit,
+      draftMode: 'live',
+      ...lotteryDraftOrder([userId, ...robotIds])
+    });
+
+    await this.storage.updateLeague(league.id, {
+      draftId: draft.id,
+      draftStarted: true
+    });
+
+    await this.draftManager.startDraft(draft.id);
+    console.log(`[MockDraft] User ${userId} started mock draft ${draft.id}`);
+
+    return draft;
+  }
+
+  /**
+   * Stops the draft's clock and deletes the mock league with everything in it
+   */
+  async deleteMockDraft(leagueId: string, draftId: string | null): Promise<void> {
+    if (draftId) {
+      await this.draftManager.discardDraft(draftId);
+    }
+    await this.storage.deleteMockLeague(leagueId);
+  }
+
+  async sweepExpiredMockDrafts(): Promise<number> {
+    const now = Date.now();
+    const expired = await this.storage.getExpiredMockLeagues(
+      new Date(now - MOCK_DRAFT_RETENTION_MS),
+      new Date(now - MOCK_DRAFT_MAX_AGE_MS)
+    );
+
+    let deleted = 0;
+    for (const league of expired) {
+      try {
+        await this.deleteMockDraft(league.id, league.draftId);
+        deleted++;
+      } catch (error) {
+        console.error(`[MockDraft] Failed to delete mock league ${league.id}:`, error);
+      }
+    }
+
+    if (deleted > 0) {
+      console.log(`[MockDraft] Cleaned up ${deleted} expired mock drafts`);
+    }
+    return deleted;
+  }
+}
@@ -6,6 +6,11 @@ interface TimerData {
   duration: number;
 }
 
+export interface PausedTimerData {
+  userId: string;
+  timeRemaining: number;
+}
+
 interface DraftState {
   currentPick: number;
   currentUserId: string;
@@ -190,6 +195,65 @@ export class RedisStateManager {
     this.inMemoryState.delete(`timer:${draftId}`);
   }
 
+  // Paused timers - the running timer is frozen with whatever time was left on the clock
+  async pauseTimer(draftId: string, fallbackUserId: string, fallbackDuration: number): Promise<PausedTimerData> {
+    const timer = await this.getTimer(draftId);
+    const paused: PausedTimerData = timer
+      ? { userId: timer.userId, timeRemaining: await this.getTimeRemaining(draftId) }
+      : { userId: fallbackUserId, timeRemaining: fallbackDuration }; // Paused between picks
+
+    await this.setPausedTimer(draftId, paused.userId, paused.timeRemaining);
+    await this.deleteTimer(draftId);
+    return paused;
+  }
+
+  async setPausedTimer(draftId: string, userId: string, timeRemaining: number): Promise<void> {
+    const paused: PausedTimerData = { userId, timeRemaining };
+
+    if (this.isRedisAvailable()) {
+      try {
+        // No expiry - a paused draft waits as long as the commissioner needs
+        await this.redis!.set(`timer:${draftId}:paused`, JSON.stringify(paused));
+      } catch (error) {
+        console.error(
+          "[RedisStateManager] Failed to set paused timer, using fallback:",
+          error,
+        );
+        this.inMemoryState.set(`timer:${draftId}:paused`, paused);
+      }
+    } else {
+      this.inMemoryState.set(`timer:${draftId}:paused`, paused);
+    }
+  }
+
+  async getPausedTimer(draftId: string): Promise<PausedTimerData | null> {
+    if (this.isRedisAvailable()) {
+      try {
+        const result = await this.redis!.get(`timer:${draftId}:paused`);
+        return result ? JSON.parse(result) : null;
+      } catch (error) {
+        console.error(
+          "[RedisStateManager] Failed to get paused timer, using fallback:",
+          error,
+        );
+        return this.inMemoryState.get(`timer:${draftId}:paused`) || null;
+      }
+    } else {
+      return this.inMemoryState.get(`timer:${draftId}:paused`) || null;
+    }
+  }
+
+  async clearPausedTimer(draftId: string): Promise<void> {
+    if (this.isRedisAvailable()) {
+      try {
+        await this.redis!.del(`timer:${draftId}:paused`);
+      } catch (error) {
+        console.error("[RedisStateManager] Failed to clear paused timer:", error);
+      }
+    }
+    this.inMemoryState.delete(`timer:${draftId}:paused`);
+  }
+
   // Active drafts tracking
   async addActiveDraft(draftId: string): Promise<void> {
     if (this.isRedisAvailable()) {
@@ -2,10 +2,16 @@
  * Snake Draft Manager
  * 
  * Handles the core snake draft logic including:
- * - Draft order generation and snake pattern
- * - Turn management and auto-pick functionality
- * - Division validation rules (max 1 per division unless unavoidable)
+ * - Draft order generation (see draftOrder.ts) and snake pattern
+ * - Turn management and auto-pick (member draft queues, then a default ranking)
+ * - Division validation rules (max 1 per division unless unavoidable, scaled up for stables larger than 8),
+ *   judged against the member's whole remaining stable (see divisionRule.ts)
  * - Real-time state management
+ * - Slow drafts: hours-long pick windows tracked in the database, with push reminders
+ * - Mock drafts: throwaway drafts against the robots that never build stables (see mockDraftManager.ts)
+ * - Keepers: pre-assigned picks in their cost rounds that the turn order steps over (see keepers.ts)
+ * - Auction drafts: started here, then handed to the auction manager for nominations and bidding
+ *   (see auctionDraftManager.ts)
  * - Bot user simulation
  */
 
@@ -13,6 +19,24 @@ import { IStorage } from "../storage.js";
 import type { Draft, DraftPick, NflTeam, User } from "@shared/schema";
 import type { DraftState as ClientDraftState } from "@shared/types/draft";
 import { RedisStateManager } from "./redisStateManager.js";
+import { generateDraftOrder, lotteryDraftOrder } from "./draftOrder.js";
+import { findDivisionRuleBreakers } from "./divisionRule.js";
+import { buildKeeperPicks, findNextOpenPick, getDraftSeason } from "./keepers.js";
+import { getAuctionNominator } from "./auction.js";
+import type { AuctionDraftManager } from "./auctionDraftManager.js";
+import { getMaxTeamsPerDivision } from "@shared/utils/leagueSize";
+import { formatPickClock, type DraftMode } from "@shared/utils/draftMode";
+import { DEFAULT_AUCTION_BUDGET, type DraftFormat } from "@shared/utils/auction";
+
+// Slow-draft clocks are checked once a minute; the reminder goes out with an hour
+// (or a quarter of a shorter window) left
+const SLOW_DRAFT_TICK_MS = 60 * 1000;
+const SLOW_DRAFT_REMINDER_SECONDS = 60 * 60;
+
+// Available team as seen by the member on the clock
+export type DraftableTeam = NflTeam & {
+  breaksDivisionRule: boolean; // Taking it leaves no division-legal way to fill their stable
+};
 
 // Server-side draft state with extended database entities  
 export interface ServerDraftState {
@@ -20,7 +44,8 @@ export interface ServerDraftState {
   currentUserId: string | null;
   timeRemaining: number;
   picks: Array<DraftPick & { user: User; nflTeam: NflTeam }>;
-  availableTeams: NflTeam[];
+  availableTeams: DraftableTeam[];
+  divisionRuleOverride: boolean; // Every team on the board breaks the rule, so any of them may be taken
   isUserTurn: boolean;
   canMakePick: boolean;
 }
@@ -38,11 +63,21 @@ export interface PickResult {
   newState?: ServerDraftState;
 }
 
+export interface DraftControlResult {
+  success: boolean;
+  error?: string;
+  pick?: DraftPick & { nflTeam: NflTeam }; // Pick removed by an undo
+  newState?: ServerDraftState;
+}
+
 export interface DraftConfig {
   totalRounds: number;
   pickTimeLimit: number; // seconds
+  draftMode?: DraftMode; // Live unless set
+  draftFormat?: DraftFormat; // Snake unless set
+  auctionBudget?: number; // Auction drafts only
   enableDivisionRule: boolean;
-  maxTeamsPerDivision: number;
+  maxTeamsPerDivision?: number; // Derived from the draft's rounds when not set
 }
 
 export class SnakeDraftManager {
@@ -52,6 +87,7 @@ export class SnakeDraftManager {
   private redisStateManager: RedisStateManager;
   private webSocketManager?: any; // Will be injected
   private robotManager?: any; // Will be injected for robot handling
+  private auctionManager?: AuctionDraftManager;
 
   constructor(storage: IStorage, config?: Partial<DraftConfig>, webSocketManager?: any, robotManager?: any) {
     this.storage = storage;
@@ -62,11 +98,14 @@ export class SnakeDraftManager {
       totalRounds: 5,
       pickTimeLimit: 120, // Default 2 minutes (120 seconds) per pick
       enableDivisionRule: true,
-      maxTeamsPerDivision: 1, // No more than 1 team from same division unless unavoidable
       ...config
     };
   }
 
+  setAuctionManager(auctionManager: AuctionDraftManager): void {
+    this.auctionManager = auctionManager;
+  }
+
   /**
    * Recover active timers after server restart
    */
@@ -92,6 +131,15 @@ export class SnakeDraftManager {
           await this.redisStateManager.deleteTimer(draftId);
           continue;
         }
+
+        // Auctions have no pick timers - the auction manager restarts their nomination clocks below
+        if (draft.draftFormat === 'auction') continue;
+
+        // Slow drafts keep their deadline in the database, so Redis losing the timer doesn't reset the clock
+        if (draft.draftMode === 'slow' && await this.recoverSlowPickTimer(draft)) {
+          recoveredCount++;
+          continue;
+        }
         
         const redisTimer = await this.redisStateManager.getTimer(draftId);
         if (redisTimer) {
@@ -132,6 +180,8 @@ export class SnakeDraftManager {
       }
       
       console.log(`✅ Recovered ${recoveredCount} active timers`);
+
+      await this.auctionManager?.recoverActiveAuctions();
     } catch (error) {
       console.error('❌ Failed to recover timers:', error);
     }
@@ -183,17 +233,22 @@ export class SnakeDraftManager {
   // Removed broken timer recovery methods - focusing on core timer fix
 
   /**
-   * Creates a new draft for a league with randomized snake order
+   * Creates a new draft for a league, ordered by the league's draft order method
    */
   async createDraft(leagueId: string, memberIds: string[]): Promise<Draft> {
-    // Shuffle the member IDs to create random draft order
-    const shuffledOrder = this.shuffleArray([...memberIds]);
+    const league = await this.storage.getLeague(leagueId);
+    const order = league
+      ? await generateDraftOrder(this.storage, league, memberIds)
+      : lotteryDraftOrder(memberIds);
     
     const draftData = {
       leagueId,
       totalRounds: this.draftConfig.totalRounds,
       pickTimeLimit: this.draftConfig.pickTimeLimit,
-      draftOrder: shuffledOrder,
+      draftMode: this.draftConfig.draftMode ?? 'live',
+      draftFormat: this.draftConfig.draftFormat ?? 'snake',
+      auctionBudget: this.draftConfig.draftFormat === 'auction' ? this.draftConfig.auctionBudget ?? DEFAULT_AUCTION_BUDGET : null,
+      ...order,
       status: 'not_started' as const // Explicitly set initial status
     };
 
@@ -212,6 +267,9 @@ export class SnakeDraftManager {
       throw new Error('Draft not found');
     }
 
+    await this.applyKeepers(draft);
+    this.robotManager?.warmProjections(draft);
+
     console.log(`🚀 [Draft Start] Starting 10-second countdown for draft ${draftId}`);
 
     // Set 10-second preparation countdown
@@ -223,8 +281,14 @@ export class SnakeDraftManager {
         console.log(`✅ [Draft Start] Countdown complete, activating draft ${draftId}`);
         await this.storage.startDraft(draftId); // This sets status to 'active'
         
-        // Start timer for first pick
-        await this.startPickTimer(draftId, draft.draftOrder[0], 1, 1);
+        // Start timer for first pick - not necessarily pick 1 once keepers fill slots
+        const activeDraft = await this.storage.getDraft(draftId);
+        const firstUserId = activeDraft && this.getCurrentPickUser(activeDraft);
+        if (activeDraft?.draftFormat === 'auction') {
+          await this.auctionManager?.openNominations(draftId);
+        } else if (activeDraft && firstUserId) {
+          await this.startPickTimer(draftId, firstUserId, activeDraft.currentRound, activeDraft.currentPick);
+        }
         
         // Broadcast the state change
         if (this.webSocketManager) {
@@ -260,6 +324,10 @@ export class SnakeDraftManager {
     if (draft.status === 'active' || draft.status === 'starting') {
       timeRemaining = await this.redisStateManager.getTimeRemaining(draftId);
       console.log(`[DEBUG] ${draft.status === 'starting' ? 'Starting countdown' : 'Active draft timer'} lookup for draft ${draftId}: ${timeRemaining}s remaining`);
+    } else if (draft.status === 'paused') {
+      // Show the frozen clock while paused
+      const pausedTimer = await this.redisStateManager.getPausedTimer(draftId);
+      timeRemaining = pausedTimer?.timeRemaining ?? 0;
     } else {
       console.log(`[DEBUG] Draft ${draftId} is ${draft.status}, skipping timer lookup`);
     }
@@ -267,15 +335,23 @@ export class SnakeDraftManager {
     const picks = await this.storage.getDraftPicks(draftId);
     const availableTeams = await this.storage.getAvailableNflTeams(draftId);
     
-    // Only get current user for active drafts
-    const currentUserId = draft.status === 'active' ? this.getCurrentPickUser(draft) : null;
+    // Only get current user for active drafts - in an auction, whoever is nominating
+    const currentUserId = draft.status !== 'active'
+      ? null
+      : draft.draftFormat === 'auction' ? getAuctionNominator(draft, picks) : this.getCurrentPickUser(draft);
+
+    // Flag teams against the stable of whoever is on the clock
+    const breakers = currentUserId && this.draftConfig.enableDivisionRule
+      ? await this.getDivisionRuleBreakers(draft, currentUserId, availableTeams)
+      : new Set<string>();
 
     const state: ServerDraftState = {
       draft,
       currentUserId,
       timeRemaining,
       picks,
-      availableTeams,
+      availableTeams: availableTeams.map(team => ({ ...team, breaksDivisionRule: breakers.has(team.id) })),
+      divisionRuleOverride: availableTeams.length > 0 && breakers.size === availableTeams.length,
       isUserTurn: draft.status === 'active' && !!currentUserId,
       canMakePick: draft.status === 'active' && !!currentUserId
     };
@@ -302,6 +378,10 @@ export class SnakeDraftManager {
         return { success: false, error: 'Draft is not active' };
       }
 
+      if (draft.draftFormat === 'auction') {
+        return { success: false, error: 'Teams in an auction draft are won by bidding' };
+      }
+
       const currentUserId = this.getCurrentPickUser(draft);
       if (!currentUserId || currentUserId !== pickRequest.userId) {
         return { success: false, error: 'Not your turn to pick' };
@@ -360,6 +440,10 @@ export class SnakeDraftManager {
       const picks = await this.storage.getDraftPicks(draftId);
       const pickWithData = picks.find(p => p.id === newPick.id);
 
+      if (updatedDraft.status === 'completed') {
+        await this.initializeStables(updatedDraft);
+      }
+
       // TIMER FIX: Start timer for next pick if draft is still active
       if (updatedDraft.status === 'active' && nextRound <= updatedDraft.totalRounds) {
         const nextUserId = this.getCurrentPickUser(updatedDraft);
@@ -372,6 +456,8 @@ export class SnakeDraftManager {
               // Double-check draft is still active
               const latestDraft = await this.storage.getDraft(draftId);
               if (!latestDraft || latestDraft.status !== 'active') return;
+              // Pick may have been undone during the transition
+              if (this.getCurrentPickUser(latestDraft) !== nextUserId) return;
               
               console.log(`✅ Transition complete, starting timer for user ${nextUserId}`);
               await this.startPickTimer(draftId, nextUserId, nextRound, nextPick);
@@ -486,25 +572,25 @@ export class SnakeDraftManager {
         console.log(`⚠️ Division rule forced override for user ${userId}`);
       }
 
-      // Random selection for auto-pick
-      const randomTeam = eligibleTeams[Math.floor(Math.random() * eligibleTeams.length)];
+      // User's queue first, then the default ranking
+      const autoPickTeam = await this.chooseAutoPickTeam(draft, userId, eligibleTeams);
       
       // Use makePick which already handles advancement - remove duplicate advanceDraft call
-      console.log(`🚀 Making auto-pick for ${userId}: ${randomTeam.name}`);
+      console.log(`🚀 Making auto-pick for ${userId}: ${autoPickTeam.name}`);
       const autoPickResult = await this.makePick(draftId, {
         userId,
-        nflTeamId: randomTeam.id,
+        nflTeamId: autoPickTeam.id,
         isAutoPick: true
       }, needsOverride);
 
       if (autoPickResult.success) {
-        console.log(`✅ Auto-picked ${randomTeam.name} for user ${userId} - draft advanced`);
+        console.log(`✅ Auto-picked ${autoPickTeam.name} for user ${userId} - draft advanced`);
         
         // SMOOTH TRANSITION: Immediately broadcast the new timer state after auto-pick
         const updatedDraft = await this.storage.getDraft(draftId);
         if (updatedDraft && updatedDraft.status === 'active') {
           const currentTimer = await this.redisStateManager.getTimer(draftId);
-          const timeRemaining = currentTimer?.duration || this.draftConfig.pickTimeLimit;
+          const timeRemaining = currentTimer?.duration || updatedDraft.pickTimeLimit;
           
           console.log(`🕐 Broadcasting immediate timer update: ${timeRemaining}s for next user`);
           this.webSocketManager.broadcastTimerUpdate(draftId, timeRemaining);
@@ -563,6 +649,180 @@ export class SnakeDraftManager {
     }
   }
 
+  /**
+   * Pauses a live draft, freezing the pick clock with the time that was left
+   */
+  async pauseDraft(draftId: string): Promise<DraftControlResult> {
+    try {
+      const draft = await this.storage.getDraft(draftId);
+      if (!draft) {
+        return { success: false, error: 'Draft not found' };
+      }
+
+      if (draft.status !== 'active') {
+        return { success: false, error: 'Only a live draft can be paused' };
+      }
+
+      if (draft.draftFormat === 'auction') {
+        return { success: false, error: 'Auction drafts can\'t be paused' };
+      }
+
+      const currentUserId = this.getCurrentPickUser(draft);
+      if (!currentUserId) {
+        return { success: false, error: 'Could not determine who is on the clock' };
+      }
+
+      // Status first so pending transitions and robot picks stand down
+      await this.storage.setDraftStatus(draftId, 'paused');
+      this.clearTimerIntervals(draftId);
+
+      const paused = await this.redisStateManager.pauseTimer(draftId, currentUserId, draft.pickTimeLimit);
+
+      // Keep the database timer active with the frozen time as a backup if Redis loses it
+      await this.storage.updateDraftTimer(draftId, paused.userId, paused.timeRemaining);
+
+      console.log(`⏸️ Draft ${draftId} paused with ${paused.timeRemaining}s left for user ${paused.userId}`);
+
+      const newState = await this.getDraftState(draftId);
+      this.webSocketManager?.broadcastDraftPaused(draftId, paused.timeRemaining, newState);
+
+      return { success: true, newState };
+    } catch (error) {
+      console.error('Error pausing draft:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Resumes a paused draft with the remaining time intact
+   */
+  async resumeDraft(draftId: string): Promise<DraftControlResult> {
+    try {
+      const draft = await this.storage.getDraft(draftId);
+      if (!draft) {
+        return { success: false, error: 'Draft not found' };
+      }
+
+      if (draft.status !== 'paused') {
+        return { success: false, error: 'Draft is not paused' };
+      }
+
+      await this.storage.setDraftStatus(draftId, 'active');
+      const activeDraft = { ...draft, status: 'active' };
+      const currentUserId = this.getCurrentPickUser(activeDraft);
+      if (!currentUserId) {
+        return { success: false, error: 'Could not determine who is on the clock' };
+      }
+
+      // Frozen clock from Redis, then the database backup, then a full clock
+      const paused = await this.redisStateManager.getPausedTimer(draftId);
+      const dbTimer = await this.storage.getActiveDraftTimer(draftId);
+      let timeRemaining = draft.pickTimeLimit;
+      if (paused?.userId === currentUserId && paused.timeRemaining > 0) {
+        timeRemaining = paused.timeRemaining;
+      } else if (dbTimer?.userId === currentUserId && dbTimer.timeRemaining > 0) {
+        timeRemaining = dbTimer.timeRemaining;
+      }
+
+      await this.redisStateManager.clearPausedTimer(draftId);
+      await this.startPickTimer(draftId, currentUserId, draft.currentRound, draft.currentPick, timeRemaining);
+
+      if (this.robotManager?.isRobot(currentUserId)) {
+        const delay = this.robotManager.simulateRobotPickDelay();
+        setTimeout(() => {
+          this.simulateBotPick(draftId, currentUserId);
+        }, delay);
+      }
+
+      console.log(`▶️ Draft ${draftId} resumed with ${timeRemaining}s for user ${currentUserId}`);
+
+      const newState = await this.getDraftState(draftId);
+      this.webSocketManager?.broadcastDraftResumed(draftId, timeRemaining, newState);
+
+      return { success: true, newState };
+    } catch (error) {
+      console.error('Error resuming draft:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Rolls back the most recent pick: the team goes back on the board and
+   * the member who made it is on the clock again with a full timer
+   */
+  async undoLastPick(draftId: string): Promise<DraftControlResult> {
+    try {
+      const draft = await this.storage.getDraft(draftId);
+      if (!draft) {
+        return { success: false, error: 'Draft not found' };
+      }
+
+      if (draft.status !== 'active' && draft.status !== 'paused') {
+        return { success: false, error: 'Only picks in a live or paused draft can be undone' };
+      }
+
+      if (draft.draftFormat === 'auction') {
+        return { success: false, error: 'Auction sales can\'t be undone' };
+      }
+
+      const picks = await this.storage.getDraftPicks(draftId);
+      const lastPick = picks[picks.length - 1];
+      if (!lastPick) {
+        return { success: false, error: 'No picks to undo' };
+      }
+
+      // Stop whoever is on the clock now before rewinding
+      this.clearTimerIntervals(draftId);
+      await this.redisStateManager.deleteTimer(draftId);
+      await this.storage.deactivateAllDraftTimers(draftId);
+
+      const undonePick = await this.storage.undoLastDraftPick(draftId);
+      const rewoundDraft = await this.storage.getDraft(draftId);
+      if (!rewoundDraft) throw new Error('Draft not found after undo');
+
+      if (rewoundDraft.status === 'paused') {
+        // Stay paused - the member gets a full clock once the draft resumes
+        await this.redisStateManager.setPausedTimer(draftId, undonePick.userId, rewoundDraft.pickTimeLimit);
+        await this.storage.createDraftTimer({
+          draftId,
+          userId: undonePick.userId,
+          round: undonePick.round,
+          pickNumber: undonePick.pickNumber,
+          timeRemaining: rewoundDraft.pickTimeLimit
+        });
+      } else {
+        await this.startPickTimer(draftId, undonePick.userId, undonePick.round, undonePick.pickNumber);
+
+        if (this.robotManager?.isRobot(undonePick.userId)) {
+          const delay = this.robotManager.simulateRobotPickDelay();
+          setTimeout(() => {
+            this.simulateBotPick(draftId, undonePick.userId);
+          }, delay);
+        }
+      }
+
+      const pick = lastPick?.id === undonePick.id ? lastPick : undefined;
+      console.log(`↩️ Undid pick ${undonePick.pickNumber} (${pick?.nflTeam.code ?? undonePick.nflTeamId}) in draft ${draftId}`);
+
+      const newState = await this.getDraftState(draftId);
+      this.webSocketManager?.broadcastPickUndone(draftId, pick ?? undonePick, newState);
+
+      return { success: true, pick, newState };
+    } catch (error) {
+      console.error('Error undoing last pick:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   /**
    * Simulates bot picks for testing (public method)
    */
@@ -584,29 +844,23 @@ export class SnakeDraftManager {
       }
     }
 
-    // Smart bot selection: prefer teams from different divisions
-    const randomTeam = eligibleTeams[Math.floor(Math.random() * eligibleTeams.length)];
+    // Robots draft by their strategy; anyone else simulated here takes a random team
+    const draft = await this.storage.getDraft(draftId);
+    const selectedTeam = draft && this.robotManager?.isRobot(userId)
+      ? (await this.robotManager.getRobotTeamPreference(userId, eligibleTeams, draft))[0]
+      : eligibleTeams[Math.floor(Math.random() * eligibleTeams.length)];
     
     await this.makePick(draftId, {
       userId,
-      nflTeamId: randomTeam.id,
+      nflTeamId: selectedTeam.id,
       isAutoPick: false // Bot picks are not auto-picks
     }, needsBotOverride);
 
-    console.log(`🤖 Bot picked ${randomTeam.name}`);
+    console.log(`🤖 Bot picked ${selectedTeam.name}`);
   }
 
   // Private helper methods
 
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
-  }
-
   getCurrentPickUser(draft: Draft): string | null {
     if (draft.status !== 'active') return null;
     
@@ -634,36 +888,27 @@ export class SnakeDraftManager {
     const totalUsers = draft.draftOrder.length;
     const totalPicks = totalUsers * draft.totalRounds;
     
-    let nextRound = draft.currentRound;
-    let nextPick = draft.currentPick + 1;
-    
-    console.log(`🔄 Advancing draft from Round ${draft.currentRound}, Pick ${draft.currentPick} to Pick ${nextPick}`);
-    
-    // Check if we need to advance to next round
-    // Each round has exactly totalUsers picks  
-    const currentRoundEndPick = draft.currentRound * totalUsers;
-    
-    if (nextPick > currentRoundEndPick) {
-      nextRound++;
-      console.log(`🔄 Advancing to Round ${nextRound}, Pick ${nextPick}`);
-    }
+    // Each round has exactly totalUsers picks; slots keepers already fill are stepped over
+    const picks = await this.storage.getDraftPicks(draftId);
+    const next = findNextOpenPick(
+      draft.currentPick,
+      new Set(picks.filter(pick => pick.isKeeper).map(pick => pick.pickNumber)),
+      totalUsers,
+      draft.totalRounds
+    );
     
     // Check if draft is complete (all rounds finished)
-    if (nextRound > draft.totalRounds) {
+    if (!next) {
       console.log(`🎉 Draft complete! All ${draft.totalRounds} rounds finished with ${totalPicks} total picks`);
       await this.storage.completeDraft(draftId);
-      
-      // Initialize stable teams from draft picks
-      try {
-        await this.storage.initializeStableFromDraft(draftId);
-        console.log(`✅ Initialized stable teams from completed draft ${draftId}`);
-      } catch (error) {
-        console.error(`❌ Failed to initialize stable teams:`, error);
-      }
+      await this.initializeStables(draft);
       
       return await this.getDraftState(draftId);
     }
     
+    const { nextRound, nextPick } = next;
+    console.log(`🔄 Advancing draft from Round ${draft.currentRound}, Pick ${draft.currentPick} to Round ${nextRound}, Pick ${nextPick}`);
+    
     // Update draft progress
     try {
       await this.storage.updateDraftProgress(draftId, nextRound, nextPick);
@@ -723,7 +968,8 @@ export class SnakeDraftManager {
     draftId: string, 
     userId: string, 
     round: number, 
-    pickNumber: number
+    pickNumber: number,
+    duration?: number // Less than a full clock when resuming a pause
   ): Promise<void> {
     // ENHANCED TIMER CLEANUP: Clear ALL existing timers for this draft (more aggressive approach)
     console.log(`🧹 Starting timer cleanup for draft ${draftId}`);
@@ -769,18 +1015,27 @@ export class SnakeDraftManager {
       console.warn(`⚠️ Timer start blocked: expected ${expectedPickUser}, got ${userId}`);
       return;
     }
+
+    if (duration === undefined) {
+      duration = currentDraft.pickTimeLimit;
+    }
+
+    if (currentDraft.draftMode === 'slow') {
+      await this.startSlowPickTimer(currentDraft, userId, round, pickNumber, duration);
+      return;
+    }
     
     // Store timer in Redis
     const redisTimer = {
       draftId,
       userId,
       startTime: Date.now(),
-      duration: this.draftConfig.pickTimeLimit,
+      duration,
       round,
       pick: pickNumber
     };
     
-    await this.redisStateManager.setTimer(draftId, userId, this.draftConfig.pickTimeLimit);
+    await this.redisStateManager.setTimer(draftId, userId, duration);
     
     // PERMANENT FIX: Ensure draft is marked as active in Redis
     await this.redisStateManager.addActiveDraft(draftId);
@@ -791,17 +1046,17 @@ export class SnakeDraftManager {
       userId,
       round,
       pickNumber,
-      timeRemaining: this.draftConfig.pickTimeLimit
+      timeRemaining: duration
     });
     
-    console.log(`🕐 Starting Redis timer for user ${userId} in draft ${draftId} with ${this.draftConfig.pickTimeLimit} seconds`);
+    console.log(`🕐 Starting Redis timer for user ${userId} in draft ${draftId} with ${duration} seconds`);
     
     // Set up local interval for broadcasting updates
     const timerKey = `${draftId}-${userId}`;
     
     // OPTIMIZED TIMER: Authoritative server timer with efficient broadcast frequency
     const timerStartTime = Date.now();
-    const timerDuration = this.draftConfig.pickTimeLimit * 1000; // Convert to milliseconds
+    const timerDuration = duration * 1000; // Convert to milliseconds
     let lastBroadcastTime = 0;
     let tickCount = 0;
     const BROADCAST_INTERVAL = 200; // Broadcast every 200ms (5Hz) for efficiency
@@ -861,6 +1116,178 @@ export class SnakeDraftManager {
     this.timerIntervals.set(timerKey, interval);
   }
 
+  /**
+   * Starts a slow-draft pick window: the deadline is stored on the database timer and
+   * the on-the-clock member is told by push, since they probably aren't watching
+   */
+  private async startSlowPickTimer(draft: Draft, userId: string, round: number, pickNumber: number, duration: number): Promise<void> {
+    const expiresAt = new Date(Date.now() + duration * 1000);
+
+    await this.redisStateManager.setTimer(draft.id, userId, duration);
+    await this.redisStateManager.addActiveDraft(draft.id);
+    await this.storage.createDraftTimer({
+      draftId: draft.id,
+      userId,
+      round,
+      pickNumber,
+      timeRemaining: duration,
+      expiresAt
+    });
+
+    console.log(`🐢 Slow-draft pick window opened for user ${userId} in draft ${draft.id}, due ${expiresAt.toISOString()}`);
+
+    this.watchSlowPickTimer(draft, userId, expiresAt, false);
+    await this.notifyPickTurn(draft.id, userId, "You're on the clock", `Round ${round}, pick ${pickNumber} - you have ${formatPickClock(duration)} to make your pick.`);
+  }
+
+  /**
+   * Checks a slow-draft clock once a minute: keeps the database time remaining current
+   * (so a pause can pick it up), sends the one reminder, and auto-picks at the deadline
+   */
+  private watchSlowPickTimer(draft: Draft, userId: string, expiresAt: Date, reminderSent: boolean): void {
+    const timerKey = `${draft.id}-${userId}`;
+    const reminderAt = Math.min(SLOW_DRAFT_REMINDER_SECONDS, Math.floor(draft.pickTimeLimit / 4));
+
+    const existingInterval = this.timerIntervals.get(timerKey);
+    if (existingInterval) {
+      clearInterval(existingInterval);
+    }
+
+    const interval = setInterval(async () => {
+      const remaining = Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / 1000));
+
+      if (remaining <= 0) {
+        console.log(`⏰ Slow-draft pick window closed for user ${userId} in draft ${draft.id}`);
+        clearInterval(interval);
+        this.timerIntervals.delete(timerKey);
+        await this.redisStateManager.deleteTimer(draft.id);
+        await this.handleTimerExpired(draft.id, userId);
+        return;
+      }
+
+      try {
+        await this.storage.updateDraftTimer(draft.id, userId, remaining);
+      } catch (error) {
+        console.error(`Failed to update slow-draft timer: ${error}`);
+      }
+      this.webSocketManager?.broadcastTimerUpdate(draft.id, remaining);
+
+      if (!reminderSent && remaining <= reminderAt) {
+        reminderSent = true;
+        await this.storage.markDraftTimerReminderSent(draft.id, userId);
+        await this.notifyPickTurn(draft.id, userId, "Your pick is almost due", `${formatPickClock(remaining)} left before you're auto-picked.`);
+      }
+    }, SLOW_DRAFT_TICK_MS);
+
+    this.timerIntervals.set(timerKey, interval);
+  }
+
+  /**
+   * Picks a slow-draft clock back up after a restart from the database deadline.
+   * Returns false when there's no deadline to recover, so the caller starts a fresh timer.
+   */
+  private async recoverSlowPickTimer(draft: Draft): Promise<boolean> {
+    const timer = await this.storage.getActiveDraftTimer(draft.id);
+    if (!timer?.expiresAt || timer.userId !== this.getCurrentPickUser(draft)) {
+      return false;
+    }
+
+    const remaining = Math.ceil((timer.expiresAt.getTime() - Date.now()) / 1000);
+    if (remaining <= 0) {
+      console.log(`⏰ Slow-draft pick window closed during downtime for draft ${draft.id}, user ${timer.userId}`);
+      await this.handleTimerExpired(draft.id, timer.userId);
+      return true;
+    }
+
+    await this.redisStateManager.setTimer(draft.id, timer.userId, remaining);
+    await this.redisStateManager.addActiveDraft(draft.id);
+    this.watchSlowPickTimer(draft, timer.userId, timer.expiresAt, !!timer.reminderSentAt);
+
+    console.log(`✅ Recovered slow-draft timer for draft ${draft.id}, user ${timer.userId} with ${formatPickClock(remaining)} remaining`);
+    return true;
+  }
+
+  /**
+   * Push notification to the member on the clock - robots don't have devices to notify
+   */
+  private async notifyPickTurn(draftId: string, userId: string, title: string, body: string): Promise<void> {
+    if (this.robotManager?.isRobot(userId)) return;
+
+    try {
+      const subscriptions = await this.storage.getUserPushSubscriptions(userId);
+      if (subscriptions.length === 0) return;
+
+      await this.storage.sendPushNotification(subscriptions, {
+        title,
+        body,
+        icon: "/icon-192x192.png",
+        badge: "/icon-72x72.png",
+        data: {
+          url: `/draft/${draftId}`,
+          type: "draft-turn",
+          draftId,
+          timestamp: Date.now()
+        }
+      });
+    } catch (error) {
+      console.error(`Failed to send draft turn notification to ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Places the league's keepers for this season into their cost-round slots and releases the rest
+   * of last season's stables. Auction drafts and leagues without keepers release every team.
+   */
+  private async applyKeepers(draft: Draft): Promise<void> {
+    const league = await this.storage.getLeague(draft.leagueId);
+    if (!league) return;
+
+    const keepers = draft.draftFormat !== 'auction' && league.keeperLimit > 0
+      ? await this.storage.getLeagueKeepers(draft.leagueId, getDraftSeason(draft))
+      : [];
+    const keeperPicks = buildKeeperPicks(draft, keepers);
+    await this.storage.applyKeepersToDraft(draft.id, keeperPicks);
+
+    console.log(`🔒 Placed ${keeperPicks.length} keepers in draft ${draft.id}`);
+  }
+
+  /**
+   * Initialize stable teams from a completed draft's picks - a mock draft's picks only live on for its recap
+   */
+  async initializeStables(draft: Draft): Promise<void> {
+    const league = await this.storage.getLeague(draft.leagueId);
+    if (league?.isMock) return;
+
+    try {
+      await this.storage.initializeStableFromDraft(draft.id);
+      console.log(`✅ Initialized stable teams from completed draft ${draft.id}`);
+    } catch (error) {
+      console.error(`❌ Failed to initialize stable teams:`, error);
+    }
+  }
+
+  /**
+   * Stops a draft's clock everywhere ahead of deleting it. Status goes first so pending
+   * transitions and robot picks stand down
+   */
+  async discardDraft(draftId: string): Promise<void> {
+    await this.storage.setDraftStatus(draftId, 'completed');
+    this.clearTimerIntervals(draftId);
+    this.auctionManager?.stopAuction(draftId);
+    await this.redisStateManager.deleteTimer(draftId);
+    await this.redisStateManager.deleteDraftState(draftId);
+  }
+
+  /**
+   * Stops every local timer interval for a draft without touching Redis or the database
+   */
+  private clearTimerIntervals(draftId: string): void {
+    for (const key of Array.from(this.timerIntervals.keys()).filter(key => key.includes(draftId))) {
+      clearInterval(this.timerIntervals.get(key)!);
+      this.timerIntervals.delete(key);
+    }
+  }
+
   private async stopPickTimer(draftId: string, userId: string): Promise<void> {
     const timerKey = `${draftId}-${userId}`;
     const interval = this.timerIntervals.get(timerKey);
@@ -881,29 +1308,32 @@ export class SnakeDraftManager {
     selectedTeam: NflTeam
   ): Promise<{ isViolation: boolean; allowOverride: boolean; message: string }> {
     const userPicks = await this.storage.getUserDraftPicks(draftId, userId);
-    
+    const availableTeams = await this.storage.getAvailableNflTeams(draftId);
+    const eligibleTeams = await this.getDivisionEligibleTeams(draftId, userId, availableTeams);
+
+    if (eligibleTeams.some(team => team.id === selectedTeam.id)) {
+      return { isViolation: false, allowOverride: false, message: '' };
+    }
+
     // FIXED: Check for same conference + division combination (e.g., AFC East vs NFC East)
     const fullDivision = `${selectedTeam.conference} ${selectedTeam.division}`;
     const divisionCount = userPicks.filter(
       pick => `${pick.nflTeam.conference} ${pick.nflTeam.division}` === fullDivision
     ).length;
+    const hasOtherOptions = eligibleTeams.length > 0;
 
-    if (divisionCount >= this.draftConfig.maxTeamsPerDivision) {
-      const availableOtherDivisions = await this.storage.getAvailableNflTeams(draftId);
-      const hasOtherOptions = availableOtherDivisions.some(
-        team => `${team.conference} ${team.division}` !== fullDivision
-      );
-
-      return {
-        isViolation: true,
-        allowOverride: !hasOtherOptions,
-        message: hasOtherOptions 
-          ? `Already have a team from ${fullDivision} division`
-          : `Division rule override: no other division options available`
-      };
+    let message = 'Division rule override: no division-legal options left';
+    if (hasOtherOptions) {
+      message = divisionCount >= await this.getDivisionLimit(draftId)
+        ? `Already have a team from ${fullDivision} division`
+        : `Taking ${selectedTeam.code} would leave no division-legal way to fill your stable`;
     }
 
-    return { isViolation: false, allowOverride: false, message: '' };
+    return {
+      isViolation: true,
+      allowOverride: !hasOtherOptions,
+      message
+    };
   }
 
   /**
@@ -936,8 +1366,11 @@ export class SnakeDraftManager {
         }
       }
 
+      const draft = await this.storage.getDraft(draftId);
+      if (!draft) return;
+
       // Get robot's preferred team from eligible options
-      const preferredTeams = this.robotManager.getRobotTeamPreference(userId, eligibleTeams);
+      const preferredTeams = await this.robotManager.getRobotTeamPreference(userId, eligibleTeams, draft);
       const selectedTeam = preferredTeams[0];
 
       if (selectedTeam) {
@@ -960,24 +1393,79 @@ export class SnakeDraftManager {
     }
   }
 
+  /**
+   * Teams the user can take and still finish a division-legal stable. Empty when no
+   * legal completion exists, which is the only time callers fall back to an override.
+   */
   private async getDivisionEligibleTeams(
     draftId: string,
     userId: string,
     availableTeams: NflTeam[]
   ): Promise<NflTeam[]> {
-    const userPicks = await this.storage.getUserDraftPicks(draftId, userId);
-    
-    // FIXED: Get all conference + division combinations the user already has teams from
-    const userFullDivisions = new Set(
-      userPicks.map(p => `${p.nflTeam.conference} ${p.nflTeam.division}`)
+    const draft = await this.storage.getDraft(draftId);
+    if (!draft) return availableTeams;
+
+    const breakers = await this.getDivisionRuleBreakers(draft, userId, availableTeams);
+    return availableTeams.filter(team => !breakers.has(team.id));
+  }
+
+  private async getDivisionRuleBreakers(draft: Draft, userId: string, availableTeams: NflTeam[]): Promise<Set<string>> {
+    const userPicks = await this.storage.getUserDraftPicks(draft.id, userId);
+    const divisionLimit = await this.getDivisionLimit(draft.id);
+
+    return findDivisionRuleBreakers(
+      userPicks.map(pick => pick.nflTeam),
+      availableTeams,
+      draft.totalRounds - userPicks.length,
+      divisionLimit
     );
+  }
 
-    return availableTeams.filter(team => {
-      // If user already has a team from this conference+division, they can't pick another
-      // unless the rule allows overrides (when no other options are available)
-      const teamFullDivision = `${team.conference} ${team.division}`;
-      return !userFullDivisions.has(teamFullDivision);
-    });
+  /**
+   * Team to auto-pick for a human whose clock ran out: the highest queued team that is
+   * still eligible, or the top of the default ranking once the queue is exhausted
+   */
+  private async chooseAutoPickTeam(draft: Draft, userId: string, eligibleTeams: NflTeam[]): Promise<NflTeam> {
+    const queue = await this.storage.getDraftQueue(draft.id, userId);
+    const queuedTeam = queue
+      .map(entry => eligibleTeams.find(team => team.id === entry.nflTeamId))
+      .find((team): team is NflTeam => !!team);
+
+    if (queuedTeam) {
+      console.log(`📋 Auto-pick taking ${queuedTeam.code} from ${userId}'s queue`);
+      return queuedTeam;
+    }
+
+    const [defaultTeam] = await this.getDefaultTeamRanking(draft, eligibleTeams);
+    console.log(`📋 Queue exhausted for ${userId} - auto-pick taking ${defaultTeam.code} from the default ranking`);
+    return defaultTeam;
+  }
+
+  /**
+   * Default big board: best record last season first, team code breaks ties
+   */
+  async getDefaultTeamRanking(draft: Draft, teams: NflTeam[]): Promise<NflTeam[]> {
+    // Drafts run before kickoff, so the latest full season is the one before the draft's
+    const lastSeason = getDraftSeason(draft) - 1;
+    const records = await this.storage.getTeamRecords(lastSeason);
+
+    const winPct = (team: NflTeam) => {
+      const record = records[team.id];
+      const games = record ? record.wins + record.losses + record.ties : 0;
+      return games > 0 ? (record.wins + record.ties / 2) / games : 0;
+    };
+
+    return [...teams].sort((a, b) => winPct(b) - winPct(a) || a.code.localeCompare(b.code));
+  }
+
+  /**
+   * Max teams one user may hold from a single division - scales with the draft's rounds
+   */
+  private async getDivisionLimit(draftId: string): Promise<number> {
+    if (this.draftConfig.maxTeamsPerDivision) return this.draftConfig.maxTeamsPerDivision;
+
+    const draft = await this.storage.getDraft(draftId);
+    return getMaxTeamsPerDivision(draft?.totalRounds ?? this.draftConfig.totalRounds);
   }
 
   /**
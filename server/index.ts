@@ -349,6 +349,20 @@ app.use((req, res, next) => {
     console.error('Failed to initialize Redis or recover timers on startup:', error);
   }
 
+  // Resolve waiver claims once each waiver period ends (also catches periods that ended while down)
+  const { waiverProcessor } = await import("./utils/waiverProcessor");
+  waiverProcessor.start();
+  waiverProcessor.processDueWaivers().catch(error => {
+    console.error('[Waivers] Startup waiver processing failed:', error);
+  });
+
+  // Award weekly high/low and skins once each week's final game is in (also catches weeks that ended while down)
+  const { endOfWeekScheduler } = await import("./utils/endOfWeekScheduler");
+  endOfWeekScheduler.start();
+  endOfWeekScheduler.processCompletedWeeks().catch(error => {
+    console.error('[EndOfWeekScheduler] Startup end-of-week check failed:', error);
+  });
+
   // Set up Vite or static serving based on environment
   if (isDev) {
     // Only use Vite middleware if we don't have built assets
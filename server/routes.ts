@@ -4,12 +4,19 @@ import passport from "passport";
 import { generateJWT, authenticateJWT, isOAuthConfigured } from "./auth";
 import { storage } from "./storage";
 import { generateJoinCode } from "./utils";
-import { insertLeagueSchema, draftPicks, drafts, draftTimers, userWeeklyScores, weeklyLocks, nflTeams, stables } from "@shared/schema";
+import { insertLeagueSchema, draftPicks, drafts, draftTimers, draftQueueEntries, userWeeklyScores, weeklyLocks, nflTeams, stables } from "@shared/schema";
 import { z } from "zod";
+import { MIN_LEAGUE_MEMBERS, MAX_LEAGUE_MEMBERS, MIN_TEAMS_PER_MEMBER, MAX_TEAMS_PER_MEMBER, DEFAULT_TEAMS_PER_MEMBER, NFL_TEAM_COUNT, isValidLeagueSize, getMaxTeamsPerDivision } from "@shared/utils/leagueSize";
 import { registerPushNotificationRoutes } from "./routes/push-notifications";
 import { registerPushDiagnosticsRoutes } from "./routes/push-diagnostics";
 import { registerSubscriptionValidationRoutes } from "./routes/subscription-validation";
 import { registerAdminRoutes } from "./routes/admin";
+import { registerTradeRoutes } from "./routes/trades";
+import { registerCommissionerRoutes } from "./routes/commissioner";
+import { calculateLeaguePayouts, PAYOUT_AMOUNTS } from "./utils/payouts";
+import { generateDraftOrder } from "./draft/draftOrder";
+import { DRAFT_MODES, DRAFT_MODE_LABELS, DEFAULT_LIVE_PICK_TIME, DEFAULT_SLOW_PICK_WINDOW_HOURS, isValidPickTimeLimit } from "@shared/utils/draftMode";
+import { DRAFT_FORMATS, DEFAULT_AUCTION_BUDGET, isValidAuctionBudget } from "@shared/utils/auction";
 import { scoringRouter } from "./routes/scoring";
 import { registerDatabaseViewerRoutes } from "./routes/database-viewer";
 import { db } from "./db";
@@ -306,6 +313,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied to this league" });
       }
 
+      // Roster moves are only allowed while the trade window is open
+      const { tradeWindowService } = await import("./utils/tradeWindow.js");
+      const tradeWindow = await tradeWindowService.getTradeWindowStatus();
+      if (!tradeWindow.isOpen) {
+        return res.status(400).json({ 
+          message: tradeWindow.reason || "Trade window is closed",
+          opensAt: tradeWindow.opensAt,
+          closesAt: tradeWindow.closesAt
+        });
+      }
+
+      // One roster move per week - drops are free, pickups and trades count
+      const { MAX_ROSTER_MOVES_PER_WEEK } = await import("./utils/tradeWindow.js");
+      const movesThisWeek = await storage.getWeeklyRosterMoveCount(user.id, leagueId, tradeWindow.season, tradeWindow.week);
+      if (movesThisWeek >= MAX_ROSTER_MOVES_PER_WEEK) {
+        return res.status(400).json({ message: `You've already used your roster move for Week ${tradeWindow.week}` });
+      }
+
+      // During the waiver period pickups are queued and resolved by waiver priority
+      if (tradeWindow.inWaiverPeriod) {
+        const claim = await storage.createWaiverClaim({
+          leagueId,
+          userId: user.id,
+          season: tradeWindow.season,
+          week: tradeWindow.week,
+          claimTeamId: nflTeamId,
+          dropTeamId: null
+        });
+        return res.json({
+          message: "Waiver claim submitted",
+          queued: true,
+          claim,
+          waiverPeriodEndsAt: tradeWindow.waiverPeriodEndsAt
+        });
+      }
+
       await storage.addFreeAgentToStable(user.id, leagueId, nflTeamId);
       res.json({ message: "Free agent added to stable successfully" });
     } catch (error) {
@@ -332,6 +375,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied to this league" });
       }
 
+      // Roster moves are only allowed while the trade window is open
+      const { tradeWindowService } = await import("./utils/tradeWindow.js");
+      const tradeWindow = await tradeWindowService.getTradeWindowStatus();
+      if (!tradeWindow.isOpen) {
+        return res.status(400).json({ 
+          message: tradeWindow.reason || "Trade window is closed",
+          opensAt: tradeWindow.opensAt,
+          closesAt: tradeWindow.closesAt
+        });
+      }
+
       await storage.removeStableTeam(user.id, leagueId, nflTeamId);
       res.json({ message: "Team removed from stable successfully" });
     } catch (error) {
@@ -340,6 +394,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Free agent pool - NFL teams not in any stable in this league
+  app.get("/api/leagues/:leagueId/free-agents", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+
+      // Check if user is in the league
+      const isInLeague = await storage.isUserInLeague(user.id, leagueId);
+      if (!isInLeague) {
+        return res.status(403).json({ message: "Access denied to this league" });
+      }
+
+      // Show opponents for the week a claim made now would count toward
+      const { tradeWindowService } = await import("./utils/tradeWindow.js");
+      const tradeWindow = await tradeWindowService.getTradeWindowStatus();
+
+      const [freeAgents, records] = await Promise.all([
+        storage.getLeagueFreeAgents(leagueId),
+        storage.getTeamRecords(tradeWindow.season)
+      ]);
+
+      const teams = await Promise.all(freeAgents.map(async (team) => {
+        const record = records[team.id] || { wins: 0, losses: 0, ties: 0 };
+        let opponentInfo = {
+          upcomingOpponent: 'BYE WEEK',
+          gameDate: null as string | null,
+          gameTime: null as string | null,
+          isBye: true
+        };
+
+        try {
+          const upcomingGame = await storage.getTeamUpcomingGame(team.code, tradeWindow.week);
+          if (upcomingGame) {
+            const isHome = upcomingGame.homeTeam === team.code;
+            opponentInfo = {
+              upcomingOpponent: `${isHome ? 'vs' : '@'} ${isHome ? upcomingGame.awayTeam : upcomingGame.homeTeam}`,
+              gameDate: upcomingGame.gameDate,
+              gameTime: upcomingGame.gameTime,
+              isBye: false
+            };
+          }
+        } catch (error) {
+          console.error(`Error getting opponent for free agent ${team.code}:`, error);
+        }
+
+        return {
+          ...team,
+          record: `${record.wins}-${record.losses}${record.ties ? `-${record.ties}` : ''}`,
+          ...opponentInfo
+        };
+      }));
+
+      res.json({
+        week: tradeWindow.week,
+        season: tradeWindow.season,
+        tradeWindowOpen: tradeWindow.isOpen,
+        teams
+      });
+    } catch (error: any) {
+      console.error('Error getting free agents:', error);
+      res.status(500).json({ message: "Failed to get free agents", error: error.message });
+    }
+  });
+
+  // Drop an owned team and claim a free agent in one atomic swap
+  app.post("/api/stable/claim-free-agent", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId, claimTeamId, dropTeamId } = req.body;
+      if (!leagueId || !claimTeamId || !dropTeamId) {
+        return res.status(400).json({ message: "League ID, claim team ID and drop team ID are required" });
+      }
+
+      // Check if user is in the league
+      const isInLeague = await storage.isUserInLeague(user.id, leagueId);
+      if (!isInLeague) {
+        return res.status(403).json({ message: "Access denied to this league" });
+      }
+
+      // Roster moves are only allowed while the trade window is open
+      const { tradeWindowService, MAX_ROSTER_MOVES_PER_WEEK } = await import("./utils/tradeWindow.js");
+      const tradeWindow = await tradeWindowService.getTradeWindowStatus();
+      if (!tradeWindow.isOpen) {
+        return res.status(400).json({ 
+          message: tradeWindow.reason || "Trade window is closed",
+          opensAt: tradeWindow.opensAt,
+          closesAt: tradeWindow.closesAt
+        });
+      }
+
+      const movesThisWeek = await storage.getWeeklyRosterMoveCount(user.id, leagueId, tradeWindow.season, tradeWindow.week);
+      if (movesThisWeek >= MAX_ROSTER_MOVES_PER_WEEK) {
+        return res.status(400).json({ message: `You've already used your roster move for Week ${tradeWindow.week}` });
+      }
+
+      // During the waiver period claims are queued and resolved by waiver priority
+      if (tradeWindow.inWaiverPeriod) {
+        const claim = await storage.createWaiverClaim({
+          leagueId,
+          userId: user.id,
+          season: tradeWindow.season,
+          week: tradeWindow.week,
+          claimTeamId,
+          dropTeamId
+        });
+        return res.json({
+          message: "Waiver claim submitted",
+          queued: true,
+          claim,
+          waiverPeriodEndsAt: tradeWindow.waiverPeriodEndsAt
+        });
+      }
+
+      try {
+        await storage.claimFreeAgent(user.id, leagueId, claimTeamId, dropTeamId);
+      } catch (error: any) {
+        // Team was claimed by someone else, or the drop team is no longer owned
+        return res.status(409).json({ message: error.message });
+      }
+
+      res.json({ message: "Free agent claimed successfully" });
+    } catch (error: any) {
+      console.error('Error claiming free agent:', error);
+      res.status(500).json({ message: "Failed to claim free agent", error: error.message });
+    }
+  });
+
   // Logout
   app.post("/api/auth/logout", (req, res) => {
     res.clearCookie("auth_token");
@@ -357,7 +546,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate request body - only validate what comes from frontend
       const createLeagueSchema = z.object({
         name: z.string().min(1, "League name is required").max(50, "League name too long"),
-        maxTeams: z.number().min(2, "Must have at least 2 teams").max(20, "Maximum 20 teams allowed"),
+        maxTeams: z.number().int().min(MIN_LEAGUE_MEMBERS, `Must have at least ${MIN_LEAGUE_MEMBERS} members`).max(MAX_LEAGUE_MEMBERS, `Maximum ${MAX_LEAGUE_MEMBERS} members allowed`),
+        teamsPerMember: z.number().int().min(MIN_TEAMS_PER_MEMBER, `Each member needs at least ${MIN_TEAMS_PER_MEMBER} teams`).max(MAX_TEAMS_PER_MEMBER, `Maximum ${MAX_TEAMS_PER_MEMBER} teams per member`).default(DEFAULT_TEAMS_PER_MEMBER),
+      }).refine(data => isValidLeagueSize(data.maxTeams, data.teamsPerMember), {
+        message: `Members × teams per member can't exceed the ${NFL_TEAM_COUNT} NFL teams`,
+        path: ["teamsPerMember"],
       });
 
       const validatedData = createLeagueSchema.parse(req.body);
@@ -490,6 +683,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           LIMIT 1
         `);
         weeklySkins = weeklySkinsResult.rows[0] as any;
+        if (weeklySkins?.winning_score != null) {
+          // Raw numeric comes back as a string
+          weeklySkins.winning_score = Number(weeklySkins.winning_score);
+        }
 
         // Get user weekly scores for computing high/low
         const userWeekScores = await db.select()
@@ -600,10 +797,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         week: weekNum,
         totalWeeks: 18,
         memberCount: standings.length,
-        weeklyPot: 30, // Skins prize per week
-        seasonPot: 80  // Total season prizes ($50 + $10 + $10 + $10)
+        weeklyPot: PAYOUT_AMOUNTS.weeklySkin, // Skins prize per week
+        seasonPot: PAYOUT_AMOUNTS.mostPoints + PAYOUT_AMOUNTS.superBowlOwner + PAYOUT_AMOUNTS.mostCorrectLocks
       };
 
+      // Season prize leaders come from the payout ledger so both pages agree
+      const { prizes } = await calculateLeaguePayouts(leagueId, seasonNum);
+
       res.json({
         league: leagueInfo,
         standings,
@@ -613,11 +813,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         weeklySkins: weeklySkins || null,
         highScoreTeams,      // null until complete
         lowScoreTeams,       // null until complete
-        seasonPrizes: [
-          { name: "Most Points", prize: "$50", leader: standings[0]?.name || "TBD", points: standings[0]?.points?.toString() || "-" },
-          { name: "Super Bowl Winner", prize: "$10", leader: "TBD", points: "-" },
-          { name: "Most Correct Locks", prize: "$10", leader: standings.find(s => s.locks > 0)?.name || "TBD", points: standings.find(s => s.locks > 0)?.locks?.toString() || "0" }
-        ]
+        seasonPrizes: prizes.map(prize => ({
+          name: prize.name,
+          prize: `$${prize.amount}`,
+          leader: prize.winners.map(winner => winner.name).join(', ') || "TBD",
+          points: prize.value === null ? "-"
+            : prize.key === 'mostPoints' ? `${prize.value} pts`
+            : prize.key === 'mostCorrectLocks' ? `${prize.value} locks`
+            : String(prize.value)
+        }))
       });
     } catch (error) {
       console.error('Error getting league standings:', error);
@@ -1187,6 +1391,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // If we're in pre-season (Week 0), show Week 1 upcoming games
       const targetWeek = currentWeek === 0 ? 1 : currentWeek;
+
+      // Lock limits come from the league's scoring rules
+      const { getLeagueScoringRules } = await import('./utils/mokScoring.js');
+      const scoringRules = await getLeagueScoringRules(leagueId);
       
       // Enhance with mock performance data and real opponent data
       const { generateTeamPerformanceData } = await import('./utils/mockScoring.js');
@@ -1267,8 +1475,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           isLocked: !!weeklyLockForTeam,
           isLockAndLoad: !!weeklyLockAndLoadForTeam,
           // Recalculate derived fields using actual database values
-          locksRemaining: 4 - (team.locksUsed || 0), // Max 4 locks per team per season
-          lockAndLoadAvailable: !team.lockAndLoadUsed, // True if not yet used
+          locksRemaining: Math.max(0, scoringRules.maxLocksPerTeamPerSeason - (team.locksUsed || 0)), // League's max locks per team per season
+          lockAndLoadAvailable: scoringRules.maxLockAndLoadPerTeamPerSeason > 0 && !team.lockAndLoadUsed, // True if not yet used
           lockAndLoadUsed: team.lockAndLoadUsed, // Use actual database value
           locksUsed: team.locksUsed || 0, // Use actual database value
         };
@@ -1353,6 +1561,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Team not found' });
       }
 
+      // Per-team season limits from the league's scoring rules
+      const { validateLockUsage } = await import("./routes/scoring.js");
+      const usageValidation = await validateLockUsage(userId, leagueId, teamId, lockType, 2024, week);
+      if (!usageValidation.valid) {
+        return res.status(400).json({ message: usageValidation.reason });
+      }
+
       if (lockType === 'lock') {
         // Create new weekly lock
         await db.insert(weeklyLocks).values({
@@ -1595,21 +1810,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Create new draft if none exists or previous one was completed
-      if (!draft) {
+      // Create new draft if none exists or previous one was completed - that one was last season's,
+      // so the new draft is for the season after and the league's keepers are placed in it
+      if (!draft || draft.status === 'completed') {
         console.log('[draft/start] Creating new draft for league', leagueId);
         
         const draftManager = (global as any).draftManager;
+
+        // Optional settings from the commissioner - a slow draft gives each pick hours instead of seconds,
+        // an auction gives everyone a budget to bid on teams instead of taking turns
+        const settingsSchema = z.object({
+          draftMode: z.enum(DRAFT_MODES).default('live'),
+          pickTimeLimit: z.number().int().optional(),
+          draftFormat: z.enum(DRAFT_FORMATS).default('snake'),
+          auctionBudget: z.number().int().refine(isValidAuctionBudget, { message: "Unsupported auction budget" }).default(DEFAULT_AUCTION_BUDGET)
+        });
+        const settings = settingsSchema.safeParse(req.body ?? {});
+        if (!settings.success) {
+          return res.status(400).json({ message: "Validation error", errors: settings.error.errors });
+        }
+        const { draftMode, draftFormat, auctionBudget } = settings.data;
+        if (draftFormat === 'auction' && draftMode === 'slow') {
+          return res.status(400).json({ message: "Auction drafts bid in real time and can't be slow drafts" });
+        }
+        if (draftFormat === 'auction' && league.keeperLimit > 0) {
+          return res.status(400).json({ message: "Keepers only work with snake drafts" });
+        }
+        const pickTimeLimit = settings.data.pickTimeLimit
+          ?? (draftMode === 'slow' ? DEFAULT_SLOW_PICK_WINDOW_HOURS * 3600 : DEFAULT_LIVE_PICK_TIME);
+        if (!isValidPickTimeLimit(draftMode, pickTimeLimit)) {
+          return res.status(400).json({ message: `Pick time limit is out of range for a ${DRAFT_MODE_LABELS[draftMode].toLowerCase()}` });
+        }
         
         // Get league members to create draft order
         const members = await storage.getLeagueMembers(leagueId);
-        const draftOrder = members.map(m => m.userId);
+        const order = await generateDraftOrder(storage, league, members.map(m => m.userId));
         
         const newDraftResponse = await storage.createDraft({
           leagueId,
-          totalRounds: 5,
-          pickTimeLimit: 120, // 2 minutes default
-          draftOrder,
+          totalRounds: league.teamsPerMember, // One round per stable slot
+          pickTimeLimit,
+          draftMode,
+          draftFormat,
+          auctionBudget: draftFormat === 'auction' ? auctionBudget : null,
+          ...order, // League's draft order method, recorded on the draft
         });
         
         draft = newDraftResponse;
@@ -1727,6 +1971,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register admin routes
   registerAdminRoutes(app);
   
+  // Register trade proposal routes
+  registerTradeRoutes(app);
+  
+  // Register commissioner correction routes
+  registerCommissionerRoutes(app);
+  
   // Register scoring routes with Tank01 integration
   app.use('/api/scoring', scoringRouter);
   
@@ -1810,6 +2060,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           email: p.user?.email || null
         })),
         timerSeconds: draftState.timeRemaining || 0,
+        draftMode: draft.draftMode,
+        draftFormat: draft.draftFormat,
+        pickTimeLimit: draft.pickTimeLimit,
+        teams: draftState.availableTeams,
+        picks: draftState.picks,
+        totalRounds: draft.totalRounds,
+        restrictions: {
+          enableDivisionRule: true,
+          maxTeamsPerDivision: getMaxTeamsPerDivision(draft.totalRounds),
+          divisionRuleOverride: draftState.divisionRuleOverride
+        },
         
         // Current player object for easy access
         currentPlayer,
@@ -1818,11 +2079,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         league: {
           id: league.id,
           name: league.name,
-          creatorId: league.creatorId
+          creatorId: league.creatorId,
+          isMock: league.isMock
         },
         
         // Additional computed fields
         isCurrentUser: draftState.currentUserId === user.id,
+        isCommissioner: await storage.isLeagueCommissioner(user.id, draft.leagueId),
         
         // Preserve original nested structure for backward compatibility
         state: draftState,
@@ -1909,13 +2172,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`🗑️ Deleting existing draft ${existingDraft.id}`);
         await db.delete(draftPicks).where(eq(draftPicks.draftId, existingDraft.id));
         await db.delete(draftTimers).where(eq(draftTimers.draftId, existingDraft.id));
+        await db.delete(draftQueueEntries).where(eq(draftQueueEntries.draftId, existingDraft.id));
         await db.delete(drafts).where(eq(drafts.id, existingDraft.id));
       }
 
       // Create a fresh new draft
       const newDraftId = crypto.randomUUID();
       const leagueMembers = await storage.getLeagueMembers(leagueId);
-      const draftOrder = leagueMembers.map(member => member.userId);
+      const order = await generateDraftOrder(storage, league, leagueMembers.map(member => member.userId));
+      const { draftOrder } = order;
       
       console.log(`🆕 Creating new draft ${newDraftId} with ${draftOrder.length} users`);
       
@@ -1925,9 +2190,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: 'not_started', // Create draft in not_started state
         currentRound: 1,
         currentPick: 1,
-        totalRounds: 5,
+        totalRounds: league.teamsPerMember,
         pickTimeLimit: 120, // Default 2 minutes (120 seconds) per pick
-        draftOrder
+        ...order
       });
 
       // Start timer for first user
@@ -1,9 +1,11 @@
 import { Express } from 'express';
 import { db } from '../db';
-import { nflGames, nflTeams, userWeeklyScores, stables, users, leagues, weeklyLocks, weeklySkins, leagueMembers } from '@shared/schema';
-import { eq, and, gte, lte, sql, desc, or, gt, lt, inArray, isNull } from 'drizzle-orm';
+import { nflGames, nflTeams, nflSeasonChampions, userWeeklyScores, stables, users, leagues, weeklyLocks, weeklySkins, leagueMembers, rosterTransactions, weekProcessingRuns } from '@shared/schema';
+import { eq, and, gte, lte, sql, desc, inArray, isNull } from 'drizzle-orm';
 import { nflDataService } from '../services/nflDataService';
-import { calculateBaseMokPoints } from '../utils/mokScoring';
+import { getLeagueScoringRules } from '../utils/mokScoring';
+import { getTeamOwnerLookup } from '../utils/stableOwnership';
+import { scoreTeamGame } from '@shared/utils/scoring';
 import { endOfWeekProcessor } from '../utils/endOfWeekProcessor';
 
 // Simple admin state management - 2024 season for testing
@@ -443,27 +445,24 @@ async function calculateAndUpdateMokPoints(
 
     console.log(`Leagues affected by this game: ${affectedLeagues.map(l => l.leagueId).join(", ")}`);
 
+    const [game] = await db.select({ gameDate: nflGames.gameDate }).from(nflGames).where(eq(nflGames.id, gameId));
+    const kickoff = game?.gameDate ?? new Date();
+
     // Process scoring per league to avoid cross-league crediting
     for (const { leagueId } of affectedLeagues) {
-      // Get users in *this league* who own either the home or away team
-      const teamOwners = await db.select({
-          userId: stables.userId,
-          userName: users.name,
-          leagueId: stables.leagueId,
-          teamId: stables.nflTeamId,
-          teamCode: nflTeams.code
-        })
-        .from(stables)
-        .innerJoin(users, eq(stables.userId, users.id))
-        .innerJoin(nflTeams, eq(stables.nflTeamId, nflTeams.id))
-        .where(and(
-          eq(stables.leagueId, leagueId),
-          sql`${stables.nflTeamId} IN (${homeTeamId}, ${awayTeamId})`
-        ))
-        // safety: avoid duplicate crediting if duplicates exist
-        .groupBy(stables.userId, stables.leagueId, stables.nflTeamId, users.name, nflTeams.code);
+      // Get users in *this league* who owned the home or away team when the game kicked off
+      const ownerAt = await getTeamOwnerLookup(leagueId);
+      const teamOwners = [];
+      for (const [teamId, teamCode] of [[homeTeamId, homeTeamCode], [awayTeamId, awayTeamCode]]) {
+        const ownerId = ownerAt(teamId, kickoff);
+        if (!ownerId) continue;
+
+        const [owner] = await db.select({ name: users.name }).from(users).where(eq(users.id, ownerId));
+        teamOwners.push({ userId: ownerId, userName: owner?.name ?? 'Unknown', leagueId, teamId, teamCode });
+      }
 
       console.log(`League ${leagueId}: found ${teamOwners.length} owner(s) for this game`);
+      const leagueRules = await getLeagueScoringRules(leagueId);
 
       // Calculate points for each team owner *within this league*
       for (const owner of teamOwners) {
@@ -471,28 +470,6 @@ async function calculateAndUpdateMokPoints(
         const teamScore = isHomeTeam ? homeScore : awayScore;
         const opponentScore = isHomeTeam ? awayScore : homeScore;
 
-        // Create team game result
-        const teamResult = {
-          teamCode: owner.teamCode,
-          opponentCode: isHomeTeam ? awayTeamCode : homeTeamCode,
-          teamScore,
-          opponentScore,
-          week,
-          season,
-          gameDate: new Date(),
-          baseMokPoints: 0,
-          isWin: teamScore > opponentScore,
-          isLoss: teamScore < opponentScore,
-          isTie: teamScore === opponentScore,
-          isBlowout: (teamScore > opponentScore) && (teamScore - opponentScore >= 20),
-          isShutout: opponentScore === 0,
-          isWeeklyHigh: false, // calculated at week end
-          isWeeklyLow: false   // calculated at week end
-        };
-
-        // Calculate base game result points
-        const basePoints = calculateBaseMokPoints(teamResult);
-        
         // Check for lock bonuses
         const lockData = await db.select({
           lockedTeamId: weeklyLocks.lockedTeamId,
@@ -510,31 +487,9 @@ async function calculateAndUpdateMokPoints(
         const isLocked = userLock?.lockedTeamId === owner.teamId;
         const isLockAndLoad = userLock?.lockAndLoadTeamId === owner.teamId;
         
-        let lockBonusPoints = 0;
-        let lockAndLoadBonusPoints = 0;
-        
-        // Check for regular lock bonus first
-        if (isLocked) {
-          // Regular lock bonus: +1 for wins, +0.5 for ties, +0 for losses
-          if (teamResult.isWin) {
-            lockBonusPoints = 1;
-          } else if (teamResult.isTie) {
-            lockBonusPoints = 0.5;
-          }
-        }
-        
-        // Check for lock-and-load bonus (additional +1/-1 on top of lock)
-        if (isLockAndLoad) {
-          // Lock & Load additional scoring: +1 for win, -1 for loss, +0 for tie
-          if (teamResult.isWin) {
-            lockAndLoadBonusPoints = 1;
-          } else if (teamResult.isLoss) {
-            lockAndLoadBonusPoints = -1;
-          }
-          // No additional points for ties (just the lock bonus)
-        }
-        
-        const totalPoints = basePoints + lockBonusPoints + lockAndLoadBonusPoints;
+        // Score the game with this league's rules - weekly high/low wait for the end of the week
+        const { gamePoints: basePoints, lockBonusPoints, lockAndLoadBonusPoints, totalPoints } =
+          scoreTeamGame(teamScore, opponentScore, isLocked, isLockAndLoad, leagueRules);
 
         const lockInfo = isLockAndLoad ? 'LOAD' : isLocked ? 'LOCK' : '';
         console.log(`${owner.userName} (${owner.teamCode}): ${totalPoints} points (${teamScore}-${opponentScore}) ${lockInfo} [Base: ${basePoints}, Lock: ${lockBonusPoints}, L&L: ${lockAndLoadBonusPoints}] - Locked=${isLocked}, Load=${isLockAndLoad}`);
@@ -611,28 +566,6 @@ async function checkAndCalculateWeeklyBonuses(season: number, week: number, forc
 
     // Only calculate weekly bonuses if ALL games of the week are actually completed
     if (weekComplete && weekGames.length > 0) {
-      // Check if bonuses have already been calculated for this week to prevent duplicates
-      const existingBonuses = await db.select({
-        userId: userWeeklyScores.userId,
-        highBonus: userWeeklyScores.weeklyHighBonusPoints,
-        lowPenalty: userWeeklyScores.weeklyLowPenaltyPoints
-      })
-        .from(userWeeklyScores)
-        .where(and(
-          eq(userWeeklyScores.season, season),
-          eq(userWeeklyScores.week, week),
-          or(
-            gt(userWeeklyScores.weeklyHighBonusPoints, 0),
-            lt(userWeeklyScores.weeklyLowPenaltyPoints, 0)
-          )
-        ));
-
-      if (existingBonuses.length > 0) {
-        console.log(`⚠️  Week ${week} bonuses already calculated for ${existingBonuses.length} users - skipping to prevent duplicates`);
-        console.log(`⚠️  This is the fix for daily bonus duplication - bonuses should only be calculated ONCE per week when complete`);
-        return;
-      }
-
       console.log(`🏆 Week ${week} games all completed! Now calculating weekly high/low bonuses...`);
       
       // Find highest and lowest scoring NFL teams this week
@@ -683,9 +616,17 @@ async function checkAndCalculateWeeklyBonuses(season: number, week: number, forc
         
         console.log(`🏆 Processing end-of-week bonuses and skins for ${activeLeagues.length} active leagues`);
         
+        // Each league keeps its own run record, so one league failing doesn't hold up the rest
         for (const league of activeLeagues) {
           console.log(`🎯 Processing Week ${week} end-of-week for league: ${league.name} (${league.id})`);
-          await endOfWeekProcessor.processEndOfWeek(season, week, league.id);
+          try {
+            const results = await endOfWeekProcessor.processEndOfWeek(season, week, league.id);
+            if (results.inProgress) {
+              console.log(`⏭️  Week ${week} is already being processed for league ${league.name} - skipped`);
+            }
+          } catch (error) {
+            console.error(`❌ Week ${week} end-of-week failed for league ${league.name} (${league.id}) - retry it from the admin panel:`, error);
+          }
         }
         
         console.log(`✅ Week ${week} bonus calculation delegated to endOfWeekProcessor - preventing duplicate calculations`);
@@ -917,6 +858,12 @@ export function registerAdminRoutes(app: Express) {
       await updateAdminState();
       adminState.processingInProgress = false;
 
+      // Resolve any waiver claims whose waiver period ended on the simulated clock
+      const { waiverProcessor } = await import("../utils/waiverProcessor.js");
+      await waiverProcessor.processDueWaivers().catch(error => {
+        console.error('[Admin] Waiver processing failed:', error);
+      });
+
       // Broadcast update to all connected clients to refresh scores  
       const { globalDraftManager } = await import("../draft/globalDraftManager.js");
       console.log('[Admin] Broadcasting admin_date_advanced to all connected clients');
@@ -979,6 +926,13 @@ export function registerAdminRoutes(app: Express) {
 
       console.log(`🧹 Cleared all weekly skins for ${adminState.season} season`);
 
+      // Clear end-of-week run records so replayed weeks are processed again
+      await db
+        .delete(weekProcessingRuns)
+        .where(eq(weekProcessingRuns.season, adminState.season));
+
+      console.log(`🧹 Cleared week processing runs for ${adminState.season} season`);
+
       // Clear all weekly lock selections for current season
       await db
         .delete(weeklyLocks)
@@ -986,6 +940,16 @@ export function registerAdminRoutes(app: Express) {
 
       console.log(`🧹 Cleared all weekly lock selections for ${adminState.season} season`);
 
+      // Clear in-season roster moves so the weekly move cap starts fresh (draft entries are kept)
+      await db
+        .delete(rosterTransactions)
+        .where(and(
+          eq(rosterTransactions.season, adminState.season),
+          sql`${rosterTransactions.type} <> 'draft'`
+        ));
+
+      console.log(`🧹 Cleared roster move history for ${adminState.season} season`);
+
       // Reset lock usage counters in stables table for all teams in all leagues
       await db
         .update(stables)
@@ -1109,6 +1073,113 @@ export function registerAdminRoutes(app: Express) {
     }
   });
 
+  // Rebuild the season-wide team performance and weekly stats tables from the game results
+  app.post('/api/admin/rebuild-season-tables', async (req, res) => {
+    try {
+      const season = req.body?.season ? Number(req.body.season) : adminState.season;
+      const { rebuildSeasonTables } = await import("../utils/seasonRecompute.js");
+      const report = await rebuildSeasonTables(season, { dryRun: !!req.body?.dryRun });
+      res.json({ success: true, ...report });
+    } catch (error) {
+      console.error('Error rebuilding season tables:', error);
+      res.status(500).json({ error: 'Failed to rebuild season tables' });
+    }
+  });
+
+  // Record the season's Super Bowl winner - only regular-season games are imported, so the
+  // Super Bowl owner prize is paid from this row
+  app.post('/api/admin/nfl-champion', async (req, res) => {
+    try {
+      const season = req.body?.season ? Number(req.body.season) : adminState.season;
+      const { teamCode, superBowlDate } = req.body || {};
+      const kickoff = new Date(superBowlDate);
+
+      if (!teamCode || !superBowlDate || isNaN(kickoff.getTime())) {
+        return res.status(400).json({ error: 'teamCode and a valid superBowlDate are required' });
+      }
+
+      const [team] = await db.select({ id: nflTeams.id, code: nflTeams.code })
+        .from(nflTeams)
+        .where(eq(nflTeams.code, String(teamCode).toUpperCase()));
+      if (!team) {
+        return res.status(404).json({ error: `Unknown NFL team: ${teamCode}` });
+      }
+
+      await db.insert(nflSeasonChampions)
+        .values({ season, nflTeamId: team.id, superBowlDate: kickoff })
+        .onConflictDoUpdate({
+          target: nflSeasonChampions.season,
+          set: { nflTeamId: team.id, superBowlDate: kickoff, updatedAt: new Date() }
+        });
+
+      console.log(`🏆 [Admin] Recorded ${team.code} as the ${season} Super Bowl champion`);
+      res.json({ success: true, season, teamCode: team.code, superBowlDate: kickoff });
+    } catch (error) {
+      console.error('Error recording NFL champion:', error);
+      res.status(500).json({ error: 'Failed to record NFL champion' });
+    }
+  });
+
+  // End-of-week processing runs per league, newest first - failed ones can be retried below
+  app.get('/api/admin/week-processing-runs', async (req, res) => {
+    try {
+      const season = req.query.season ? Number(req.query.season) : adminState.season;
+      const conditions = [eq(weekProcessingRuns.season, season)];
+      if (req.query.week) conditions.push(eq(weekProcessingRuns.week, Number(req.query.week)));
+      if (req.query.status) conditions.push(eq(weekProcessingRuns.status, String(req.query.status)));
+
+      const runs = await db.select({
+        id: weekProcessingRuns.id,
+        leagueId: weekProcessingRuns.leagueId,
+        leagueName: leagues.name,
+        season: weekProcessingRuns.season,
+        week: weekProcessingRuns.week,
+        status: weekProcessingRuns.status,
+        attempts: weekProcessingRuns.attempts,
+        startedAt: weekProcessingRuns.startedAt,
+        completedAt: weekProcessingRuns.completedAt,
+        error: weekProcessingRuns.error,
+        results: weekProcessingRuns.results
+      })
+        .from(weekProcessingRuns)
+        .innerJoin(leagues, eq(weekProcessingRuns.leagueId, leagues.id))
+        .where(and(...conditions))
+        .orderBy(desc(weekProcessingRuns.week), leagues.name);
+
+      res.json({ season, runs });
+    } catch (error) {
+      console.error('Error getting week processing runs:', error);
+      res.status(500).json({ error: 'Failed to get week processing runs' });
+    }
+  });
+
+  // Retry a failed league's end-of-week processing
+  app.post('/api/admin/week-processing-runs/:id/retry', async (req, res) => {
+    try {
+      const [run] = await db.select().from(weekProcessingRuns).where(eq(weekProcessingRuns.id, req.params.id));
+      if (!run) {
+        return res.status(404).json({ error: 'Week processing run not found' });
+      }
+      if (run.status !== 'failed') {
+        return res.status(409).json({ error: `Only failed runs can be retried (this one is ${run.status})` });
+      }
+
+      const results = await endOfWeekProcessor.processEndOfWeek(run.season, run.week, run.leagueId);
+      if (results.inProgress) {
+        return res.status(409).json({ error: 'This week is already being processed for the league' });
+      }
+
+      res.json({
+        success: true,
+        message: `Week ${run.week} processed for league ${run.leagueId}`,
+        results
+      });
+    } catch (error) {
+      console.error('Error retrying week processing run:', error);
+      res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to retry week processing run' });
+    }
+  });
+
   // Test skins awarding route
   app.post('/api/admin/test-skins', async (req, res) => {
     try {
@@ -0,0 +1,229 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { tradeWindowService } from "../utils/tradeWindow";
+import { recomputeSeason } from "../utils/seasonRecompute";
+
+// Authentication helper function (copied from routes.ts)
+async function getAuthenticatedUser(req: any) {
+  // Try Authorization header first (PWA-friendly)
+  const authHeader = req.headers.authorization;
+  let token = null;
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    token = authHeader.substring(7);
+  } else {
+    // Fallback to cookie
+    token = req.cookies?.auth_token;
+  }
+
+  if (!token) {
+    console.log("[Commissioner Auth] No token found in header or cookies");
+    return null;
+  }
+
+  try {
+    const authModule = await import("../auth.js");
+    const user = authModule.verifyJWT(token);
+
+    if (!user || typeof user === 'string') {
+      console.log("[Commissioner Auth] Invalid token or wrong format");
+      return null;
+    }
+
+    return user as any;
+  } catch (error) {
+    console.error("[Commissioner Auth] Token verification error:", error);
+    return null;
+  }
+}
+
+// Every correction has to say why - it is shown to the whole league
+const reasonSchema = z.string().trim().min(3, "A reason is required").max(500, "Reason too long");
+const weekSchema = z.number().int().min(1).max(18);
+
+const adjustPointsSchema = z.object({
+  userId: z.string(),
+  week: weekSchema,
+  points: z.number()
+    .refine(value => value !== 0, "Adjustment can't be zero")
+    .refine(value => Number.isInteger(value * 2), "Points must be in half-point steps"),
+  reason: reasonSchema,
+});
+
+const reassignTeamSchema = z.object({
+  nflTeamId: z.string(),
+  toUserId: z.string(),
+  reason: reasonSchema,
+});
+
+const voidLockSchema = z.object({
+  userId: z.string(),
+  week: weekSchema,
+  lockType: z.enum(['lock', 'lockAndLoad']),
+  reason: reasonSchema,
+});
+
+const recomputeSeasonSchema = z.object({
+  season: z.number().int().min(2000).max(2100).optional(),
+  dryRun: z.boolean().optional(),
+});
+
+/**
+ * Commissioner-only guard. Sends the error response and returns null when the caller
+ * is not signed in or doesn't run this league.
+ */
+async function requireCommissioner(req: any, res: any): Promise<any | null> {
+  const user = await getAuthenticatedUser(req);
+  if (!user) {
+    res.status(401).json({ message: "Not authenticated" });
+    return null;
+  }
+
+  const isCommissioner = await storage.isLeagueCommissioner(user.id, req.params.leagueId);
+  if (!isCommissioner) {
+    res.status(403).json({ message: "Only the commissioner can make corrections" });
+    return null;
+  }
+
+  return user;
+}
+
+export function registerCommissionerRoutes(app: Express) {
+  // Audit log of every commissioner correction - visible to all league members
+  app.get("/api/leagues/:leagueId/commissioner/actions", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const isInLeague = await storage.isUserInLeague(user.id, leagueId);
+      if (!isInLeague) {
+        return res.status(403).json({ message: "Access denied to this league" });
+      }
+
+      const tradeWindow = await tradeWindowService.getTradeWindowStatus();
+      const season = req.query.season ? parseInt(req.query.season as string) : tradeWindow.season;
+
+      const [actions, isCommissioner] = await Promise.all([
+        storage.getLeagueCommissionerActions(leagueId, season),
+        storage.isLeagueCommissioner(user.id, leagueId)
+      ]);
+
+      res.json({ season, week: tradeWindow.week, isCommissioner, actions });
+    } catch (error: any) {
+      console.error('Error getting commissioner actions:', error);
+      res.status(500).json({ message: "Failed to get commissioner actions", error: error.message });
+    }
+  });
+
+  // Add or take away points from a member's weekly total
+  app.post("/api/leagues/:leagueId/commissioner/adjust-points", async (req, res) => {
+    try {
+      const user = await requireCommissioner(req, res);
+      if (!user) return;
+
+      const { leagueId } = req.params;
+      const { userId, week, points, reason } = adjustPointsSchema.parse(req.body);
+
+      if (!(await storage.isUserInLeague(userId, leagueId))) {
+        return res.status(400).json({ message: "Member is not in this league" });
+      }
+
+      const { season } = await tradeWindowService.getTradeWindowStatus();
+      const action = await storage.adjustWeeklyPoints(leagueId, userId, season, week, points, user.id, reason);
+
+      console.log(`[Commissioner] ${user.id} adjusted ${userId} by ${points} in Week ${week} (league ${leagueId})`);
+      res.status(201).json({ message: "Points adjusted", action });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error adjusting points:', error);
+      res.status(500).json({ message: "Failed to adjust points", error: error.message });
+    }
+  });
+
+  // Move a team from one member's stable to another's, effective this week
+  app.post("/api/leagues/:leagueId/commissioner/reassign-team", async (req, res) => {
+    try {
+      const user = await requireCommissioner(req, res);
+      if (!user) return;
+
+      const { leagueId } = req.params;
+      const { nflTeamId, toUserId, reason } = reassignTeamSchema.parse(req.body);
+
+      if (!(await storage.isUserInLeague(toUserId, leagueId))) {
+        return res.status(400).json({ message: "Member is not in this league" });
+      }
+
+      const { season, week } = await tradeWindowService.getTradeWindowStatus();
+
+      try {
+        const action = await storage.reassignStableTeam(leagueId, nflTeamId, toUserId, season, week, user.id, reason);
+        console.log(`[Commissioner] ${user.id} reassigned ${nflTeamId} to ${toUserId} (league ${leagueId})`);
+        res.status(201).json({ message: "Team reassigned", action });
+      } catch (error: any) {
+        // Team isn't owned or already belongs to that member
+        return res.status(409).json({ message: error.message });
+      }
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error reassigning team:', error);
+      res.status(500).json({ message: "Failed to reassign team", error: error.message });
+    }
+  });
+
+  // Void a member's lock or Lock & Load for a week
+  app.post("/api/leagues/:leagueId/commissioner/void-lock", async (req, res) => {
+    try {
+      const user = await requireCommissioner(req, res);
+      if (!user) return;
+
+      const { leagueId } = req.params;
+      const { userId, week, lockType, reason } = voidLockSchema.parse(req.body);
+      const { season } = await tradeWindowService.getTradeWindowStatus();
+
+      try {
+        const action = await storage.voidWeeklyLock(leagueId, userId, season, week, lockType, user.id, reason);
+        console.log(`[Commissioner] ${user.id} voided ${lockType} for ${userId} in Week ${week} (league ${leagueId})`);
+        res.status(201).json({ message: "Lock voided", action });
+      } catch (error: any) {
+        // Nothing to void for that week
+        return res.status(409).json({ message: error.message });
+      }
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error voiding lock:', error);
+      res.status(500).json({ message: "Failed to void lock", error: error.message });
+    }
+  });
+
+  // Rebuild the league's weekly scores and skins from the game results - safe to run again after any correction
+  app.post("/api/leagues/:leagueId/commissioner/recompute-season", async (req, res) => {
+    try {
+      const user = await requireCommissioner(req, res);
+      if (!user) return;
+
+      const { leagueId } = req.params;
+      const body = recomputeSeasonSchema.parse(req.body ?? {});
+      const season = body.season ?? (await tradeWindowService.getTradeWindowStatus()).season;
+
+      const report = await recomputeSeason(leagueId, season, { dryRun: body.dryRun });
+      console.log(`[Commissioner] ${user.id} recomputed season ${season} for league ${leagueId}${report.dryRun ? ' (dry run)' : ''}`);
+      res.json(report);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error recomputing season:', error);
+      res.status(500).json({ message: "Failed to recompute season", error: error.message });
+    }
+  });
+}
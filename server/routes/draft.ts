@@ -3,7 +3,10 @@
  * 
  * Handles all draft-related API endpoints including:
  * - Creating and starting drafts
- * - Making picks
+ * - Making picks, or nominating and bidding in an auction draft
+ * - Commissioner pause, resume and undo-last-pick
+ * - Keepers carried over from last season's stables
+ * - Mock drafts against the robots, and tuning how the robots draft
  * - Getting draft state
  * - Real-time updates
  */
@@ -12,6 +15,18 @@ import { Router } from "express";
 import { z } from "zod";
 import { IStorage } from "../storage.js";
 import SnakeDraftManager from "../draft/snakeDraftManager.js";
+import { generateDraftOrder } from "../draft/draftOrder.js";
+import { MockDraftManager } from "../draft/mockDraftManager.js";
+import { getKeeperSeason } from "../draft/keepers.js";
+import { tradeWindowService } from "../utils/tradeWindow.js";
+import { AuctionDraftManager } from "../draft/auctionDraftManager.js";
+import { getRobotStrategyNames } from "../testing/robotStrategies.js";
+import { buildDraftRecap } from "../utils/draftRecap.js";
+import { isValidLeagueSize, getMaxTeamsPerDivision, NFL_TEAM_COUNT } from "@shared/utils/leagueSize";
+import { DRAFT_ORDER_METHODS, isCompleteDraftOrder } from "@shared/utils/draftOrder";
+import { maxKeeperLimit, keeperRoundCosts } from "@shared/utils/keepers";
+import { DRAFT_FORMATS, MIN_AUCTION_BID, isValidAuctionBudget } from "@shared/utils/auction";
+import { DRAFT_MODES, DEFAULT_LIVE_PICK_TIME, DEFAULT_SLOW_PICK_WINDOW_HOURS, isValidPickTimeLimit } from "@shared/utils/draftMode";
 
 const router = Router();
 
@@ -91,6 +106,14 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
   const { globalDraftManager } = await import("../draft/globalDraftManager.js");
   const draftManager = globalDraftManager;
 
+  // Mock drafts need the robots; sweep up finished and abandoned ones in the background
+  const mockDraftManager = robotManager ? new MockDraftManager(storage, draftManager, robotManager) : null;
+  mockDraftManager?.start();
+
+  // Auction drafts share the snake engine's start-up, then run their own nominations and bidding
+  const auctionDraftManager = new AuctionDraftManager(storage, draftManager, webSocketManager, robotManager);
+  draftManager.setAuctionManager(auctionDraftManager);
+
   // Create a new draft for a league
   app.post("/api/drafts", async (req: any, res: any) => {
     try {
@@ -101,10 +124,19 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
       const createDraftSchema = z.object({
         leagueId: z.string(),
         totalRounds: z.number().min(1).max(10).optional(),
-        pickTimeLimit: z.number().min(30).max(300).optional()
-      });
-
-      const { leagueId, totalRounds, pickTimeLimit } = createDraftSchema.parse(req.body);
+        draftMode: z.enum(DRAFT_MODES).optional(),
+        pickTimeLimit: z.number().int().optional(),
+        draftFormat: z.enum(DRAFT_FORMATS).optional(),
+        auctionBudget: z.number().int().refine(isValidAuctionBudget, { message: "Unsupported auction budget" }).optional()
+      }).refine(
+        ({ draftMode, pickTimeLimit }) => pickTimeLimit === undefined || isValidPickTimeLimit(draftMode ?? 'live', pickTimeLimit),
+        { message: "Pick time limit is out of range for this draft mode", path: ["pickTimeLimit"] }
+      ).refine(
+        ({ draftMode, draftFormat }) => draftFormat !== 'auction' || draftMode !== 'slow',
+        { message: "Auction drafts bid in real time and can't be slow drafts", path: ["draftFormat"] }
+      );
+
+      const { leagueId, totalRounds, draftMode, pickTimeLimit, draftFormat, auctionBudget } = createDraftSchema.parse(req.body);
 
       // Verify user is league creator
       const league = await storage.getLeague(leagueId);
@@ -116,9 +148,13 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
         return res.status(403).json({ message: "Only league creator can create draft" });
       }
 
-      // Check if draft already exists
+      if (draftFormat === 'auction' && league.keeperLimit > 0) {
+        return res.status(400).json({ message: "Keepers only work with snake drafts" });
+      }
+
+      // One draft per season - once this season's draft is complete the next one is for the season after
       const existingDraft = await storage.getLeagueDraft(leagueId);
-      if (existingDraft) {
+      if (existingDraft && existingDraft.status !== 'completed') {
         return res.status(400).json({ message: "Draft already exists for this league" });
       }
 
@@ -130,10 +166,22 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
       // Get league members for draft order
       const memberIds = league.members.map(m => m.id);
 
+      // Rounds default to the league's stable size; an override still has to fit in the NFL team pool
+      const rounds = totalRounds ?? league.teamsPerMember;
+      if (!isValidLeagueSize(memberIds.length, rounds)) {
+        return res.status(400).json({ message: `${memberIds.length} members can't each draft ${rounds} teams from ${NFL_TEAM_COUNT} NFL teams` });
+      }
+
       // Create draft with custom config if provided
-      const customConfig: any = {};
-      if (totalRounds) customConfig.totalRounds = totalRounds;
-      if (pickTimeLimit) customConfig.pickTimeLimit = pickTimeLimit;
+      const customConfig: any = { totalRounds: rounds };
+      if (draftMode) customConfig.draftMode = draftMode;
+      if (draftFormat) customConfig.draftFormat = draftFormat;
+      if (auctionBudget) customConfig.auctionBudget = auctionBudget;
+      if (pickTimeLimit) {
+        customConfig.pickTimeLimit = pickTimeLimit;
+      } else if (draftMode === 'slow') {
+        customConfig.pickTimeLimit = DEFAULT_SLOW_PICK_WINDOW_HOURS * 3600;
+      }
 
       const draftManagerWithConfig = new SnakeDraftManager(storage, customConfig);
       const draft = await draftManagerWithConfig.createDraft(leagueId, memberIds);
@@ -177,6 +225,7 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
       }
 
       // Reset draft to pre-draft state
+      auctionDraftManager.stopAuction(draftId);
       await storage.deleteDraft(draftId);
       await storage.updateLeague(league.id, { 
         draftStarted: false 
@@ -227,6 +276,139 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
     }
   });
 
+  // Robot drafting strategies for test and mock drafts
+  app.get("/api/robots", async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      if (!robotManager) {
+        return res.status(500).json({ message: "Robot manager not available" });
+      }
+
+      res.json({
+        strategies: getRobotStrategyNames(),
+        robots: robotManager.getRobots().map((robot: any) => ({
+          id: robot.id,
+          name: robot.name,
+          profile: robotManager.getRobotProfile(robot.id)
+        }))
+      });
+    } catch (error) {
+      console.error('Error fetching robots:', error);
+      res.status(500).json({ message: "Failed to fetch robots" });
+    }
+  });
+
+  // Tune how a robot drafts
+  app.put("/api/robots/:robotId/profile", async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      if (!robotManager) {
+        return res.status(500).json({ message: "Robot manager not available" });
+      }
+
+      const { robotId } = req.params;
+      if (!robotManager.isRobot(robotId)) {
+        return res.status(404).json({ message: "Robot not found" });
+      }
+
+      const profileSchema = z.object({
+        strategy: z.string().refine(name => getRobotStrategyNames().includes(name), { message: "Unknown robot strategy" }),
+        randomness: z.number().min(0).max(1)
+      });
+      const profile = profileSchema.parse(req.body);
+
+      robotManager.setRobotProfile(robotId, profile);
+      res.json({ id: robotId, profile });
+    } catch (error) {
+      console.error('Error updating robot profile:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update robot profile" });
+    }
+  });
+
+  // Start a mock draft against the robots - its league stays hidden and is cleaned up automatically
+  app.post("/api/mock-drafts", async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      if (!mockDraftManager) {
+        return res.status(500).json({ message: "Robot manager not available" });
+      }
+
+      const mockDraftSchema = z.object({
+        pickTimeLimit: z.number().int()
+          .refine(seconds => isValidPickTimeLimit('live', seconds), { message: "Pick time limit is out of range for a live draft" })
+          .default(DEFAULT_LIVE_PICK_TIME)
+      });
+      const { pickTimeLimit } = mockDraftSchema.parse(req.body ?? {});
+
+      const draft = await mockDraftManager.createMockDraft(user.id, pickTimeLimit);
+
+      res.status(201).json({
+        message: "Mock draft started",
+        draft,
+        draftOrder: draft.draftOrder
+      });
+    } catch (error) {
+      console.error('Error starting mock draft:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to start mock draft" });
+    }
+  });
+
+  // End a mock draft early and delete it
+  app.delete("/api/mock-drafts/:draftId", async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      if (!mockDraftManager) {
+        return res.status(500).json({ message: "Robot manager not available" });
+      }
+
+      const { draftId } = req.params;
+      const draft = await storage.getDraft(draftId);
+      const league = draft ? await storage.getLeague(draft.leagueId) : undefined;
+      if (!draft || !league?.isMock) {
+        return res.status(404).json({ message: "Mock draft not found" });
+      }
+
+      if (league.creatorId !== user.id) {
+        return res.status(403).json({ message: "Only the member who started a mock draft can end it" });
+      }
+
+      await mockDraftManager.deleteMockDraft(league.id, draft.id);
+
+      res.json({ message: "Mock draft ended" });
+    } catch (error) {
+      console.error('Error ending mock draft:', error);
+      res.status(500).json({ message: "Failed to end mock draft" });
+    }
+  });
+
   // Enhanced testing reset endpoint - Creates new draft after reset
   app.post("/api/testing/reset-draft", async (req: any, res: any) => {
     try {
@@ -264,6 +446,7 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
         const picksBefore = await storage.getDraftPicks(leagueDraft.id);
         console.log(`[VALIDATION] 🔍 BEFORE DELETE: Found ${picksBefore.length} picks to clear`);
         
+        auctionDraftManager.stopAuction(leagueDraft.id);
         await storage.deleteDraft(leagueDraft.id);
         console.log(`[VALIDATION] ✅ CONFIRMED: All database records for draft ${leagueDraft.id} cleared`);
         console.log(`[Draft Reset] Deleted old draft ${leagueDraft.id}`);
@@ -280,7 +463,7 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
       const memberIds = league.members.map(m => m.id);
       console.log(`[Draft Reset] Creating new draft with ${memberIds.length} members`);
 
-      const draftManagerWithConfig = new SnakeDraftManager(storage, {});
+      const draftManagerWithConfig = new SnakeDraftManager(storage, { totalRounds: league.teamsPerMember });
       const newDraft = await draftManagerWithConfig.createDraft(leagueId, memberIds);
       
       console.log(`[Draft Reset] ✅ NEW DRAFT CREATED: ${newDraft.id}`);
@@ -343,6 +526,7 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
       const leagueDraft = await storage.getLeagueDraft(leagueId);
       
       if (leagueDraft) {
+        auctionDraftManager.stopAuction(leagueDraft.id);
         await storage.deleteDraft(leagueDraft.id);
         console.log(`[Draft Reset] Deleted draft ${leagueDraft.id}`);
         
@@ -452,8 +636,8 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
         // Create new draft
         draft = await storage.createDraft({
           leagueId,
-          draftOrder: league.members.map(m => m.id),
-          totalRounds: 5,
+          ...(await generateDraftOrder(storage, league, league.members.map(m => m.id))),
+          totalRounds: league.teamsPerMember,
           pickTimeLimit: 120
         });
         console.log(`[Draft Start] Created new draft ${draft.id} for league ${leagueId}`);
@@ -655,6 +839,94 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
     }
   });
 
+  // Auction draft: budgets, whose nomination it is and the team up for bidding
+  app.get("/api/drafts/:draftId/auction",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const draft = await storage.getDraft(draftId);
+      if (!draft || draft.draftFormat !== 'auction') {
+        return res.status(404).json({ message: "Auction draft not found" });
+      }
+
+      const isMember = await storage.isUserInLeague(user.id, draft.leagueId);
+      if (!isMember) {
+        return res.status(403).json({ message: "Not authorized to view this draft" });
+      }
+
+      res.json(await auctionDraftManager.getAuctionState(draft));
+
+    } catch (error) {
+      console.error('Error getting auction state:', error);
+      res.status(500).json({ message: "Failed to get auction" });
+    }
+  });
+
+  // Put a team up for bidding - only the member whose turn it is to nominate
+  app.post("/api/drafts/:draftId/nominate",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const nominateSchema = z.object({
+        nflTeamId: z.string(),
+        openingBid: z.number().int().min(MIN_AUCTION_BID).default(MIN_AUCTION_BID)
+      });
+      const { nflTeamId, openingBid } = nominateSchema.parse(req.body);
+
+      const result = await auctionDraftManager.nominate(draftId, user.id, nflTeamId, openingBid);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error || "Failed to nominate team" });
+      }
+
+      res.json({ message: "Team nominated", auction: result.auction });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error nominating team:', error);
+      res.status(500).json({ message: "Failed to nominate team" });
+    }
+  });
+
+  // Bid on the team up for bidding - everyone in the room sees it over the websocket
+  app.post("/api/drafts/:draftId/bid",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const bidSchema = z.object({
+        amount: z.number().int().min(MIN_AUCTION_BID)
+      });
+      const { amount } = bidSchema.parse(req.body);
+
+      const result = await auctionDraftManager.placeBid(draftId, user.id, amount);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error || "Failed to place bid" });
+      }
+
+      res.json({ message: "Bid placed", auction: result.auction });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error placing bid:', error);
+      res.status(500).json({ message: "Failed to place bid" });
+    }
+  });
+
   // Get user's draft picks
   app.get("/api/drafts/:draftId/my-picks",  async (req: any, res: any) => {
     try {
@@ -683,6 +955,437 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
     }
   });
 
+  // Post-draft recap - pick board, division spreads, projected stable strength and a shareable summary
+  app.get("/api/drafts/:draftId/recap",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const draft = await storage.getDraft(draftId);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      const isMember = await storage.isUserInLeague(user.id, draft.leagueId);
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not in this league" });
+      }
+
+      if (draft.status !== 'completed') {
+        return res.status(400).json({ message: "The recap is available once the draft is complete" });
+      }
+
+      const recap = await buildDraftRecap(storage, draftId);
+      res.json(recap);
+
+    } catch (error) {
+      console.error('Error building draft recap:', error);
+      res.status(500).json({ message: "Failed to build draft recap" });
+    }
+  });
+
+  // Get the user's draft queue - only teams that are still on the board
+  app.get("/api/drafts/:draftId/queue",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const draft = await storage.getDraft(draftId);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      if (!draft.draftOrder.includes(user.id)) {
+        return res.status(403).json({ message: "You are not in this draft" });
+      }
+
+      const [queue, availableTeams] = await Promise.all([
+        storage.getDraftQueue(draftId, user.id),
+        storage.getAvailableNflTeams(draftId)
+      ]);
+      const availableIds = new Set(availableTeams.map(team => team.id));
+
+      res.json({
+        queue: queue.filter(entry => availableIds.has(entry.nflTeamId))
+      });
+
+    } catch (error) {
+      console.error('Error getting draft queue:', error);
+      res.status(500).json({ message: "Failed to get draft queue" });
+    }
+  });
+
+  // Replace the user's draft queue - auto-pick works down it when their clock runs out
+  app.put("/api/drafts/:draftId/queue",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const queueSchema = z.object({
+        nflTeamIds: z.array(z.string()).max(NFL_TEAM_COUNT)
+          .refine(ids => new Set(ids).size === ids.length, "A team can only be queued once")
+      });
+
+      const { nflTeamIds } = queueSchema.parse(req.body);
+
+      const draft = await storage.getDraft(draftId);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      if (!draft.draftOrder.includes(user.id)) {
+        return res.status(403).json({ message: "You are not in this draft" });
+      }
+
+      if (draft.status === 'completed') {
+        return res.status(400).json({ message: "Draft is already complete" });
+      }
+
+      const allTeams = await storage.getAllNflTeams();
+      const teamIds = new Set(allTeams.map(team => team.id));
+      if (nflTeamIds.some(id => !teamIds.has(id))) {
+        return res.status(400).json({ message: "Unknown NFL team in queue" });
+      }
+
+      await storage.setDraftQueue(draftId, user.id, nflTeamIds);
+      const queue = await storage.getDraftQueue(draftId, user.id);
+
+      res.json({
+        message: "Draft queue saved",
+        queue
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error saving draft queue:', error);
+      res.status(500).json({ message: "Failed to save draft queue" });
+    }
+  });
+
+  // Get the league's draft order method and, once a draft exists, the order it produced
+  app.get("/api/leagues/:leagueId/draft-order",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { leagueId } = req.params;
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const isMember = await storage.isUserInLeague(user.id, leagueId);
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not in this league" });
+      }
+
+      const [draft, isCommissioner] = await Promise.all([
+        storage.getLeagueDraft(leagueId),
+        storage.isLeagueCommissioner(user.id, leagueId)
+      ]);
+      const names = new Map(league.members.map(member => [member.id, member.name]));
+
+      res.json({
+        method: league.draftOrderMethod,
+        manualOrder: league.manualDraftOrder ?? [],
+        members: league.members.map(member => ({ id: member.id, name: member.name })),
+        isCommissioner,
+        editable: isCommissioner && (!draft || draft.status === 'not_started' || draft.status === 'completed'),
+        draft: draft ? {
+          id: draft.id,
+          status: draft.status,
+          orderMethod: draft.orderMethod,
+          orderSeed: draft.orderSeed,
+          orderSeason: draft.orderSeason,
+          order: draft.draftOrder.map(userId => ({ id: userId, name: names.get(userId) ?? "Unknown" }))
+        } : null
+      });
+
+    } catch (error) {
+      console.error('Error getting draft order:', error);
+      res.status(500).json({ message: "Failed to get draft order" });
+    }
+  });
+
+  // Choose how the draft order is generated (commissioner only) - a draft that hasn't
+  // started yet is re-ordered straight away so everyone sees the result before the draft
+  app.put("/api/leagues/:leagueId/draft-order",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { leagueId } = req.params;
+
+      const orderSchema = z.object({
+        method: z.enum(DRAFT_ORDER_METHODS),
+        manualOrder: z.array(z.string()).optional()
+      });
+
+      const { method, manualOrder } = orderSchema.parse(req.body);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const isCommissioner = await storage.isLeagueCommissioner(user.id, leagueId);
+      if (!isCommissioner) {
+        return res.status(403).json({ message: "Only the commissioner can set the draft order" });
+      }
+
+      const draft = await storage.getLeagueDraft(leagueId);
+      if (draft && draft.status !== 'not_started' && draft.status !== 'completed') {
+        return res.status(400).json({ message: "Draft order can't be changed once the draft has started" });
+      }
+
+      const memberIds = league.members.map(member => member.id);
+
+      if (method === 'manual' && !isCompleteDraftOrder(manualOrder ?? [], memberIds)) {
+        return res.status(400).json({ message: "Manual order must list every league member exactly once" });
+      }
+
+      if (method === 'reverse_standings' && !(await storage.getLastSeasonStandings(leagueId))) {
+        return res.status(400).json({ message: "This league has no previous season standings to reverse" });
+      }
+
+      const updates = {
+        draftOrderMethod: method,
+        manualDraftOrder: method === 'manual' ? manualOrder! : league.manualDraftOrder
+      };
+      await storage.updateLeague(leagueId, updates);
+
+      let draftOrder: string[] | null = null;
+      if (draft?.status === 'not_started') {
+        const order = await generateDraftOrder(storage, { ...league, ...updates }, memberIds);
+        await storage.updateDraftOrder(draft.id, order);
+        draftOrder = order.draftOrder;
+      }
+
+      console.log(`[Draft Order] League ${leagueId} draft order set to ${method} by ${user.name} (${user.id})`);
+
+      res.json({
+        message: "Draft order method saved",
+        method,
+        draftOrder
+      });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error saving draft order:', error);
+      res.status(500).json({ message: "Failed to save draft order" });
+    }
+  });
+
+  // Keeper phase: the league's limit, everyone's keepers and the teams this member could keep
+  app.get("/api/leagues/:leagueId/keepers",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { leagueId } = req.params;
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const isMember = await storage.isUserInLeague(user.id, leagueId);
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not in this league" });
+      }
+
+      const [draft, isCommissioner, stable, tradeWindow] = await Promise.all([
+        storage.getLeagueDraft(leagueId),
+        storage.isLeagueCommissioner(user.id, leagueId),
+        storage.getUserStable(user.id, leagueId),
+        tradeWindowService.getTradeWindowStatus()
+      ]);
+      const season = getKeeperSeason(draft, tradeWindow.season);
+      const keepers = season !== null ? await storage.getLeagueKeepers(leagueId, season) : [];
+
+      const toTeam = (team: { id: string; code: string; name: string; city: string; conference: string; division: string; logoUrl: string }) => ({
+        id: team.id,
+        code: team.code,
+        name: team.name,
+        city: team.city,
+        conference: team.conference,
+        division: team.division,
+        logoUrl: team.logoUrl
+      });
+
+      res.json({
+        keeperLimit: league.keeperLimit,
+        maxKeeperLimit: maxKeeperLimit(league.teamsPerMember),
+        season,
+        isCommissioner,
+        editable: season !== null,
+        stable: stable.map(entry => toTeam(entry.nflTeam)),
+        myKeepers: keepers.filter(keeper => keeper.userId === user.id).map(keeper => keeper.nflTeamId),
+        members: league.members.map(member => ({
+          id: member.id,
+          name: member.name,
+          keepers: keepers
+            .filter(keeper => keeper.userId === member.id)
+            .map(keeper => ({ ...toTeam(keeper.nflTeam), roundCost: keeper.roundCost }))
+        }))
+      });
+
+    } catch (error) {
+      console.error('Error getting keepers:', error);
+      res.status(500).json({ message: "Failed to get keepers" });
+    }
+  });
+
+  // Set how many teams each member may keep (commissioner only) - 0 turns keepers off
+  app.put("/api/leagues/:leagueId/keepers/limit",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { leagueId } = req.params;
+
+      const limitSchema = z.object({
+        keeperLimit: z.number().int().min(0)
+      });
+      const { keeperLimit } = limitSchema.parse(req.body);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const isCommissioner = await storage.isLeagueCommissioner(user.id, leagueId);
+      if (!isCommissioner) {
+        return res.status(403).json({ message: "Only the commissioner can set the keeper limit" });
+      }
+
+      if (keeperLimit > maxKeeperLimit(league.teamsPerMember)) {
+        return res.status(400).json({ message: `Members can keep at most ${maxKeeperLimit(league.teamsPerMember)} of their ${league.teamsPerMember} teams` });
+      }
+
+      const { season: currentSeason } = await tradeWindowService.getTradeWindowStatus();
+      const season = getKeeperSeason(await storage.getLeagueDraft(leagueId), currentSeason);
+      if (season === null) {
+        return res.status(400).json({ message: "Keepers are locked once the draft starts" });
+      }
+
+      const keepers = await storage.getLeagueKeepers(leagueId, season);
+      const overLimit = league.members.filter(member =>
+        keepers.filter(keeper => keeper.userId === member.id).length > keeperLimit
+      );
+      if (overLimit.length > 0) {
+        return res.status(400).json({ message: `${overLimit.map(member => member.name).join(', ')} already kept more teams than that` });
+      }
+
+      await storage.updateLeague(leagueId, { keeperLimit });
+      console.log(`[Keepers] League ${leagueId} keeper limit set to ${keeperLimit} by ${user.name} (${user.id})`);
+
+      res.json({ message: "Keeper limit saved", keeperLimit });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error saving keeper limit:', error);
+      res.status(500).json({ message: "Failed to save keeper limit" });
+    }
+  });
+
+  // Designate this member's keepers, in priority order - the first costs their last-round pick
+  app.put("/api/leagues/:leagueId/keepers",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { leagueId } = req.params;
+
+      const keepersSchema = z.object({
+        nflTeamIds: z.array(z.string()).refine(ids => new Set(ids).size === ids.length, { message: "A team can only be kept once" })
+      });
+      const { nflTeamIds } = keepersSchema.parse(req.body);
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const isMember = await storage.isUserInLeague(user.id, leagueId);
+      if (!isMember) {
+        return res.status(403).json({ message: "You are not in this league" });
+      }
+
+      if (league.keeperLimit === 0) {
+        return res.status(400).json({ message: "This league doesn't use keepers" });
+      }
+
+      if (nflTeamIds.length > league.keeperLimit) {
+        return res.status(400).json({ message: `You can keep at most ${league.keeperLimit} ${league.keeperLimit === 1 ? 'team' : 'teams'}` });
+      }
+
+      const { season: currentSeason } = await tradeWindowService.getTradeWindowStatus();
+      const season = getKeeperSeason(await storage.getLeagueDraft(leagueId), currentSeason);
+      if (season === null) {
+        return res.status(400).json({ message: "Keepers are locked once the draft starts" });
+      }
+
+      const stable = await storage.getUserStable(user.id, leagueId);
+      const keptTeams = nflTeamIds.map(id => stable.find(entry => entry.nflTeamId === id)?.nflTeam);
+      if (keptTeams.some(team => !team)) {
+        return res.status(400).json({ message: "You can only keep teams from your own stable" });
+      }
+
+      // Keepers count toward the division rule like any other pick
+      const divisionLimit = getMaxTeamsPerDivision(league.teamsPerMember);
+      const divisionCounts = new Map<string, number>();
+      for (const team of keptTeams) {
+        const division = `${team!.conference} ${team!.division}`;
+        divisionCounts.set(division, (divisionCounts.get(division) || 0) + 1);
+      }
+      const crowded = Array.from(divisionCounts.entries()).find(([, count]) => count > divisionLimit);
+      if (crowded) {
+        return res.status(400).json({ message: `Keepers can't include more than ${divisionLimit} from the ${crowded[0]}` });
+      }
+
+      const roundCosts = keeperRoundCosts(nflTeamIds.length, league.teamsPerMember);
+      const keepers = await storage.setUserKeepers(
+        leagueId,
+        user.id,
+        season,
+        nflTeamIds.map((nflTeamId, index) => ({ nflTeamId, roundCost: roundCosts[index] }))
+      );
+
+      console.log(`[Keepers] ${user.name} (${user.id}) kept ${keptTeams.map(team => team!.code).join(', ') || 'no teams'} in league ${leagueId}`);
+
+      res.json({ message: "Keepers saved", season, keepers });
+
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error saving keepers:', error);
+      res.status(500).json({ message: "Failed to save keepers" });
+    }
+  });
+
   // Get all NFL teams grouped by conference
   app.get("/api/nfl-teams",  async (req: any, res: any) => {
     try {
@@ -746,6 +1449,118 @@ export default async function setupDraftRoutes(app: any, storage: IStorage, webS
     }
   });
 
+  // Pause a live draft - freezes the pick clock (commissioner only)
+  app.post("/api/drafts/:draftId/pause",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const draft = await storage.getDraft(draftId);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      const isCommissioner = await storage.isLeagueCommissioner(user.id, draft.leagueId);
+      if (!isCommissioner) {
+        return res.status(403).json({ message: "Only the commissioner can pause the draft" });
+      }
+
+      const result = await draftManager.pauseDraft(draftId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error || "Failed to pause draft" });
+      }
+
+      console.log(`[Draft Control] Draft paused in draft ${draftId} by ${user.name} (${user.id})`);
+
+      res.json({
+        message: "Draft paused",
+        newState: result.newState
+      });
+
+    } catch (error) {
+      console.error('Error in draft pause:', error);
+      res.status(500).json({ message: "Failed to pause draft" });
+    }
+  });
+
+  // Resume a paused draft with the remaining time intact (commissioner only)
+  app.post("/api/drafts/:draftId/resume",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const draft = await storage.getDraft(draftId);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      const isCommissioner = await storage.isLeagueCommissioner(user.id, draft.leagueId);
+      if (!isCommissioner) {
+        return res.status(403).json({ message: "Only the commissioner can resume the draft" });
+      }
+
+      const result = await draftManager.resumeDraft(draftId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error || "Failed to resume draft" });
+      }
+
+      console.log(`[Draft Control] Draft resumed in draft ${draftId} by ${user.name} (${user.id})`);
+
+      res.json({
+        message: "Draft resumed",
+        newState: result.newState
+      });
+
+    } catch (error) {
+      console.error('Error in draft resume:', error);
+      res.status(500).json({ message: "Failed to resume draft" });
+    }
+  });
+
+  // Undo the most recent pick - the team goes back on the board (commissioner only)
+  app.post("/api/drafts/:draftId/undo-pick",  async (req: any, res: any) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+      const { draftId } = req.params;
+
+      const draft = await storage.getDraft(draftId);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      const isCommissioner = await storage.isLeagueCommissioner(user.id, draft.leagueId);
+      if (!isCommissioner) {
+        return res.status(403).json({ message: "Only the commissioner can undo picks" });
+      }
+
+      const result = await draftManager.undoLastPick(draftId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error || "Failed to undo pick" });
+      }
+
+      console.log(`[Draft Control] Last pick undone in draft ${draftId} by ${user.name} (${user.id})`);
+
+      res.json({
+        message: "Last pick undone",
+        pick: result.pick,
+        newState: result.newState
+      });
+
+    } catch (error) {
+      console.error('Error in draft undo-pick:', error);
+      res.status(500).json({ message: "Failed to undo pick" });
+    }
+  });
+
   // Simulate bot pick (for testing)
   app.post("/api/drafts/:draftId/simulate-bot",  async (req: any, res: any) => {
     try {
@@ -7,8 +7,9 @@ import { eq, and, sql, asc, desc } from "drizzle-orm";
 import { nflGames, nflTeams, weeklyLocks, userWeeklyScores, draftPicks, drafts, leagues, users, weeklySkins } from "@shared/schema";
 import {
   calculateWeeklyScores,
-  MOK_SCORING_RULES
+  getLeagueScoringRules
 } from "../utils/mokScoring.js";
+import { MOK_SCORING_RULES, scoreTeamGame } from "@shared/utils/scoring";
 import { authenticateJWT } from "../auth.js";
 
 // Create middleware for authentication with development fallback
@@ -68,47 +69,6 @@ const authorizeLeagueMember = async (req: any, res: any, next: any) => {
 
 const router = express.Router();
 
-// Helper function to calculate Mok points for a single team in a game
-function calculateGameMokPoints(teamScore: number, opponentScore: number, isHome: boolean, isLocked: boolean, isLockAndLoad: boolean): number {
-  if (teamScore === null || opponentScore === null) return 0;
-  
-  let points = 0;
-  
-  // Base points for win/tie
-  if (teamScore > opponentScore) {
-    points += 1; // Win = +1 point
-    
-    // Blowout bonus: +1 for winning by 20+ points
-    if (teamScore - opponentScore >= 20) {
-      points += 1;
-    }
-  } else if (teamScore === opponentScore) {
-    points += 0.5; // Tie = +0.5 points
-  }
-  // Loss = 0 base points
-  
-  // Shutout bonus: +1 if opponent scored 0
-  if (opponentScore === 0) {
-    points += 1;
-  }
-  
-  // Lock bonus: +1 additional point if this team was locked AND won
-  if (isLocked && !isLockAndLoad && teamScore > opponentScore) {
-    points += 1;
-  }
-  
-  // Lock & Load: +2 for win, -1 for loss
-  if (isLockAndLoad) {
-    if (teamScore > opponentScore) {
-      points += 2; // +2 for Lock & Load win
-    } else if (teamScore < opponentScore) {
-      points -= 1; // -1 for Lock & Load loss
-    }
-  }
-  
-  return points;
-}
-
 // Current week endpoint
 router.get("/current-week", async (req, res) => {
   try {
@@ -140,7 +100,7 @@ router.get("/leagues/:leagueId/member-stats/:season/:week", async (req, res) =>
 
     // Get user's total points for the season
     const [userSeasonScore] = await db.select({
-      totalPoints: sql<number>`COALESCE(SUM(${userWeeklyScores.totalPoints}), 0)`
+      totalPoints: sql<number>`COALESCE(SUM(${userWeeklyScores.totalPoints}), 0)`.mapWith(Number)
     })
     .from(userWeeklyScores)
     .where(
@@ -168,7 +128,7 @@ router.get("/leagues/:leagueId/member-stats/:season/:week", async (req, res) =>
     // Get user's rank in the league
     const leagueRankings = await db.select({
       userId: userWeeklyScores.userId,
-      totalPoints: sql<number>`COALESCE(SUM(${userWeeklyScores.totalPoints}), 0)`
+      totalPoints: sql<number>`COALESCE(SUM(${userWeeklyScores.totalPoints}), 0)`.mapWith(Number)
     })
     .from(userWeeklyScores)
     .where(
@@ -185,7 +145,7 @@ router.get("/leagues/:leagueId/member-stats/:season/:week", async (req, res) =>
     // Calculate skins won (number of weeks where user had highest score)
     const weeksWithHighestScore = await db.select({
       week: userWeeklyScores.week,
-      maxPoints: sql<number>`MAX(${userWeeklyScores.totalPoints})`
+      maxPoints: sql<number>`MAX(${userWeeklyScores.totalPoints})`.mapWith(Number)
     })
     .from(userWeeklyScores)
     .where(
@@ -300,11 +260,15 @@ router.get("/week/:week", async (req, res) => {
       awayOwner: r.away_owner_name
     })));
     
+    // Points follow this league's scoring rules
+    const rules = await getLeagueScoringRules(leagueId as string);
+
     const games = gamesResult.rows.map((row: any) => {
       const isCompleted = Boolean(row.is_completed);
       // For production: only show scores for completed games
       // For 2024 testing: show all scores for validation
       const shouldShowScores = isCompleted || season === 2024; // Show all 2024 scores for testing
+      const hasScores = row.home_score !== null && row.away_score !== null;
       
       return {
         id: row.game_id,
@@ -326,8 +290,8 @@ router.get("/week/:week", async (req, res) => {
         homeLockAndLoad: row.home_lock_and_load,
         awayLockAndLoad: row.away_lock_and_load,
         // Calculate actual Mok points for each team - only for completed games
-        homeMokPoints: shouldShowScores && row.home_owner_name ? calculateGameMokPoints(row.home_score, row.away_score, true, row.home_locked, row.home_lock_and_load) : 0,
-        awayMokPoints: shouldShowScores && row.away_owner_name ? calculateGameMokPoints(row.away_score, row.home_score, false, row.away_locked, row.away_lock_and_load) : 0
+        homeMokPoints: shouldShowScores && row.home_owner_name && hasScores ? scoreTeamGame(row.home_score, row.away_score, row.home_locked, row.home_lock_and_load, rules).totalPoints : 0,
+        awayMokPoints: shouldShowScores && row.away_owner_name && hasScores ? scoreTeamGame(row.away_score, row.home_score, row.away_locked, row.away_lock_and_load, rules).totalPoints : 0
       };
     });
 
@@ -844,18 +808,253 @@ async function getAuthenticatedUser(req: any) {
   }
 }
 
+export interface SeasonStanding {
+  userId: string;
+  userName: string;
+  totalMokPoints: number;
+  locksCorrect: number;
+  lockSuccessRate: number;
+  lockAndLoadSuccessRate: number;
+  skinsWon: number;
+  rank: number;
+}
+
+/**
+ * Season standings for a league, ranked by total Mok points (rank 1 = leader).
+ * Also drives waiver priority, which runs in reverse standings order - ties go to whoever joined
+ * the league first, so the order comes out the same on every run.
+ */
+export async function calculateSeasonStandings(leagueId: string, season: number): Promise<SeasonStanding[]> {
+  const members = await storage.getLeagueMembers(leagueId);
+
+  const [scoreRows, lockRows, skinRows, completedGames] = await Promise.all([
+    db.select({
+      userId: userWeeklyScores.userId,
+      totalPoints: sql<number>`COALESCE(SUM(${userWeeklyScores.totalPoints}), 0)`.mapWith(Number)
+    })
+      .from(userWeeklyScores)
+      .where(and(eq(userWeeklyScores.leagueId, leagueId), eq(userWeeklyScores.season, season)))
+      .groupBy(userWeeklyScores.userId),
+    db.select()
+      .from(weeklyLocks)
+      .where(and(eq(weeklyLocks.leagueId, leagueId), eq(weeklyLocks.season, season))),
+    db.select({ winnerId: weeklySkins.winnerId, prizeAmount: weeklySkins.prizeAmount })
+      .from(weeklySkins)
+      .where(and(eq(weeklySkins.leagueId, leagueId), eq(weeklySkins.season, season))),
+    db.select({ week: nflGames.week, homeTeamId: nflGames.homeTeamId, awayTeamId: nflGames.awayTeamId, winnerTeamId: nflGames.winnerTeamId })
+      .from(nflGames)
+      .where(and(eq(nflGames.season, season), eq(nflGames.isCompleted, true)))
+  ]);
+
+  const pointsById = new Map(scoreRows.map(row => [row.userId, row.totalPoints]));
+
+  // Each finished game's result per team, so a lock only counts once its game is decided
+  const teamResults = new Map<string, boolean>();
+  for (const game of completedGames) {
+    teamResults.set(`${game.week}:${game.homeTeamId}`, game.winnerTeamId === game.homeTeamId);
+    teamResults.set(`${game.week}:${game.awayTeamId}`, game.winnerTeamId === game.awayTeamId);
+  }
+
+  const lockRecords = new Map<string, { locks: number; locksWon: number; lockAndLoads: number; lockAndLoadsWon: number }>();
+  for (const lock of lockRows) {
+    const record = lockRecords.get(lock.userId) ?? { locks: 0, locksWon: 0, lockAndLoads: 0, lockAndLoadsWon: 0 };
+    const lockWon = lock.lockedTeamId ? teamResults.get(`${lock.week}:${lock.lockedTeamId}`) : undefined;
+    const lockAndLoadWon = lock.lockAndLoadTeamId ? teamResults.get(`${lock.week}:${lock.lockAndLoadTeamId}`) : undefined;
+    if (lockWon !== undefined) {
+      record.locks++;
+      if (lockWon) record.locksWon++;
+    }
+    if (lockAndLoadWon !== undefined) {
+      record.lockAndLoads++;
+      if (lockAndLoadWon) record.lockAndLoadsWon++;
+    }
+    lockRecords.set(lock.userId, record);
+  }
+
+  // A skin that rolled over pays out several skins to the week's winner
+  const skinsById = new Map<string, number>();
+  for (const skin of skinRows) {
+    if (!skin.winnerId) continue;
+    skinsById.set(skin.winnerId, (skinsById.get(skin.winnerId) || 0) + skin.prizeAmount);
+  }
+
+  const joinedAt = new Map(members.map(member => [member.userId, new Date(member.joinedAt).getTime()]));
+  const seasonStandings: SeasonStanding[] = [];
+
+  for (const member of members) {
+    const memberUser = await storage.getUser(member.userId);
+    if (!memberUser) continue;
+
+    const record = lockRecords.get(member.userId);
+    seasonStandings.push({
+      userId: member.userId,
+      userName: memberUser.name,
+      totalMokPoints: pointsById.get(member.userId) || 0,
+      locksCorrect: record?.locksWon || 0,
+      lockSuccessRate: record?.locks ? record.locksWon / record.locks : 0,
+      lockAndLoadSuccessRate: record?.lockAndLoads ? record.lockAndLoadsWon / record.lockAndLoads : 0,
+      skinsWon: skinsById.get(member.userId) || 0,
+      rank: 0 // Will be set after sorting
+    });
+  }
+
+  // Sort by total points, earliest to join first on a tie, and assign ranks
+  seasonStandings.sort((a, b) =>
+    b.totalMokPoints - a.totalMokPoints
+    || (joinedAt.get(a.userId) || 0) - (joinedAt.get(b.userId) || 0)
+    || a.userId.localeCompare(b.userId)
+  );
+  seasonStandings.forEach((standing, index) => {
+    standing.rank = index + 1;
+  });
+
+  return seasonStandings;
+}
+
+// Check a lock against the league's per-team season limits (the current week doesn't count against itself)
+export async function validateLockUsage(
+  userId: string,
+  leagueId: string,
+  nflTeamId: string,
+  lockType: 'lock' | 'lockAndLoad',
+  season: number,
+  week: number
+): Promise<{ valid: boolean; reason?: string }> {
+  const rules = await getLeagueScoringRules(leagueId);
+  const usage = await storage.getTeamLockUsage(userId, leagueId, nflTeamId, season, week);
+
+  if (lockType === 'lock' && usage.locks >= rules.maxLocksPerTeamPerSeason) {
+    return { valid: false, reason: `You've already locked this team ${rules.maxLocksPerTeamPerSeason} times this season` };
+  }
+  if (lockType === 'lockAndLoad' && usage.lockAndLoads >= rules.maxLockAndLoadPerTeamPerSeason) {
+    return { valid: false, reason: `You've already used Lock & Load on this team ${rules.maxLockAndLoadPerTeamPerSeason === 1 ? 'this season' : `${rules.maxLockAndLoadPerTeamPerSeason} times this season`}` };
+  }
+  return { valid: true };
+}
+
+const scoringRulesSchema = z.object({
+  winPoints: z.number().min(-10).max(10),
+  tiePoints: z.number().min(-10).max(10),
+  lossPoints: z.number().min(-10).max(10),
+  blowoutPoints: z.number().min(-10).max(10),
+  blowoutMargin: z.number().int().min(1).max(60),
+  shutoutPoints: z.number().min(-10).max(10),
+  weeklyHighPoints: z.number().min(-10).max(10),
+  weeklyLowPenalty: z.number().min(-10).max(10),
+  lockBonusPoints: z.number().min(-10).max(10),
+  lockAndLoadWinPoints: z.number().min(-10).max(10),
+  lockAndLoadLossPenalty: z.number().min(-10).max(10),
+  maxLocksPerTeamPerSeason: z.number().int().min(0).max(18),
+  maxLockAndLoadPerTeamPerSeason: z.number().int().min(0).max(18),
+}).refine(
+  rules => Object.entries(rules).every(([key, value]) => key.startsWith('max') || key === 'blowoutMargin' || Number.isInteger(value * 2)),
+  { message: "Point values must be whole or half points" }
+);
+
+// Scoring rules freeze once week 1 kicks off on the league clock (the simulated admin date in the 2024 test season)
+async function getScoringRulesLock(): Promise<{ season: number; seasonStarted: boolean }> {
+  const { tradeWindowService } = await import("../utils/tradeWindow.js");
+  const { season, now } = await tradeWindowService.getTradeWindowStatus();
+
+  const [firstGame] = await db.select({ gameDate: nflGames.gameDate })
+    .from(nflGames)
+    .where(eq(nflGames.season, season))
+    .orderBy(asc(nflGames.gameDate))
+    .limit(1);
+
+  return { season, seasonStarted: !!firstGame && new Date(firstGame.gameDate) <= now };
+}
+
 export function setupScoringRoutes(app: express.Express) {
   
-  // Get current scoring rules
+  // Get current scoring rules - the league's own rules when a leagueId is given
   app.get("/api/scoring/rules", async (req, res) => {
     try {
-      res.json(MOK_SCORING_RULES);
+      const leagueId = req.query.leagueId as string | undefined;
+      res.json(leagueId ? await getLeagueScoringRules(leagueId) : MOK_SCORING_RULES);
     } catch (error) {
       console.error('Error getting scoring rules:', error);
       res.status(500).json({ message: "Failed to get scoring rules" });
     }
   });
 
+  // Get a league's scoring rules and whether the current user can still edit them
+  app.get("/api/leagues/:leagueId/scoring-rules", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const isMember = await storage.isUserInLeague(user.id, leagueId);
+      if (!isMember) {
+        return res.status(403).json({ message: "Not authorized to view this league" });
+      }
+
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      const { seasonStarted } = await getScoringRulesLock();
+
+      const isCommissioner = await storage.isLeagueCommissioner(user.id, leagueId);
+
+      res.json({
+        rules: await getLeagueScoringRules(leagueId),
+        defaults: MOK_SCORING_RULES,
+        isCommissioner,
+        editable: isCommissioner && !seasonStarted,
+        seasonStarted
+      });
+    } catch (error) {
+      console.error('Error getting league scoring rules:', error);
+      res.status(500).json({ message: "Failed to get league scoring rules" });
+    }
+  });
+
+  // Update a league's scoring rules - commissioner only, before the season kicks off
+  app.put("/api/leagues/:leagueId/scoring-rules", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const league = await storage.getLeague(leagueId);
+      if (!league) {
+        return res.status(404).json({ message: "League not found" });
+      }
+
+      if (!(await storage.isLeagueCommissioner(user.id, leagueId))) {
+        return res.status(403).json({ message: "Only the commissioner can change scoring rules" });
+      }
+
+      // Always the league clock's season - never one the client asks for
+      const { season, seasonStarted } = await getScoringRulesLock();
+      if (seasonStarted) {
+        return res.status(409).json({ message: `Scoring rules are locked once the ${season} season has started` });
+      }
+
+      const rules = scoringRulesSchema.parse(req.body);
+      await storage.saveLeagueScoringRules(leagueId, rules, user.id);
+
+      console.log(`[Scoring] Commissioner ${user.id} updated scoring rules for league ${leagueId}`);
+      res.json({ message: "Scoring rules updated", rules: await getLeagueScoringRules(leagueId) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: error.errors 
+        });
+      }
+      console.error('Error updating league scoring rules:', error);
+      res.status(500).json({ message: "Failed to update league scoring rules" });
+    }
+  });
+
   // Get weekly scores for a league
   app.get("/api/leagues/:leagueId/scores/:season/:week", async (req, res) => {
     try {
@@ -1120,50 +1319,11 @@ router.get("/skins/:leagueId/:season", authenticateUser, authorizeLeagueMember,
       // Get current week (simplified for now)
       const currentWeekNumber = 1;
 
-      // Use the same working logic from dashboard route (lines 956-1000 in routes.ts)
-      const members = await storage.getLeagueMembers(leagueId);
-      const seasonStandings = [];
-      
-      for (const member of members) {
-        const memberUser = await storage.getUser(member.userId);
-        if (!memberUser) continue;
-        
-        // Get member's weekly scores (using 2024 season like dashboard)
-        const userScores = await db.select()
-          .from(userWeeklyScores)
-          .where(and(
-            eq(userWeeklyScores.userId, member.userId),
-            eq(userWeeklyScores.leagueId, leagueId),
-            eq(userWeeklyScores.season, 2024) // Use 2024 season where data exists
-          ));
-        
-        // Calculate totals
-        const totalMokPoints = userScores.reduce((sum, score) => sum + score.totalPoints, 0);
-        const locksCorrect = userScores.reduce((sum, score) => sum + (score.lockBonusPoints > 0 ? 1 : 0), 0);
-        
-        // Calculate skins won (simplified - count weeks with highest score)
-        const skinsWon = 0; // TODO: Calculate actual skins won
-        
-        seasonStandings.push({
-          userId: member.userId,
-          userName: memberUser.name,
-          totalMokPoints,
-          locksCorrect,
-          lockSuccessRate: 0.75, // Placeholder
-          lockAndLoadSuccessRate: 0.5, // Placeholder  
-          skinsWon,
-          rank: 0, // Will be set after sorting
-          isCurrentUser: member.userId === user.id
-        });
-      }
-      
-      // Sort by total points and assign ranks
-      seasonStandings.sort((a, b) => b.totalMokPoints - a.totalMokPoints);
-      seasonStandings.forEach((standing, index) => {
-        standing.rank = index + 1;
-      });
-
-      const standings = seasonStandings;
+      // Use 2024 season where data exists (same as dashboard)
+      const standings = (await calculateSeasonStandings(leagueId, 2024)).map(standing => ({
+        ...standing,
+        isCurrentUser: standing.userId === user.id
+      }));
       
       res.json({
         standings,
@@ -1181,6 +1341,36 @@ router.get("/skins/:leagueId/:season", authenticateUser, authorizeLeagueMember,
     }
   });
 
+  // Season payout ledger - winnings per member and who owes whom
+  app.get("/api/leagues/:leagueId/payouts", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const isMember = await storage.isUserInLeague(user.id, leagueId);
+      if (!isMember) {
+        return res.status(403).json({ message: "Not authorized to view this league" });
+      }
+
+      const { tradeWindowService } = await import("../utils/tradeWindow.js");
+      const season = parseInt(req.query.season as string) || (await tradeWindowService.getTradeWindowStatus()).season;
+
+      const { calculateLeaguePayouts } = await import("../utils/payouts.js");
+      const payouts = await calculateLeaguePayouts(leagueId, season);
+
+      res.json({
+        ...payouts,
+        members: payouts.members.map(member => ({ ...member, isCurrentUser: member.userId === user.id }))
+      });
+    } catch (error: any) {
+      console.error('Error getting league payouts:', error);
+      res.status(500).json({ message: "Failed to get league payouts", error: error.message });
+    }
+  });
+
   // Get player roster for a league
   app.get("/api/leagues/:leagueId/roster/:userId", async (req, res) => {
     try {
@@ -1285,11 +1475,10 @@ router.get("/skins/:leagueId/:season", authenticateUser, authorizeLeagueMember,
           }
         }
         
-        // TODO: Additional validation for lock usage limits
-        // const validation = await validateLockUsage(user.id, leagueId, lockedTeamId, 'lock');
-        // if (!validation.valid) {
-        //   return res.status(400).json({ message: validation.reason });
-        // }
+        const validation = await validateLockUsage(user.id, leagueId, lockedTeamId, 'lock', season, week);
+        if (!validation.valid) {
+          return res.status(400).json({ message: validation.reason });
+        }
       }
 
       if (lockAndLoadTeamId) {
@@ -1302,11 +1491,10 @@ router.get("/skins/:leagueId/:season", authenticateUser, authorizeLeagueMember,
           }
         }
         
-        // TODO: Additional validation for lock & load usage limits
-        // const validation = await validateLockUsage(user.id, leagueId, lockAndLoadTeamId, 'lockAndLoad');
-        // if (!validation.valid) {
-        //   return res.status(400).json({ message: validation.reason });
-        // }
+        const validation = await validateLockUsage(user.id, leagueId, lockAndLoadTeamId, 'lockAndLoad', season, week);
+        if (!validation.valid) {
+          return res.status(400).json({ message: validation.reason });
+        }
       }
 
       // Set weekly locks in database
@@ -1368,12 +1556,15 @@ router.get("/skins/:leagueId/:season", authenticateUser, authorizeLeagueMember,
       // const lockHistory = await storage.getUserLockHistory(user.id, leagueId, season);
       const lockHistory: any[] = [];
 
+      const rules = await getLeagueScoringRules(leagueId);
+      const stableTeams = await storage.getUserStable(user.id, leagueId);
+
       res.json({ 
         lockHistory, 
         season,
         usage: {
-          totalLocksAvailable: MOK_SCORING_RULES.maxLocksPerTeamPerSeason * 5, // 5 teams * 4 locks each
-          totalLockAndLoadAvailable: MOK_SCORING_RULES.maxLockAndLoadPerTeamPerSeason * 5 // 5 teams * 1 L&L each
+          totalLocksAvailable: rules.maxLocksPerTeamPerSeason * stableTeams.length,
+          totalLockAndLoadAvailable: rules.maxLockAndLoadPerTeamPerSeason * stableTeams.length
         }
       });
     } catch (error) {
@@ -1434,7 +1625,14 @@ router.get("/skins/:leagueId/:season", authenticateUser, authorizeLeagueMember,
         }
       }
 
-      // TODO: Check usage limits (locks per team per season, etc.)
+      // Check usage limits (locks per team per season, etc.)
+      const usageValidation = await validateLockUsage(user.id, leagueId, nflTeamId, lockType, season, week);
+      if (!usageValidation.valid) {
+        return res.json({
+          valid: false,
+          reason: usageValidation.reason
+        });
+      }
       
       res.json({ 
         valid: true,
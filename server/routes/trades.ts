@@ -0,0 +1,534 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { tradeWindowService, MAX_ROSTER_MOVES_PER_WEEK } from "../utils/tradeWindow";
+import { waiverProcessor } from "../utils/waiverProcessor";
+import type { TradeProposal } from "@shared/schema";
+import { MAX_TEAMS_PER_MEMBER } from "@shared/utils/leagueSize";
+
+// Authentication helper function (copied from routes.ts)
+async function getAuthenticatedUser(req: any) {
+  // Try Authorization header first (PWA-friendly)
+  const authHeader = req.headers.authorization;
+  let token = null;
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    token = authHeader.substring(7);
+  } else {
+    // Fallback to cookie
+    token = req.cookies?.auth_token;
+  }
+
+  if (!token) {
+    console.log("[Trades Auth] No token found in header or cookies");
+    return null;
+  }
+
+  try {
+    const authModule = await import("../auth.js");
+    const user = authModule.verifyJWT(token);
+
+    if (!user || typeof user === 'string') {
+      console.log("[Trades Auth] Invalid token or wrong format");
+      return null;
+    }
+
+    return user as any;
+  } catch (error) {
+    console.error("[Trades Auth] Token verification error:", error);
+    return null;
+  }
+}
+
+const tradeTeamsSchema = z.object({
+  offeredTeamIds: z.array(z.string()).min(1).max(MAX_TEAMS_PER_MEMBER),
+  requestedTeamIds: z.array(z.string()).min(1).max(MAX_TEAMS_PER_MEMBER),
+  message: z.string().max(280).optional(),
+});
+
+const proposeTradeSchema = tradeTeamsSchema.extend({
+  recipientId: z.string(),
+});
+
+/**
+ * Check that a proposed swap is legal right now: both sides own the teams they are
+ * giving up and stable sizes stay the same. Returns an error message, or null if valid.
+ */
+async function validateTradeTeams(
+  leagueId: string,
+  proposerId: string,
+  recipientId: string,
+  offeredTeamIds: string[],
+  requestedTeamIds: string[]
+): Promise<string | null> {
+  if (proposerId === recipientId) {
+    return "You cannot trade with yourself";
+  }
+
+  if (offeredTeamIds.length !== requestedTeamIds.length) {
+    return "Trades must swap the same number of teams on each side";
+  }
+
+  if (new Set([...offeredTeamIds, ...requestedTeamIds]).size !== offeredTeamIds.length + requestedTeamIds.length) {
+    return "A team can only appear once in a trade";
+  }
+
+  const isRecipientInLeague = await storage.isUserInLeague(recipientId, leagueId);
+  if (!isRecipientInLeague) {
+    return "Trade partner is not a member of this league";
+  }
+
+  const proposerTeamIds = new Set((await storage.getUserStable(proposerId, leagueId)).map(s => s.nflTeamId));
+  if (offeredTeamIds.some(teamId => !proposerTeamIds.has(teamId))) {
+    return "You can only offer teams in your own stable";
+  }
+
+  const recipientTeamIds = new Set((await storage.getUserStable(recipientId, leagueId)).map(s => s.nflTeamId));
+  if (requestedTeamIds.some(teamId => !recipientTeamIds.has(teamId))) {
+    return "Requested teams must belong to your trade partner";
+  }
+
+  return null;
+}
+
+// Attach team details and member names so the client can render proposals directly
+async function enrichTradeProposals(leagueId: string, proposals: TradeProposal[]) {
+  const [league, allTeams] = await Promise.all([
+    storage.getLeague(leagueId),
+    storage.getAllNflTeams()
+  ]);
+  const teamsById = new Map(allTeams.map(team => [team.id, team]));
+  const namesById = new Map((league?.members || []).map(member => [member.id, member.name]));
+
+  return proposals.map(proposal => ({
+    ...proposal,
+    proposerName: namesById.get(proposal.proposerId) || 'Unknown',
+    recipientName: namesById.get(proposal.recipientId) || 'Unknown',
+    offeredTeams: proposal.offeredTeamIds.map(id => teamsById.get(id)).filter(Boolean),
+    requestedTeams: proposal.requestedTeamIds.map(id => teamsById.get(id)).filter(Boolean),
+  }));
+}
+
+async function notifyTradeParticipant(userId: string, title: string, body: string) {
+  try {
+    const subscriptions = await storage.getUserPushSubscriptions(userId);
+    if (subscriptions.length === 0) return;
+
+    await storage.sendPushNotification(subscriptions, {
+      title,
+      body,
+      icon: "/icon-192x192.png",
+      badge: "/icon-72x72.png",
+      data: {
+        url: "/trades",
+        type: "trade",
+        timestamp: Date.now()
+      }
+    });
+  } catch (error) {
+    console.error('[Trades] Failed to send trade notification:', error);
+  }
+}
+
+// Returns a 400 response when the trade window is closed, otherwise null
+async function rejectIfTradeWindowClosed(res: any) {
+  const tradeWindow = await tradeWindowService.getTradeWindowStatus();
+  if (tradeWindow.isOpen) {
+    return null;
+  }
+  return res.status(400).json({
+    message: tradeWindow.reason || "Trade window is closed",
+    opensAt: tradeWindow.opensAt,
+    closesAt: tradeWindow.closesAt
+  });
+}
+
+// Returns a 400 response when either member has already made this week's roster move, otherwise null
+async function rejectIfRosterMoveUsed(res: any, leagueId: string, userId: string, partnerId: string) {
+  const { season, week } = await tradeWindowService.getTradeWindowStatus();
+
+  if (await storage.getWeeklyRosterMoveCount(userId, leagueId, season, week) >= MAX_ROSTER_MOVES_PER_WEEK) {
+    return res.status(400).json({ message: `You've already used your roster move for Week ${week}` });
+  }
+  if (await storage.getWeeklyRosterMoveCount(partnerId, leagueId, season, week) >= MAX_ROSTER_MOVES_PER_WEEK) {
+    return res.status(400).json({ message: `Your trade partner has already used their roster move for Week ${week}` });
+  }
+  return null;
+}
+
+export function registerTradeRoutes(app: Express) {
+  // Current trade window status
+  app.get("/api/trade-window", async (req, res) => {
+    try {
+      const season = req.query.season ? parseInt(req.query.season as string) : undefined;
+      const status = await tradeWindowService.getTradeWindowStatus(season);
+      res.json({ ...status, message: tradeWindowService.getTradeWindowMessage(status) });
+    } catch (error: any) {
+      console.error('Error getting trade window status:', error);
+      res.status(500).json({ message: "Failed to get trade window status", error: error.message });
+    }
+  });
+
+  // All members' stables in a league - used to browse trade partners
+  app.get("/api/leagues/:leagueId/rosters", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const isInLeague = await storage.isUserInLeague(user.id, leagueId);
+      if (!isInLeague) {
+        return res.status(403).json({ message: "Access denied to this league" });
+      }
+
+      const [league, leagueStables] = await Promise.all([
+        storage.getLeague(leagueId),
+        storage.getLeagueStables(leagueId)
+      ]);
+
+      const rosters = (league?.members || []).map(member => ({
+        userId: member.id,
+        name: member.name,
+        avatar: member.avatar,
+        teams: leagueStables.filter(s => s.userId === member.id).map(s => s.nflTeam)
+      }));
+
+      res.json(rosters);
+    } catch (error: any) {
+      console.error('Error getting league rosters:', error);
+      res.status(500).json({ message: "Failed to get league rosters", error: error.message });
+    }
+  });
+
+  // League transaction log - every roster change this season
+  app.get("/api/leagues/:leagueId/transactions", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const isInLeague = await storage.isUserInLeague(user.id, leagueId);
+      if (!isInLeague) {
+        return res.status(403).json({ message: "Access denied to this league" });
+      }
+
+      const season = req.query.season
+        ? parseInt(req.query.season as string)
+        : (await tradeWindowService.getTradeWindowStatus()).season;
+
+      const [transactions, league, allTeams] = await Promise.all([
+        storage.getLeagueRosterTransactions(leagueId, season),
+        storage.getLeague(leagueId),
+        storage.getAllNflTeams()
+      ]);
+      const teamsById = new Map(allTeams.map(team => [team.id, team]));
+      const namesById = new Map((league?.members || []).map(member => [member.id, member.name]));
+
+      res.json(transactions.map(transaction => ({
+        ...transaction,
+        userName: namesById.get(transaction.userId) || 'Unknown',
+        counterpartName: transaction.counterpartId ? namesById.get(transaction.counterpartId) || 'Unknown' : null,
+        teamsInDetails: transaction.teamsIn.map(id => teamsById.get(id)).filter(Boolean),
+        teamsOutDetails: transaction.teamsOut.map(id => teamsById.get(id)).filter(Boolean),
+      })));
+    } catch (error: any) {
+      console.error('Error getting roster transactions:', error);
+      res.status(500).json({ message: "Failed to get roster transactions", error: error.message });
+    }
+  });
+
+  // Trade proposals sent or received by the current user
+  app.get("/api/leagues/:leagueId/trades", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const isInLeague = await storage.isUserInLeague(user.id, leagueId);
+      if (!isInLeague) {
+        return res.status(403).json({ message: "Access denied to this league" });
+      }
+
+      const proposals = await storage.getUserTradeProposals(user.id, leagueId);
+      res.json(await enrichTradeProposals(leagueId, proposals));
+    } catch (error: any) {
+      console.error('Error getting trade proposals:', error);
+      res.status(500).json({ message: "Failed to get trade proposals", error: error.message });
+    }
+  });
+
+  // Propose a trade
+  app.post("/api/leagues/:leagueId/trades", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const isInLeague = await storage.isUserInLeague(user.id, leagueId);
+      if (!isInLeague) {
+        return res.status(403).json({ message: "Access denied to this league" });
+      }
+
+      const data = proposeTradeSchema.parse(req.body);
+
+      if (await rejectIfTradeWindowClosed(res)) return;
+      if (await rejectIfRosterMoveUsed(res, leagueId, user.id, data.recipientId)) return;
+
+      const invalidReason = await validateTradeTeams(leagueId, user.id, data.recipientId, data.offeredTeamIds, data.requestedTeamIds);
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const proposal = await storage.createTradeProposal({
+        leagueId,
+        proposerId: user.id,
+        recipientId: data.recipientId,
+        offeredTeamIds: data.offeredTeamIds,
+        requestedTeamIds: data.requestedTeamIds,
+        message: data.message,
+      });
+
+      await notifyTradeParticipant(data.recipientId, "New trade offer", `${user.name} sent you a trade proposal`);
+
+      res.json(proposal);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error proposing trade:', error);
+      res.status(500).json({ message: "Failed to propose trade", error: error.message });
+    }
+  });
+
+  // Accept a trade - only the recipient can accept
+  app.post("/api/trades/:tradeId/accept", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const proposal = await storage.getTradeProposal(req.params.tradeId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Trade proposal not found" });
+      }
+
+      if (proposal.recipientId !== user.id) {
+        return res.status(403).json({ message: "Only the trade recipient can accept this trade" });
+      }
+
+      if (proposal.status !== 'pending') {
+        return res.status(409).json({ message: `Trade proposal is already ${proposal.status}` });
+      }
+
+      if (await rejectIfTradeWindowClosed(res)) return;
+
+      try {
+        const accepted = await storage.acceptTradeProposal(proposal.id);
+        await notifyTradeParticipant(proposal.proposerId, "Trade accepted", `${user.name} accepted your trade`);
+        res.json({ message: "Trade accepted", proposal: accepted });
+      } catch (error: any) {
+        // Ownership changed or proposal was closed since it was sent
+        return res.status(409).json({ message: error.message });
+      }
+    } catch (error: any) {
+      console.error('Error accepting trade:', error);
+      res.status(500).json({ message: "Failed to accept trade", error: error.message });
+    }
+  });
+
+  // Reject a trade - only the recipient can reject
+  app.post("/api/trades/:tradeId/reject", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const proposal = await storage.getTradeProposal(req.params.tradeId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Trade proposal not found" });
+      }
+
+      if (proposal.recipientId !== user.id) {
+        return res.status(403).json({ message: "Only the trade recipient can reject this trade" });
+      }
+
+      if (proposal.status !== 'pending') {
+        return res.status(409).json({ message: `Trade proposal is already ${proposal.status}` });
+      }
+
+      const rejected = await storage.updateTradeProposalStatus(proposal.id, 'rejected');
+      res.json({ message: "Trade rejected", proposal: rejected });
+    } catch (error: any) {
+      console.error('Error rejecting trade:', error);
+      res.status(500).json({ message: "Failed to reject trade", error: error.message });
+    }
+  });
+
+  // Counter a trade - the recipient sends back a new proposal and the original is closed
+  app.post("/api/trades/:tradeId/counter", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const proposal = await storage.getTradeProposal(req.params.tradeId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Trade proposal not found" });
+      }
+
+      if (proposal.recipientId !== user.id) {
+        return res.status(403).json({ message: "Only the trade recipient can counter this trade" });
+      }
+
+      if (proposal.status !== 'pending') {
+        return res.status(409).json({ message: `Trade proposal is already ${proposal.status}` });
+      }
+
+      // Counter is from the recipient's point of view: they offer their teams for the proposer's
+      const data = tradeTeamsSchema.parse(req.body);
+
+      if (await rejectIfTradeWindowClosed(res)) return;
+      if (await rejectIfRosterMoveUsed(res, proposal.leagueId, user.id, proposal.proposerId)) return;
+
+      const invalidReason = await validateTradeTeams(proposal.leagueId, user.id, proposal.proposerId, data.offeredTeamIds, data.requestedTeamIds);
+      if (invalidReason) {
+        return res.status(400).json({ message: invalidReason });
+      }
+
+      const counter = await storage.counterTradeProposal(proposal.id, {
+        leagueId: proposal.leagueId,
+        proposerId: user.id,
+        recipientId: proposal.proposerId,
+        offeredTeamIds: data.offeredTeamIds,
+        requestedTeamIds: data.requestedTeamIds,
+        message: data.message,
+      });
+
+      await notifyTradeParticipant(proposal.proposerId, "Trade countered", `${user.name} sent a counter offer`);
+
+      res.json({ message: "Counter offer sent", proposal: counter });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error('Error countering trade:', error);
+      res.status(500).json({ message: "Failed to counter trade", error: error.message });
+    }
+  });
+
+  // Cancel a trade - only the proposer can cancel
+  app.post("/api/trades/:tradeId/cancel", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const proposal = await storage.getTradeProposal(req.params.tradeId);
+      if (!proposal) {
+        return res.status(404).json({ message: "Trade proposal not found" });
+      }
+
+      if (proposal.proposerId !== user.id) {
+        return res.status(403).json({ message: "Only the proposer can cancel this trade" });
+      }
+
+      if (proposal.status !== 'pending') {
+        return res.status(409).json({ message: `Trade proposal is already ${proposal.status}` });
+      }
+
+      const cancelled = await storage.updateTradeProposalStatus(proposal.id, 'cancelled');
+      res.json({ message: "Trade cancelled", proposal: cancelled });
+    } catch (error: any) {
+      console.error('Error cancelling trade:', error);
+      res.status(500).json({ message: "Failed to cancel trade", error: error.message });
+    }
+  });
+
+  // Waiver status - current priority order and the user's claims this season
+  app.get("/api/leagues/:leagueId/waivers", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const { leagueId } = req.params;
+      const isInLeague = await storage.isUserInLeague(user.id, leagueId);
+      if (!isInLeague) {
+        return res.status(403).json({ message: "Access denied to this league" });
+      }
+
+      const tradeWindow = await tradeWindowService.getTradeWindowStatus();
+      const [waiverOrder, claims, league, allTeams] = await Promise.all([
+        waiverProcessor.getWaiverOrder(leagueId, tradeWindow.season),
+        storage.getUserWaiverClaims(user.id, leagueId, tradeWindow.season),
+        storage.getLeague(leagueId),
+        storage.getAllNflTeams()
+      ]);
+      const teamsById = new Map(allTeams.map(team => [team.id, team]));
+      const namesById = new Map((league?.members || []).map(member => [member.id, member.name]));
+
+      res.json({
+        season: tradeWindow.season,
+        week: tradeWindow.week,
+        inWaiverPeriod: tradeWindow.inWaiverPeriod,
+        waiverPeriodEndsAt: tradeWindow.waiverPeriodEndsAt,
+        waiverOrder: waiverOrder.map((userId, index) => ({
+          priority: index + 1,
+          userId,
+          userName: namesById.get(userId) || 'Unknown',
+          isCurrentUser: userId === user.id,
+        })),
+        claims: claims.map(claim => ({
+          ...claim,
+          claimTeam: teamsById.get(claim.claimTeamId) || null,
+          dropTeam: claim.dropTeamId ? teamsById.get(claim.dropTeamId) || null : null,
+        })),
+      });
+    } catch (error: any) {
+      console.error('Error getting waivers:', error);
+      res.status(500).json({ message: "Failed to get waivers", error: error.message });
+    }
+  });
+
+  // Cancel a pending waiver claim - only the claimant can cancel
+  app.post("/api/waivers/:claimId/cancel", async (req, res) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      if (!user) {
+        return res.status(401).json({ message: "Not authenticated" });
+      }
+
+      const claim = await storage.getWaiverClaim(req.params.claimId);
+      if (!claim) {
+        return res.status(404).json({ message: "Waiver claim not found" });
+      }
+
+      if (claim.userId !== user.id) {
+        return res.status(403).json({ message: "Only the claimant can cancel this waiver claim" });
+      }
+
+      if (claim.status !== 'pending') {
+        return res.status(409).json({ message: `Waiver claim is already ${claim.status}` });
+      }
+
+      const cancelled = await storage.closeWaiverClaim(claim.id, 'cancelled');
+      res.json({ message: "Waiver claim cancelled", claim: cancelled });
+    } catch (error: any) {
+      console.error('Error cancelling waiver claim:', error);
+      res.status(500).json({ message: "Failed to cancel waiver claim", error: error.message });
+    }
+  });
+}
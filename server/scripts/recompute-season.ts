@@ -0,0 +1,51 @@
+#!/usr/bin/env tsx
+
+// Rebuild a league's season scores from the game results and print what changed, then rebuild the
+// season-wide team performance and weekly stats tables every league shares
+// Usage: tsx server/scripts/recompute-season.ts <leagueId> <season> [--dry-run]
+
+import { rebuildSeasonTables, recomputeSeason } from '../utils/seasonRecompute';
+
+async function main() {
+  const [leagueId, seasonArg] = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  const dryRun = process.argv.includes('--dry-run');
+  const season = parseInt(seasonArg);
+
+  if (!leagueId || !season) {
+    console.error('Usage: tsx server/scripts/recompute-season.ts <leagueId> <season> [--dry-run]');
+    process.exit(1);
+  }
+
+  const report = await recomputeSeason(leagueId, season, { dryRun });
+
+  console.log(`\n📊 Season ${season} ${dryRun ? '(dry run)' : ''}`);
+  console.log(`   Weeks scored: ${report.weeksScored.join(', ') || 'none'}`);
+  console.log(`   Complete weeks: ${report.completeWeeks.join(', ') || 'none'}`);
+
+  if (report.memberWeekChanges.length === 0 && report.skinsChanges.length === 0) {
+    console.log('   ✅ Nothing changed');
+  }
+
+  for (const change of report.memberWeekChanges) {
+    const before = change.before ? change.before.totalPoints : '-';
+    console.log(`   Week ${change.week} ${change.userName}: ${before} → ${change.after.totalPoints}`);
+  }
+
+  for (const change of report.skinsChanges) {
+    const describe = (skins: typeof change.before) => !skins ? 'none'
+      : skins.isRollover ? `rollover (${skins.prizeAmount})` : `${skins.winnerId} (${skins.prizeAmount})`;
+    console.log(`   Week ${change.week} skins: ${describe(change.before)} → ${describe(change.after)}`);
+  }
+
+  const tables = await rebuildSeasonTables(season, { dryRun });
+  console.log(`   Team performance rows: ${tables.teamPerformanceRows}, weekly stats rows: ${tables.weeklyStatsRows}`);
+}
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error('❌ Recompute failed:', error);
+      process.exit(1);
+    });
+}
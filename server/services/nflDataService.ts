@@ -49,6 +49,7 @@ class NFLDataService {
   private cache: Map<string, any> = new Map();
   private cacheExpiry: Map<string, number> = new Map();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+  private readonly REQUEST_TIMEOUT = 10 * 1000; // A hung Tank01 call shouldn't stall draft picks or imports
 
   private async makeRapidAPIRequest(endpoint: string): Promise<any> {
     if (!RAPIDAPI_KEY) {
@@ -70,6 +71,7 @@ class NFLDataService {
           'x-rapidapi-key': RAPIDAPI_KEY,
           'x-rapidapi-host': RAPIDAPI_HOST,
         },
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT),
       });
 
       if (!response.ok) {
@@ -1,5 +1,5 @@
 import { 
-  users, leagues, leagueMembers, nflTeams, nflGames, pushSubscriptions, drafts, draftPicks, draftTimers, stables, weeklyLocks,
+  users, leagues, leagueMembers, nflTeams, nflGames, pushSubscriptions, drafts, draftPicks, draftTimers, draftQueueEntries, keepers, stables, stableOwnership, weeklyLocks, tradeProposals, rosterTransactions, waiverClaims, waiverPriorities, leagueScoringRules, userWeeklyScores, commissionerActions,
   type User, type InsertUser,
   type League, type InsertLeague,
   type LeagueMember, type InsertLeagueMember,
@@ -7,12 +7,23 @@ import {
   type Draft, type InsertDraft,
   type DraftPick, type InsertDraftPick,
   type DraftTimer, type InsertDraftTimer,
-  type Stable, type InsertStable
+  type DraftQueueEntry,
+  type Keeper,
+  type Stable, type InsertStable, type StableOwnership,
+  type TradeProposal, type InsertTradeProposal,
+  type RosterTransaction,
+  type WaiverClaim, type InsertWaiverClaim,
+  type LeagueScoringRules,
+  type CommissionerAction
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, sql, notInArray } from "drizzle-orm";
+import { eq, and, or, sql, desc, lt, inArray, notInArray, isNull } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
 import webpush from "web-push";
+import { tradeWindowService, COUNTED_ROSTER_MOVE_TYPES, MAX_ROSTER_MOVES_PER_WEEK } from "./utils/tradeWindow";
+import { findNextOpenPick, getDraftSeason, getNextDraftSeason } from "./draft/keepers";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export interface IStorage {
   // User methods
@@ -31,6 +42,11 @@ export interface IStorage {
   joinLeague(member: InsertLeagueMember): Promise<LeagueMember>;
   leaveLeague(userId: string, leagueId: string): Promise<void>;
   isUserInLeague(userId: string, leagueId: string): Promise<boolean>;
+  
+  // Mock draft methods - throwaway leagues against the robots
+  createMockLeague(creatorId: string, robotIds: string[], teamsPerMember: number): Promise<League>;
+  getExpiredMockLeagues(completedBefore: Date, createdBefore: Date): Promise<Array<{ id: string; draftId: string | null }>>;
+  deleteMockLeague(leagueId: string): Promise<void>;
   getLeagueMemberCount(leagueId: string): Promise<number>;
   
   // NFL Teams methods
@@ -42,8 +58,11 @@ export interface IStorage {
   createDraft(draft: InsertDraft): Promise<Draft>;
   getDraft(draftId: string): Promise<Draft | undefined>;
   getLeagueDraft(leagueId: string): Promise<Draft | undefined>;
+  getActiveAuctionDrafts(): Promise<Draft[]>;
   updateDraftStatus(draftId: string, status: string): Promise<void>;
   updateDraftProgress(draftId: string, round: number, pick: number): Promise<void>;
+  updateDraftOrder(draftId: string, order: { draftOrder: string[]; orderMethod: string; orderSeed: string | null; orderSeason: number | null }): Promise<void>;
+  getLastSeasonStandings(leagueId: string): Promise<{ season: number; standings: Array<{ userId: string; totalPoints: number }> } | null>;
   startDraft(draftId: string): Promise<void>;
   setDraftStatus(draftId: string, status: string): Promise<void>;
   completeDraft(draftId: string): Promise<void>;
@@ -51,8 +70,19 @@ export interface IStorage {
   // Draft picks methods
   createDraftPick(pick: InsertDraftPick): Promise<DraftPick>;
   createDraftPickAtomic(pick: InsertDraftPick): Promise<{ pick: DraftPick; nextRound: number; nextPick: number }>;
+  undoLastDraftPick(draftId: string): Promise<DraftPick>;
+  createAuctionPickAtomic(pick: Omit<InsertDraftPick, 'round' | 'pickNumber'>): Promise<{ pick: DraftPick; completed: boolean }>;
   getDraftPicks(draftId: string): Promise<Array<DraftPick & { user: User; nflTeam: NflTeam }>>;
   getUserDraftPicks(draftId: string, userId: string): Promise<Array<DraftPick & { nflTeam: NflTeam }>>;
+
+  // Draft queue methods
+  getDraftQueue(draftId: string, userId: string): Promise<Array<DraftQueueEntry & { nflTeam: NflTeam }>>;
+  
+  // Keeper methods
+  getLeagueKeepers(leagueId: string, season: number): Promise<Array<Keeper & { nflTeam: NflTeam }>>;
+  setUserKeepers(leagueId: string, userId: string, season: number, keepers: Array<{ nflTeamId: string; roundCost: number }>): Promise<Keeper[]>;
+  applyKeepersToDraft(draftId: string, keeperPicks: InsertDraftPick[]): Promise<void>;
+  setDraftQueue(draftId: string, userId: string, nflTeamIds: string[]): Promise<void>;
   
   // User statistics methods
   getAllUserDraftPicks(userId: string): Promise<Array<DraftPick & { nflTeam: NflTeam }>>;
@@ -62,6 +92,7 @@ export interface IStorage {
   // Draft timer methods
   createDraftTimer(timer: InsertDraftTimer): Promise<DraftTimer>;
   updateDraftTimer(draftId: string, userId: string, timeRemaining: number): Promise<void>;
+  markDraftTimerReminderSent(draftId: string, userId: string): Promise<void>;
   deactivateAllDraftTimers(draftId: string): Promise<void>;
   getActiveDraftTimer(draftId: string): Promise<DraftTimer | undefined>;
   deactivateTimer(draftId: string, userId: string): Promise<void>;
@@ -85,6 +116,31 @@ export interface IStorage {
   updateStableLockAndLoad(userId: string, leagueId: string, nflTeamId: string, used: boolean): Promise<void>;
   initializeStableFromDraft(draftId: string): Promise<void>;
   addFreeAgentToStable(userId: string, leagueId: string, nflTeamId: string): Promise<void>;
+  getLeagueStables(leagueId: string): Promise<Array<Stable & { nflTeam: NflTeam }>>;
+  getLeagueFreeAgents(leagueId: string): Promise<NflTeam[]>;
+  claimFreeAgent(userId: string, leagueId: string, claimTeamId: string, dropTeamId: string): Promise<void>;
+  
+  // Trade proposal methods
+  createTradeProposal(proposal: InsertTradeProposal): Promise<TradeProposal>;
+  getTradeProposal(proposalId: string): Promise<TradeProposal | undefined>;
+  getUserTradeProposals(userId: string, leagueId: string): Promise<TradeProposal[]>;
+  updateTradeProposalStatus(proposalId: string, status: 'rejected' | 'cancelled'): Promise<TradeProposal>;
+  counterTradeProposal(proposalId: string, counter: InsertTradeProposal): Promise<TradeProposal>;
+  acceptTradeProposal(proposalId: string): Promise<TradeProposal>;
+  
+  // Roster transaction ledger methods
+  getLeagueRosterTransactions(leagueId: string, season: number): Promise<RosterTransaction[]>;
+  getWeeklyRosterMoveCount(userId: string, leagueId: string, season: number, week: number): Promise<number>;
+  
+  // Waiver claim methods
+  createWaiverClaim(claim: InsertWaiverClaim): Promise<WaiverClaim>;
+  getWaiverClaim(claimId: string): Promise<WaiverClaim | undefined>;
+  getUserWaiverClaims(userId: string, leagueId: string, season: number): Promise<WaiverClaim[]>;
+  getPendingWaiverClaims(season: number): Promise<WaiverClaim[]>;
+  closeWaiverClaim(claimId: string, status: 'lost' | 'cancelled', details?: { priority?: number; failureReason?: string }): Promise<WaiverClaim>;
+  awardWaiverClaim(claimId: string, priority: number): Promise<WaiverClaim>;
+  getWaiverPriority(leagueId: string, season: number): Promise<string[]>;
+  setWaiverPriority(leagueId: string, season: number, userIds: string[]): Promise<void>;
   
   // Additional methods for draft management
   updateLeague(leagueId: string, updates: Partial<League>): Promise<void>;
@@ -94,10 +150,20 @@ export interface IStorage {
   // Scoring methods
   getUserLockHistory(userId: string, leagueId: string, season: number): Promise<any[]>;
   setWeeklyLocks(userId: string, leagueId: string, season: number, week: number, locks: { lockedTeamId?: string; lockAndLoadTeamId?: string }): Promise<void>;
+  getTeamLockUsage(userId: string, leagueId: string, nflTeamId: string, season: number, excludeWeek?: number): Promise<{ locks: number; lockAndLoads: number }>;
+  saveLeagueScoringRules(leagueId: string, rules: Omit<LeagueScoringRules, 'leagueId' | 'updatedBy' | 'createdAt' | 'updatedAt'>, updatedBy: string): Promise<LeagueScoringRules>;
+  
+  // Commissioner corrections - each writes an audit log entry in the same transaction
+  isLeagueCommissioner(userId: string, leagueId: string): Promise<boolean>;
+  adjustWeeklyPoints(leagueId: string, userId: string, season: number, week: number, pointsDelta: number, commissionerId: string, reason: string): Promise<CommissionerAction>;
+  reassignStableTeam(leagueId: string, nflTeamId: string, toUserId: string, season: number, week: number, commissionerId: string, reason: string): Promise<CommissionerAction>;
+  voidWeeklyLock(leagueId: string, userId: string, season: number, week: number, lockType: 'lock' | 'lockAndLoad', commissionerId: string, reason: string): Promise<CommissionerAction>;
+  getLeagueCommissionerActions(leagueId: string, season: number): Promise<Array<CommissionerAction & { commissionerName: string; targetUserName: string; counterpartName: string | null; nflTeamCode: string | null }>>;
   
   // NFL Game methods for opponent data
   getTeamUpcomingGame(teamCode: string, week: number): Promise<{ homeTeam: string; awayTeam: string; gameDate: string; gameTime: string; spread?: number } | null>;
   getTeamByCode(teamCode: string): Promise<NflTeam | null>;
+  getTeamRecords(season: number): Promise<Record<string, { wins: number; losses: number; ties: number }>>;
   getTimerState(): Promise<any>;
 }
 
@@ -141,6 +207,7 @@ export class DatabaseStorage implements IStorage {
       .values({
         leagueId: newLeague.id,
         userId: league.creatorId,
+        role: 'commissioner',
       });
     
     return newLeague;
@@ -182,7 +249,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getLeagueByName(name: string): Promise<League | undefined> {
-    const [league] = await db.select().from(leagues).where(eq(leagues.name, name));
+    // Mock leagues all share a name and never block a real one
+    const [league] = await db.select().from(leagues).where(and(eq(leagues.name, name), eq(leagues.isMock, false)));
     return league || undefined;
   }
 
@@ -199,10 +267,15 @@ export class DatabaseStorage implements IStorage {
           name: leagues.name,
           joinCode: leagues.joinCode,
           maxTeams: leagues.maxTeams,
+          teamsPerMember: leagues.teamsPerMember,
           creatorId: leagues.creatorId,
           isActive: leagues.isActive,
           draftScheduledAt: leagues.draftScheduledAt,
           draftStarted: leagues.draftStarted,
+          draftOrderMethod: leagues.draftOrderMethod,
+          manualDraftOrder: leagues.manualDraftOrder,
+          keeperLimit: leagues.keeperLimit,
+          isMock: leagues.isMock,
           createdAt: leagues.createdAt,
           memberCount: sql<number>`COUNT(DISTINCT ${leagueMembers.userId})::int`,
           isCreator: sql<boolean>`${leagues.creatorId} = ${userId}`,
@@ -211,8 +284,12 @@ export class DatabaseStorage implements IStorage {
         })
         .from(leagues)
         .innerJoin(leagueMembers, eq(leagues.id, leagueMembers.leagueId))
-        .leftJoin(drafts, eq(leagues.id, drafts.leagueId))
-        .where(eq(leagueMembers.userId, userId))
+        .leftJoin(drafts, and(
+          eq(leagues.id, drafts.leagueId),
+          // Only the league's latest draft - earlier seasons' drafts stay on record
+          eq(drafts.id, sql`(SELECT d.id FROM ${drafts} d WHERE d.league_id = ${leagues.id} ORDER BY d.created_at DESC LIMIT 1)`)
+        ))
+        .where(and(eq(leagueMembers.userId, userId), eq(leagues.isMock, false)))
         .groupBy(leagues.id, drafts.id, drafts.status);
 
       // Convert null values to undefined for TypeScript compatibility
@@ -260,6 +337,63 @@ export class DatabaseStorage implements IStorage {
     return !!existing;
   }
 
+  async createMockLeague(creatorId: string, robotIds: string[], teamsPerMember: number): Promise<League> {
+    return await db.transaction(async (tx) => {
+      const [mockLeague] = await tx
+        .insert(leagues)
+        .values({
+          name: 'Mock Draft',
+          // Real codes are upper-case and lookups upper-case the input, so this can never be joined
+          joinCode: `mock-${crypto.randomUUID()}`,
+          maxTeams: robotIds.length + 1,
+          teamsPerMember,
+          creatorId,
+          isActive: false, // Keeps it out of weekly scoring and processing
+          isMock: true,
+        })
+        .returning();
+
+      await tx.insert(leagueMembers).values([
+        { leagueId: mockLeague.id, userId: creatorId, role: 'commissioner' },
+        ...robotIds.map(userId => ({ leagueId: mockLeague.id, userId })),
+      ]);
+
+      return mockLeague;
+    });
+  }
+
+  async getExpiredMockLeagues(completedBefore: Date, createdBefore: Date): Promise<Array<{ id: string; draftId: string | null }>> {
+    return await db.select({ id: leagues.id, draftId: drafts.id })
+      .from(leagues)
+      .leftJoin(drafts, eq(leagues.id, drafts.leagueId))
+      .where(and(
+        eq(leagues.isMock, true),
+        or(
+          lt(drafts.completedAt, completedBefore),
+          lt(leagues.createdAt, createdBefore) // Abandoned before it finished
+        )
+      ));
+  }
+
+  async deleteMockLeague(leagueId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [league] = await tx.select({ isMock: leagues.isMock }).from(leagues).where(eq(leagues.id, leagueId));
+      if (!league?.isMock) {
+        throw new Error(`League ${leagueId} is not a mock league`);
+      }
+
+      const [draft] = await tx.select({ id: drafts.id }).from(drafts).where(eq(drafts.leagueId, leagueId));
+      if (draft) {
+        await tx.delete(draftTimers).where(eq(draftTimers.draftId, draft.id));
+        await tx.delete(draftQueueEntries).where(eq(draftQueueEntries.draftId, draft.id));
+        await tx.delete(draftPicks).where(eq(draftPicks.draftId, draft.id));
+        await tx.delete(drafts).where(eq(drafts.id, draft.id));
+      }
+      await tx.delete(leagueMembers).where(eq(leagueMembers.leagueId, leagueId));
+      await tx.delete(leagues).where(eq(leagues.id, leagueId));
+    });
+  }
+
   async updateLeague(leagueId: string, updates: Partial<League>): Promise<void> {
     await db.update(leagues)
       .set(updates)
@@ -269,6 +403,7 @@ export class DatabaseStorage implements IStorage {
   async deleteDraft(draftId: string): Promise<void> {
     // Delete all related data
     await db.delete(draftTimers).where(eq(draftTimers.draftId, draftId));
+    await db.delete(draftQueueEntries).where(eq(draftQueueEntries.draftId, draftId));
     await db.delete(draftPicks).where(eq(draftPicks.draftId, draftId));
     await db.delete(drafts).where(eq(drafts.id, draftId));
   }
@@ -326,7 +461,15 @@ export class DatabaseStorage implements IStorage {
       .from(draftPicks)
       .where(eq(draftPicks.draftId, draftId));
     
-    const pickedIds = pickedTeamIds.map(p => p.nflTeamId);
+    // Keepers are off the board before the draft even starts
+    const draft = await this.getDraft(draftId);
+    const keptTeamIds = draft
+      ? await db.select({ nflTeamId: keepers.nflTeamId })
+          .from(keepers)
+          .where(and(eq(keepers.leagueId, draft.leagueId), eq(keepers.season, getDraftSeason(draft))))
+      : [];
+    
+    const pickedIds = Array.from(new Set([...pickedTeamIds, ...keptTeamIds].map(p => p.nflTeamId)));
     
     if (pickedIds.length === 0) {
       return await this.getAllNflTeams();
@@ -339,9 +482,16 @@ export class DatabaseStorage implements IStorage {
 
   // Draft methods
   async createDraft(draft: InsertDraft): Promise<Draft> {
+    // Unless told otherwise, a league's first draft is for the current season and each one after for the next
+    let season = draft.season;
+    if (season == null) {
+      const { season: currentSeason } = await tradeWindowService.getTradeWindowStatus();
+      season = getNextDraftSeason(await this.getLeagueDraft(draft.leagueId), currentSeason);
+    }
+
     const [newDraft] = await db
       .insert(drafts)
-      .values(draft)
+      .values({ ...draft, season })
       .returning();
     return newDraft;
   }
@@ -352,15 +502,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getDraftByLeagueId(leagueId: string): Promise<Draft | undefined> {
-    const [draft] = await db.select().from(drafts).where(eq(drafts.leagueId, leagueId));
-    return draft || undefined;
+    return this.getLeagueDraft(leagueId);
   }
 
+  // The league's latest draft - one per season, so earlier seasons' drafts are still stored
   async getLeagueDraft(leagueId: string): Promise<Draft | undefined> {
-    const [draft] = await db.select().from(drafts).where(eq(drafts.leagueId, leagueId));
+    const [draft] = await db.select().from(drafts)
+      .where(eq(drafts.leagueId, leagueId))
+      .orderBy(desc(drafts.createdAt))
+      .limit(1);
     return draft || undefined;
   }
 
+  async getActiveAuctionDrafts(): Promise<Draft[]> {
+    return await db.select().from(drafts).where(and(
+      eq(drafts.draftFormat, 'auction'),
+      eq(drafts.status, 'active')
+    ));
+  }
+
   async updateDraftStatus(draftId: string, status: string): Promise<void> {
     await db.update(drafts)
       .set({ status })
@@ -395,6 +555,39 @@ export class DatabaseStorage implements IStorage {
       .where(eq(drafts.id, draftId));
   }
 
+  // Replace a draft's order along with how it was generated
+  async updateDraftOrder(draftId: string, order: { draftOrder: string[]; orderMethod: string; orderSeed: string | null; orderSeason: number | null }): Promise<void> {
+    await db.update(drafts)
+      .set(order)
+      .where(eq(drafts.id, draftId));
+  }
+
+  // Final season totals from the league's most recent scored season, lowest first
+  async getLastSeasonStandings(leagueId: string): Promise<{ season: number; standings: Array<{ userId: string; totalPoints: number }> } | null> {
+    const [latest] = await db.select({
+      season: sql<number | null>`MAX(${userWeeklyScores.season})`
+    })
+    .from(userWeeklyScores)
+    .where(eq(userWeeklyScores.leagueId, leagueId));
+
+    if (!latest?.season) return null;
+    const season = Number(latest.season);
+
+    const standings = await db.select({
+      userId: userWeeklyScores.userId,
+      totalPoints: sql<number>`COALESCE(SUM(${userWeeklyScores.totalPoints}), 0)`.mapWith(Number)
+    })
+    .from(userWeeklyScores)
+    .where(and(
+      eq(userWeeklyScores.leagueId, leagueId),
+      eq(userWeeklyScores.season, season)
+    ))
+    .groupBy(userWeeklyScores.userId)
+    .orderBy(sql`COALESCE(SUM(${userWeeklyScores.totalPoints}), 0)`, userWeeklyScores.userId);
+
+    return { season, standings };
+  }
+
   async setDraftStatus(draftId: string, status: string): Promise<void> {
     await db.update(drafts)
       .set({ status })
@@ -453,22 +646,22 @@ export class DatabaseStorage implements IStorage {
         .values(atomicPickData)
         .returning();
 
-      // Step 4: Calculate next draft state
-      const totalUsers = currentDraft.draftOrder.length;
-      const totalPicks = totalUsers * currentDraft.totalRounds;
-      
-      let nextRound = currentDraft.currentRound;
-      let nextPick = currentDraft.currentPick + 1;
-      
-      // Check if we need to advance to next round
-      const currentRoundEndPick = currentDraft.currentRound * totalUsers;
-      
-      if (nextPick > currentRoundEndPick) {
-        nextRound++;
-      }
+      // Step 4: Calculate next draft state, stepping over slots keepers already fill
+      const keeperSlots = await tx
+        .select({ pickNumber: draftPicks.pickNumber })
+        .from(draftPicks)
+        .where(and(eq(draftPicks.draftId, insertPick.draftId), eq(draftPicks.isKeeper, true)));
+      const next = findNextOpenPick(
+        currentDraft.currentPick,
+        new Set(keeperSlots.map(pick => pick.pickNumber)),
+        currentDraft.draftOrder.length,
+        currentDraft.totalRounds
+      );
+      const nextRound = next ? next.nextRound : currentDraft.totalRounds + 1;
+      const nextPick = next ? next.nextPick : currentDraft.currentPick + 1;
       
       // Step 5: Update draft progress atomically
-      if (nextRound <= currentDraft.totalRounds) {
+      if (next) {
         await tx
           .update(drafts)
           .set({ 
@@ -491,6 +684,110 @@ export class DatabaseStorage implements IStorage {
     });
   }
 
+  // Record an auction sale: the round is the winner's next stable slot and the pick number the
+  // sale's place in the draft. The draft completes once every stable is full.
+  async createAuctionPickAtomic(insertPick: Omit<InsertDraftPick, 'round' | 'pickNumber'>): Promise<{ pick: DraftPick; completed: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [currentDraft] = await tx
+        .select()
+        .from(drafts)
+        .where(eq(drafts.id, insertPick.draftId))
+        .for('update');
+
+      if (!currentDraft) {
+        throw new Error('Draft not found');
+      }
+
+      if (currentDraft.status !== 'active') {
+        throw new Error('Draft is not active');
+      }
+
+      const existingPicks = await tx
+        .select({ userId: draftPicks.userId })
+        .from(draftPicks)
+        .where(eq(draftPicks.draftId, insertPick.draftId));
+
+      const memberPicks = existingPicks.filter(pick => pick.userId === insertPick.userId).length;
+      if (memberPicks >= currentDraft.totalRounds) {
+        throw new Error('Stable is already full');
+      }
+
+      const pickNumber = existingPicks.length + 1;
+      const [newPick] = await tx
+        .insert(draftPicks)
+        .values({
+          ...insertPick,
+          round: memberPicks + 1,
+          pickNumber
+        })
+        .returning();
+
+      const completed = pickNumber >= currentDraft.totalRounds * currentDraft.draftOrder.length;
+      if (completed) {
+        await tx
+          .update(drafts)
+          .set({
+            status: 'completed',
+            completedAt: new Date()
+          })
+          .where(eq(drafts.id, insertPick.draftId));
+      } else {
+        // currentPick counts nominations; currentRound is the nomination lap
+        await tx
+          .update(drafts)
+          .set({
+            currentRound: Math.floor(pickNumber / currentDraft.draftOrder.length) + 1,
+            currentPick: pickNumber + 1
+          })
+          .where(eq(drafts.id, insertPick.draftId));
+      }
+
+      return { pick: newPick, completed };
+    });
+  }
+
+  // Remove the most recent pick and rewind the draft to it - the team goes back on the board
+  async undoLastDraftPick(draftId: string): Promise<DraftPick> {
+    return await db.transaction(async (tx) => {
+      const [currentDraft] = await tx
+        .select()
+        .from(drafts)
+        .where(eq(drafts.id, draftId))
+        .for('update');
+
+      if (!currentDraft) {
+        throw new Error('Draft not found');
+      }
+
+      if (currentDraft.status !== 'active' && currentDraft.status !== 'paused') {
+        throw new Error('Only picks in a live or paused draft can be undone');
+      }
+
+      // Keepers were placed before the draft started and aren't picks anyone made
+      const [lastPick] = await tx
+        .select()
+        .from(draftPicks)
+        .where(and(eq(draftPicks.draftId, draftId), eq(draftPicks.isKeeper, false)))
+        .orderBy(desc(draftPicks.pickNumber))
+        .limit(1);
+
+      if (!lastPick) {
+        throw new Error('No picks to undo');
+      }
+
+      await tx.delete(draftPicks).where(eq(draftPicks.id, lastPick.id));
+      await tx
+        .update(drafts)
+        .set({
+          currentRound: lastPick.round,
+          currentPick: lastPick.pickNumber
+        })
+        .where(eq(drafts.id, draftId));
+
+      return lastPick;
+    });
+  }
+
   async getDraftPicks(draftId: string): Promise<Array<DraftPick & { user: User; nflTeam: NflTeam }>> {
     return await db.select({
       id: draftPicks.id,
@@ -501,6 +798,8 @@ export class DatabaseStorage implements IStorage {
       pickNumber: draftPicks.pickNumber,
       pickTime: draftPicks.pickTime,
       isAutoPick: draftPicks.isAutoPick,
+      isKeeper: draftPicks.isKeeper,
+      winningBid: draftPicks.winningBid,
       createdAt: draftPicks.createdAt,
       user: {
         id: users.id,
@@ -539,6 +838,8 @@ export class DatabaseStorage implements IStorage {
       pickNumber: draftPicks.pickNumber,
       pickTime: draftPicks.pickTime,
       isAutoPick: draftPicks.isAutoPick,
+      isKeeper: draftPicks.isKeeper,
+      winningBid: draftPicks.winningBid,
       createdAt: draftPicks.createdAt,
       nflTeam: {
         id: nflTeams.id,
@@ -560,6 +861,139 @@ export class DatabaseStorage implements IStorage {
     .orderBy(draftPicks.round);
   }
 
+  // Draft queue methods
+  async getLeagueKeepers(leagueId: string, season: number): Promise<Array<Keeper & { nflTeam: NflTeam }>> {
+    const rows = await db.select()
+      .from(keepers)
+      .innerJoin(nflTeams, eq(keepers.nflTeamId, nflTeams.id))
+      .where(and(eq(keepers.leagueId, leagueId), eq(keepers.season, season)))
+      .orderBy(keepers.userId, desc(keepers.roundCost));
+    return rows.map(row => ({ ...row.keepers, nflTeam: row.nfl_teams }));
+  }
+
+  // Replace a member's keepers for the season
+  async setUserKeepers(leagueId: string, userId: string, season: number, keeperTeams: Array<{ nflTeamId: string; roundCost: number }>): Promise<Keeper[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(keepers).where(and(
+        eq(keepers.leagueId, leagueId),
+        eq(keepers.userId, userId),
+        eq(keepers.season, season)
+      ));
+
+      if (keeperTeams.length === 0) return [];
+
+      return await tx.insert(keepers)
+        .values(keeperTeams.map(keeper => ({ leagueId, userId, season, ...keeper })))
+        .returning();
+    });
+  }
+
+  /**
+   * Starts a keeper season: fills the keepers' slots in the draft, puts the draft on its first
+   * open pick, and releases every team from last season's stables that wasn't kept
+   */
+  async applyKeepersToDraft(draftId: string, keeperPicks: InsertDraftPick[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [currentDraft] = await tx
+        .select()
+        .from(drafts)
+        .where(eq(drafts.id, draftId))
+        .for('update');
+
+      if (!currentDraft) {
+        throw new Error('Draft not found');
+      }
+
+      const existingPicks = await tx
+        .select({ pickNumber: draftPicks.pickNumber })
+        .from(draftPicks)
+        .where(eq(draftPicks.draftId, draftId));
+      if (existingPicks.length > 0) {
+        throw new Error('Keepers can only be placed before the first pick');
+      }
+
+      if (keeperPicks.length > 0) {
+        await tx.insert(draftPicks).values(keeperPicks);
+      }
+
+      const keptKeys = new Set(keeperPicks.map(pick => `${pick.userId}-${pick.nflTeamId}`));
+      const lastSeasonStables = await tx
+        .select({ id: stables.id, userId: stables.userId, nflTeamId: stables.nflTeamId })
+        .from(stables)
+        .where(eq(stables.leagueId, currentDraft.leagueId));
+      const releasedIds = lastSeasonStables
+        .filter(row => !keptKeys.has(`${row.userId}-${row.nflTeamId}`))
+        .map(row => row.id);
+      if (releasedIds.length > 0) {
+        await tx.delete(stables).where(inArray(stables.id, releasedIds));
+        await this.recordStableOwnership(
+          tx,
+          currentDraft.leagueId,
+          lastSeasonStables
+            .filter(row => releasedIds.includes(row.id))
+            .map(row => ({ nflTeamId: row.nflTeamId, fromUserId: row.userId, toUserId: null })),
+          getDraftSeason(currentDraft),
+          1
+        );
+      }
+
+      // Kept teams start the new season with their locks unused
+      const keptIds = lastSeasonStables
+        .filter(row => keptKeys.has(`${row.userId}-${row.nflTeamId}`))
+        .map(row => row.id);
+      if (keptIds.length > 0) {
+        await tx.update(stables)
+          .set({ locksUsed: 0, lockAndLoadUsed: false })
+          .where(inArray(stables.id, keptIds));
+      }
+
+      const first = findNextOpenPick(
+        0,
+        new Set(keeperPicks.map(pick => pick.pickNumber)),
+        currentDraft.draftOrder.length,
+        currentDraft.totalRounds
+      );
+      await tx
+        .update(drafts)
+        .set(first
+          ? { currentRound: first.nextRound, currentPick: first.nextPick }
+          : { status: 'completed', completedAt: new Date() })
+        .where(eq(drafts.id, draftId));
+    });
+  }
+
+  async getDraftQueue(draftId: string, userId: string): Promise<Array<DraftQueueEntry & { nflTeam: NflTeam }>> {
+    const rows = await db.select({ entry: draftQueueEntries, nflTeam: nflTeams })
+      .from(draftQueueEntries)
+      .innerJoin(nflTeams, eq(draftQueueEntries.nflTeamId, nflTeams.id))
+      .where(and(
+        eq(draftQueueEntries.draftId, draftId),
+        eq(draftQueueEntries.userId, userId)
+      ))
+      .orderBy(draftQueueEntries.rank);
+
+    return rows.map(row => ({ ...row.entry, nflTeam: row.nflTeam }));
+  }
+
+  // Replace a member's whole queue - the order of nflTeamIds is the new ranking
+  async setDraftQueue(draftId: string, userId: string, nflTeamIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(draftQueueEntries).where(and(
+        eq(draftQueueEntries.draftId, draftId),
+        eq(draftQueueEntries.userId, userId)
+      ));
+
+      if (nflTeamIds.length > 0) {
+        await tx.insert(draftQueueEntries).values(nflTeamIds.map((nflTeamId, i) => ({
+          draftId,
+          userId,
+          nflTeamId,
+          rank: i + 1
+        })));
+      }
+    });
+  }
+
   // User statistics methods
   async getAllUserDraftPicks(userId: string): Promise<Array<DraftPick & { nflTeam: NflTeam }>> {
     return await db.select({
@@ -571,6 +1005,8 @@ export class DatabaseStorage implements IStorage {
       pickNumber: draftPicks.pickNumber,
       pickTime: draftPicks.pickTime,
       isAutoPick: draftPicks.isAutoPick,
+      isKeeper: draftPicks.isKeeper,
+      winningBid: draftPicks.winningBid,
       createdAt: draftPicks.createdAt,
       nflTeam: {
         id: nflTeams.id,
@@ -593,11 +1029,18 @@ export class DatabaseStorage implements IStorage {
     return await db.select({
       id: drafts.id,
       leagueId: drafts.leagueId,
+      season: drafts.season,
       status: drafts.status,
       currentRound: drafts.currentRound,
       currentPick: drafts.currentPick,
       draftOrder: drafts.draftOrder,
+      orderMethod: drafts.orderMethod,
+      orderSeed: drafts.orderSeed,
+      orderSeason: drafts.orderSeason,
       pickTimeLimit: drafts.pickTimeLimit,
+      draftMode: drafts.draftMode,
+      draftFormat: drafts.draftFormat,
+      auctionBudget: drafts.auctionBudget,
       totalRounds: drafts.totalRounds,
       startedAt: drafts.startedAt,
       completedAt: drafts.completedAt,
@@ -609,7 +1052,8 @@ export class DatabaseStorage implements IStorage {
     .innerJoin(leagueMembers, eq(leagues.id, leagueMembers.leagueId))
     .where(and(
       eq(leagueMembers.userId, userId),
-      eq(drafts.status, 'completed')
+      eq(drafts.status, 'completed'),
+      eq(leagues.isMock, false)
     ))
     .orderBy(drafts.completedAt);
   }
@@ -628,7 +1072,8 @@ export class DatabaseStorage implements IStorage {
     .innerJoin(leagueMembers, eq(leagues.id, leagueMembers.leagueId))
     .where(and(
       eq(leagueMembers.userId, userId),
-      eq(drafts.status, 'completed')
+      eq(drafts.status, 'completed'),
+      eq(leagues.isMock, false)
     ))
     .orderBy(drafts.completedAt)
     .limit(limit);
@@ -671,6 +1116,16 @@ export class DatabaseStorage implements IStorage {
       ));
   }
 
+  async markDraftTimerReminderSent(draftId: string, userId: string): Promise<void> {
+    await db.update(draftTimers)
+      .set({ reminderSentAt: new Date() })
+      .where(and(
+        eq(draftTimers.draftId, draftId),
+        eq(draftTimers.userId, userId),
+        eq(draftTimers.isActive, true)
+      ));
+  }
+
   async getActiveDraftTimer(draftId: string): Promise<DraftTimer | undefined> {
     const [timer] = await db.select()
       .from(draftTimers)
@@ -1002,12 +1457,30 @@ export class DatabaseStorage implements IStorage {
   }
 
   async removeStableTeam(userId: string, leagueId: string, nflTeamId: string): Promise<void> {
-    await db.delete(stables)
-      .where(and(
-        eq(stables.userId, userId),
-        eq(stables.leagueId, leagueId),
-        eq(stables.nflTeamId, nflTeamId)
-      ));
+    const { season, week } = await this.getRosterMovePeriod();
+
+    await db.transaction(async (tx) => {
+      const removed = await tx.delete(stables)
+        .where(and(
+          eq(stables.userId, userId),
+          eq(stables.leagueId, leagueId),
+          eq(stables.nflTeamId, nflTeamId)
+        ))
+        .returning();
+
+      if (removed.length > 0) {
+        await this.recordStableOwnership(tx, leagueId, [{ nflTeamId, fromUserId: userId, toUserId: null }], season, week);
+        await tx.insert(rosterTransactions).values({
+          leagueId,
+          userId,
+          type: 'drop',
+          season,
+          week,
+          teamsIn: [],
+          teamsOut: [nflTeamId]
+        });
+      }
+    });
   }
 
   async updateStableLocks(userId: string, leagueId: string, nflTeamId: string, locksUsed: number): Promise<void> {
@@ -1069,7 +1542,38 @@ export class DatabaseStorage implements IStorage {
 
     // Insert new stable entries only
     if (newStableEntries.length > 0) {
-      await db.insert(stables).values(newStableEntries);
+      // Drafted teams belong to the season drafted for - from week 1 when that season hasn't started yet
+      const period = await this.getRosterMovePeriod();
+      const season = getDraftSeason(draft);
+      const week = season === period.season ? period.week : 1;
+
+      // One ledger entry per member covering all of their drafted teams
+      const teamsByUser = new Map<string, string[]>();
+      for (const entry of newStableEntries) {
+        teamsByUser.set(entry.userId, [...(teamsByUser.get(entry.userId) || []), entry.nflTeamId]);
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.insert(stables).values(newStableEntries);
+        await this.recordStableOwnership(
+          tx,
+          draft.leagueId,
+          newStableEntries.map(entry => ({ nflTeamId: entry.nflTeamId, fromUserId: null, toUserId: entry.userId, acquiredVia: 'draft' })),
+          season,
+          week
+        );
+        await tx.insert(rosterTransactions).values(
+          Array.from(teamsByUser.entries()).map(([userId, teamIds]) => ({
+            leagueId: draft.leagueId,
+            userId,
+            type: 'draft',
+            season,
+            week,
+            teamsIn: teamIds,
+            teamsOut: []
+          }))
+        );
+      });
       console.log(`✅ Successfully created ${newStableEntries.length} stable entries`);
     } else {
       console.log(`ℹ️ No new stable entries needed - all teams already in stable`);
@@ -1078,28 +1582,569 @@ export class DatabaseStorage implements IStorage {
 
   // Add free agent team to user's stable (for trading)
   async addFreeAgentToStable(userId: string, leagueId: string, nflTeamId: string): Promise<void> {
-    // Check if user already has this team
-    const existing = await db
-      .select()
-      .from(stables)
-      .where(
-        and(
+    const { season, week } = await this.getRosterMovePeriod();
+
+    await db.transaction(async (tx) => {
+      // Check if user already has this team
+      const existing = await tx
+        .select()
+        .from(stables)
+        .where(
+          and(
+            eq(stables.userId, userId),
+            eq(stables.leagueId, leagueId),
+            eq(stables.nflTeamId, nflTeamId)
+          )
+        );
+
+      if (existing.length > 0) {
+        throw new Error('User already owns this team');
+      }
+
+      await this.assertTeamIsFreeAgent(tx, leagueId, nflTeamId);
+      await this.assertRosterMoveAvailable(tx, userId, leagueId, season, week);
+
+      await tx.insert(stables).values({
+        userId,
+        leagueId,
+        nflTeamId,
+        acquiredVia: 'free_agent'
+      });
+      await this.recordStableOwnership(tx, leagueId, [{ nflTeamId, fromUserId: null, toUserId: userId, acquiredVia: 'free_agent' }], season, week);
+
+      await tx.insert(rosterTransactions).values({
+        leagueId,
+        userId,
+        type: 'add',
+        season,
+        week,
+        teamsIn: [nflTeamId],
+        teamsOut: []
+      });
+    });
+  }
+
+  /**
+   * Drop one owned team and claim a free agent in a single transaction,
+   * so the stable never ends up short a team or over the limit.
+   */
+  async claimFreeAgent(userId: string, leagueId: string, claimTeamId: string, dropTeamId: string): Promise<void> {
+    const { season, week } = await this.getRosterMovePeriod();
+
+    await db.transaction(async (tx) => {
+      await this.applyFreeAgentClaim(tx, userId, leagueId, claimTeamId, dropTeamId, season, week);
+    });
+  }
+
+  // Shared by direct claims and waiver awards: cap check, ownership checks, stable swap and ledger entry
+  private async applyFreeAgentClaim(tx: DbTransaction, userId: string, leagueId: string, claimTeamId: string, dropTeamId: string | null, season: number, week: number): Promise<void> {
+    await this.assertRosterMoveAvailable(tx, userId, leagueId, season, week);
+    await this.assertTeamIsFreeAgent(tx, leagueId, claimTeamId);
+
+    if (dropTeamId) {
+      const dropped = await tx.delete(stables)
+        .where(and(
           eq(stables.userId, userId),
           eq(stables.leagueId, leagueId),
-          eq(stables.nflTeamId, nflTeamId)
-        )
-      );
+          eq(stables.nflTeamId, dropTeamId)
+        ))
+        .returning();
 
-    if (existing.length > 0) {
-      throw new Error('User already owns this team');
+      if (dropped.length === 0) {
+        throw new Error('User does not own the team being dropped');
+      }
     }
 
-    await db.insert(stables).values({
+    await tx.insert(stables).values({
       userId,
       leagueId,
-      nflTeamId,
+      nflTeamId: claimTeamId,
       acquiredVia: 'free_agent'
     });
+    await this.recordStableOwnership(tx, leagueId, [
+      ...(dropTeamId ? [{ nflTeamId: dropTeamId, fromUserId: userId, toUserId: null }] : []),
+      { nflTeamId: claimTeamId, fromUserId: null, toUserId: userId, acquiredVia: 'free_agent' }
+    ], season, week);
+
+    await tx.insert(rosterTransactions).values({
+      leagueId,
+      userId,
+      type: 'add',
+      season,
+      week,
+      teamsIn: [claimTeamId],
+      teamsOut: dropTeamId ? [dropTeamId] : []
+    });
+  }
+
+  // Make sure no member of the league owns this team. The advisory lock serializes concurrent claims on the same team.
+  private async assertTeamIsFreeAgent(tx: DbTransaction, leagueId: string, nflTeamId: string): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`${leagueId}:${nflTeamId}`}))`);
+
+    const owners = await tx
+      .select({ userId: stables.userId })
+      .from(stables)
+      .where(and(
+        eq(stables.leagueId, leagueId),
+        eq(stables.nflTeamId, nflTeamId)
+      ));
+
+    if (owners.length > 0) {
+      throw new Error('Team is already owned by a league member');
+    }
+  }
+
+  // Season/week a roster move counts against - the week the current trade window leads into
+  private async getRosterMovePeriod(): Promise<{ season: number; week: number }> {
+    const { season, week } = await tradeWindowService.getTradeWindowStatus();
+    return { season, week };
+  }
+
+  /**
+   * Keep the ownership history in step with a stable change: each team's open row is closed and
+   * a new one opened for the member taking it (none when it goes back to free agency). Teams owned
+   * since before history was kept get a backfilled row for the previous owner so their earlier
+   * weeks stay credited to them. Drafted teams are owned from the season's first kickoff, so a
+   * stable set up after games have been played still gets those games.
+   */
+  private async recordStableOwnership(
+    tx: DbTransaction,
+    leagueId: string,
+    changes: Array<{ nflTeamId: string; fromUserId: string | null; toUserId: string | null; acquiredVia?: string }>,
+    season: number,
+    week: number
+  ): Promise<void> {
+    if (changes.length === 0) return;
+
+    // Stamped with the league clock so history lines up with game kickoffs in the 2024 test season too
+    const { now } = await tradeWindowService.getTradeWindowStatus(season);
+    const [firstGame] = await tx
+      .select({ gameDate: nflGames.gameDate })
+      .from(nflGames)
+      .where(eq(nflGames.season, season))
+      .orderBy(nflGames.gameDate)
+      .limit(1);
+    const draftedAt = firstGame && firstGame.gameDate < now ? firstGame.gameDate : now;
+
+    const openRows: StableOwnership[] = await tx
+      .select()
+      .from(stableOwnership)
+      .where(and(
+        eq(stableOwnership.leagueId, leagueId),
+        inArray(stableOwnership.nflTeamId, changes.map(change => change.nflTeamId)),
+        isNull(stableOwnership.releasedAt)
+      ));
+
+    if (openRows.length > 0) {
+      await tx.update(stableOwnership)
+        .set({ releasedSeason: season, releasedWeek: week, releasedAt: now })
+        .where(inArray(stableOwnership.id, openRows.map(row => row.id)));
+    }
+
+    const openTeamIds = new Set(openRows.map(row => row.nflTeamId));
+    const rows = [
+      ...changes
+        .filter(change => change.fromUserId && !openTeamIds.has(change.nflTeamId))
+        .map(change => ({
+          leagueId,
+          nflTeamId: change.nflTeamId,
+          userId: change.fromUserId!,
+          acquiredVia: 'draft',
+          acquiredSeason: season,
+          acquiredWeek: 1,
+          acquiredAt: new Date(0),
+          releasedSeason: season,
+          releasedWeek: week,
+          releasedAt: now
+        })),
+      ...changes
+        .filter(change => change.toUserId)
+        .map(change => ({
+          leagueId,
+          nflTeamId: change.nflTeamId,
+          userId: change.toUserId!,
+          acquiredVia: change.acquiredVia ?? 'draft',
+          acquiredSeason: season,
+          acquiredWeek: week,
+          acquiredAt: (change.acquiredVia ?? 'draft') === 'draft' ? draftedAt : now
+        }))
+    ];
+
+    if (rows.length > 0) {
+      await tx.insert(stableOwnership).values(rows);
+    }
+  }
+
+  // Enforce the weekly roster move cap inside an open transaction
+  private async assertRosterMoveAvailable(tx: DbTransaction, userId: string, leagueId: string, season: number, week: number): Promise<void> {
+    // Lock the member's stable rows so concurrent moves by the same member are serialized
+    await tx
+      .select({ id: stables.id })
+      .from(stables)
+      .where(and(eq(stables.userId, userId), eq(stables.leagueId, leagueId)))
+      .for('update');
+
+    const moveCount = await this.countRosterMoves(tx, userId, leagueId, season, week);
+    if (moveCount >= MAX_ROSTER_MOVES_PER_WEEK) {
+      throw new Error(`Weekly roster move limit reached for Week ${week}`);
+    }
+  }
+
+  private async countRosterMoves(executor: DbTransaction | typeof db, userId: string, leagueId: string, season: number, week: number): Promise<number> {
+    const [result] = await executor
+      .select({ count: sql<number>`count(*)::int` })
+      .from(rosterTransactions)
+      .where(and(
+        eq(rosterTransactions.userId, userId),
+        eq(rosterTransactions.leagueId, leagueId),
+        eq(rosterTransactions.season, season),
+        eq(rosterTransactions.week, week),
+        inArray(rosterTransactions.type, COUNTED_ROSTER_MOVE_TYPES)
+      ));
+    return result?.count || 0;
+  }
+
+  async getLeagueRosterTransactions(leagueId: string, season: number): Promise<RosterTransaction[]> {
+    return await db.select()
+      .from(rosterTransactions)
+      .where(and(
+        eq(rosterTransactions.leagueId, leagueId),
+        eq(rosterTransactions.season, season)
+      ))
+      .orderBy(desc(rosterTransactions.createdAt));
+  }
+
+  async getWeeklyRosterMoveCount(userId: string, leagueId: string, season: number, week: number): Promise<number> {
+    return await this.countRosterMoves(db, userId, leagueId, season, week);
+  }
+
+  // NFL teams not in any member's stable for this league
+  async getLeagueFreeAgents(leagueId: string): Promise<NflTeam[]> {
+    const ownedTeams = await db.select({ nflTeamId: stables.nflTeamId })
+      .from(stables)
+      .where(eq(stables.leagueId, leagueId));
+
+    const ownedIds = ownedTeams.map(s => s.nflTeamId);
+
+    if (ownedIds.length === 0) {
+      return await this.getAllNflTeams();
+    }
+
+    return await db.select()
+      .from(nflTeams)
+      .where(notInArray(nflTeams.id, ownedIds))
+      .orderBy(nflTeams.code);
+  }
+
+  // Waiver claim methods implementation
+  async createWaiverClaim(claim: InsertWaiverClaim): Promise<WaiverClaim> {
+    const [newClaim] = await db
+      .insert(waiverClaims)
+      .values(claim)
+      .returning();
+    return newClaim;
+  }
+
+  async getWaiverClaim(claimId: string): Promise<WaiverClaim | undefined> {
+    const [claim] = await db.select().from(waiverClaims).where(eq(waiverClaims.id, claimId));
+    return claim || undefined;
+  }
+
+  async getUserWaiverClaims(userId: string, leagueId: string, season: number): Promise<WaiverClaim[]> {
+    return await db.select()
+      .from(waiverClaims)
+      .where(and(
+        eq(waiverClaims.userId, userId),
+        eq(waiverClaims.leagueId, leagueId),
+        eq(waiverClaims.season, season)
+      ))
+      .orderBy(desc(waiverClaims.createdAt));
+  }
+
+  // Pending claims across all leagues, oldest first so each member's preference order is preserved
+  async getPendingWaiverClaims(season: number): Promise<WaiverClaim[]> {
+    return await db.select()
+      .from(waiverClaims)
+      .where(and(
+        eq(waiverClaims.season, season),
+        eq(waiverClaims.status, 'pending')
+      ))
+      .orderBy(waiverClaims.createdAt);
+  }
+
+  async closeWaiverClaim(claimId: string, status: 'lost' | 'cancelled', details: { priority?: number; failureReason?: string } = {}): Promise<WaiverClaim> {
+    const [updated] = await db.update(waiverClaims)
+      .set({ status, processedAt: new Date(), ...details })
+      .where(and(
+        eq(waiverClaims.id, claimId),
+        eq(waiverClaims.status, 'pending')
+      ))
+      .returning();
+
+    if (!updated) {
+      throw new Error('Waiver claim is no longer pending');
+    }
+    return updated;
+  }
+
+  // Award a waiver claim - applies the roster move for the claim's week and marks it won
+  async awardWaiverClaim(claimId: string, priority: number): Promise<WaiverClaim> {
+    return await db.transaction(async (tx) => {
+      const [claim] = await tx
+        .select()
+        .from(waiverClaims)
+        .where(eq(waiverClaims.id, claimId))
+        .for('update');
+
+      if (!claim) {
+        throw new Error('Waiver claim not found');
+      }
+
+      if (claim.status !== 'pending') {
+        throw new Error('Waiver claim is no longer pending');
+      }
+
+      await this.applyFreeAgentClaim(tx, claim.userId, claim.leagueId, claim.claimTeamId, claim.dropTeamId, claim.season, claim.week);
+
+      const [won] = await tx.update(waiverClaims)
+        .set({ status: 'won', priority, processedAt: new Date() })
+        .where(eq(waiverClaims.id, claimId))
+        .returning();
+
+      return won;
+    });
+  }
+
+  // A league's stored waiver order, first priority first - empty until the season's first waiver run
+  async getWaiverPriority(leagueId: string, season: number): Promise<string[]> {
+    const rows = await db.select({ userId: waiverPriorities.userId })
+      .from(waiverPriorities)
+      .where(and(
+        eq(waiverPriorities.leagueId, leagueId),
+        eq(waiverPriorities.season, season)
+      ))
+      .orderBy(waiverPriorities.priority);
+    return rows.map(row => row.userId);
+  }
+
+  // Replace a league's waiver order for the season with the given user IDs, first priority first
+  async setWaiverPriority(leagueId: string, season: number, userIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(waiverPriorities).where(and(
+        eq(waiverPriorities.leagueId, leagueId),
+        eq(waiverPriorities.season, season)
+      ));
+
+      if (userIds.length > 0) {
+        await tx.insert(waiverPriorities).values(
+          userIds.map((userId, index) => ({ leagueId, season, userId, priority: index + 1 }))
+        );
+      }
+    });
+  }
+
+  // Get every stable row in a league (all members' teams)
+  async getLeagueStables(leagueId: string): Promise<Array<Stable & { nflTeam: NflTeam }>> {
+    return await db.select({
+      id: stables.id,
+      userId: stables.userId,
+      leagueId: stables.leagueId,
+      nflTeamId: stables.nflTeamId,
+      acquiredVia: stables.acquiredVia,
+      acquiredAt: stables.acquiredAt,
+      locksUsed: stables.locksUsed,
+      lockAndLoadUsed: stables.lockAndLoadUsed,
+      createdAt: stables.createdAt,
+      nflTeam: {
+        id: nflTeams.id,
+        code: nflTeams.code,
+        name: nflTeams.name,
+        city: nflTeams.city,
+        conference: nflTeams.conference,
+        division: nflTeams.division,
+        logoUrl: nflTeams.logoUrl,
+        createdAt: nflTeams.createdAt
+      }
+    })
+    .from(stables)
+    .innerJoin(nflTeams, eq(stables.nflTeamId, nflTeams.id))
+    .where(eq(stables.leagueId, leagueId))
+    .orderBy(stables.acquiredAt);
+  }
+
+  // Trade proposal methods implementation
+  async createTradeProposal(proposal: InsertTradeProposal): Promise<TradeProposal> {
+    const [newProposal] = await db
+      .insert(tradeProposals)
+      .values(proposal)
+      .returning();
+    return newProposal;
+  }
+
+  async getTradeProposal(proposalId: string): Promise<TradeProposal | undefined> {
+    const [proposal] = await db.select().from(tradeProposals).where(eq(tradeProposals.id, proposalId));
+    return proposal || undefined;
+  }
+
+  async getUserTradeProposals(userId: string, leagueId: string): Promise<TradeProposal[]> {
+    return await db.select()
+      .from(tradeProposals)
+      .where(and(
+        eq(tradeProposals.leagueId, leagueId),
+        or(
+          eq(tradeProposals.proposerId, userId),
+          eq(tradeProposals.recipientId, userId)
+        )
+      ))
+      .orderBy(desc(tradeProposals.createdAt));
+  }
+
+  async updateTradeProposalStatus(proposalId: string, status: 'rejected' | 'cancelled'): Promise<TradeProposal> {
+    // Only pending proposals can be closed out - the status check makes this safe against a concurrent accept
+    const [updated] = await db.update(tradeProposals)
+      .set({ status, respondedAt: new Date() })
+      .where(and(
+        eq(tradeProposals.id, proposalId),
+        eq(tradeProposals.status, 'pending')
+      ))
+      .returning();
+
+    if (!updated) {
+      throw new Error('Trade proposal is no longer pending');
+    }
+    return updated;
+  }
+
+  async counterTradeProposal(proposalId: string, counter: InsertTradeProposal): Promise<TradeProposal> {
+    return await db.transaction(async (tx) => {
+      const [original] = await tx
+        .select()
+        .from(tradeProposals)
+        .where(eq(tradeProposals.id, proposalId))
+        .for('update');
+
+      if (!original) {
+        throw new Error('Trade proposal not found');
+      }
+
+      if (original.status !== 'pending') {
+        throw new Error('Trade proposal is no longer pending');
+      }
+
+      await tx.update(tradeProposals)
+        .set({ status: 'countered', respondedAt: new Date() })
+        .where(eq(tradeProposals.id, proposalId));
+
+      const [newProposal] = await tx
+        .insert(tradeProposals)
+        .values({ ...counter, counterOfId: proposalId })
+        .returning();
+
+      return newProposal;
+    });
+  }
+
+  /**
+   * Accept a trade: swap the stable rows between both members in one transaction.
+   * Rows are re-assigned rather than re-created so locksUsed/lockAndLoadUsed travel with each team.
+   */
+  async acceptTradeProposal(proposalId: string): Promise<TradeProposal> {
+    const { season, week } = await this.getRosterMovePeriod();
+
+    return await db.transaction(async (tx) => {
+      // Lock the proposal so it can only be accepted once
+      const [proposal] = await tx
+        .select()
+        .from(tradeProposals)
+        .where(eq(tradeProposals.id, proposalId))
+        .for('update');
+
+      if (!proposal) {
+        throw new Error('Trade proposal not found');
+      }
+
+      if (proposal.status !== 'pending') {
+        throw new Error('Trade proposal is no longer pending');
+      }
+
+      // Lock every stable row involved and re-verify ownership at accept time
+      const teamIds = [...proposal.offeredTeamIds, ...proposal.requestedTeamIds];
+      const rows = await tx
+        .select()
+        .from(stables)
+        .where(and(
+          eq(stables.leagueId, proposal.leagueId),
+          inArray(stables.nflTeamId, teamIds)
+        ))
+        .for('update');
+
+      const ownerByTeam = new Map(rows.map(row => [row.nflTeamId, row.userId]));
+
+      if (proposal.offeredTeamIds.some(teamId => ownerByTeam.get(teamId) !== proposal.proposerId)) {
+        throw new Error('Proposer no longer owns all offered teams');
+      }
+
+      if (proposal.requestedTeamIds.some(teamId => ownerByTeam.get(teamId) !== proposal.recipientId)) {
+        throw new Error('Recipient no longer owns all requested teams');
+      }
+
+      // A trade uses up the weekly roster move for both members
+      await this.assertRosterMoveAvailable(tx, proposal.proposerId, proposal.leagueId, season, week);
+      await this.assertRosterMoveAvailable(tx, proposal.recipientId, proposal.leagueId, season, week);
+
+      const acquiredAt = new Date();
+
+      await tx.update(stables)
+        .set({ userId: proposal.recipientId, acquiredVia: 'trade', acquiredAt })
+        .where(and(
+          eq(stables.leagueId, proposal.leagueId),
+          inArray(stables.nflTeamId, proposal.offeredTeamIds)
+        ));
+
+      await tx.update(stables)
+        .set({ userId: proposal.proposerId, acquiredVia: 'trade', acquiredAt })
+        .where(and(
+          eq(stables.leagueId, proposal.leagueId),
+          inArray(stables.nflTeamId, proposal.requestedTeamIds)
+        ));
+
+      await this.recordStableOwnership(tx, proposal.leagueId, [
+        ...proposal.offeredTeamIds.map(nflTeamId => ({ nflTeamId, fromUserId: proposal.proposerId, toUserId: proposal.recipientId, acquiredVia: 'trade' })),
+        ...proposal.requestedTeamIds.map(nflTeamId => ({ nflTeamId, fromUserId: proposal.recipientId, toUserId: proposal.proposerId, acquiredVia: 'trade' }))
+      ], season, week);
+
+      await tx.insert(rosterTransactions).values([
+        {
+          leagueId: proposal.leagueId,
+          userId: proposal.proposerId,
+          type: 'trade',
+          season,
+          week,
+          teamsIn: proposal.requestedTeamIds,
+          teamsOut: proposal.offeredTeamIds,
+          counterpartId: proposal.recipientId,
+          tradeProposalId: proposal.id
+        },
+        {
+          leagueId: proposal.leagueId,
+          userId: proposal.recipientId,
+          type: 'trade',
+          season,
+          week,
+          teamsIn: proposal.offeredTeamIds,
+          teamsOut: proposal.requestedTeamIds,
+          counterpartId: proposal.proposerId,
+          tradeProposalId: proposal.id
+        }
+      ]);
+
+      const [accepted] = await tx.update(tradeProposals)
+        .set({ status: 'accepted', respondedAt: acquiredAt })
+        .where(eq(tradeProposals.id, proposalId))
+        .returning();
+
+      return accepted;
+    });
   }
 
   // Get all active timers for recovery after restart
@@ -1184,6 +2229,228 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // How many times a member has locked / Lock & Loaded a team this season
+  async getTeamLockUsage(userId: string, leagueId: string, nflTeamId: string, season: number, excludeWeek?: number): Promise<{ locks: number; lockAndLoads: number }> {
+    const [usage] = await db.select({
+      locks: sql<number>`COUNT(*) FILTER (WHERE ${weeklyLocks.lockedTeamId} = ${nflTeamId})::int`,
+      lockAndLoads: sql<number>`COUNT(*) FILTER (WHERE ${weeklyLocks.lockAndLoadTeamId} = ${nflTeamId})::int`
+    })
+    .from(weeklyLocks)
+    .where(and(
+      eq(weeklyLocks.userId, userId),
+      eq(weeklyLocks.leagueId, leagueId),
+      eq(weeklyLocks.season, season),
+      excludeWeek !== undefined ? sql`${weeklyLocks.week} <> ${excludeWeek}` : undefined
+    ));
+
+    return { locks: usage?.locks || 0, lockAndLoads: usage?.lockAndLoads || 0 };
+  }
+
+  async saveLeagueScoringRules(leagueId: string, rules: Omit<LeagueScoringRules, 'leagueId' | 'updatedBy' | 'createdAt' | 'updatedAt'>, updatedBy: string): Promise<LeagueScoringRules> {
+    const [saved] = await db.insert(leagueScoringRules)
+      .values({ ...rules, leagueId, updatedBy })
+      .onConflictDoUpdate({
+        target: leagueScoringRules.leagueId,
+        set: { ...rules, updatedBy, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  // Creators are always commissioners; co-commissioners are marked by their membership role
+  async isLeagueCommissioner(userId: string, leagueId: string): Promise<boolean> {
+    const [league] = await db.select({ creatorId: leagues.creatorId }).from(leagues).where(eq(leagues.id, leagueId));
+    if (!league) return false;
+    if (league.creatorId === userId) return true;
+
+    const [membership] = await db.select({ role: leagueMembers.role })
+      .from(leagueMembers)
+      .where(and(eq(leagueMembers.leagueId, leagueId), eq(leagueMembers.userId, userId)));
+    return membership?.role === 'commissioner';
+  }
+
+  /**
+   * Add (or subtract) points from a member's weekly total. The adjustment is kept in its own
+   * column so re-scoring the week from game results doesn't wipe it out.
+   */
+  async adjustWeeklyPoints(leagueId: string, userId: string, season: number, week: number, pointsDelta: number, commissionerId: string, reason: string): Promise<CommissionerAction> {
+    return await db.transaction(async (tx) => {
+      await tx.insert(userWeeklyScores)
+        .values({
+          userId,
+          leagueId,
+          season,
+          week,
+          commissionerAdjustmentPoints: pointsDelta,
+          totalPoints: pointsDelta
+        })
+        .onConflictDoUpdate({
+          target: [userWeeklyScores.userId, userWeeklyScores.leagueId, userWeeklyScores.season, userWeeklyScores.week],
+          set: {
+            commissionerAdjustmentPoints: sql`${userWeeklyScores.commissionerAdjustmentPoints} + ${pointsDelta}`,
+            totalPoints: sql`${userWeeklyScores.totalPoints} + ${pointsDelta}`,
+            updatedAt: new Date()
+          }
+        });
+
+      const [action] = await tx.insert(commissionerActions).values({
+        leagueId,
+        commissionerId,
+        action: 'adjust_points',
+        targetUserId: userId,
+        season,
+        week,
+        pointsDelta,
+        details: `${pointsDelta > 0 ? '+' : ''}${pointsDelta} points in Week ${week}`,
+        reason
+      }).returning();
+
+      return action;
+    });
+  }
+
+  /**
+   * Move a team from one stable to another. Lock usage travels with the stable row, and the
+   * move is recorded in the roster ledger without counting against either member's weekly cap.
+   */
+  async reassignStableTeam(leagueId: string, nflTeamId: string, toUserId: string, season: number, week: number, commissionerId: string, reason: string): Promise<CommissionerAction> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .select()
+        .from(stables)
+        .where(and(eq(stables.leagueId, leagueId), eq(stables.nflTeamId, nflTeamId)))
+        .for('update');
+
+      if (!row) {
+        throw new Error('Team is not on a stable in this league');
+      }
+
+      if (row.userId === toUserId) {
+        throw new Error('Team is already on that member\'s stable');
+      }
+
+      const [team] = await tx.select({ code: nflTeams.code }).from(nflTeams).where(eq(nflTeams.id, nflTeamId));
+
+      await tx.update(stables)
+        .set({ userId: toUserId, acquiredVia: 'commissioner', acquiredAt: new Date() })
+        .where(eq(stables.id, row.id));
+      await this.recordStableOwnership(tx, leagueId, [{ nflTeamId, fromUserId: row.userId, toUserId, acquiredVia: 'commissioner' }], season, week);
+
+      await tx.insert(rosterTransactions).values([
+        { leagueId, userId: row.userId, type: 'commissioner', season, week, teamsIn: [], teamsOut: [nflTeamId], counterpartId: toUserId },
+        { leagueId, userId: toUserId, type: 'commissioner', season, week, teamsIn: [nflTeamId], teamsOut: [], counterpartId: row.userId }
+      ]);
+
+      const [action] = await tx.insert(commissionerActions).values({
+        leagueId,
+        commissionerId,
+        action: 'reassign_team',
+        targetUserId: row.userId,
+        counterpartId: toUserId,
+        nflTeamId,
+        season,
+        week,
+        details: `Moved ${team?.code || 'team'} to another stable from Week ${week}`,
+        reason
+      }).returning();
+
+      return action;
+    });
+  }
+
+  /**
+   * Remove a member's lock (or Lock & Load) for a week. Any bonus already scored for it is taken
+   * back out of the weekly total, and the team's season lock allowance is freed up again.
+   */
+  async voidWeeklyLock(leagueId: string, userId: string, season: number, week: number, lockType: 'lock' | 'lockAndLoad', commissionerId: string, reason: string): Promise<CommissionerAction> {
+    return await db.transaction(async (tx) => {
+      const weekFilter = (table: typeof weeklyLocks | typeof userWeeklyScores) => and(
+        eq(table.userId, userId),
+        eq(table.leagueId, leagueId),
+        eq(table.season, season),
+        eq(table.week, week)
+      );
+
+      const [lock] = await tx.select().from(weeklyLocks).where(weekFilter(weeklyLocks)).for('update');
+      const nflTeamId = lockType === 'lock' ? lock?.lockedTeamId : lock?.lockAndLoadTeamId;
+
+      if (!lock || !nflTeamId) {
+        throw new Error(`No ${lockType === 'lock' ? 'lock' : 'Lock & Load'} to void for Week ${week}`);
+      }
+
+      const [score] = await tx.select().from(userWeeklyScores).where(weekFilter(userWeeklyScores)).for('update');
+      const scoredBonus = score ? (lockType === 'lock' ? score.lockBonusPoints : score.lockAndLoadBonusPoints) : 0;
+      const pointsDelta = -scoredBonus;
+
+      await tx.update(weeklyLocks)
+        .set({
+          ...(lockType === 'lock' ? { lockedTeamId: null } : { lockAndLoadTeamId: null }),
+          lockPoints: lock.lockPoints + pointsDelta,
+          updatedAt: new Date()
+        })
+        .where(eq(weeklyLocks.id, lock.id));
+
+      if (score && scoredBonus !== 0) {
+        await tx.update(userWeeklyScores)
+          .set({
+            ...(lockType === 'lock' ? { lockBonusPoints: 0 } : { lockAndLoadBonusPoints: 0 }),
+            totalPoints: score.totalPoints + pointsDelta,
+            updatedAt: new Date()
+          })
+          .where(eq(userWeeklyScores.id, score.id));
+      }
+
+      const [team] = await tx.select({ code: nflTeams.code }).from(nflTeams).where(eq(nflTeams.id, nflTeamId));
+
+      const [action] = await tx.insert(commissionerActions).values({
+        leagueId,
+        commissionerId,
+        action: 'void_lock',
+        targetUserId: userId,
+        nflTeamId,
+        season,
+        week,
+        pointsDelta,
+        details: `Voided Week ${week} ${lockType === 'lock' ? 'lock' : 'Lock & Load'} on ${team?.code || 'team'}`,
+        reason
+      }).returning();
+
+      return action;
+    });
+  }
+
+  async getLeagueCommissionerActions(leagueId: string, season: number): Promise<Array<CommissionerAction & { commissionerName: string; targetUserName: string; counterpartName: string | null; nflTeamCode: string | null }>> {
+    const commissioner = alias(users, 'commissioner');
+    const target = alias(users, 'target');
+    const counterpart = alias(users, 'counterpart');
+
+    const rows = await db.select({
+      action: commissionerActions,
+      commissionerName: commissioner.name,
+      targetUserName: target.name,
+      counterpartName: counterpart.name,
+      nflTeamCode: nflTeams.code
+    })
+    .from(commissionerActions)
+    .innerJoin(commissioner, eq(commissionerActions.commissionerId, commissioner.id))
+    .innerJoin(target, eq(commissionerActions.targetUserId, target.id))
+    .leftJoin(counterpart, eq(commissionerActions.counterpartId, counterpart.id))
+    .leftJoin(nflTeams, eq(commissionerActions.nflTeamId, nflTeams.id))
+    .where(and(
+      eq(commissionerActions.leagueId, leagueId),
+      eq(commissionerActions.season, season)
+    ))
+    .orderBy(desc(commissionerActions.createdAt));
+
+    return rows.map(row => ({
+      ...row.action,
+      commissionerName: row.commissionerName,
+      targetUserName: row.targetUserName,
+      counterpartName: row.counterpartName,
+      nflTeamCode: row.nflTeamCode
+    }));
+  }
+
   // NFL Game methods for opponent data
   async getTeamUpcomingGame(teamCode: string, week: number): Promise<{ homeTeam: string; awayTeam: string; gameDate: string; gameTime: string; spread?: number } | null> {
     try {
@@ -1275,6 +2542,36 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Win-loss-tie records from completed games, keyed by NFL team ID
+  async getTeamRecords(season: number): Promise<Record<string, { wins: number; losses: number; ties: number }>> {
+    const completedGames = await db.select({
+      homeTeamId: nflGames.homeTeamId,
+      awayTeamId: nflGames.awayTeamId,
+      winnerTeamId: nflGames.winnerTeamId,
+      isTie: nflGames.isTie
+    })
+    .from(nflGames)
+    .where(and(
+      eq(nflGames.season, season),
+      eq(nflGames.isCompleted, true)
+    ));
+
+    const records: Record<string, { wins: number; losses: number; ties: number }> = {};
+    for (const game of completedGames) {
+      for (const teamId of [game.homeTeamId, game.awayTeamId]) {
+        const record = records[teamId] || (records[teamId] = { wins: 0, losses: 0, ties: 0 });
+        if (game.isTie) {
+          record.ties++;
+        } else if (game.winnerTeamId === teamId) {
+          record.wins++;
+        } else {
+          record.losses++;
+        }
+      }
+    }
+    return records;
+  }
+
   async getTeamByCode(teamCode: string): Promise<NflTeam | null> {
     try {
       const [team] = await db.select().from(nflTeams).where(eq(nflTeams.code, teamCode));
@@ -3,12 +3,24 @@
  * 
  * Creates and manages robot users for testing draft functionality:
  * - Creates 4 robot accounts automatically
- * - Handles auto-drafting for robots
+ * - Handles auto-drafting for robots, each with its own strategy (see robotStrategies.ts)
  * - Simulates realistic pick timing
  */
 
 import { IStorage } from "../storage.js";
-import type { User } from "../../shared/schema.js";
+import type { Draft, NflTeam, User } from "../../shared/schema.js";
+import { rankTeamsForRobot, getRobotStrategyNames, type RobotProfile } from "./robotStrategies.js";
+import { getProjectedWins, getProjectedWinShare, getScheduleStrength } from "../utils/teamProjections.js";
+import { getDraftSeason } from "../draft/keepers.js";
+
+// Drafting personalities - a spread of strategies, from disciplined to erratic
+const DEFAULT_ROBOT_PROFILES: Record<string, RobotProfile> = {
+  'Alpha Bot': { strategy: 'best_available', randomness: 0.1 },
+  'Beta Bot': { strategy: 'division_balanced', randomness: 0.2 },
+  'Gamma Bot': { strategy: 'schedule_aware', randomness: 0.15 },
+  'Delta Bot': { strategy: 'best_available', randomness: 0.6 },
+  'Echo Bot': { strategy: 'division_balanced', randomness: 0.35 }
+};
 
 export interface RobotUser {
   id: string;
@@ -20,6 +32,7 @@ export interface RobotUser {
 export class RobotManager {
   private storage: IStorage;
   private robotUsers: RobotUser[] = [];
+  private profiles: Map<string, RobotProfile> = new Map(); // Keyed by robot name
 
   constructor(storage: IStorage) {
     this.storage = storage;
@@ -159,42 +172,66 @@ export class RobotManager {
   }
 
   /**
-   * Get robot preference for team selection
-   * Robots have slight preferences for certain divisions/conferences
+   * Get a robot's drafting strategy and randomness
    */
-  getRobotTeamPreference(robotId: string, availableTeams: any[]): any[] {
+  getRobotProfile(robotId: string): RobotProfile | undefined {
     const robot = this.robotUsers.find(r => r.id === robotId);
-    if (!robot) return availableTeams;
-
-    // Each robot has different preferences
-    switch (robot.name) {
-      case 'Alpha Bot':
-        // Prefers AFC teams
-        return availableTeams.sort((a, b) => 
-          a.conference === 'AFC' ? -1 : (b.conference === 'AFC' ? 1 : 0)
-        );
-      
-      case 'Beta Bot':
-        // Prefers NFC teams
-        return availableTeams.sort((a, b) => 
-          a.conference === 'NFC' ? -1 : (b.conference === 'NFC' ? 1 : 0)
-        );
-      
-      case 'Gamma Bot':
-        // Prefers teams alphabetically
-        return availableTeams.sort((a, b) => a.name.localeCompare(b.name));
-      
-      case 'Delta Bot':
-        // Random preference (no sorting)
-        return this.shuffleArray([...availableTeams]);
-      
-      case 'Echo Bot':
-        // Prefers teams by reverse alphabetical order
-        return availableTeams.sort((a, b) => b.name.localeCompare(a.name));
-      
-      default:
-        return availableTeams;
+    if (!robot) return undefined;
+    return this.profiles.get(robot.name) ?? DEFAULT_ROBOT_PROFILES[robot.name];
+  }
+
+  /**
+   * Change how a robot drafts, e.g. to make test drafts more or less predictable
+   */
+  setRobotProfile(robotId: string, profile: RobotProfile): void {
+    const robot = this.robotUsers.find(r => r.id === robotId);
+    if (!robot) throw new Error('Robot not found');
+    if (!getRobotStrategyNames().includes(profile.strategy)) {
+      throw new Error(`Unknown robot strategy: ${profile.strategy}`);
     }
+    this.profiles.set(robot.name, profile);
+  }
+
+  /**
+   * Start loading the season's projections while the draft counts down, so the first robot
+   * pick doesn't wait on a full pass over the betting lines
+   */
+  warmProjections(draft: Draft): void {
+    const season = getDraftSeason(draft);
+    Promise.all([
+      getProjectedWins(this.storage, season),
+      getScheduleStrength(this.storage, season)
+    ]).catch(error => {
+      console.warn(`[RobotManager] Failed to load ${season} projections for draft ${draft.id}:`, error);
+    });
+  }
+
+  /**
+   * Get robot preference for team selection: the available teams ranked by the robot's
+   * strategy, using this season's projected wins and strength of schedule
+   */
+  async getRobotTeamPreference(robotId: string, availableTeams: NflTeam[], draft: Draft): Promise<NflTeam[]> {
+    const profile = this.getRobotProfile(robotId);
+    if (!profile) return this.shuffleArray(availableTeams);
+
+    const season = getDraftSeason(draft);
+    const [picks, projections, scheduleStrength] = await Promise.all([
+      this.storage.getDraftPicks(draft.id),
+      getProjectedWins(this.storage, season),
+      getScheduleStrength(this.storage, season)
+    ]);
+
+    const winShare: Record<string, number> = {};
+    for (const team of availableTeams) {
+      winShare[team.id] = getProjectedWinShare(projections, team.id);
+    }
+
+    return rankTeamsForRobot(profile, {
+      availableTeams,
+      robotTeams: picks.filter(pick => pick.userId === robotId).map(pick => pick.nflTeam),
+      winShare,
+      scheduleStrength
+    });
   }
 
   private shuffleArray<T>(array: T[]): T[] {
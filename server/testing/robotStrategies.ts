@@ -0,0 +1,81 @@
+/**
+ * Robot Drafting Strategies
+ *
+ * Each strategy scores the teams on the board for one robot; the robot takes the highest score.
+ * Scores are on a win-share scale (roughly 0-1), so a robot's randomness factor adds noise
+ * of a comparable size: 0 drafts strictly by the strategy, 1 is close to picking at random.
+ * New strategies plug in with registerRobotStrategy.
+ */
+
+import type { NflTeam } from "../../shared/schema.js";
+
+export interface RobotDraftContext {
+  availableTeams: NflTeam[];
+  robotTeams: NflTeam[]; // Already in the robot's stable
+  winShare: Record<string, number>; // Projected share of games won per NFL team ID, 0-1
+  scheduleStrength: Record<string, number>; // Average opponent win share per NFL team ID, 0.5 is neutral
+}
+
+export type RobotStrategy = (team: NflTeam, context: RobotDraftContext) => number;
+
+export interface RobotProfile {
+  strategy: string;
+  randomness: number; // 0-1
+}
+
+// A whole division already held costs about as much as a .150 drop in win share
+const DIVISION_REPEAT_PENALTY = 0.15;
+const CONFERENCE_IMBALANCE_PENALTY = 0.03;
+const SCHEDULE_WEIGHT = 0.6;
+
+function winShareOf(team: NflTeam, context: RobotDraftContext): number {
+  return context.winShare[team.id] ?? 0.5;
+}
+
+const strategies = new Map<string, RobotStrategy>([
+  // Best available: the highest projected win total on the board
+  ['best_available', (team, context) => winShareOf(team, context)],
+
+  // Division balanced: wins still matter, but doubling up a division or leaning on one conference costs
+  ['division_balanced', (team, context) => {
+    const sameDivision = context.robotTeams.filter(held =>
+      held.conference === team.conference && held.division === team.division
+    ).length;
+    const sameConference = context.robotTeams.filter(held => held.conference === team.conference).length;
+    const otherConference = context.robotTeams.length - sameConference;
+
+    return winShareOf(team, context)
+      - sameDivision * DIVISION_REPEAT_PENALTY
+      - Math.max(0, sameConference - otherConference) * CONFERENCE_IMBALANCE_PENALTY;
+  }],
+
+  // Schedule aware: favors teams with soft schedules, since weekly points come from actual wins
+  ['schedule_aware', (team, context) => {
+    const strength = context.scheduleStrength[team.id] ?? 0.5;
+    return winShareOf(team, context) + (0.5 - strength) * SCHEDULE_WEIGHT;
+  }],
+]);
+
+export function registerRobotStrategy(name: string, strategy: RobotStrategy): void {
+  strategies.set(name, strategy);
+}
+
+export function getRobotStrategyNames(): string[] {
+  return Array.from(strategies.keys());
+}
+
+/**
+ * Available teams in the order the robot wants them, best first
+ */
+export function rankTeamsForRobot(profile: RobotProfile, context: RobotDraftContext): NflTeam[] {
+  const strategy = strategies.get(profile.strategy) ?? strategies.get('best_available')!;
+  const randomness = Math.min(1, Math.max(0, profile.randomness));
+
+  return context.availableTeams
+    .map(team => ({
+      team,
+      score: strategy(team, context) + (Math.random() - 0.5) * randomness
+    }))
+    .sort((a, b) => b.score - a.score || a.team.code.localeCompare(b.team.code))
+    .map(({ team }) => team);
+}
@@ -0,0 +1,151 @@
+// Post-draft recap: the pick board, each member's division spread and a projected strength
+// for every stable, plus a plain-text summary members can paste into a group chat
+
+import type { NflTeam } from "@shared/schema";
+import type { IStorage } from "../storage";
+import { getProjectedWins, type ProjectionSource } from "./teamProjections";
+import { getDraftSeason } from "../draft/keepers";
+
+export interface DraftRecapPick {
+  pickNumber: number;
+  round: number;
+  userId: string;
+  userName: string;
+  team: Pick<NflTeam, 'id' | 'code' | 'name' | 'city' | 'conference' | 'division' | 'logoUrl'>;
+  isAutoPick: boolean;
+  isKeeper: boolean;
+  winningBid: number | null; // Auction drafts only
+  projectedWins: number | null;
+}
+
+export interface DraftRecapMember {
+  userId: string;
+  name: string;
+  draftPosition: number;
+  teamCodes: string[];
+  autoPicks: number;
+  divisionSpread: Array<{ division: string; count: number }>; // Most-held division first
+  projectedWins: number | null;
+  strengthRank: number | null; // 1 = strongest projected stable
+}
+
+export interface DraftRecap {
+  draftId: string;
+  leagueId: string;
+  leagueName: string;
+  season: number;
+  completedAt: Date | null;
+  totalRounds: number;
+  projectionSource: ProjectionSource | null; // null when neither odds nor last season's results exist
+  picks: DraftRecapPick[];
+  members: DraftRecapMember[];
+  summary: string;
+}
+
+function roundWins(wins: number): number {
+  return Math.round(wins * 10) / 10;
+}
+
+function buildSummary(recap: Omit<DraftRecap, 'summary'>): string {
+  const lines = [`${recap.leagueName} draft recap (${recap.season})`, ''];
+
+  const ranked = [...recap.members].sort((a, b) =>
+    (a.strengthRank ?? Infinity) - (b.strengthRank ?? Infinity) || a.draftPosition - b.draftPosition
+  );
+  for (const member of ranked) {
+    const projection = member.projectedWins !== null ? ` - ${member.projectedWins} proj. wins` : '';
+    const rank = member.strengthRank !== null ? `${member.strengthRank}. ` : '';
+    lines.push(`${rank}${member.name}: ${member.teamCodes.join(', ')}${projection}`);
+  }
+
+  const autoPicks = recap.picks.filter(pick => pick.isAutoPick).length;
+  if (autoPicks > 0) {
+    lines.push('', `${autoPicks} of ${recap.picks.length} picks were made on auto-pick`);
+  }
+
+  return lines.join('\n');
+}
+
+export async function buildDraftRecap(storage: IStorage, draftId: string): Promise<DraftRecap | null> {
+  const draft = await storage.getDraft(draftId);
+  if (!draft) return null;
+
+  const [league, draftPicks] = await Promise.all([
+    storage.getLeague(draft.leagueId),
+    storage.getDraftPicks(draftId)
+  ]);
+
+  const season = getDraftSeason(draft);
+  const projection = await getProjectedWins(storage, season);
+  const projectedWinsFor = (teamId: string) =>
+    projection.source && projection.wins[teamId] !== undefined ? roundWins(projection.wins[teamId]) : null;
+
+  const names = new Map((league?.members || []).map(member => [member.id, member.name]));
+
+  const picks: DraftRecapPick[] = draftPicks.map(pick => ({
+    pickNumber: pick.pickNumber,
+    round: pick.round,
+    userId: pick.userId,
+    userName: names.get(pick.userId) || pick.user?.name || 'Unknown',
+    team: {
+      id: pick.nflTeam.id,
+      code: pick.nflTeam.code,
+      name: pick.nflTeam.name,
+      city: pick.nflTeam.city,
+      conference: pick.nflTeam.conference,
+      division: pick.nflTeam.division,
+      logoUrl: pick.nflTeam.logoUrl
+    },
+    isAutoPick: pick.isAutoPick,
+    isKeeper: pick.isKeeper,
+    winningBid: pick.winningBid,
+    projectedWins: projectedWinsFor(pick.nflTeamId)
+  }));
+
+  const members: DraftRecapMember[] = draft.draftOrder.map((userId, index) => {
+    const memberPicks = picks.filter(pick => pick.userId === userId);
+
+    const spread = new Map<string, number>();
+    for (const pick of memberPicks) {
+      const division = `${pick.team.conference} ${pick.team.division}`;
+      spread.set(division, (spread.get(division) || 0) + 1);
+    }
+
+    const hasProjection = memberPicks.length > 0 && memberPicks.every(pick => pick.projectedWins !== null);
+
+    return {
+      userId,
+      name: names.get(userId) || memberPicks[0]?.userName || 'Unknown',
+      draftPosition: index + 1,
+      teamCodes: memberPicks.map(pick => pick.team.code),
+      autoPicks: memberPicks.filter(pick => pick.isAutoPick).length,
+      divisionSpread: Array.from(spread.entries())
+        .map(([division, count]) => ({ division, count }))
+        .sort((a, b) => b.count - a.count || a.division.localeCompare(b.division)),
+      projectedWins: hasProjection
+        ? roundWins(memberPicks.reduce((total, pick) => total + pick.projectedWins!, 0))
+        : null,
+      strengthRank: null
+    };
+  });
+
+  // Rank stables by projected wins; members without a projection stay unranked
+  [...members]
+    .filter(member => member.projectedWins !== null)
+    .sort((a, b) => b.projectedWins! - a.projectedWins!)
+    .forEach((member, index) => { member.strengthRank = index + 1; });
+
+  const recap = {
+    draftId,
+    leagueId: draft.leagueId,
+    leagueName: league?.name || 'League',
+    season,
+    completedAt: draft.completedAt,
+    totalRounds: draft.totalRounds,
+    projectionSource: projection.source,
+    picks,
+    members
+  };
+
+  return { ...recap, summary: buildSummary(recap) };
+}
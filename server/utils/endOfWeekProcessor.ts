@@ -8,11 +8,13 @@ import {
   nflTeams, 
   userWeeklyScores, 
   weeklySkins, 
-  draftPicks,
-  drafts,
   leagues,
-  users 
+  users,
+  weekProcessingRuns,
+  type WeekProcessingRun
 } from "@shared/schema.js";
+import { calculateWeeklyHighLowPoints, getWeeklyHighLow } from "@shared/utils/scoring";
+import { getTeamOwnerLookup } from "./stableOwnership.js";
 
 export interface WeekEndResults {
   highScoreTeams: Array<{
@@ -38,8 +40,12 @@ export interface WeekEndResults {
     reason: string;
     nextWeekPrize: number;
   };
+  inProgress?: boolean; // Another worker holds this league's run - nothing was processed
 }
 
+// A run still marked running after this long is assumed to have died with its process
+const STALE_RUN_MS = 15 * 60 * 1000;
+
 export class EndOfWeekProcessor {
   
   // Check if a week is complete (all games finished)
@@ -72,35 +78,89 @@ export class EndOfWeekProcessor {
   async processEndOfWeek(season: number, week: number, leagueId: string, currentSimulatedDate?: Date): Promise<WeekEndResults> {
     console.log(`[EndOfWeek] Processing end of week ${week} for season ${season}, league ${leagueId}`);
     
-    // CRITICAL: Check if bonuses have already been calculated for this week to prevent daily duplicates
-    const existingBonuses = await db.select({
-      userId: userWeeklyScores.userId,
-      highBonus: userWeeklyScores.weeklyHighBonusPoints,
-      lowPenalty: userWeeklyScores.weeklyLowPenaltyPoints
-    })
-      .from(userWeeklyScores)
-      .where(and(
-        eq(userWeeklyScores.season, season),
-        eq(userWeeklyScores.week, week),
-        sql`(${userWeeklyScores.weeklyHighBonusPoints} > 0 OR ${userWeeklyScores.weeklyLowPenaltyPoints} < 0)`
-      ));
+    // First, verify week is actually complete
+    const weekComplete = await this.isWeekComplete(season, week, currentSimulatedDate);
+    if (!weekComplete) {
+      throw new Error(`Cannot process end of week - Week ${week} is not yet complete`);
+    }
 
-    if (existingBonuses.length > 0) {
-      console.log(`[EndOfWeek] ⚠️  Week ${week} bonuses already calculated for ${existingBonuses.length} users - skipping to prevent daily duplicates`);
-      console.log(`[EndOfWeek] This prevents bonuses from being added multiple times after the last game completes`);
-      console.log(`[EndOfWeek] High/low bonuses should only be added ONCE after the final game of the week (typically Monday Night)`);
+    // Each league's week is processed once; a completed run hands back what it recorded
+    const run = await this.claimRun(season, week, leagueId);
+    if (!run.claimed) {
+      if (run.record.status === 'completed' && run.record.results) {
+        console.log(`[EndOfWeek] Week ${week} already processed for league ${leagueId} - returning recorded results`);
+        return run.record.results as WeekEndResults;
+      }
+      console.log(`[EndOfWeek] ⚠️  Week ${week} is already being processed for league ${leagueId} - skipping`);
       return {
         highScoreTeams: [],
         lowScoreTeams: [],
-        weeklySkinsWinner: undefined
+        weeklySkinsWinner: undefined,
+        inProgress: true
       };
     }
-    
-    // First, verify week is actually complete
-    const weekComplete = await this.isWeekComplete(season, week, currentSimulatedDate);
-    if (!weekComplete) {
-      throw new Error(`Cannot process end of week - Week ${week} is not yet complete`);
+
+    try {
+      const results = await this.runEndOfWeek(season, week, leagueId);
+
+      await db.update(weekProcessingRuns)
+        .set({ status: 'completed', completedAt: new Date(), error: null, results, updatedAt: new Date() })
+        .where(eq(weekProcessingRuns.id, run.record.id));
+
+      return results;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[EndOfWeek] ❌ Week ${week} failed for league ${leagueId}:`, message);
+
+      await db.update(weekProcessingRuns)
+        .set({ status: 'failed', error: message, updatedAt: new Date() })
+        .where(eq(weekProcessingRuns.id, run.record.id));
+
+      throw error;
     }
+  }
+
+  /**
+   * Take the league's run for a week. A new week starts a run, a failed or stale one is retried;
+   * anything else (completed, or running elsewhere) comes back unclaimed.
+   */
+  private async claimRun(season: number, week: number, leagueId: string): Promise<{ claimed: boolean; record: WeekProcessingRun }> {
+    const staleBefore = new Date(Date.now() - STALE_RUN_MS);
+
+    const [claimed] = await db.insert(weekProcessingRuns)
+      .values({ leagueId, season, week })
+      .onConflictDoUpdate({
+        target: [weekProcessingRuns.leagueId, weekProcessingRuns.season, weekProcessingRuns.week],
+        set: {
+          status: 'running',
+          attempts: sql`${weekProcessingRuns.attempts} + 1`,
+          startedAt: new Date(),
+          completedAt: null,
+          error: null,
+          updatedAt: new Date()
+        },
+        setWhere: sql`${weekProcessingRuns.status} = 'failed' OR (${weekProcessingRuns.status} = 'running' AND ${weekProcessingRuns.startedAt} < ${staleBefore})`
+      })
+      .returning();
+
+    if (claimed) return { claimed: true, record: claimed };
+
+    const [existing] = await db.select().from(weekProcessingRuns).where(and(
+      eq(weekProcessingRuns.leagueId, leagueId),
+      eq(weekProcessingRuns.season, season),
+      eq(weekProcessingRuns.week, week)
+    ));
+    return { claimed: false, record: existing };
+  }
+
+  // The processing itself - safe to run again after a failure part way through
+  private async runEndOfWeek(season: number, week: number, leagueId: string): Promise<WeekEndResults> {
+    // Score the finished week first - the rows may be missing (nobody opened the league) or written
+    // before the last game went final, and the bonuses and skins are worked out from them
+    const { calculateWeeklyScores } = await import("./mokScoring.js");
+    const scoredFrom = new Date();
+    await calculateWeeklyScores(leagueId, week, season);
+    await this.verifyWeekScores(season, week, leagueId, scoredFrom);
 
     // Get all completed games for this week with scores
     const weekGames = await db.select({
@@ -109,6 +169,7 @@ export class EndOfWeekProcessor {
       awayTeamId: nflGames.awayTeamId,
       homeScore: nflGames.homeScore,
       awayScore: nflGames.awayScore,
+      gameDate: nflGames.gameDate,
       homeTeamCode: nflTeams.code,
       homeTeamName: nflTeams.name,
       awayTeamCode: nflTeams.code,
@@ -133,7 +194,8 @@ export class EndOfWeekProcessor {
     console.log(`[EndOfWeek] High score teams:`, highScoreTeams.map(t => `${t.teamCode} (${t.score})`));
     console.log(`[EndOfWeek] Low score teams:`, lowScoreTeams.map(t => `${t.teamCode} (${t.score})`));
 
-    // Apply high/low score bonuses to users who own these teams
+    // Clear anything an earlier attempt applied, then apply high/low score bonuses to users who own these teams
+    await this.clearHighLowScoreBonuses(season, week, leagueId);
     await this.applyHighLowScoreBonuses(season, week, leagueId, highScoreTeams, lowScoreTeams);
 
     // Process weekly skins award
@@ -147,8 +209,29 @@ export class EndOfWeekProcessor {
     };
   }
 
+  // A run only completes over a scored week - with no rows, or rows the re-score didn't reach, it
+  // fails so the scheduler retries it instead of recording empty results as finished
+  private async verifyWeekScores(season: number, week: number, leagueId: string, scoredFrom: Date): Promise<void> {
+    const rows = await db.select({ userId: userWeeklyScores.userId, updatedAt: userWeeklyScores.updatedAt })
+      .from(userWeeklyScores)
+      .where(and(
+        eq(userWeeklyScores.leagueId, leagueId),
+        eq(userWeeklyScores.season, season),
+        eq(userWeeklyScores.week, week)
+      ));
+
+    if (rows.length === 0) {
+      throw new Error(`No scores recorded for Week ${week} - nothing to award bonuses or skins from`);
+    }
+
+    const stale = rows.filter(row => row.updatedAt < scoredFrom);
+    if (stale.length > 0) {
+      throw new Error(`${stale.length} member score(s) for Week ${week} are older than the week's final results`);
+    }
+  }
+
   // Calculate individual team scores from all games
-  private async calculateTeamScores(weekGames: any[]): Promise<Map<string, { teamId: string; teamCode: string; teamName: string; score: number }>> {
+  private async calculateTeamScores(weekGames: any[]): Promise<Map<string, { teamId: string; teamCode: string; teamName: string; score: number; kickoff: Date }>> {
     const teamScores = new Map();
 
     for (const game of weekGames) {
@@ -161,7 +244,8 @@ export class EndOfWeekProcessor {
           teamId: game.homeTeamId,
           teamCode: homeTeam[0].code,
           teamName: homeTeam[0].name,
-          score: game.homeScore || 0
+          score: game.homeScore || 0,
+          kickoff: game.gameDate
         });
       }
 
@@ -170,7 +254,8 @@ export class EndOfWeekProcessor {
           teamId: game.awayTeamId,
           teamCode: awayTeam[0].code,
           teamName: awayTeam[0].name,
-          score: game.awayScore || 0
+          score: game.awayScore || 0,
+          kickoff: game.gameDate
         });
       }
     }
@@ -187,16 +272,31 @@ export class EndOfWeekProcessor {
     }
 
     // Find highest and lowest scores
-    const maxScore = Math.max(...scores.map(t => t.score));
-    const minScore = Math.min(...scores.map(t => t.score));
+    const { highScore, lowScore } = getWeeklyHighLow(scores.map(t => t.score))!;
 
-    const highScoreTeams = scores.filter(t => t.score === maxScore);
-    const lowScoreTeams = scores.filter(t => t.score === minScore);
+    const highScoreTeams = scores.filter(t => t.score === highScore);
+    const lowScoreTeams = scores.filter(t => t.score === lowScore);
 
     return { highScoreTeams, lowScoreTeams };
   }
 
-  // Apply +1 for high score teams and -1 for low score teams
+  // Take back any weekly high/low points already on the league's week so they're only counted once
+  private async clearHighLowScoreBonuses(season: number, week: number, leagueId: string): Promise<void> {
+    await db.update(userWeeklyScores)
+      .set({
+        totalPoints: sql`${userWeeklyScores.totalPoints} - ${userWeeklyScores.weeklyHighBonusPoints} - ${userWeeklyScores.weeklyLowPenaltyPoints}`,
+        weeklyHighBonusPoints: 0,
+        weeklyLowPenaltyPoints: 0,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(userWeeklyScores.leagueId, leagueId),
+        eq(userWeeklyScores.season, season),
+        eq(userWeeklyScores.week, week)
+      ));
+  }
+
+  // Apply the league's weekly high bonus (+1) and weekly low penalty (-1)
   private async applyHighLowScoreBonuses(
     season: number, 
     week: number, 
@@ -205,41 +305,41 @@ export class EndOfWeekProcessor {
     lowScoreTeams: any[]
   ): Promise<void> {
     console.log(`[EndOfWeek] Applying high/low score bonuses for week ${week}`);
+    const { getLeagueScoringRules } = await import("./mokScoring.js");
+    const rules = await getLeagueScoringRules(leagueId);
+
+    const ownerAt = await getTeamOwnerLookup(leagueId);
+    const highPoints = calculateWeeklyHighLowPoints(true, false, rules);
+    const lowPoints = calculateWeeklyHighLowPoints(false, true, rules);
 
-    // Apply +1 bonus for users owning high-scoring teams
-    for (const team of highScoreTeams) {
-      await this.applyTeamBonus(season, week, leagueId, team.teamId, 1, 'weekly_high');
+    // Apply bonus for users owning high-scoring teams
+    if (highPoints !== 0) {
+      for (const team of highScoreTeams) {
+        await this.applyTeamBonus(season, week, leagueId, team.teamId, ownerAt(team.teamId, team.kickoff), highPoints, 'weekly_high');
+      }
     }
 
-    // Apply -1 penalty for users owning low-scoring teams  
-    for (const team of lowScoreTeams) {
-      await this.applyTeamBonus(season, week, leagueId, team.teamId, -1, 'weekly_low');
+    // Apply penalty for users owning low-scoring teams (leagues can turn it off with a 0 penalty)
+    if (lowPoints !== 0) {
+      for (const team of lowScoreTeams) {
+        await this.applyTeamBonus(season, week, leagueId, team.teamId, ownerAt(team.teamId, team.kickoff), lowPoints, 'weekly_low');
+      }
     }
   }
 
-  // Apply bonus/penalty to users who own a specific team
+  // Apply bonus/penalty to the member who owned a specific team when it kicked off
   private async applyTeamBonus(
     season: number,
     week: number, 
     leagueId: string,
     teamId: string,
+    ownerId: string | null,
     bonusPoints: number,
     reason: string
   ): Promise<void> {
-    // Find users who own this team in this league  
-    const teamOwners = await db.select({
-      userId: draftPicks.userId,
-      userName: users.name
-    })
-    .from(draftPicks)
-    .innerJoin(users, eq(draftPicks.userId, users.id))
-    .innerJoin(drafts, eq(draftPicks.draftId, drafts.id))
-    .where(
-      and(
-        eq(draftPicks.nflTeamId, teamId),
-        eq(drafts.leagueId, leagueId)
-      )
-    );
+    const teamOwners = ownerId
+      ? await db.select({ userId: users.id, userName: users.name }).from(users).where(eq(users.id, ownerId))
+      : [];
 
     console.log(`[EndOfWeek] Applying ${bonusPoints} ${reason} bonus to ${teamOwners.length} users for team ${teamId}`);
 
@@ -481,7 +581,7 @@ export class EndOfWeekProcessor {
         lockAndLoadBonusPoints: 0,
         weeklyHighBonusPoints: 0,
         weeklyLowPenaltyPoints: 0,
-        totalPoints: 0,
+        totalPoints: userWeeklyScores.commissionerAdjustmentPoints, // Commissioner corrections are kept
         updatedAt: new Date()
       })
       .where(
@@ -0,0 +1,136 @@
+// Automatic end-of-week processing for Mok Sports
+// Once a week's final game goes final, every active league gets its week scored and its high/low
+// bonuses and skins awarded without anyone pressing a button. Run records in week_processing_runs keep it to once per league.
+
+import { db } from "../db.js";
+import { and, eq, inArray } from "drizzle-orm";
+import { leagues, nflGames, weekProcessingRuns } from "@shared/schema.js";
+import { endOfWeekProcessor } from "./endOfWeekProcessor.js";
+import { tradeWindowService } from "./tradeWindow.js";
+
+// How often the background check looks for weeks whose final game has gone final
+const END_OF_WEEK_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+// Failed runs are retried on later checks up to this many attempts, then left for the admin panel
+const MAX_AUTOMATIC_ATTEMPTS = 3;
+
+export interface ScheduledWeekResult {
+  leagueId: string;
+  season: number;
+  week: number;
+  status: 'processed' | 'skipped' | 'failed'; // Skipped when another worker is already processing the week
+  error?: string;
+}
+
+export class EndOfWeekScheduler {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  start(): void {
+    if (this.checkInterval) return;
+
+    console.log('[EndOfWeekScheduler] Starting end-of-week check');
+    this.checkInterval = setInterval(() => {
+      this.processCompletedWeeks().catch(error => {
+        console.error('[EndOfWeekScheduler] Scheduled end-of-week check failed:', error);
+      });
+    }, END_OF_WEEK_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Process every complete week that an active league hasn't finished yet.
+   * Weeks that ended while the server was down are picked up on the next check, and a run left
+   * "running" by a crash is taken over once it goes stale.
+   */
+  async processCompletedWeeks(): Promise<ScheduledWeekResult[]> {
+    if (this.isProcessing) {
+      console.log('[EndOfWeekScheduler] Check already in progress - skipping');
+      return [];
+    }
+
+    this.isProcessing = true;
+    try {
+      // League clock - the simulated admin date for the 2024 test season, real time otherwise
+      const { season, now } = await tradeWindowService.getTradeWindowStatus();
+
+      // Only weeks whose last game has kicked off can be complete
+      const games = await db.select({ week: nflGames.week, gameDate: nflGames.gameDate })
+        .from(nflGames)
+        .where(eq(nflGames.season, season));
+
+      const lastKickoffs = new Map<number, Date>();
+      for (const game of games) {
+        const kickoff = new Date(game.gameDate);
+        const latest = lastKickoffs.get(game.week);
+        if (!latest || kickoff > latest) lastKickoffs.set(game.week, kickoff);
+      }
+      const playedWeeks = Array.from(lastKickoffs.entries())
+        .filter(([, lastKickoff]) => lastKickoff <= now)
+        .map(([week]) => week)
+        .sort((a, b) => a - b);
+
+      if (playedWeeks.length === 0) return [];
+
+      const activeLeagues = await db.select({ id: leagues.id, name: leagues.name })
+        .from(leagues)
+        .where(eq(leagues.isActive, true));
+
+      if (activeLeagues.length === 0) return [];
+
+      const runs = await db.select({
+        leagueId: weekProcessingRuns.leagueId,
+        week: weekProcessingRuns.week,
+        status: weekProcessingRuns.status,
+        attempts: weekProcessingRuns.attempts
+      })
+        .from(weekProcessingRuns)
+        .where(and(
+          eq(weekProcessingRuns.season, season),
+          inArray(weekProcessingRuns.leagueId, activeLeagues.map(league => league.id))
+        ));
+      const runsByLeagueWeek = new Map(runs.map(run => [`${run.leagueId}:${run.week}`, run]));
+
+      const results: ScheduledWeekResult[] = [];
+
+      for (const week of playedWeeks) {
+        const pendingLeagues = activeLeagues.filter(league => {
+          const run = runsByLeagueWeek.get(`${league.id}:${week}`);
+          if (!run) return true;
+          if (run.status === 'running') return true; // Claimed again only if stale
+          return run.status === 'failed' && run.attempts < MAX_AUTOMATIC_ATTEMPTS;
+        });
+
+        if (pendingLeagues.length === 0) continue;
+        if (!(await endOfWeekProcessor.isWeekComplete(season, week, now))) continue;
+
+        console.log(`[EndOfWeekScheduler] Week ${week} is final - processing ${pendingLeagues.length} league(s)`);
+
+        // One league failing doesn't hold up the rest; its run is marked failed for a later retry
+        for (const league of pendingLeagues) {
+          try {
+            const weekResults = await endOfWeekProcessor.processEndOfWeek(season, week, league.id, now);
+            results.push({ leagueId: league.id, season, week, status: weekResults.inProgress ? 'skipped' : 'processed' });
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[EndOfWeekScheduler] Week ${week} failed for league ${league.name} (${league.id}):`, message);
+            results.push({ leagueId: league.id, season, week, status: 'failed', error: message });
+          }
+        }
+      }
+
+      return results;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const endOfWeekScheduler = new EndOfWeekScheduler();
@@ -1,5 +1,14 @@
 // Mock scoring system for Mok Sports
 // This creates realistic team performance data for testing
+// Points come from the shared scoring engine so mock data scores exactly like real weeks
+
+import {
+  calculateGamePoints,
+  calculateWeeklyHighLowPoints,
+  getGameOutcome,
+  MOK_SCORING_RULES,
+  type MokScoringRules
+} from "@shared/utils/scoring";
 
 export interface TeamScore {
   teamCode: string;
@@ -9,8 +18,8 @@ export interface TeamScore {
   ties: number;
   points: number; // Final score in game
   opponentPoints: number;
-  isBlowout: boolean; // Won by 20+ points
-  isShutout: boolean; // Held opponent to 0 points
+  isBlowout: boolean; // Won by the blowout margin
+  isShutout: boolean; // Won holding the opponent to 0 points
   weeklyHigh: boolean; // Highest score this week
   weeklyLow: boolean; // Lowest score this week
   mokPoints: number; // Total Mok Sports points for this performance
@@ -26,20 +35,9 @@ export interface WeeklyStats {
 }
 
 // Mock scoring calculation based on Mok Sports rules
-export function calculateMokPoints(score: TeamScore, weekStats: WeeklyStats): number {
-  let mokPoints = 0;
-  
-  // Base points for wins/ties
-  mokPoints += score.wins * 1; // +1 for wins
-  mokPoints += score.ties * 0.5; // +0.5 for ties
-  
-  // Bonus points
-  if (score.isBlowout) mokPoints += 1; // +1 for blowout win (20+ points)
-  if (score.isShutout) mokPoints += 1; // +1 for shutout defense
-  if (score.weeklyHigh) mokPoints += 1; // +1 for weekly high score
-  if (score.weeklyLow) mokPoints -= 1; // -1 for weekly low score
-  
-  return mokPoints;
+export function calculateMokPoints(score: TeamScore, rules: MokScoringRules = MOK_SCORING_RULES): number {
+  const outcome = getGameOutcome(score.points, score.opponentPoints, rules);
+  return calculateGamePoints(outcome, rules) + calculateWeeklyHighLowPoints(score.weeklyHigh, score.weeklyLow, rules);
 }
 
 // Generate realistic NFL scores for a week
@@ -96,28 +94,27 @@ export function generateWeeklyScores(teams: string[], week: number): TeamScore[]
   
   // Convert game results to TeamScore format
   for (const result of gameResults) {
-    const isBlowout = result.won && (result.points - result.opponentPoints) >= 20;
-    const isShutout = result.won && result.opponentPoints === 0;
+    const outcome = getGameOutcome(result.points, result.opponentPoints);
     const weeklyHigh = result.points === weekStats.highestScore;
     const weeklyLow = result.points === weekStats.lowestScore;
     
     const teamScore: TeamScore = {
       teamCode: result.teamCode,
       week,
-      wins: result.won ? 1 : 0,
-      losses: !result.won ? 1 : 0,
-      ties: 0, // Simplified - no ties for now
+      wins: outcome.isWin ? 1 : 0,
+      losses: outcome.isLoss ? 1 : 0,
+      ties: outcome.isTie ? 1 : 0,
       points: result.points,
       opponentPoints: result.opponentPoints,
-      isBlowout,
-      isShutout,
+      isBlowout: outcome.isBlowout,
+      isShutout: outcome.isShutout,
       weeklyHigh,
       weeklyLow,
       mokPoints: 0 // Will be calculated below
     };
     
     // Calculate Mok points
-    teamScore.mokPoints = calculateMokPoints(teamScore, weekStats);
+    teamScore.mokPoints = calculateMokPoints(teamScore);
     scores.push(teamScore);
   }
   
@@ -155,11 +152,8 @@ export function generateSeasonStats(teamCode: string, currentWeek: number): {
     // Generate a single team's performance (simplified)
     const points = Math.floor(Math.random() * 35) + 10;
     const opponentPoints = Math.floor(Math.random() * 35) + 10;
-    const won = points > opponentPoints;
-    const tie = points === opponentPoints;
-    
-    const isBlowout = won && (points - opponentPoints) >= 14;
-    const isShutout = won && opponentPoints === 0;
+    const outcome = getGameOutcome(points, opponentPoints);
+    const { isBlowout, isShutout } = outcome;
     // Simplified: ~15% chance of weekly high/low
     const weeklyHigh = Math.random() < 0.15;
     const weeklyLow = Math.random() < 0.15;
@@ -167,9 +161,9 @@ export function generateSeasonStats(teamCode: string, currentWeek: number): {
     const teamScore: TeamScore = {
       teamCode,
       week,
-      wins: won ? 1 : 0,
-      losses: tie ? 0 : (won ? 0 : 1),
-      ties: tie ? 1 : 0,
+      wins: outcome.isWin ? 1 : 0,
+      losses: outcome.isLoss ? 1 : 0,
+      ties: outcome.isTie ? 1 : 0,
       points,
       opponentPoints,
       isBlowout,
@@ -180,14 +174,7 @@ export function generateSeasonStats(teamCode: string, currentWeek: number): {
     };
     
     // Calculate Mok points (simplified without full week context)
-    let mokPoints = 0;
-    mokPoints += teamScore.wins * 1;
-    mokPoints += teamScore.ties * 0.5;
-    if (isBlowout) mokPoints += 1;
-    if (isShutout) mokPoints += 1;
-    if (weeklyHigh) mokPoints += 1;
-    if (weeklyLow) mokPoints -= 1;
-    
+    const mokPoints = calculateMokPoints(teamScore);
     teamScore.mokPoints = mokPoints;
     weeklyBreakdown.push(teamScore);
     
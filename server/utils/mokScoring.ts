@@ -2,62 +2,51 @@
 // Calculates points from actual NFL game results
 
 import { db } from "../db";
-import { nflGames, nflTeams, weeklyLocks, userWeeklyScores, draftPicks, stables } from "@shared/schema";
+import { nflGames, nflTeams, weeklyLocks, userWeeklyScores, draftPicks, stables, leagueScoringRules } from "@shared/schema";
 import { eq, and, sql } from "drizzle-orm";
 import { alias } from "drizzle-orm/pg-core";
+import {
+  MOK_SCORING_RULES,
+  getGameOutcome,
+  getWeeklyHighLow,
+  scoreTeamGame,
+  type GameOutcome,
+  type MokScoringRules
+} from "@shared/utils/scoring";
+import { getTeamOwnerLookup } from "./stableOwnership.js";
 
-export interface MokScoringRules {
-  // Base scoring
-  winPoints: number;     // +1 for wins
-  tiePoints: number;     // +0.5 for ties
-  lossPoints: number;    // 0 for losses
-  
-  // Bonus scoring  
-  blowoutPoints: number;   // +1 for winning by 20+ points
-  shutoutPoints: number;   // +1 for holding opponent to 0 points
-  weeklyHighPoints: number; // +1 for highest scoring team of the week
-  weeklyLowPenalty: number; // -1 for lowest scoring team of the week
-  
-  // Lock system
-  lockBonusPoints: number;      // +1 additional when locking a team
-  lockAndLoadWinPoints: number; // +2 for Lock & Load win
-  lockAndLoadLossPenalty: number; // -1 for Lock & Load loss
-  
-  // Usage limits
-  maxLocksPerTeamPerSeason: number; // 4 times max per team
-  maxLockAndLoadPerTeamPerSeason: number; // 1 time max per team
-}
+// Load a league's scoring rules - leagues that never customized them play by the official rules
+export async function getLeagueScoringRules(leagueId: string): Promise<MokScoringRules> {
+  const [row] = await db.select().from(leagueScoringRules).where(eq(leagueScoringRules.leagueId, leagueId));
+  if (!row) return { ...MOK_SCORING_RULES };
 
-// Official Mok Sports scoring rules
-export const MOK_SCORING_RULES: MokScoringRules = {
-  winPoints: 1,
-  tiePoints: 0.5,
-  lossPoints: 0,
-  blowoutPoints: 1,
-  shutoutPoints: 1,
-  weeklyHighPoints: 1,
-  weeklyLowPenalty: -1,
-  lockBonusPoints: 1,
-  lockAndLoadWinPoints: 2,
-  lockAndLoadLossPenalty: -1,
-  maxLocksPerTeamPerSeason: 4,
-  maxLockAndLoadPerTeamPerSeason: 1
-};
+  return {
+    winPoints: row.winPoints,
+    tiePoints: row.tiePoints,
+    lossPoints: row.lossPoints,
+    blowoutPoints: row.blowoutPoints,
+    blowoutMargin: row.blowoutMargin,
+    shutoutPoints: row.shutoutPoints,
+    weeklyHighPoints: row.weeklyHighPoints,
+    weeklyLowPenalty: row.weeklyLowPenalty,
+    lockBonusPoints: row.lockBonusPoints,
+    lockAndLoadWinPoints: row.lockAndLoadWinPoints,
+    lockAndLoadLossPenalty: row.lockAndLoadLossPenalty,
+    maxLocksPerTeamPerSeason: row.maxLocksPerTeamPerSeason,
+    maxLockAndLoadPerTeamPerSeason: row.maxLockAndLoadPerTeamPerSeason
+  };
+}
 
-export interface TeamGameResult {
+export interface TeamGameResult extends GameOutcome {
+  teamId: string;
   teamCode: string;
   opponentCode: string;
   teamScore: number;
   opponentScore: number;
   week: number;
   season: number;
-  gameDate: Date | null;
+  gameDate: Date;
   baseMokPoints: number;
-  isWin: boolean;
-  isLoss: boolean;
-  isTie: boolean;
-  isBlowout: boolean;
-  isShutout: boolean;
   isWeeklyHigh: boolean;
   isWeeklyLow: boolean;
 }
@@ -73,73 +62,8 @@ export interface UserWeeklyScore {
   lockAndLoadBonusPoints: number;
 }
 
-// Calculate ONLY the core game result points (win/tie/loss) - NO bonuses
-export function calculateTrueBaseMokPoints(result: TeamGameResult): number {
-  if (result.isWin) {
-    return MOK_SCORING_RULES.winPoints; // 1 point
-  } else if (result.isTie) {
-    return MOK_SCORING_RULES.tiePoints; // 0.5 points
-  } else {
-    return MOK_SCORING_RULES.lossPoints; // 0 points
-  }
-}
-
-// Calculate all Mok Sports points including bonuses (for total scoring)
-export function calculateBaseMokPoints(result: TeamGameResult): number {
-  let points = 0;
-  
-  // Base points for game result
-  if (result.isWin) {
-    points += MOK_SCORING_RULES.winPoints;
-  } else if (result.isTie) {
-    points += MOK_SCORING_RULES.tiePoints;
-  } else {
-    points += MOK_SCORING_RULES.lossPoints; // 0 points
-  }
-  
-  // Bonus points
-  if (result.isBlowout && result.isWin) {
-    points += MOK_SCORING_RULES.blowoutPoints;
-  }
-  
-  if (result.isShutout && result.isWin) {
-    points += MOK_SCORING_RULES.shutoutPoints;
-  }
-  
-  if (result.isWeeklyHigh) {
-    points += MOK_SCORING_RULES.weeklyHighPoints;
-  }
-  
-  if (result.isWeeklyLow) {
-    points += MOK_SCORING_RULES.weeklyLowPenalty;
-  }
-  
-  return points;
-}
-
-// Calculate lock bonus points
-export function calculateLockPoints(result: TeamGameResult, isLocked: boolean, isLockAndLoad: boolean): number {
-  let lockPoints = 0;
-  
-  if (isLockAndLoad) {
-    // Lock & Load scoring overrides regular lock
-    if (result.isWin) {
-      lockPoints += MOK_SCORING_RULES.lockAndLoadWinPoints;
-    } else if (result.isLoss) {
-      lockPoints += MOK_SCORING_RULES.lockAndLoadLossPenalty;
-    }
-  } else if (isLocked) {
-    // Regular lock bonus (only applies to wins)
-    if (result.isWin) {
-      lockPoints += MOK_SCORING_RULES.lockBonusPoints;
-    }
-  }
-  
-  return lockPoints;
-}
-
 // Get NFL game results for a specific week
-async function getNFLGameResults(week: number, season: number): Promise<TeamGameResult[]> {
+async function getNFLGameResults(week: number, season: number, rules: MokScoringRules = MOK_SCORING_RULES): Promise<TeamGameResult[]> {
   console.log(`🏈 [MokScoring] Getting NFL results for Week ${week}, ${season}`);
   
   try {
@@ -182,6 +106,7 @@ async function getNFLGameResults(week: number, season: number): Promise<TeamGame
       if (game.homeScore !== null && game.awayScore !== null && game.homeTeamCode && game.awayTeamCode) {
         // Add home team result
         const homeResult: TeamGameResult = {
+          teamId: game.homeTeamId,
           teamCode: game.homeTeamCode,
           opponentCode: game.awayTeamCode,
           teamScore: game.homeScore,
@@ -190,11 +115,7 @@ async function getNFLGameResults(week: number, season: number): Promise<TeamGame
           season: game.season,
           gameDate: game.gameDate,
           baseMokPoints: 0, // Will be calculated later
-          isWin: game.homeScore > game.awayScore,
-          isLoss: game.homeScore < game.awayScore,
-          isTie: game.homeScore === game.awayScore,
-          isBlowout: (game.homeScore > game.awayScore) && (game.homeScore - game.awayScore >= 20),
-          isShutout: game.awayScore === 0,
+          ...getGameOutcome(game.homeScore, game.awayScore, rules),
           isWeeklyHigh: false, // Will be calculated below
           isWeeklyLow: false   // Will be calculated below
         };
@@ -202,6 +123,7 @@ async function getNFLGameResults(week: number, season: number): Promise<TeamGame
 
         // Add away team result
         const awayResult: TeamGameResult = {
+          teamId: game.awayTeamId,
           teamCode: game.awayTeamCode,
           opponentCode: game.homeTeamCode,
           teamScore: game.awayScore,
@@ -210,11 +132,7 @@ async function getNFLGameResults(week: number, season: number): Promise<TeamGame
           season: game.season,
           gameDate: game.gameDate,
           baseMokPoints: 0, // Will be calculated later
-          isWin: game.awayScore > game.homeScore,
-          isLoss: game.awayScore < game.homeScore,
-          isTie: game.awayScore === game.homeScore,
-          isBlowout: (game.awayScore > game.homeScore) && (game.awayScore - game.homeScore >= 20),
-          isShutout: game.homeScore === 0,
+          ...getGameOutcome(game.awayScore, game.homeScore, rules),
           isWeeklyHigh: false, // Will be calculated below
           isWeeklyLow: false   // Will be calculated below
         };
@@ -223,18 +141,12 @@ async function getNFLGameResults(week: number, season: number): Promise<TeamGame
     }
     
     // Calculate weekly highs and lows
-    if (teamResults.length > 0) {
-      const maxScore = Math.max(...teamResults.map(r => r.teamScore));
-      const minScore = Math.min(...teamResults.map(r => r.teamScore));
-      
+    const highLow = getWeeklyHighLow(teamResults.map(r => r.teamScore));
+    if (highLow) {
       // Mark weekly high and low teams
       teamResults.forEach(result => {
-        if (result.teamScore === maxScore) {
-          result.isWeeklyHigh = true;
-        }
-        if (result.teamScore === minScore) {
-          result.isWeeklyLow = true;
-        }
+        result.isWeeklyHigh = result.teamScore === highLow.highScore;
+        result.isWeeklyLow = result.teamScore === highLow.lowScore;
       });
     }
 
@@ -254,29 +166,30 @@ export async function calculateWeeklyScores(leagueId: string, week: number, seas
   // Get global draft manager for WebSocket broadcasts
   const { globalDraftManager } = await import("../draft/globalDraftManager.js");
   
-  // Get all users in the league and their teams
+  // Everyone with a stable gets a score, even in a week none of their teams played
   const userStables = await db
-    .select({
-      userId: stables.userId,
-      nflTeamCode: nflTeams.code,
-      locksUsed: stables.locksUsed,
-      lockAndLoadUsed: stables.lockAndLoadUsed
-    })
+    .select({ userId: stables.userId })
     .from(stables)
-    .leftJoin(nflTeams, eq(stables.nflTeamId, nflTeams.id))
     .where(eq(stables.leagueId, leagueId));
   
-  // Get NFL game results for this week
-  const gameResults = await getNFLGameResults(week, season);
+  // Get this league's scoring rules and the NFL game results for this week
+  const rules = await getLeagueScoringRules(leagueId);
+  const gameResults = await getNFLGameResults(week, season, rules);
   
   const userScores: UserWeeklyScore[] = [];
   
-  // Group stables by user
-  const userTeams = userStables.reduce((acc, stable) => {
-    if (!acc[stable.userId]) acc[stable.userId] = [];
-    acc[stable.userId].push(stable);
-    return acc;
-  }, {} as Record<string, typeof userStables>);
+  // Credit each team's game to whoever owned it at kickoff - after a trade that can be the previous owner
+  const ownerAt = await getTeamOwnerLookup(leagueId);
+  const userTeams: Record<string, TeamGameResult[]> = {};
+  for (const stable of userStables) {
+    userTeams[stable.userId] = [];
+  }
+  for (const result of gameResults) {
+    const ownerId = ownerAt(result.teamId, result.gameDate);
+    if (!ownerId) continue;
+    if (!userTeams[ownerId]) userTeams[ownerId] = [];
+    userTeams[ownerId].push(result);
+  }
   
   // Calculate scores for each user
   for (const [userId, teams] of Object.entries(userTeams)) {
@@ -313,28 +226,19 @@ export async function calculateWeeklyScores(leagueId: string, week: number, seas
     console.log(`🔒 [MokScoring] User ${userId}: Locked=${lockedTeam}, Load=${lockAndLoadTeam}`);
     
     // Calculate points for each team the user owns
-    for (const team of teams) {
-      const teamResult = gameResults.find(r => r.teamCode === team.nflTeamCode);
-      if (teamResult) {
-        // Calculate base points
-        const baseMokPoints = calculateBaseMokPoints(teamResult);
-        teamResult.baseMokPoints = baseMokPoints;
-        totalBaseMokPoints += baseMokPoints;
-        
-        // Calculate lock bonuses
-        const isLocked = lockedTeam === team.nflTeamCode;
-        const isLockAndLoad = lockAndLoadTeam === team.nflTeamCode;
-        const lockPoints = calculateLockPoints(teamResult, isLocked, isLockAndLoad);
-        
-        if (isLocked && !isLockAndLoad) {
-          lockBonusPoints += lockPoints;
-        } else if (isLockAndLoad) {
-          lockAndLoadBonusPoints += lockPoints;
-        }
-        
-        userResults.push(teamResult);
-        console.log(`🏈 [MokScoring] ${team.nflTeamCode}: ${baseMokPoints} points (Win: ${teamResult.isWin}, Score: ${teamResult.teamScore})`);
-      }
+    for (const teamResult of teams) {
+      // Game points and lock bonuses - weekly high/low are left to the end-of-week processor
+      const isLocked = lockedTeam === teamResult.teamCode;
+      const isLockAndLoad = lockAndLoadTeam === teamResult.teamCode;
+      const points = scoreTeamGame(teamResult.teamScore, teamResult.opponentScore, isLocked, isLockAndLoad, rules);
+      const baseMokPoints = points.gamePoints;
+      teamResult.baseMokPoints = baseMokPoints;
+      totalBaseMokPoints += baseMokPoints;
+      lockBonusPoints += points.lockBonusPoints;
+      lockAndLoadBonusPoints += points.lockAndLoadBonusPoints;
+      
+      userResults.push(teamResult);
+      console.log(`🏈 [MokScoring] ${teamResult.teamCode}: ${baseMokPoints} points (Win: ${teamResult.isWin}, Score: ${teamResult.teamScore})`);
     }
     
     const totalPoints = totalBaseMokPoints + lockBonusPoints + lockAndLoadBonusPoints;
@@ -396,8 +300,9 @@ export async function calculateWeeklyScores(leagueId: string, week: number, seas
             lockBonusPoints: sql`excluded.lock_bonus_points`,
             lockAndLoadBonusPoints: sql`excluded.lock_and_load_bonus_points`,
             // do not touch weeklyHigh/Low here; those are awarded at week end
-            totalPoints: sql`excluded.total_points`,
-            updatedAt: sql`now()`,
+            // commissioner adjustments and any high/low already awarded survive re-scoring
+            totalPoints: sql`excluded.total_points + ${userWeeklyScores.commissionerAdjustmentPoints} + ${userWeeklyScores.weeklyHighBonusPoints} + ${userWeeklyScores.weeklyLowPenaltyPoints}`,
+            updatedAt: new Date(), // Same clock as the insert, so end-of-week can tell a fresh row from a stale one
           },
         });
       }
@@ -0,0 +1,278 @@
+// Mok Sports prize money and season payout ledger
+// Works out what each member has won and settles the pot so every member pays an equal share
+
+import { db } from "../db";
+import { nflGames, nflTeams, nflSeasonChampions, weeklyLocks, userWeeklyScores, weeklySkins, users, leagueMembers } from "@shared/schema";
+import { eq, and, sql, isNotNull } from "drizzle-orm";
+import { isWeekComplete } from "./week";
+import { getTeamOwnerLookup } from "./stableOwnership";
+
+// Official prize amounts, in dollars
+export const PAYOUT_AMOUNTS = {
+  weeklySkin: 30,
+  mostPoints: 50,
+  superBowlOwner: 10,
+  mostCorrectLocks: 10
+};
+
+export const REGULAR_SEASON_WEEKS = 18;
+
+// Everything a league hands out over a full season
+export const SEASON_POT = REGULAR_SEASON_WEEKS * PAYOUT_AMOUNTS.weeklySkin
+  + PAYOUT_AMOUNTS.mostPoints + PAYOUT_AMOUNTS.superBowlOwner + PAYOUT_AMOUNTS.mostCorrectLocks;
+
+export type SeasonPrizeKey = 'mostPoints' | 'superBowlOwner' | 'mostCorrectLocks';
+
+export interface SeasonPrize {
+  key: SeasonPrizeKey;
+  name: string;
+  amount: number;
+  status: 'awarded' | 'leading' | 'pending'; // leading = season still running, pending = nobody qualifies yet
+  winners: Array<{ userId: string; name: string }>; // Ties split the prize
+  value: number | string | null; // Points, correct locks or team code behind the result
+}
+
+export interface MemberPayout {
+  userId: string;
+  name: string;
+  skinsWon: number;
+  skinsWinnings: number;
+  prizeWinnings: number;
+  totalWinnings: number;
+  share: number; // This member's equal share of everything awarded so far
+  net: number;   // Winnings minus share - positive means they are owed money
+  totalPoints: number;
+  correctLocks: number;
+}
+
+export interface Settlement {
+  fromUserId: string;
+  fromName: string;
+  toUserId: string;
+  toName: string;
+  amount: number;
+}
+
+export interface LeaguePayouts {
+  leagueId: string;
+  season: number;
+  regularSeasonComplete: boolean;
+  seasonPot: number;
+  seasonBuyIn: number;
+  awardedSoFar: number;
+  prizes: SeasonPrize[];
+  members: MemberPayout[];
+  settlements: Settlement[];
+}
+
+// Money is handled in cents so split prizes never drift
+const toCents = (dollars: number) => Math.round(dollars * 100);
+const toDollars = (cents: number) => cents / 100;
+
+// Split a prize evenly; leftover cents go to the first winners listed
+function splitCents(totalCents: number, count: number): number[] {
+  const base = Math.floor(totalCents / count);
+  const remainder = totalCents - base * count;
+  return Array.from({ length: count }, (_, i) => base + (i < remainder ? 1 : 0));
+}
+
+// Members with the top value - everyone tied for first shares the prize
+function leaders<T extends { userId: string }>(rows: T[], value: (row: T) => number): T[] {
+  if (rows.length === 0) return [];
+  const best = Math.max(...rows.map(value));
+  return rows.filter(row => value(row) === best);
+}
+
+/**
+ * Pair members who owe money with members who are owed, largest balances first,
+ * so the league settles up in as few payments as possible.
+ */
+function settle(balances: Array<{ userId: string; name: string; netCents: number }>): Settlement[] {
+  const creditors = balances.filter(b => b.netCents > 0).map(b => ({ ...b })).sort((a, b) => b.netCents - a.netCents);
+  const debtors = balances.filter(b => b.netCents < 0).map(b => ({ ...b, netCents: -b.netCents })).sort((a, b) => b.netCents - a.netCents);
+  const settlements: Settlement[] = [];
+
+  let c = 0;
+  let d = 0;
+  while (c < creditors.length && d < debtors.length) {
+    const amount = Math.min(creditors[c].netCents, debtors[d].netCents);
+    if (amount > 0) {
+      settlements.push({
+        fromUserId: debtors[d].userId,
+        fromName: debtors[d].name,
+        toUserId: creditors[c].userId,
+        toName: creditors[c].name,
+        amount: toDollars(amount)
+      });
+    }
+    creditors[c].netCents -= amount;
+    debtors[d].netCents -= amount;
+    if (creditors[c].netCents === 0) c++;
+    if (debtors[d].netCents === 0) d++;
+  }
+
+  return settlements;
+}
+
+/**
+ * Build a league's payout ledger for a season: skins won so far, the three season prizes
+ * (awarded once the regular season is final / the Super Bowl champion is recorded), and who owes whom.
+ * Only money that has actually been awarded is settled, so the ledger balances every week.
+ */
+export async function calculateLeaguePayouts(leagueId: string, season: number): Promise<LeaguePayouts> {
+  const members = await db.select({ userId: users.id, name: users.name })
+    .from(leagueMembers)
+    .innerJoin(users, eq(leagueMembers.userId, users.id))
+    .where(eq(leagueMembers.leagueId, leagueId))
+    .orderBy(leagueMembers.joinedAt);
+
+  const nameById = new Map(members.map(member => [member.userId, member.name]));
+  const winningsCents = new Map<string, number>(members.map(member => [member.userId, 0]));
+  const skinsWonById = new Map<string, number>();
+  const skinsCentsById = new Map<string, number>();
+
+  // Weekly skins - a winner collects every skin that rolled over into their week
+  const skinRows = await db.select({ winnerId: weeklySkins.winnerId, prizeAmount: weeklySkins.prizeAmount })
+    .from(weeklySkins)
+    .where(and(
+      eq(weeklySkins.leagueId, leagueId),
+      eq(weeklySkins.season, season),
+      isNotNull(weeklySkins.winnerId)
+    ));
+
+  for (const row of skinRows) {
+    const winnerId = row.winnerId!;
+    if (!nameById.has(winnerId)) continue; // Former members are settled outside the league
+    const cents = toCents(row.prizeAmount * PAYOUT_AMOUNTS.weeklySkin);
+    skinsWonById.set(winnerId, (skinsWonById.get(winnerId) || 0) + row.prizeAmount);
+    skinsCentsById.set(winnerId, (skinsCentsById.get(winnerId) || 0) + cents);
+    winningsCents.set(winnerId, (winningsCents.get(winnerId) || 0) + cents);
+  }
+
+  // Season points
+  const pointRows = await db.select({
+    userId: userWeeklyScores.userId,
+    totalPoints: sql<number>`COALESCE(SUM(${userWeeklyScores.totalPoints}), 0)`.mapWith(Number)
+  })
+  .from(userWeeklyScores)
+  .where(and(
+    eq(userWeeklyScores.leagueId, leagueId),
+    eq(userWeeklyScores.season, season),
+    sql`${userWeeklyScores.week} BETWEEN 1 AND ${REGULAR_SEASON_WEEKS}`
+  ))
+  .groupBy(userWeeklyScores.userId);
+  const pointsById = new Map(pointRows.map(row => [row.userId, row.totalPoints]));
+
+  // Correct locks - a lock (or Lock & Load) counts when the locked team won that week
+  const completedGames = await db.select({ week: nflGames.week, winnerTeamId: nflGames.winnerTeamId })
+    .from(nflGames)
+    .where(and(eq(nflGames.season, season), eq(nflGames.isCompleted, true)));
+  const weeklyWinners = new Set(
+    completedGames.filter(game => game.winnerTeamId).map(game => `${game.week}:${game.winnerTeamId}`)
+  );
+
+  const lockRows = await db.select()
+    .from(weeklyLocks)
+    .where(and(eq(weeklyLocks.leagueId, leagueId), eq(weeklyLocks.season, season)));
+
+  const correctLocksById = new Map<string, number>();
+  for (const lock of lockRows) {
+    const correct = [lock.lockedTeamId, lock.lockAndLoadTeamId]
+      .filter(teamId => teamId && weeklyWinners.has(`${lock.week}:${teamId}`)).length;
+    correctLocksById.set(lock.userId, (correctLocksById.get(lock.userId) || 0) + correct);
+  }
+
+  const regularSeasonComplete = await isWeekComplete(season, REGULAR_SEASON_WEEKS);
+  const standings = members.map(member => ({
+    userId: member.userId,
+    totalPoints: pointsById.get(member.userId) || 0,
+    correctLocks: correctLocksById.get(member.userId) || 0
+  }));
+
+  const prizes: SeasonPrize[] = [];
+  const awardPrize = (key: SeasonPrizeKey, name: string, amount: number, winnerIds: string[], value: number | string | null, final: boolean) => {
+    const status = winnerIds.length === 0 ? 'pending' : final ? 'awarded' : 'leading';
+    prizes.push({
+      key,
+      name,
+      amount,
+      status,
+      winners: winnerIds.map(userId => ({ userId, name: nameById.get(userId) || 'Unknown' })),
+      value
+    });
+
+    if (status === 'awarded') {
+      splitCents(toCents(amount), winnerIds.length).forEach((cents, i) => {
+        winningsCents.set(winnerIds[i], (winningsCents.get(winnerIds[i]) || 0) + cents);
+      });
+    }
+  };
+
+  // Most points - leader shown all season, paid once Week 18 is final
+  const pointLeaders = pointRows.length > 0 ? leaders(standings, row => row.totalPoints) : [];
+  awardPrize('mostPoints', 'Most Points', PAYOUT_AMOUNTS.mostPoints,
+    pointLeaders.map(row => row.userId), pointLeaders[0]?.totalPoints ?? null, regularSeasonComplete);
+
+  // Most correct locks - nobody qualifies until someone has hit a lock
+  const lockLeaders = leaders(standings, row => row.correctLocks).filter(row => row.correctLocks > 0);
+  awardPrize('mostCorrectLocks', 'Most Correct Locks', PAYOUT_AMOUNTS.mostCorrectLocks,
+    lockLeaders.map(row => row.userId), lockLeaders[0]?.correctLocks ?? null, regularSeasonComplete);
+
+  // Super Bowl owner - whoever had the champion on their stable at kickoff, once an admin records the winner
+  const [champion] = await db.select({
+    nflTeamId: nflSeasonChampions.nflTeamId,
+    superBowlDate: nflSeasonChampions.superBowlDate,
+    code: nflTeams.code
+  })
+    .from(nflSeasonChampions)
+    .innerJoin(nflTeams, eq(nflSeasonChampions.nflTeamId, nflTeams.id))
+    .where(eq(nflSeasonChampions.season, season));
+
+  let superBowlOwnerIds: string[] = [];
+  const championCode = champion?.code ?? null;
+  if (champion) {
+    const ownerAtKickoff = await getTeamOwnerLookup(leagueId);
+    const ownerId = ownerAtKickoff(champion.nflTeamId, champion.superBowlDate);
+    if (ownerId && nameById.has(ownerId)) superBowlOwnerIds = [ownerId];
+  }
+  awardPrize('superBowlOwner', 'Super Bowl Winner', PAYOUT_AMOUNTS.superBowlOwner, superBowlOwnerIds, championCode, true);
+
+  // Settle only what has been handed out so far, split evenly across the league
+  const awardedCents = Array.from(winningsCents.values()).reduce((sum, cents) => sum + cents, 0);
+  const shares = members.length > 0 ? splitCents(awardedCents, members.length) : [];
+
+  const memberPayouts: MemberPayout[] = members.map((member, i) => {
+    const totalCents = winningsCents.get(member.userId) || 0;
+    const skinsCents = skinsCentsById.get(member.userId) || 0;
+    return {
+      userId: member.userId,
+      name: member.name,
+      skinsWon: skinsWonById.get(member.userId) || 0,
+      skinsWinnings: toDollars(skinsCents),
+      prizeWinnings: toDollars(totalCents - skinsCents),
+      totalWinnings: toDollars(totalCents),
+      share: toDollars(shares[i]),
+      net: toDollars(totalCents - shares[i]),
+      totalPoints: pointsById.get(member.userId) || 0,
+      correctLocks: correctLocksById.get(member.userId) || 0
+    };
+  });
+
+  const settlements = settle(members.map((member, i) => ({
+    userId: member.userId,
+    name: member.name,
+    netCents: (winningsCents.get(member.userId) || 0) - shares[i]
+  })));
+
+  return {
+    leagueId,
+    season,
+    regularSeasonComplete,
+    seasonPot: SEASON_POT,
+    seasonBuyIn: members.length > 0 ? toDollars(Math.ceil(toCents(SEASON_POT) / members.length)) : 0,
+    awardedSoFar: toDollars(awardedCents),
+    prizes,
+    members: memberPayouts.sort((a, b) => b.net - a.net),
+    settlements
+  };
+}
@@ -0,0 +1,444 @@
+// Full-season recompute for Mok Sports
+// Rebuilds a league's weekly scores and skins straight from nflGames, weeklyLocks and the stable
+// ownership history. Running it twice gives the same rows: only weeks whose numbers actually changed
+// are rewritten, and the report lists exactly those. The season-wide team performance and weekly stats
+// tables are shared by every league, so they're rebuilt separately (admin route or CLI only).
+
+import { db } from "../db.js";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import {
+  nflGames,
+  stables,
+  teamPerformance,
+  userWeeklyScores,
+  users,
+  weeklyLocks,
+  weeklySkins,
+  weeklyStats
+} from "@shared/schema.js";
+import {
+  MOK_SCORING_RULES,
+  calculateGamePoints,
+  calculateWeeklyHighLowPoints,
+  getGameOutcome,
+  getWeeklyHighLow,
+  scoreTeamGame,
+  type MokScoringRules
+} from "@shared/utils/scoring";
+import { getLeagueScoringRules } from "./mokScoring.js";
+import { getTeamOwnerLookup, type TeamOwnerAtKickoff } from "./stableOwnership.js";
+
+export interface WeeklyPointsBreakdown {
+  basePoints: number;
+  lockBonusPoints: number;
+  lockAndLoadBonusPoints: number;
+  weeklyHighBonusPoints: number;
+  weeklyLowPenaltyPoints: number;
+  commissionerAdjustmentPoints: number; // Carried over untouched - corrections survive a recompute
+  totalPoints: number;
+}
+
+export interface SkinsOutcome {
+  winnerId: string | null;
+  winningScore: number | null;
+  prizeAmount: number;
+  isRollover: boolean;
+}
+
+export interface SeasonRecomputeReport {
+  leagueId: string;
+  season: number;
+  dryRun: boolean;
+  weeksScored: number[];
+  completeWeeks: number[]; // Weeks with every game final - only these get high/low and skins
+  memberWeekChanges: Array<{
+    userId: string;
+    userName: string;
+    week: number;
+    before: WeeklyPointsBreakdown | null;
+    after: WeeklyPointsBreakdown;
+  }>;
+  skinsChanges: Array<{
+    week: number;
+    before: SkinsOutcome | null;
+    after: SkinsOutcome | null;
+  }>;
+}
+
+export interface SeasonTablesReport {
+  season: number;
+  dryRun: boolean;
+  teamPerformanceRows: number;
+  weeklyStatsRows: number;
+}
+
+interface ScoredGame {
+  id: string;
+  week: number;
+  kickoff: Date;
+  homeTeamId: string;
+  awayTeamId: string;
+  homeScore: number;
+  awayScore: number;
+}
+
+const BREAKDOWN_FIELDS: Array<keyof WeeklyPointsBreakdown> = [
+  'basePoints',
+  'lockBonusPoints',
+  'lockAndLoadBonusPoints',
+  'weeklyHighBonusPoints',
+  'weeklyLowPenaltyPoints',
+  'commissionerAdjustmentPoints',
+  'totalPoints'
+];
+
+function emptyBreakdown(commissionerAdjustmentPoints: number): WeeklyPointsBreakdown {
+  return {
+    basePoints: 0,
+    lockBonusPoints: 0,
+    lockAndLoadBonusPoints: 0,
+    weeklyHighBonusPoints: 0,
+    weeklyLowPenaltyPoints: 0,
+    commissionerAdjustmentPoints,
+    totalPoints: commissionerAdjustmentPoints
+  };
+}
+
+function sameBreakdown(a: WeeklyPointsBreakdown | null, b: WeeklyPointsBreakdown): boolean {
+  return !!a && BREAKDOWN_FIELDS.every(field => a[field] === b[field]);
+}
+
+function sameSkins(a: SkinsOutcome | null, b: SkinsOutcome | null): boolean {
+  if (!a || !b) return a === b;
+  return a.winnerId === b.winnerId && a.winningScore === b.winningScore
+    && a.prizeAmount === b.prizeAmount && a.isRollover === b.isRollover;
+}
+
+// Each team's result in every final game, one entry per side
+function teamResults(games: ScoredGame[]) {
+  return games.flatMap(game => [
+    { game, teamId: game.homeTeamId, teamScore: game.homeScore, opponentScore: game.awayScore },
+    { game, teamId: game.awayTeamId, teamScore: game.awayScore, opponentScore: game.homeScore }
+  ]);
+}
+
+/**
+ * Weekly points for every member in every scored week. Game, lock and weekly high/low points
+ * come from the shared engine; skins are awarded in week order so rollovers stack the same way
+ * the end-of-week processor stacks them.
+ */
+function computeLeagueSeason(
+  games: ScoredGame[],
+  completeWeeks: Set<number>,
+  ownerAt: TeamOwnerAtKickoff,
+  locks: Map<string, { lockedTeamId: string | null; lockAndLoadTeamId: string | null }>,
+  storedAdjustments: Map<string, number>, // Every stored row, keyed userId:week
+  memberIds: string[],
+  rules: MokScoringRules
+) {
+  const weeks = Array.from(new Set(games.map(game => game.week))).sort((a, b) => a - b);
+  const scores = new Map<string, WeeklyPointsBreakdown>();
+  const breakdownFor = (userId: string, week: number) => {
+    const key = `${userId}:${week}`;
+    if (!scores.has(key)) scores.set(key, emptyBreakdown(storedAdjustments.get(key) ?? 0));
+    return scores.get(key)!;
+  };
+
+  // Every member gets a row for every scored week. Stored rows the games no longer credit - a former
+  // member's weeks, say - start from zero too, so they're reset (keeping any commissioner adjustment)
+  // instead of left as they were
+  for (const week of weeks) {
+    memberIds.forEach(userId => breakdownFor(userId, week));
+  }
+  storedAdjustments.forEach((_points, key) => {
+    const [userId, week] = key.split(':');
+    breakdownFor(userId, parseInt(week));
+  });
+
+  for (const week of weeks) {
+    const results = teamResults(games.filter(game => game.week === week));
+
+    for (const result of results) {
+      const ownerId = ownerAt(result.teamId, result.game.kickoff);
+      if (!ownerId) continue;
+
+      const lock = locks.get(`${ownerId}:${week}`);
+      const points = scoreTeamGame(
+        result.teamScore,
+        result.opponentScore,
+        lock?.lockedTeamId === result.teamId,
+        lock?.lockAndLoadTeamId === result.teamId,
+        rules
+      );
+      const breakdown = breakdownFor(ownerId, week);
+      breakdown.basePoints += points.gamePoints;
+      breakdown.lockBonusPoints += points.lockBonusPoints;
+      breakdown.lockAndLoadBonusPoints += points.lockAndLoadBonusPoints;
+    }
+
+    const highLow = completeWeeks.has(week) ? getWeeklyHighLow(results.map(result => result.teamScore)) : null;
+    if (highLow) {
+      for (const result of results) {
+        const ownerId = ownerAt(result.teamId, result.game.kickoff);
+        if (!ownerId) continue;
+
+        const breakdown = breakdownFor(ownerId, week);
+        if (result.teamScore === highLow.highScore) {
+          breakdown.weeklyHighBonusPoints += calculateWeeklyHighLowPoints(true, false, rules);
+        }
+        if (result.teamScore === highLow.lowScore) {
+          breakdown.weeklyLowPenaltyPoints += calculateWeeklyHighLowPoints(false, true, rules);
+        }
+      }
+    }
+  }
+
+  scores.forEach(breakdown => {
+    breakdown.totalPoints = breakdown.basePoints + breakdown.lockBonusPoints + breakdown.lockAndLoadBonusPoints
+      + breakdown.weeklyHighBonusPoints + breakdown.weeklyLowPenaltyPoints + breakdown.commissionerAdjustmentPoints;
+  });
+
+  // Skins: a single top score takes every skin since the last winner, a tie rolls them over
+  const skins = new Map<number, SkinsOutcome>();
+  let rolledOver = 0;
+  for (const week of Array.from(completeWeeks).sort((a, b) => a - b)) {
+    const weekScores = Array.from(scores.entries())
+      .filter(([key]) => key.endsWith(`:${week}`))
+      .map(([key, breakdown]) => ({ userId: key.split(':')[0], totalPoints: breakdown.totalPoints }));
+    if (weekScores.length === 0) continue;
+
+    const highestScore = Math.max(...weekScores.map(score => score.totalPoints));
+    const winners = weekScores.filter(score => score.totalPoints === highestScore);
+    const prizeAmount = 1 + rolledOver;
+
+    if (winners.length === 1) {
+      skins.set(week, { winnerId: winners[0].userId, winningScore: highestScore, prizeAmount, isRollover: false });
+      rolledOver = 0;
+    } else {
+      skins.set(week, { winnerId: null, winningScore: highestScore, prizeAmount, isRollover: true });
+      rolledOver++;
+    }
+  }
+
+  return { weeks, scores, skins };
+}
+
+/**
+ * Team performance and weekly stats aren't tied to a league, so they are rebuilt with the
+ * official rules rather than any one league's overrides.
+ */
+function computeSeasonTables(games: ScoredGame[], completeWeeks: Set<number>, season: number) {
+  const performanceRows: Array<typeof teamPerformance.$inferInsert> = [];
+  const statsRows: Array<typeof weeklyStats.$inferInsert> = [];
+
+  const weeks = Array.from(new Set(games.map(game => game.week))).sort((a, b) => a - b);
+  for (const week of weeks) {
+    const weekGames = games.filter(game => game.week === week);
+    const results = teamResults(weekGames);
+    const highLow = completeWeeks.has(week) ? getWeeklyHighLow(results.map(result => result.teamScore)) : null;
+
+    for (const result of results) {
+      const outcome = getGameOutcome(result.teamScore, result.opponentScore, MOK_SCORING_RULES);
+      const isWeeklyHigh = !!highLow && result.teamScore === highLow.highScore;
+      const isWeeklyLow = !!highLow && result.teamScore === highLow.lowScore;
+
+      performanceRows.push({
+        nflTeamId: result.teamId,
+        season,
+        week,
+        gameId: result.game.id,
+        teamScore: result.teamScore,
+        opponentScore: result.opponentScore,
+        isWin: outcome.isWin,
+        isTie: outcome.isTie,
+        isBlowout: outcome.isBlowout,
+        isShutout: outcome.isShutout,
+        isWeeklyHigh,
+        isWeeklyLow,
+        baseMokPoints: calculateGamePoints(outcome, MOK_SCORING_RULES)
+          + calculateWeeklyHighLowPoints(isWeeklyHigh, isWeeklyLow, MOK_SCORING_RULES)
+      });
+    }
+
+    if (highLow) {
+      // Ties for the high or low go to the first team by ID so repeat runs pick the same one
+      const byTeamId = [...results].sort((a, b) => a.teamId.localeCompare(b.teamId));
+      statsRows.push({
+        season,
+        week,
+        highestScore: highLow.highScore,
+        lowestScore: highLow.lowScore,
+        highestScoringTeamId: byTeamId.find(result => result.teamScore === highLow.highScore)!.teamId,
+        lowestScoringTeamId: byTeamId.find(result => result.teamScore === highLow.lowScore)!.teamId,
+        totalGames: weekGames.length
+      });
+    }
+  }
+
+  return { performanceRows, statsRows };
+}
+
+// Every final game of the season, plus the weeks where every game is final
+async function loadSeasonGames(season: number): Promise<{ games: ScoredGame[]; completeWeeks: Set<number> }> {
+  const seasonGames = await db.select().from(nflGames)
+    .where(eq(nflGames.season, season))
+    .orderBy(asc(nflGames.week), asc(nflGames.gameDate), asc(nflGames.id));
+
+  const games: ScoredGame[] = seasonGames
+    .filter(game => game.isCompleted && game.homeScore !== null && game.awayScore !== null)
+    .map(game => ({
+      id: game.id,
+      week: game.week,
+      kickoff: game.gameDate,
+      homeTeamId: game.homeTeamId,
+      awayTeamId: game.awayTeamId,
+      homeScore: game.homeScore!,
+      awayScore: game.awayScore!
+    }));
+
+  const completeWeeks = new Set(
+    Array.from(new Set(seasonGames.map(game => game.week)))
+      .filter(week => seasonGames.filter(game => game.week === week).every(game => game.isCompleted))
+  );
+
+  return { games, completeWeeks };
+}
+
+/**
+ * Recompute a league's season from the raw game results. With dryRun nothing is written and
+ * the report shows what a real run would change.
+ */
+export async function recomputeSeason(leagueId: string, season: number, options: { dryRun?: boolean } = {}): Promise<SeasonRecomputeReport> {
+  const dryRun = !!options.dryRun;
+  console.log(`[Recompute] ${dryRun ? 'Dry run for' : 'Recomputing'} league ${leagueId}, season ${season}`);
+
+  const rules = await getLeagueScoringRules(leagueId);
+  const { games, completeWeeks } = await loadSeasonGames(season);
+
+  const ownerAt = await getTeamOwnerLookup(leagueId);
+  const currentStables = await db.select({ userId: stables.userId }).from(stables).where(eq(stables.leagueId, leagueId));
+
+  const lockRows = await db.select().from(weeklyLocks)
+    .where(and(eq(weeklyLocks.leagueId, leagueId), eq(weeklyLocks.season, season)));
+  const locks = new Map(lockRows.map(lock => [`${lock.userId}:${lock.week}`, lock]));
+
+  const existingScores = await db.select().from(userWeeklyScores)
+    .where(and(eq(userWeeklyScores.leagueId, leagueId), eq(userWeeklyScores.season, season)));
+  const existingByKey = new Map(existingScores.map(row => [`${row.userId}:${row.week}`, row]));
+  const storedAdjustments = new Map(existingScores.map(row => [`${row.userId}:${row.week}`, row.commissionerAdjustmentPoints]));
+
+  const existingSkins = await db.select().from(weeklySkins)
+    .where(and(eq(weeklySkins.leagueId, leagueId), eq(weeklySkins.season, season)));
+  const existingSkinsByWeek = new Map(existingSkins.map(row => [row.week, row]));
+
+  const memberIds = Array.from(new Set(currentStables.map(row => row.userId)));
+  const { weeks, scores, skins } = computeLeagueSeason(games, completeWeeks, ownerAt, locks, storedAdjustments, memberIds, rules);
+
+  // Diff against what's stored
+  const userIds = Array.from(new Set(Array.from(scores.keys()).map(key => key.split(':')[0])));
+  const names = userIds.length > 0
+    ? new Map((await db.select({ id: users.id, name: users.name }).from(users).where(inArray(users.id, userIds)))
+      .map(user => [user.id, user.name]))
+    : new Map<string, string>();
+
+  const memberWeekChanges: SeasonRecomputeReport['memberWeekChanges'] = [];
+  scores.forEach((after, key) => {
+    const [userId, week] = key.split(':');
+    const existing = existingByKey.get(key);
+    const before = existing
+      ? Object.fromEntries(BREAKDOWN_FIELDS.map(field => [field, existing[field]])) as unknown as WeeklyPointsBreakdown
+      : null;
+    if (sameBreakdown(before, after)) return;
+
+    memberWeekChanges.push({ userId, userName: names.get(userId) ?? 'Unknown', week: parseInt(week), before, after });
+  });
+  memberWeekChanges.sort((a, b) => a.week - b.week || a.userName.localeCompare(b.userName));
+
+  const skinsChanges: SeasonRecomputeReport['skinsChanges'] = [];
+  const skinsWeeks = new Set([...Array.from(skins.keys()), ...Array.from(existingSkinsByWeek.keys())]);
+  for (const week of Array.from(skinsWeeks).sort((a, b) => a - b)) {
+    const existing = existingSkinsByWeek.get(week);
+    const before: SkinsOutcome | null = existing
+      ? { winnerId: existing.winnerId, winningScore: existing.winningScore, prizeAmount: existing.prizeAmount, isRollover: existing.isRollover }
+      : null;
+    const after = skins.get(week) ?? null;
+    if (!sameSkins(before, after)) {
+      skinsChanges.push({ week, before, after });
+    }
+  }
+
+  if (!dryRun) {
+    await db.transaction(async (tx) => {
+      for (const change of memberWeekChanges) {
+        await tx.insert(userWeeklyScores)
+          .values({ userId: change.userId, leagueId, season, week: change.week, ...change.after })
+          .onConflictDoUpdate({
+            target: [userWeeklyScores.userId, userWeeklyScores.leagueId, userWeeklyScores.season, userWeeklyScores.week],
+            set: { ...change.after, updatedAt: new Date() }
+          });
+      }
+
+      for (const change of skinsChanges) {
+        await tx.delete(weeklySkins).where(and(
+          eq(weeklySkins.leagueId, leagueId),
+          eq(weeklySkins.season, season),
+          eq(weeklySkins.week, change.week)
+        ));
+        if (change.after) {
+          await tx.insert(weeklySkins).values({
+            leagueId,
+            season,
+            week: change.week,
+            ...change.after,
+            isTied: change.after.isRollover,
+            awardedAt: change.after.isRollover ? null : new Date()
+          });
+        }
+      }
+    });
+  }
+
+  console.log(`[Recompute] League ${leagueId}, season ${season}: ${memberWeekChanges.length} member weeks and ${skinsChanges.length} skins weeks ${dryRun ? 'would change' : 'changed'}`);
+
+  return {
+    leagueId,
+    season,
+    dryRun,
+    weeksScored: weeks,
+    completeWeeks: Array.from(completeWeeks).sort((a, b) => a - b),
+    memberWeekChanges,
+    skinsChanges
+  };
+}
+
+/**
+ * Rebuild the season's team performance and weekly stats from the game results. These tables are
+ * shared by every league, so this is for admins and the CLI - never a single league's commissioner.
+ */
+export async function rebuildSeasonTables(season: number, options: { dryRun?: boolean } = {}): Promise<SeasonTablesReport> {
+  const dryRun = !!options.dryRun;
+  console.log(`[Recompute] ${dryRun ? 'Dry run for' : 'Rebuilding'} season ${season} team performance and weekly stats`);
+
+  const { games, completeWeeks } = await loadSeasonGames(season);
+  const { performanceRows, statsRows } = computeSeasonTables(games, completeWeeks, season);
+
+  if (!dryRun) {
+    await db.transaction(async (tx) => {
+      await tx.delete(teamPerformance).where(eq(teamPerformance.season, season));
+      if (performanceRows.length > 0) {
+        await tx.insert(teamPerformance).values(performanceRows);
+      }
+      await tx.delete(weeklyStats).where(eq(weeklyStats.season, season));
+      if (statsRows.length > 0) {
+        await tx.insert(weeklyStats).values(statsRows);
+      }
+    });
+  }
+
+  return {
+    season,
+    dryRun,
+    teamPerformanceRows: performanceRows.length,
+    weeklyStatsRows: statsRows.length
+  };
+}
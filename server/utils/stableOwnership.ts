@@ -0,0 +1,38 @@
+// Stable ownership over time for Mok Sports scoring
+// A game's points belong to whoever owned the team when it kicked off, not whoever owns it today
+
+import { db } from "../db.js";
+import { eq } from "drizzle-orm";
+import { stableOwnership, stables } from "@shared/schema.js";
+
+export type TeamOwnerAtKickoff = (nflTeamId: string, kickoff: Date) => string | null;
+
+/**
+ * Load a league's ownership history once and answer "who owned this team at kickoff" from memory.
+ * Teams with no history yet (stables from before it was kept) fall back to their current owner.
+ */
+export async function getTeamOwnerLookup(leagueId: string): Promise<TeamOwnerAtKickoff> {
+  const [history, currentStables] = await Promise.all([
+    db.select().from(stableOwnership).where(eq(stableOwnership.leagueId, leagueId)),
+    db.select({ userId: stables.userId, nflTeamId: stables.nflTeamId }).from(stables).where(eq(stables.leagueId, leagueId))
+  ]);
+
+  // Newest stint first, so where a late draft's stint overlaps the one it replaced, the draft wins
+  history.sort((a, b) => b.acquiredAt.getTime() - a.acquiredAt.getTime());
+  const historyByTeam = new Map<string, typeof history>();
+  for (const row of history) {
+    historyByTeam.set(row.nflTeamId, [...(historyByTeam.get(row.nflTeamId) || []), row]);
+  }
+  const currentOwners = new Map(currentStables.map(row => [row.nflTeamId, row.userId]));
+
+  return (nflTeamId, kickoff) => {
+    const rows = historyByTeam.get(nflTeamId);
+    if (!rows) return currentOwners.get(nflTeamId) ?? null;
+
+    const time = new Date(kickoff).getTime();
+    const stint = rows.find(row =>
+      row.acquiredAt.getTime() <= time && (!row.releasedAt || time < row.releasedAt.getTime())
+    );
+    return stint?.userId ?? null;
+  };
+}
@@ -0,0 +1,156 @@
+// Preseason projections for NFL teams: projected regular-season wins from the betting lines
+// (or last season's records before lines are posted) and how hard each team's schedule is
+
+import { db } from "../db";
+import { nflGames, nflTeams } from "@shared/schema";
+import { eq, and, lte } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import type { IStorage } from "../storage";
+import { nflDataService } from "../services/nflDataService";
+import { REGULAR_SEASON_WEEKS } from "./payouts";
+
+export type ProjectionSource = 'betting_odds' | 'last_season';
+
+export interface TeamProjections {
+  source: ProjectionSource | null; // null when neither odds nor last season's results exist
+  wins: Record<string, number>; // Projected wins per NFL team ID
+  gamesScheduled: Record<string, number>;
+}
+
+// Logistic fit to the normal curve NFL margins follow (sd ~13.5 pts) - turns a spread into a win chance
+const SPREAD_TO_WIN_SCALE = 7.4;
+const ODDS_BATCH_SIZE = 8;
+const PROJECTION_CACHE_DURATION = 6 * 60 * 60 * 1000; // Preseason lines barely move; don't refetch a whole season per view
+const DEFAULT_GAMES_PER_SEASON = 17;
+
+// Holds the in-flight lookup too, so concurrent drafts and robot picks share one pass over the schedule
+const projectionCache = new Map<number, { projections: Promise<TeamProjections>; expires: number }>();
+
+function homeWinProbability(pointSpreadHome: number): number {
+  // Negative spread = home team favored
+  return 1 / (1 + Math.exp(pointSpreadHome / SPREAD_TO_WIN_SCALE));
+}
+
+async function getSeasonSchedule(season: number) {
+  const homeTeam = alias(nflTeams, 'home_team');
+  const awayTeam = alias(nflTeams, 'away_team');
+
+  return await db.select({
+    gameDate: nflGames.gameDate,
+    homeTeamId: nflGames.homeTeamId,
+    awayTeamId: nflGames.awayTeamId,
+    homeTeamCode: homeTeam.code,
+    awayTeamCode: awayTeam.code
+  })
+  .from(nflGames)
+  .innerJoin(homeTeam, eq(nflGames.homeTeamId, homeTeam.id))
+  .innerJoin(awayTeam, eq(nflGames.awayTeamId, awayTeam.id))
+  .where(and(
+    eq(nflGames.season, season),
+    lte(nflGames.week, REGULAR_SEASON_WEEKS)
+  ));
+}
+
+/**
+ * Projected regular-season wins per NFL team ID. Sums each game's win chance from the
+ * betting line; if no lines are available, scales last season's win rate to the schedule.
+ */
+export function getProjectedWins(storage: Pick<IStorage, 'getTeamRecords'>, season: number): Promise<TeamProjections> {
+  const cached = projectionCache.get(season);
+  if (cached && cached.expires > Date.now()) return cached.projections;
+
+  const projections = loadProjectedWins(storage, season);
+  projectionCache.set(season, { projections, expires: Date.now() + PROJECTION_CACHE_DURATION });
+  // Don't hold on to a failed lookup - the next caller tries again
+  projections.catch(() => {
+    if (projectionCache.get(season)?.projections === projections) projectionCache.delete(season);
+  });
+  return projections;
+}
+
+async function loadProjectedWins(storage: Pick<IStorage, 'getTeamRecords'>, season: number): Promise<TeamProjections> {
+  const schedule = await getSeasonSchedule(season);
+  const wins: Record<string, number> = {};
+  let gamesWithOdds = 0;
+
+  const gamesScheduled: Record<string, number> = {};
+  for (const game of schedule) {
+    gamesScheduled[game.homeTeamId] = (gamesScheduled[game.homeTeamId] || 0) + 1;
+    gamesScheduled[game.awayTeamId] = (gamesScheduled[game.awayTeamId] || 0) + 1;
+  }
+
+  for (let i = 0; i < schedule.length; i += ODDS_BATCH_SIZE) {
+    const batch = schedule.slice(i, i + ODDS_BATCH_SIZE);
+    const odds = await Promise.all(batch.map(game => {
+      // Tank01 game ID format: YYYYMMDD_AWAY@HOME
+      const dateStr = game.gameDate.toISOString().split('T')[0].replace(/-/g, '');
+      return nflDataService.getBettingOddsForGame(`${dateStr}_${game.awayTeamCode}@${game.homeTeamCode}`);
+    }));
+
+    batch.forEach((game, index) => {
+      const spread = Number(odds[index]?.pointSpreadHome);
+      if (!odds[index] || !Number.isFinite(spread)) return;
+
+      const homeChance = homeWinProbability(spread);
+      wins[game.homeTeamId] = (wins[game.homeTeamId] || 0) + homeChance;
+      wins[game.awayTeamId] = (wins[game.awayTeamId] || 0) + (1 - homeChance);
+      gamesWithOdds++;
+    });
+
+    // No key or no lines posted - stop asking after the first batch comes back empty
+    if (i === 0 && gamesWithOdds === 0) break;
+  }
+
+  let result: TeamProjections = { source: 'betting_odds', wins, gamesScheduled };
+
+  if (gamesWithOdds === 0) {
+    const records = await storage.getTeamRecords(season - 1);
+
+    const fallbackWins: Record<string, number> = {};
+    for (const [teamId, record] of Object.entries(records)) {
+      const played = record.wins + record.losses + record.ties;
+      if (played === 0) continue;
+      fallbackWins[teamId] = ((record.wins + record.ties / 2) / played) * (gamesScheduled[teamId] || DEFAULT_GAMES_PER_SEASON);
+    }
+
+    result = { source: Object.keys(fallbackWins).length > 0 ? 'last_season' : null, wins: fallbackWins, gamesScheduled };
+  }
+
+  return result;
+}
+
+/**
+ * Projected share of games each team wins, 0-1. Teams without a projection sit at .500.
+ */
+export function getProjectedWinShare(projections: TeamProjections, teamId: string): number {
+  const wins = projections.wins[teamId];
+  if (wins === undefined) return 0.5;
+  return wins / (projections.gamesScheduled[teamId] || DEFAULT_GAMES_PER_SEASON);
+}
+
+/**
+ * Strength of schedule per NFL team ID: the average projected win share of its opponents,
+ * so 0.5 is a neutral slate and higher is harder.
+ */
+export async function getScheduleStrength(storage: Pick<IStorage, 'getTeamRecords'>, season: number): Promise<Record<string, number>> {
+  const [schedule, projections] = await Promise.all([
+    getSeasonSchedule(season),
+    getProjectedWins(storage, season)
+  ]);
+
+  const opponentShare: Record<string, { total: number; games: number }> = {};
+  const addOpponent = (teamId: string, opponentId: string) => {
+    const entry = opponentShare[teamId] ?? (opponentShare[teamId] = { total: 0, games: 0 });
+    entry.total += getProjectedWinShare(projections, opponentId);
+    entry.games++;
+  };
+
+  for (const game of schedule) {
+    addOpponent(game.homeTeamId, game.awayTeamId);
+    addOpponent(game.awayTeamId, game.homeTeamId);
+  }
+
+  return Object.fromEntries(
+    Object.entries(opponentShare).map(([teamId, { total, games }]) => [teamId, total / games])
+  );
+}
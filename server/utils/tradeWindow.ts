@@ -0,0 +1,161 @@
+// Trade window logic for Mok Sports
+// Roster moves are allowed from Monday night (after the week's last game) until Thursday Night Football kickoff
+
+import { db } from "../db.js";
+import { nflGames } from "@shared/schema";
+import { eq } from "drizzle-orm";
+
+// Weekly roster move cap - trades and free agent pickups count, plain drops do not
+export const MAX_ROSTER_MOVES_PER_WEEK = 1;
+export const COUNTED_ROSTER_MOVE_TYPES = ['trade', 'add'];
+
+// How long after the last kickoff of a week we assume Monday Night Football is over
+const GAME_DURATION_MS = 4 * 60 * 60 * 1000;
+
+// Free agent claims made this long after the window opens are queued as waiver claims
+const WAIVER_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+export interface TradeWindowStatus {
+  isOpen: boolean;
+  reason?: string;
+  season: number;
+  week: number; // Upcoming week the window leads into
+  opensAt?: Date;
+  closesAt?: Date;
+  inWaiverPeriod: boolean; // Free agent claims are queued and resolved by waiver priority
+  waiverPeriodEndsAt?: Date;
+  now: Date;
+}
+
+function formatEasternTime(date: Date): string {
+  return date.toLocaleString('en-US', {
+    timeZone: 'America/New_York',
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  }) + ' ET';
+}
+
+export class TradeWindowService {
+  /**
+   * Resolve the clock and season to evaluate against.
+   * The 2024 test season runs on the admin simulated clock, everything else on real time.
+   */
+  private async getClock(season?: number): Promise<{ season: number; now: Date }> {
+    const { getAdminState } = await import("../routes/admin.js");
+    const adminState = getAdminState();
+    const resolvedSeason = season ?? adminState.season;
+
+    if (resolvedSeason === 2024) {
+      return { season: resolvedSeason, now: new Date(adminState.currentDate) };
+    }
+    return { season: resolvedSeason, now: new Date() };
+  }
+
+  /**
+   * Work out whether the trade window is open right now.
+   * - Closes at the first kickoff of the upcoming week (Thursday 8:20 PM ET)
+   * - Opens once the previous week's last game (Monday night) is over
+   * - Always open before Week 1 kicks off
+   */
+  async getTradeWindowStatus(season?: number): Promise<TradeWindowStatus> {
+    const clock = await this.getClock(season);
+    const { now } = clock;
+
+    const games = await db.select({
+      week: nflGames.week,
+      gameDate: nflGames.gameDate
+    })
+    .from(nflGames)
+    .where(eq(nflGames.season, clock.season))
+    .orderBy(nflGames.gameDate);
+
+    if (games.length === 0) {
+      // No schedule loaded - nothing to restrict against
+      return { isOpen: true, season: clock.season, week: 1, inWaiverPeriod: false, now };
+    }
+
+    // First and last kickoff per week
+    const weekBounds = new Map<number, { firstKickoff: Date; lastKickoff: Date }>();
+    for (const game of games) {
+      const kickoff = new Date(game.gameDate);
+      const bounds = weekBounds.get(game.week);
+      if (!bounds) {
+        weekBounds.set(game.week, { firstKickoff: kickoff, lastKickoff: kickoff });
+      } else {
+        if (kickoff < bounds.firstKickoff) bounds.firstKickoff = kickoff;
+        if (kickoff > bounds.lastKickoff) bounds.lastKickoff = kickoff;
+      }
+    }
+
+    const weeks = Array.from(weekBounds.keys()).sort((a, b) => a - b);
+    const upcomingWeek = weeks.find(week => weekBounds.get(week)!.firstKickoff > now);
+
+    if (upcomingWeek === undefined) {
+      return {
+        isOpen: false,
+        reason: `The ${clock.season} season is over - no more roster moves`,
+        season: clock.season,
+        week: weeks[weeks.length - 1],
+        inWaiverPeriod: false,
+        now
+      };
+    }
+
+    const closesAt = weekBounds.get(upcomingWeek)!.firstKickoff;
+    const previousWeek = weeks[weeks.indexOf(upcomingWeek) - 1];
+
+    if (previousWeek === undefined) {
+      // Pre-season: open until the season opener, no waivers before Week 1
+      return { isOpen: true, season: clock.season, week: upcomingWeek, closesAt, inWaiverPeriod: false, now };
+    }
+
+    const opensAt = new Date(weekBounds.get(previousWeek)!.lastKickoff.getTime() + GAME_DURATION_MS);
+    const waiverPeriodEndsAt = new Date(Math.min(opensAt.getTime() + WAIVER_PERIOD_MS, closesAt.getTime()));
+
+    if (now < opensAt) {
+      return {
+        isOpen: false,
+        reason: `Trade window is closed while Week ${previousWeek} games are being played - opens ${formatEasternTime(opensAt)}`,
+        season: clock.season,
+        week: upcomingWeek,
+        opensAt,
+        closesAt,
+        inWaiverPeriod: false,
+        waiverPeriodEndsAt,
+        now
+      };
+    }
+
+    return {
+      isOpen: true,
+      season: clock.season,
+      week: upcomingWeek,
+      opensAt,
+      closesAt,
+      inWaiverPeriod: now < waiverPeriodEndsAt,
+      waiverPeriodEndsAt,
+      now
+    };
+  }
+
+  /**
+   * Get a user-friendly message about the trade window
+   */
+  getTradeWindowMessage(status: TradeWindowStatus): string {
+    if (status.isOpen && status.inWaiverPeriod && status.waiverPeriodEndsAt) {
+      return `Waiver period - free agent claims process ${formatEasternTime(status.waiverPeriodEndsAt)}`;
+    }
+    if (status.isOpen) {
+      return status.closesAt
+        ? `Trade window open until ${formatEasternTime(status.closesAt)}`
+        : 'Trade window open';
+    }
+    return status.reason || 'Trade window is closed';
+  }
+}
+
+// Export singleton instance
+export const tradeWindowService = new TradeWindowService();
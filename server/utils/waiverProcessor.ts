@@ -0,0 +1,167 @@
+// Waiver processing for Mok Sports
+// Free agent claims queued during the waiver period are resolved in waiver priority order: reverse
+// standings to start the season, with each member who wins a claim moving to the back
+
+import { storage } from "../storage.js";
+import { tradeWindowService } from "./tradeWindow.js";
+import type { WaiverClaim } from "@shared/schema";
+
+// How often the background check looks for waiver periods that have ended
+const WAIVER_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface WaiverProcessingResult {
+  leagueId: string;
+  season: number;
+  week: number;
+  waiverOrder: string[]; // User IDs, first priority first
+  won: number;
+  lost: number;
+}
+
+export class WaiverProcessor {
+  private checkInterval: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+
+  start(): void {
+    if (this.checkInterval) return;
+
+    console.log('[Waivers] Starting waiver processing check');
+    this.checkInterval = setInterval(() => {
+      this.processDueWaivers().catch(error => {
+        console.error('[Waivers] Scheduled waiver processing failed:', error);
+      });
+    }, WAIVER_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Waiver order for a league: the stored priority order, or reverse standings before the season's
+   * first waiver run, so the last-place member picks first. Members who joined since the order was
+   * stored go to the back, in reverse standings order; members tied on points are ordered by when
+   * they joined, the later joiner picking first.
+   */
+  async getWaiverOrder(leagueId: string, season: number): Promise<string[]> {
+    const { calculateSeasonStandings } = await import("../routes/scoring.js");
+    const [stored, standings] = await Promise.all([
+      storage.getWaiverPriority(leagueId, season),
+      calculateSeasonStandings(leagueId, season)
+    ]);
+
+    const reverseStandings = standings.map(standing => standing.userId).reverse();
+    const members = new Set(reverseStandings);
+    const order = stored.filter(userId => members.has(userId));
+    return [...order, ...reverseStandings.filter(userId => !order.includes(userId))];
+  }
+
+  /**
+   * Resolve every pending claim whose waiver period has ended.
+   * Claims left over from an earlier week are closed out rather than applied mid-week.
+   */
+  async processDueWaivers(): Promise<WaiverProcessingResult[]> {
+    if (this.isProcessing) {
+      console.log('[Waivers] Processing already in progress - skipping');
+      return [];
+    }
+
+    this.isProcessing = true;
+    try {
+      const tradeWindow = await tradeWindowService.getTradeWindowStatus();
+      const pendingClaims = await storage.getPendingWaiverClaims(tradeWindow.season);
+      const results: WaiverProcessingResult[] = [];
+
+      const dueClaims: WaiverClaim[] = [];
+      for (const claim of pendingClaims) {
+        if (claim.week < tradeWindow.week) {
+          await storage.closeWaiverClaim(claim.id, 'lost', { failureReason: 'Waiver period ended before the claim could be processed' });
+        } else if (claim.week === tradeWindow.week && tradeWindow.isOpen && !tradeWindow.inWaiverPeriod) {
+          dueClaims.push(claim);
+        }
+      }
+
+      // Group by league - each league has its own priority order
+      const claimsByLeague = new Map<string, WaiverClaim[]>();
+      for (const claim of dueClaims) {
+        claimsByLeague.set(claim.leagueId, [...(claimsByLeague.get(claim.leagueId) || []), claim]);
+      }
+
+      for (const [leagueId, claims] of Array.from(claimsByLeague.entries())) {
+        results.push(await this.processLeagueWaivers(leagueId, tradeWindow.season, tradeWindow.week, claims));
+      }
+
+      return results;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Walk the waiver order: the highest-priority member with a claim gets their next claim attempted.
+   * A successful claim sends that member to the back of the order. Claims that can no longer be
+   * filled (team taken, drop team gone, weekly move used) are marked lost.
+   */
+  private async processLeagueWaivers(leagueId: string, season: number, week: number, claims: WaiverClaim[]): Promise<WaiverProcessingResult> {
+    const waiverOrder = await this.getWaiverOrder(leagueId, season);
+    const memberIds = new Set(waiverOrder);
+    console.log(`[Waivers] Processing ${claims.length} claim(s) for league ${leagueId}, Week ${week}`);
+
+    // Each member's claims in the order they were submitted
+    const queues = new Map<string, WaiverClaim[]>();
+    for (const claim of claims) {
+      queues.set(claim.userId, [...(queues.get(claim.userId) || []), claim]);
+    }
+
+    // Members who left the league keep their claims at the very back
+    for (const userId of Array.from(queues.keys())) {
+      if (!waiverOrder.includes(userId)) waiverOrder.push(userId);
+    }
+
+    let won = 0;
+    let lost = 0;
+    let awarded = true;
+
+    while (awarded) {
+      awarded = false;
+
+      for (let index = 0; index < waiverOrder.length; index++) {
+        const userId = waiverOrder[index];
+        const queue = queues.get(userId);
+        if (!queue || queue.length === 0) continue;
+
+        const claim = queue.shift()!;
+        const priority = index + 1;
+
+        try {
+          await storage.awardWaiverClaim(claim.id, priority);
+          won++;
+          console.log(`[Waivers] ✅ Claim ${claim.id} awarded to ${userId} at priority ${priority}`);
+
+          // Winner moves to the back of the line
+          waiverOrder.splice(index, 1);
+          waiverOrder.push(userId);
+        } catch (error: any) {
+          lost++;
+          console.log(`[Waivers] Claim ${claim.id} for ${userId} failed: ${error.message}`);
+          await storage.closeWaiverClaim(claim.id, 'lost', { priority, failureReason: error.message }).catch(() => {});
+        }
+
+        // Restart from the top of the (possibly re-ordered) list after every attempt
+        awarded = true;
+        break;
+      }
+    }
+
+    // Keep the order for next week - winners stay at the back until someone else wins a claim
+    await storage.setWaiverPriority(leagueId, season, waiverOrder.filter(userId => memberIds.has(userId)));
+
+    return { leagueId, season, week, waiverOrder, won, lost };
+  }
+}
+
+// Export singleton instance
+export const waiverProcessor = new WaiverProcessor();
@@ -5,12 +5,14 @@
  * - Pick notifications and updates
  * - Timer synchronization
  * - Connection management with auto-reconnect
- * - Draft state broadcasting
+ * - Draft state broadcasting (including commissioner pause, resume and undo)
+ * - Auction nominations, bids and sales
  */
 
 import { WebSocketServer, WebSocket } from 'ws';
 import { Server } from 'http';
 import { parse } from 'url';
+import { MAX_SLOW_PICK_WINDOW } from '@shared/utils/draftMode';
 
 export interface DraftConnection {
   userId: string;
@@ -674,8 +676,8 @@ export class DraftWebSocketManager {
     const connections = this.connections.get(draftId);
     console.log(`[WebSocket] Active connections for draft ${draftId}: ${connections?.length || 0}`);
     
-    // PERMANENT FIX: Enhanced timer broadcasting for Reserved VM with validation (support full 120s timer)
-    if (timeRemaining >= 0 && timeRemaining <= 120) {
+    // PERMANENT FIX: Enhanced timer broadcasting for Reserved VM with validation (up to a full slow-draft window)
+    if (timeRemaining >= 0 && timeRemaining <= MAX_SLOW_PICK_WINDOW) {
       const timerMessage = {
         type: 'timer_update',
         draftId,
@@ -702,6 +704,51 @@ export class DraftWebSocketManager {
     });
   }
 
+  public broadcastDraftPaused(draftId: string, timeRemaining: number, state: any) {
+    this.broadcastToDraft(draftId, {
+      type: 'draft_paused',
+      draftId,
+      data: { timeRemaining, state },
+      timestamp: Date.now()
+    });
+  }
+
+  public broadcastDraftResumed(draftId: string, timeRemaining: number, state: any) {
+    this.broadcastToDraft(draftId, {
+      type: 'draft_resumed',
+      draftId,
+      data: { timeRemaining, state },
+      timestamp: Date.now()
+    });
+  }
+
+  public broadcastPickUndone(draftId: string, pick: any, state: any) {
+    this.broadcastToDraft(draftId, {
+      type: 'pick_undone',
+      draftId,
+      data: { pick, state },
+      timestamp: Date.now()
+    });
+  }
+
+  public broadcastAuctionUpdate(draftId: string, auction: any) {
+    this.broadcastToDraft(draftId, {
+      type: 'auction_update',
+      draftId,
+      data: { auction },
+      timestamp: Date.now()
+    });
+  }
+
+  public broadcastAuctionSold(draftId: string, pick: any, auction: any) {
+    this.broadcastToDraft(draftId, {
+      type: 'auction_sold',
+      draftId,
+      data: { pick, auction },
+      timestamp: Date.now()
+    });
+  }
+
   public broadcastDraftState(draftId: string, state?: any) {
     this.broadcastToDraft(draftId, {
       type: 'draft_state',
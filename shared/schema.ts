@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, unique, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, unique, index, customType, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -18,11 +18,16 @@ export const leagues = pgTable("leagues", {
   name: text("name").notNull(),
   joinCode: text("join_code").notNull().unique(),
   maxTeams: integer("max_teams").notNull().default(6),
+  teamsPerMember: integer("teams_per_member").notNull().default(5), // Stable size - also the number of draft rounds
   creatorId: varchar("creator_id").notNull().references(() => users.id),
   isActive: boolean("is_active").notNull().default(true),
   draftScheduledAt: timestamp("draft_scheduled_at"),
   draftStarted: boolean("draft_started").notNull().default(false),
   draftId: varchar("draft_id").unique(), // CRITICAL: Link to active draft
+  draftOrderMethod: varchar("draft_order_method", { length: 20 }).notNull().default("random"), // random, reverse_standings, manual
+  manualDraftOrder: text("manual_draft_order").array(), // User IDs in pick order when the commissioner sets it by hand
+  keeperLimit: integer("keeper_limit").notNull().default(0), // Teams each member may carry over from last season's stable - 0 turns keepers off
+  isMock: boolean("is_mock").notNull().default(false), // Throwaway league behind a mock draft against the robots - hidden and swept away
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -47,17 +52,26 @@ export const nflTeams = pgTable("nfl_teams", {
 
 export const drafts = pgTable("drafts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  leagueId: varchar("league_id").notNull().unique().references(() => leagues.id), // CRITICAL: Unique constraint prevents multiple drafts per league
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  season: integer("season"), // Season being drafted for - one draft per league per season. Older drafts predate it (see getDraftSeason)
   status: varchar("status", { length: 20 }).notNull().default("not_started"), // not_started, starting, active, completed, paused
   currentRound: integer("current_round").notNull().default(1),
   currentPick: integer("current_pick").notNull().default(1),
   totalRounds: integer("total_rounds").notNull().default(5),
   pickTimeLimit: integer("pick_time_limit").notNull().default(180), // seconds
+  draftMode: varchar("draft_mode", { length: 10 }).notNull().default("live"), // live, or slow - hours-long pick windows with push reminders
+  draftFormat: varchar("draft_format", { length: 10 }).notNull().default("snake"), // snake, or auction - members bid budgets on nominated teams
+  auctionBudget: integer("auction_budget"), // Each member's budget in an auction draft
   draftOrder: text("draft_order").array().notNull(), // array of user IDs in draft order (renamed from pickOrder for clarity)
+  orderMethod: varchar("order_method", { length: 20 }).notNull().default("random"), // How draftOrder was generated: random, reverse_standings, manual
+  orderSeed: text("order_seed"), // Revealed lottery seed - re-running seededDraftOrder with it reproduces draftOrder
+  orderSeason: integer("order_season"), // Season whose final standings were reversed
   startedAt: timestamp("started_at"),
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => ({
+  uniqueLeagueSeason: unique().on(table.leagueId, table.season), // CRITICAL: prevents multiple drafts per league in a season
+}));
 
 export const draftPicks = pgTable("draft_picks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -68,6 +82,8 @@ export const draftPicks = pgTable("draft_picks", {
   pickNumber: integer("pick_number").notNull(),
   pickTime: timestamp("pick_time").defaultNow().notNull(),
   isAutoPick: boolean("is_auto_pick").notNull().default(false),
+  isKeeper: boolean("is_keeper").notNull().default(false), // Filled from the member's keepers when the draft started
+  winningBid: integer("winning_bid"), // Price paid in an auction draft; round is the member's stable slot
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => ({
   // CRITICAL: Prevent duplicate pick numbers in same draft
@@ -86,9 +102,37 @@ export const draftTimers = pgTable("draft_timers", {
   pickNumber: integer("pick_number").notNull(),
   timeRemaining: integer("time_remaining").notNull(), // seconds
   timerStartedAt: timestamp("timer_started_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"), // Slow drafts only - the pick deadline, so the clock survives restarts
+  reminderSentAt: timestamp("reminder_sent_at"), // Slow drafts only - when the running-out reminder went out
   isActive: boolean("is_active").notNull().default(true),
 });
 
+// Draft Queue - each member's ranked big board; auto-pick takes the best queued team still available
+export const draftQueueEntries = pgTable("draft_queue_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  draftId: varchar("draft_id").notNull().references(() => drafts.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  nflTeamId: varchar("nfl_team_id").notNull().references(() => nflTeams.id),
+  rank: integer("rank").notNull(), // 1 = first choice
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueQueueTeam: unique().on(table.draftId, table.userId, table.nflTeamId),
+}));
+
+// Keepers - teams a member carries from last season's stable into the next draft, at the cost of a pick
+export const keepers = pgTable("keepers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  nflTeamId: varchar("nfl_team_id").notNull().references(() => nflTeams.id),
+  season: integer("season").notNull(), // Season the team is kept into
+  roundCost: integer("round_cost").notNull(), // Round whose pick the keeper uses up
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueLeagueSeasonTeam: unique().on(table.leagueId, table.season, table.nflTeamId),
+  ixKeepersLeagueSeason: index("ix_keepers_league_season").on(table.leagueId, table.season),
+}));
+
 export const pushSubscriptions = pgTable("push_subscriptions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -113,6 +157,91 @@ export const stables = pgTable("stables", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Stable Ownership - one row per stretch a member held a team, so past weeks stay credited to whoever
+// owned the team at kickoff even after it changes hands. The open row (no release) is the current owner.
+export const stableOwnership = pgTable("stable_ownership", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  nflTeamId: varchar("nfl_team_id").notNull().references(() => nflTeams.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  acquiredVia: varchar("acquired_via").notNull(), // draft, trade, free_agent, commissioner
+  acquiredSeason: integer("acquired_season").notNull(),
+  acquiredWeek: integer("acquired_week").notNull(), // First week the member owns the team for
+  acquiredAt: timestamp("acquired_at").notNull(), // League clock time - the simulated date for the 2024 test season
+  releasedSeason: integer("released_season"),
+  releasedWeek: integer("released_week"), // First week the member no longer owns it
+  releasedAt: timestamp("released_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ixStableOwnershipLeagueTeam: index("ix_stable_ownership_league_team").on(table.leagueId, table.nflTeamId),
+}));
+
+// Trade Proposals - team-for-team trades between league members
+export const tradeProposals = pgTable("trade_proposals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  proposerId: varchar("proposer_id").notNull().references(() => users.id),
+  recipientId: varchar("recipient_id").notNull().references(() => users.id),
+  offeredTeamIds: text("offered_team_ids").array().notNull(), // proposer's teams going to recipient
+  requestedTeamIds: text("requested_team_ids").array().notNull(), // recipient's teams going to proposer
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, accepted, rejected, countered, cancelled
+  message: text("message"),
+  counterOfId: varchar("counter_of_id"), // Proposal this one counters, if any
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ixTradeProposalsLeagueStatus: index("ix_trade_proposals_league_status").on(table.leagueId, table.status),
+}));
+
+// Roster Transactions - ledger of every stable change (draft, trades, pickups, drops)
+export const rosterTransactions = pgTable("roster_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: varchar("type", { length: 20 }).notNull(), // draft, trade, add, drop, commissioner
+  season: integer("season").notNull(),
+  week: integer("week").notNull(), // Week the move takes effect for
+  teamsIn: text("teams_in").array().notNull(), // NFL team IDs added to the stable
+  teamsOut: text("teams_out").array().notNull(), // NFL team IDs removed from the stable
+  counterpartId: varchar("counterpart_id").references(() => users.id), // Other member in a trade
+  tradeProposalId: varchar("trade_proposal_id").references(() => tradeProposals.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ixRosterTransactionsLeagueSeasonWeek: index("ix_roster_transactions_league_season_week").on(table.leagueId, table.season, table.week),
+  ixRosterTransactionsUserWeek: index("ix_roster_transactions_user_week").on(table.userId, table.leagueId, table.season, table.week),
+}));
+
+// Waiver Claims - free agent claims queued during the waiver period
+export const waiverClaims = pgTable("waiver_claims", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  season: integer("season").notNull(),
+  week: integer("week").notNull(),
+  claimTeamId: varchar("claim_team_id").notNull().references(() => nflTeams.id),
+  dropTeamId: varchar("drop_team_id").references(() => nflTeams.id), // Null when claiming into an open slot
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, won, lost, cancelled
+  priority: integer("priority"), // Waiver priority the member held when the claim was processed (1 = first)
+  failureReason: text("failure_reason"),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ixWaiverClaimsLeagueWeekStatus: index("ix_waiver_claims_league_week_status").on(table.leagueId, table.season, table.week, table.status),
+}));
+
+// Waiver Priority - each league's standing waiver order for a season (1 = first claim). Seeded from
+// reverse standings by the first waiver run; a member who wins a claim drops to the back and stays there
+export const waiverPriorities = pgTable("waiver_priorities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  season: integer("season").notNull(),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  priority: integer("priority").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueLeagueSeasonUser: unique().on(table.leagueId, table.season, table.userId),
+}));
+
 // NFL Games - stores real NFL game results
 export const nflGames = pgTable("nfl_games", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -130,6 +259,16 @@ export const nflGames = pgTable("nfl_games", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// NFL Season Champions - the Super Bowl winner per season, recorded by an admin once it's final.
+// The importers only pull regular-season games, so the Super Bowl never lands in nfl_games
+export const nflSeasonChampions = pgTable("nfl_season_champions", {
+  season: integer("season").primaryKey(),
+  nflTeamId: varchar("nfl_team_id").notNull().references(() => nflTeams.id),
+  superBowlDate: timestamp("super_bowl_date").notNull(), // Kickoff - the prize goes to whoever owned the champion then
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Weekly Stats - aggregated data for each week (high/low scores, etc.)
 export const weeklyStats = pgTable("weekly_stats", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -143,6 +282,20 @@ export const weeklyStats = pgTable("weekly_stats", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Mok point values are stored as exact decimals so tie half-points (0.5) are never truncated.
+// Postgres hands numeric back as a string - map it to a number so scoring code keeps plain arithmetic.
+const mokPoints = customType<{ data: number; driverData: string }>({
+  dataType() {
+    return 'numeric(6, 1)';
+  },
+  fromDriver(value) {
+    return Number(value);
+  },
+  toDriver(value) {
+    return String(value);
+  },
+});
+
 // Team Performance - calculated Mok points for each team each week
 export const teamPerformance = pgTable("team_performance", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -154,11 +307,11 @@ export const teamPerformance = pgTable("team_performance", {
   opponentScore: integer("opponent_score").notNull(),
   isWin: boolean("is_win").notNull(),
   isTie: boolean("is_tie").notNull(),
-  isBlowout: boolean("is_blowout").notNull().default(false), // Won by 20+ points
+  isBlowout: boolean("is_blowout").notNull().default(false), // Won by the league blowout margin (21+ by default)
   isShutout: boolean("is_shutout").notNull().default(false), // Held opponent to 0
   isWeeklyHigh: boolean("is_weekly_high").notNull().default(false),
   isWeeklyLow: boolean("is_weekly_low").notNull().default(false),
-  baseMokPoints: integer("base_mok_points").notNull(), // Points without lock bonuses
+  baseMokPoints: mokPoints("base_mok_points").notNull(), // Points without lock bonuses
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -171,7 +324,7 @@ export const weeklyLocks = pgTable("weekly_locks", {
   week: integer("week").notNull(),
   lockedTeamId: varchar("locked_team_id").references(() => nflTeams.id), // Regular lock selection
   lockAndLoadTeamId: varchar("lock_and_load_team_id").references(() => nflTeams.id), // Lock & Load selection
-  lockPoints: integer("lock_points").notNull().default(0), // Points earned from locks
+  lockPoints: mokPoints("lock_points").notNull().default(0), // Points earned from locks
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -183,12 +336,13 @@ export const userWeeklyScores = pgTable("user_weekly_scores", {
   leagueId: varchar("league_id").notNull().references(() => leagues.id),
   season: integer("season").notNull(),
   week: integer("week").notNull(),
-  basePoints: integer("base_points").notNull().default(0), // Points without lock bonuses
-  lockBonusPoints: integer("lock_bonus_points").notNull().default(0),
-  lockAndLoadBonusPoints: integer("lock_and_load_bonus_points").notNull().default(0),
-  weeklyHighBonusPoints: integer("weekly_high_bonus_points").notNull().default(0), // +1 for weekly high score
-  weeklyLowPenaltyPoints: integer("weekly_low_penalty_points").notNull().default(0), // -1 for weekly low score
-  totalPoints: integer("total_points").notNull().default(0), // Sum of all points
+  basePoints: mokPoints("base_points").notNull().default(0), // Points without lock bonuses
+  lockBonusPoints: mokPoints("lock_bonus_points").notNull().default(0),
+  lockAndLoadBonusPoints: mokPoints("lock_and_load_bonus_points").notNull().default(0),
+  weeklyHighBonusPoints: mokPoints("weekly_high_bonus_points").notNull().default(0), // +1 for weekly high score
+  weeklyLowPenaltyPoints: mokPoints("weekly_low_penalty_points").notNull().default(0), // -1 for weekly low score
+  commissionerAdjustmentPoints: mokPoints("commissioner_adjustment_points").notNull().default(0), // Manual corrections, see commissionerActions
+  totalPoints: mokPoints("total_points").notNull().default(0), // Sum of all points
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => ({
@@ -205,7 +359,7 @@ export const weeklySkins = pgTable("weekly_skins", {
   season: integer("season").notNull(),
   week: integer("week").notNull(),
   winnerId: varchar("winner_id").references(() => users.id), // Null if no winner (tied week)
-  winningScore: integer("winning_score"), // The score that won the week
+  winningScore: mokPoints("winning_score"), // The score that won the week
   prizeAmount: integer("prize_amount").notNull().default(1), // 1 skin default, can accumulate
   isTied: boolean("is_tied").notNull().default(false), // If multiple winners tied
   isRollover: boolean("is_rollover").notNull().default(false), // If skins rolled over to next week
@@ -218,6 +372,67 @@ export const weeklySkins = pgTable("weekly_skins", {
   ixWeeklySkinsLeagueSeasonWeek: index("ix_weekly_skins_league_season_week").on(table.leagueId, table.season, table.week),
 }));
 
+// Week Processing Runs - one row per league per week, so end-of-week processing (high/low bonuses
+// and skins) runs once per league, can be retried after a failure, and shows up in the admin view
+export const weekProcessingRuns = pgTable("week_processing_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  season: integer("season").notNull(),
+  week: integer("week").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("running"), // running, completed, failed
+  attempts: integer("attempts").notNull().default(1),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  error: text("error"), // Last failure message
+  results: jsonb("results"), // The week's high/low teams and skins outcome once completed
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueLeagueSeasonWeek: unique().on(table.leagueId, table.season, table.week),
+  ixWeekProcessingRunsStatus: index("ix_week_processing_runs_status").on(table.status),
+}));
+
+// League Scoring Rules - per-league overrides of the official Mok Sports rules
+// Leagues without a row use the defaults in shared/utils/scoring.ts
+export const leagueScoringRules = pgTable("league_scoring_rules", {
+  leagueId: varchar("league_id").primaryKey().references(() => leagues.id),
+  winPoints: mokPoints("win_points").notNull().default(1),
+  tiePoints: mokPoints("tie_points").notNull().default(0.5),
+  lossPoints: mokPoints("loss_points").notNull().default(0),
+  blowoutPoints: mokPoints("blowout_points").notNull().default(1),
+  blowoutMargin: integer("blowout_margin").notNull().default(21), // Minimum winning margin for the blowout bonus
+  shutoutPoints: mokPoints("shutout_points").notNull().default(1),
+  weeklyHighPoints: mokPoints("weekly_high_points").notNull().default(1),
+  weeklyLowPenalty: mokPoints("weekly_low_penalty").notNull().default(-1),
+  lockBonusPoints: mokPoints("lock_bonus_points").notNull().default(1),
+  lockAndLoadWinPoints: mokPoints("lock_and_load_win_points").notNull().default(2),
+  lockAndLoadLossPenalty: mokPoints("lock_and_load_loss_penalty").notNull().default(-1),
+  maxLocksPerTeamPerSeason: integer("max_locks_per_team_per_season").notNull().default(4),
+  maxLockAndLoadPerTeamPerSeason: integer("max_lock_and_load_per_team_per_season").notNull().default(1),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Commissioner Actions - audit log of manual score and roster corrections, visible to the whole league
+export const commissionerActions = pgTable("commissioner_actions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  leagueId: varchar("league_id").notNull().references(() => leagues.id),
+  commissionerId: varchar("commissioner_id").notNull().references(() => users.id),
+  action: varchar("action", { length: 20 }).notNull(), // adjust_points, reassign_team, void_lock
+  targetUserId: varchar("target_user_id").notNull().references(() => users.id), // Member whose score or stable changed
+  counterpartId: varchar("counterpart_id").references(() => users.id), // New owner when a team is reassigned
+  nflTeamId: varchar("nfl_team_id").references(() => nflTeams.id), // Team reassigned or lock voided
+  season: integer("season").notNull(),
+  week: integer("week").notNull(),
+  pointsDelta: mokPoints("points_delta"), // Change to the member's weekly total, if any
+  details: text("details").notNull(), // Human-readable summary of what changed
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  ixCommissionerActionsLeagueSeason: index("ix_commissioner_actions_league_season").on(table.leagueId, table.season),
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   createdLeagues: many(leagues),
@@ -268,6 +483,58 @@ export const stablesRelations = relations(stables, ({ one }) => ({
   }),
 }));
 
+export const tradeProposalsRelations = relations(tradeProposals, ({ one }) => ({
+  league: one(leagues, {
+    fields: [tradeProposals.leagueId],
+    references: [leagues.id],
+  }),
+  proposer: one(users, {
+    fields: [tradeProposals.proposerId],
+    references: [users.id],
+  }),
+  recipient: one(users, {
+    fields: [tradeProposals.recipientId],
+    references: [users.id],
+  }),
+}));
+
+export const rosterTransactionsRelations = relations(rosterTransactions, ({ one }) => ({
+  league: one(leagues, {
+    fields: [rosterTransactions.leagueId],
+    references: [leagues.id],
+  }),
+  user: one(users, {
+    fields: [rosterTransactions.userId],
+    references: [users.id],
+  }),
+  tradeProposal: one(tradeProposals, {
+    fields: [rosterTransactions.tradeProposalId],
+    references: [tradeProposals.id],
+  }),
+}));
+
+export const commissionerActionsRelations = relations(commissionerActions, ({ one }) => ({
+  league: one(leagues, {
+    fields: [commissionerActions.leagueId],
+    references: [leagues.id],
+  }),
+  commissioner: one(users, {
+    fields: [commissionerActions.commissionerId],
+    references: [users.id],
+  }),
+}));
+
+export const waiverClaimsRelations = relations(waiverClaims, ({ one }) => ({
+  league: one(leagues, {
+    fields: [waiverClaims.leagueId],
+    references: [leagues.id],
+  }),
+  user: one(users, {
+    fields: [waiverClaims.userId],
+    references: [users.id],
+  }),
+}));
+
 export const pushSubscriptionsRelations = relations(pushSubscriptions, ({ one }) => ({
   user: one(users, {
     fields: [pushSubscriptions.userId],
@@ -282,6 +549,7 @@ export const draftsRelations = relations(drafts, ({ one, many }) => ({
   }),
   picks: many(draftPicks),
   timers: many(draftTimers),
+  queueEntries: many(draftQueueEntries),
 }));
 
 export const draftPicksRelations = relations(draftPicks, ({ one }) => ({
@@ -310,6 +578,21 @@ export const draftTimersRelations = relations(draftTimers, ({ one }) => ({
   }),
 }));
 
+export const draftQueueEntriesRelations = relations(draftQueueEntries, ({ one }) => ({
+  draft: one(drafts, {
+    fields: [draftQueueEntries.draftId],
+    references: [drafts.id],
+  }),
+  user: one(users, {
+    fields: [draftQueueEntries.userId],
+    references: [users.id],
+  }),
+  nflTeam: one(nflTeams, {
+    fields: [draftQueueEntries.nflTeamId],
+    references: [nflTeams.id],
+  }),
+}));
+
 export const nflTeamsRelations = relations(nflTeams, ({ many }) => ({
   draftPicks: many(draftPicks),
 }));
@@ -325,6 +608,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const insertLeagueSchema = createInsertSchema(leagues).pick({
   name: true,
   maxTeams: true,
+  teamsPerMember: true,
   creatorId: true,
 });
 
@@ -372,11 +656,63 @@ export const insertStableSchema = createInsertSchema(stables).pick({
   acquiredVia: true,
 });
 
+export const insertTradeProposalSchema = createInsertSchema(tradeProposals).pick({
+  leagueId: true,
+  proposerId: true,
+  recipientId: true,
+  offeredTeamIds: true,
+  requestedTeamIds: true,
+  message: true,
+  counterOfId: true,
+});
+
+export const insertRosterTransactionSchema = createInsertSchema(rosterTransactions).pick({
+  leagueId: true,
+  userId: true,
+  type: true,
+  season: true,
+  week: true,
+  teamsIn: true,
+  teamsOut: true,
+  counterpartId: true,
+  tradeProposalId: true,
+});
+
+export const insertWaiverClaimSchema = createInsertSchema(waiverClaims).pick({
+  leagueId: true,
+  userId: true,
+  season: true,
+  week: true,
+  claimTeamId: true,
+  dropTeamId: true,
+});
+
+export const insertCommissionerActionSchema = createInsertSchema(commissionerActions).pick({
+  leagueId: true,
+  commissionerId: true,
+  action: true,
+  targetUserId: true,
+  counterpartId: true,
+  nflTeamId: true,
+  season: true,
+  week: true,
+  pointsDelta: true,
+  details: true,
+  reason: true,
+});
+
 export const insertDraftSchema = createInsertSchema(drafts).pick({
   leagueId: true,
+  season: true,
   totalRounds: true,
   pickTimeLimit: true,
+  draftMode: true,
+  draftFormat: true,
+  auctionBudget: true,
   draftOrder: true,
+  orderMethod: true,
+  orderSeed: true,
+  orderSeason: true,
 });
 
 export const insertDraftPickSchema = createInsertSchema(draftPicks).pick({
@@ -386,6 +722,8 @@ export const insertDraftPickSchema = createInsertSchema(draftPicks).pick({
   round: true,
   pickNumber: true,
   isAutoPick: true,
+  isKeeper: true,
+  winningBid: true,
 });
 
 export const insertDraftTimerSchema = createInsertSchema(draftTimers).pick({
@@ -394,6 +732,7 @@ export const insertDraftTimerSchema = createInsertSchema(draftTimers).pick({
   round: true,
   pickNumber: true,
   timeRemaining: true,
+  expiresAt: true,
 });
 
 export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).pick({
@@ -422,13 +761,27 @@ export type DraftPick = typeof draftPicks.$inferSelect;
 export type InsertDraftPick = z.infer<typeof insertDraftPickSchema>;
 export type DraftTimer = typeof draftTimers.$inferSelect;
 export type InsertDraftTimer = z.infer<typeof insertDraftTimerSchema>;
+export type DraftQueueEntry = typeof draftQueueEntries.$inferSelect;
+export type Keeper = typeof keepers.$inferSelect;
 export type Stable = typeof stables.$inferSelect;
 export type InsertStable = z.infer<typeof insertStableSchema>;
+export type StableOwnership = typeof stableOwnership.$inferSelect;
+export type WeekProcessingRun = typeof weekProcessingRuns.$inferSelect;
+export type TradeProposal = typeof tradeProposals.$inferSelect;
+export type InsertTradeProposal = z.infer<typeof insertTradeProposalSchema>;
+export type RosterTransaction = typeof rosterTransactions.$inferSelect;
+export type InsertRosterTransaction = z.infer<typeof insertRosterTransactionSchema>;
+export type WaiverClaim = typeof waiverClaims.$inferSelect;
+export type InsertWaiverClaim = z.infer<typeof insertWaiverClaimSchema>;
 
 export type NflGame = typeof nflGames.$inferSelect;
+export type NflSeasonChampion = typeof nflSeasonChampions.$inferSelect;
 export type InsertNflGame = z.infer<typeof insertNflGameSchema>;
 export type WeeklyStats = typeof weeklyStats.$inferSelect;
 export type TeamPerformance = typeof teamPerformance.$inferSelect;
 export type WeeklyLocks = typeof weeklyLocks.$inferSelect;
 export type InsertWeeklyLocks = z.infer<typeof insertWeeklyLockSchema>;
 export type UserWeeklyScores = typeof userWeeklyScores.$inferSelect;
+export type LeagueScoringRules = typeof leagueScoringRules.$inferSelect;
+export type CommissionerAction = typeof commissionerActions.$inferSelect;
+export type InsertCommissionerAction = z.infer<typeof insertCommissionerActionSchema>;
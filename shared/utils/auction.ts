@@ -0,0 +1,25 @@
+// Auction drafts: every member gets the same budget, takes turns nominating a team, and the
+// highest bid when the countdown runs out wins it. The countdown starts over on every bid.
+
+export const DRAFT_FORMATS = ['snake', 'auction'] as const;
+export type DraftFormat = typeof DRAFT_FORMATS[number];
+
+export const DRAFT_FORMAT_LABELS: Record<DraftFormat, string> = {
+  snake: 'Snake draft',
+  auction: 'Auction draft',
+};
+
+export const AUCTION_BUDGET_OPTIONS = [100, 200, 500];
+export const DEFAULT_AUCTION_BUDGET = 200;
+export const MIN_AUCTION_BID = 1;
+export const AUCTION_BID_SECONDS = 15; // Countdown on a nominated team, reset by each bid
+
+export function isValidAuctionBudget(budget: number): boolean {
+  return AUCTION_BUDGET_OPTIONS.includes(budget);
+}
+
+// Most a member can bid and still afford the minimum for every other open slot
+export function maxAuctionBid(remaining: number, slotsLeft: number): number {
+  if (slotsLeft <= 0) return 0;
+  return Math.max(0, remaining - (slotsLeft - 1) * MIN_AUCTION_BID);
+}
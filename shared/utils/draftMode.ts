@@ -0,0 +1,38 @@
+// Live drafts run on a clock of seconds; slow drafts give each member hours to pick and remind them by push
+
+export const DRAFT_MODES = ['live', 'slow'] as const;
+export type DraftMode = typeof DRAFT_MODES[number];
+
+export const DRAFT_MODE_LABELS: Record<DraftMode, string> = {
+  live: 'Live draft',
+  slow: 'Slow draft',
+};
+
+export const LIVE_PICK_TIME_OPTIONS = [30, 60, 90, 120, 180]; // seconds
+export const SLOW_PICK_WINDOW_HOURS = [1, 2, 4, 8, 12, 24];
+
+export const DEFAULT_LIVE_PICK_TIME = 120;
+export const DEFAULT_SLOW_PICK_WINDOW_HOURS = 8;
+
+const MIN_LIVE_PICK_TIME = 30;
+const MAX_LIVE_PICK_TIME = 300;
+export const MIN_SLOW_PICK_WINDOW = 60 * 60;
+export const MAX_SLOW_PICK_WINDOW = 24 * 60 * 60;
+
+export function isValidPickTimeLimit(mode: DraftMode, seconds: number): boolean {
+  if (!Number.isInteger(seconds)) return false;
+  return mode === 'slow'
+    ? seconds >= MIN_SLOW_PICK_WINDOW && seconds <= MAX_SLOW_PICK_WINDOW
+    : seconds >= MIN_LIVE_PICK_TIME && seconds <= MAX_LIVE_PICK_TIME;
+}
+
+// 1:45 for a live clock, 7h 05m once the window runs to hours
+export function formatPickClock(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) {
+    return `${hours}h ${mins.toString().padStart(2, '0')}m`;
+  }
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
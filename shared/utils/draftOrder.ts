@@ -0,0 +1,53 @@
+// Draft order methods shared by the server (which generates the order) and the client (which can re-check a lottery)
+
+export const DRAFT_ORDER_METHODS = ['random', 'reverse_standings', 'manual'] as const;
+export type DraftOrderMethod = typeof DRAFT_ORDER_METHODS[number];
+
+export const DRAFT_ORDER_LABELS: Record<DraftOrderMethod, string> = {
+  random: 'Random lottery',
+  reverse_standings: "Reverse of last season's standings",
+  manual: 'Set by the commissioner',
+};
+
+// Small string hash so any seed text maps to a 32-bit PRNG state
+function hashSeed(seed: string): number {
+  let hash = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+    hash = (hash << 13) | (hash >>> 19);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 - deterministic, so the same seed always gives the same lottery
+function seededRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Lottery order for a revealed seed. Members are sorted by ID first so the result depends
+ * only on who is in the league and the seed - anyone can re-run it and get the same order.
+ */
+export function seededDraftOrder(memberIds: string[], seed: string): string[] {
+  const order = [...memberIds].sort();
+  const random = seededRandom(seed);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// A manual order is only usable if it lists every member exactly once
+export function isCompleteDraftOrder(order: string[], memberIds: string[]): boolean {
+  return order.length === memberIds.length
+    && new Set(order).size === order.length
+    && memberIds.every(id => order.includes(id));
+}
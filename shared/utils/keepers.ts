@@ -0,0 +1,13 @@
+// Keeper rules shared by the server (which enforces them) and the client (which previews the cost)
+
+export const MAX_KEEPER_LIMIT = 3;
+
+// A member always drafts at least one team fresh, so small stables allow fewer keepers
+export function maxKeeperLimit(teamsPerMember: number): number {
+  return Math.max(0, Math.min(MAX_KEEPER_LIMIT, teamsPerMember - 1));
+}
+
+// Keepers use up the member's last picks: the first keeper costs the final round, the next the round before
+export function keeperRoundCosts(keeperCount: number, totalRounds: number): number[] {
+  return Array.from({ length: keeperCount }, (_, index) => totalRounds - index);
+}
@@ -0,0 +1,38 @@
+// League size rules shared by league creation, the draft and the free agent pool
+
+export const NFL_TEAM_COUNT = 32;
+export const NFL_DIVISION_COUNT = 8;
+
+export const MIN_LEAGUE_MEMBERS = 4;
+export const MAX_LEAGUE_MEMBERS = 10;
+export const MIN_TEAMS_PER_MEMBER = 3;
+export const MAX_TEAMS_PER_MEMBER = 8;
+
+export const DEFAULT_LEAGUE_MEMBERS = 6;
+export const DEFAULT_TEAMS_PER_MEMBER = 5;
+
+export function getTotalDraftedTeams(members: number, teamsPerMember: number): number {
+  return members * teamsPerMember;
+}
+
+// Every member has to be able to fill their stable from the 32 NFL teams
+export function isValidLeagueSize(members: number, teamsPerMember: number): boolean {
+  return members >= MIN_LEAGUE_MEMBERS && members <= MAX_LEAGUE_MEMBERS
+    && teamsPerMember >= MIN_TEAMS_PER_MEMBER && teamsPerMember <= MAX_TEAMS_PER_MEMBER
+    && getTotalDraftedTeams(members, teamsPerMember) <= NFL_TEAM_COUNT;
+}
+
+// Largest stable size that still fits for a given member count
+export function getMaxTeamsPerMember(members: number): number {
+  return Math.min(MAX_TEAMS_PER_MEMBER, Math.floor(NFL_TEAM_COUNT / members));
+}
+
+// NFL teams left undrafted once every stable is full
+export function getFreeAgentCount(members: number, teamsPerMember: number): number {
+  return Math.max(0, NFL_TEAM_COUNT - getTotalDraftedTeams(members, teamsPerMember));
+}
+
+// How many teams one member may draft from a single division - 1 until a stable is bigger than the division count
+export function getMaxTeamsPerDivision(teamsPerMember: number): number {
+  return Math.max(1, Math.ceil(teamsPerMember / NFL_DIVISION_COUNT));
+}
@@ -0,0 +1,139 @@
+// Mok Sports scoring engine - the one place points are worked out from NFL results.
+// Pure functions only: the server loads a league's rules and game results, the client shows the same math.
+// Follows MOK_SPORTS_RULES.md; leagues can override any value through their league_scoring_rules row.
+
+export interface MokScoringRules {
+  // Base scoring
+  winPoints: number;     // +1 for wins
+  tiePoints: number;     // +0.5 for ties
+  lossPoints: number;    // 0 for losses
+
+  // Bonus scoring
+  blowoutPoints: number;   // +1 for winning by blowoutMargin+ points
+  blowoutMargin: number;   // 21 point winning margin
+  shutoutPoints: number;   // +1 for a win that holds the opponent to 0 points
+  weeklyHighPoints: number; // +1 for highest scoring team of the week
+  weeklyLowPenalty: number; // -1 for lowest scoring team of the week
+
+  // Lock system
+  lockBonusPoints: number;      // +1 additional when a locked team wins
+  lockAndLoadWinPoints: number; // +2 for Lock & Load win
+  lockAndLoadLossPenalty: number; // -1 for Lock & Load loss
+
+  // Usage limits
+  maxLocksPerTeamPerSeason: number; // 4 times max per team
+  maxLockAndLoadPerTeamPerSeason: number; // 1 time max per team
+}
+
+// Official Mok Sports scoring rules
+export const MOK_SCORING_RULES: MokScoringRules = {
+  winPoints: 1,
+  tiePoints: 0.5,
+  lossPoints: 0,
+  blowoutPoints: 1,
+  blowoutMargin: 21,
+  shutoutPoints: 1,
+  weeklyHighPoints: 1,
+  weeklyLowPenalty: -1,
+  lockBonusPoints: 1,
+  lockAndLoadWinPoints: 2,
+  lockAndLoadLossPenalty: -1,
+  maxLocksPerTeamPerSeason: 4,
+  maxLockAndLoadPerTeamPerSeason: 1
+};
+
+// How one team's game went - blowouts and shutouts only count for the winner
+export interface GameOutcome {
+  isWin: boolean;
+  isLoss: boolean;
+  isTie: boolean;
+  isBlowout: boolean;
+  isShutout: boolean;
+}
+
+export interface TeamGamePoints {
+  outcome: GameOutcome;
+  gamePoints: number; // Result plus blowout/shutout bonuses
+  lockBonusPoints: number;
+  lockAndLoadBonusPoints: number;
+  totalPoints: number;
+}
+
+export function getGameOutcome(teamScore: number, opponentScore: number, rules: MokScoringRules = MOK_SCORING_RULES): GameOutcome {
+  const isWin = teamScore > opponentScore;
+  return {
+    isWin,
+    isLoss: teamScore < opponentScore,
+    isTie: teamScore === opponentScore,
+    isBlowout: isWin && teamScore - opponentScore >= rules.blowoutMargin,
+    isShutout: isWin && opponentScore === 0
+  };
+}
+
+// Win/tie/loss points only - no bonuses
+export function calculateResultPoints(outcome: GameOutcome, rules: MokScoringRules = MOK_SCORING_RULES): number {
+  if (outcome.isWin) return rules.winPoints;
+  if (outcome.isTie) return rules.tiePoints;
+  return rules.lossPoints;
+}
+
+// Everything a single game earns on its own; weekly high/low are awarded once the whole week is in
+export function calculateGamePoints(outcome: GameOutcome, rules: MokScoringRules = MOK_SCORING_RULES): number {
+  let points = calculateResultPoints(outcome, rules);
+  if (outcome.isBlowout) points += rules.blowoutPoints;
+  if (outcome.isShutout) points += rules.shutoutPoints;
+  return points;
+}
+
+// Lock & Load replaces the regular lock bonus: it pays more on a win, costs on a loss,
+// and a tie earns the tie half again (+0.5 for the lock, nothing for the load)
+export function calculateLockPoints(outcome: GameOutcome, isLocked: boolean, isLockAndLoad: boolean, rules: MokScoringRules = MOK_SCORING_RULES): number {
+  if (isLockAndLoad) {
+    if (outcome.isWin) return rules.lockAndLoadWinPoints;
+    if (outcome.isLoss) return rules.lockAndLoadLossPenalty;
+    return rules.tiePoints;
+  }
+  if (isLocked && outcome.isWin) return rules.lockBonusPoints;
+  return 0;
+}
+
+export function calculateWeeklyHighLowPoints(isWeeklyHigh: boolean, isWeeklyLow: boolean, rules: MokScoringRules = MOK_SCORING_RULES): number {
+  let points = 0;
+  if (isWeeklyHigh) points += rules.weeklyHighPoints;
+  if (isWeeklyLow) points += rules.weeklyLowPenalty;
+  return points;
+}
+
+/**
+ * Scores one team's game for its owner, lock bonuses included
+ */
+export function scoreTeamGame(
+  teamScore: number,
+  opponentScore: number,
+  isLocked: boolean,
+  isLockAndLoad: boolean,
+  rules: MokScoringRules = MOK_SCORING_RULES
+): TeamGamePoints {
+  const outcome = getGameOutcome(teamScore, opponentScore, rules);
+  const gamePoints = calculateGamePoints(outcome, rules);
+  const lockPoints = calculateLockPoints(outcome, isLocked, isLockAndLoad, rules);
+  const lockAndLoadBonusPoints = isLockAndLoad ? lockPoints : 0;
+  const lockBonusPoints = isLockAndLoad ? 0 : lockPoints;
+
+  return {
+    outcome,
+    gamePoints,
+    lockBonusPoints,
+    lockAndLoadBonusPoints,
+    totalPoints: gamePoints + lockBonusPoints + lockAndLoadBonusPoints
+  };
+}
+
+// The week's highest and lowest team scores - every team that matches one shares the bonus or penalty
+export function getWeeklyHighLow(teamScores: number[]): { highScore: number; lowScore: number } | null {
+  if (teamScores.length === 0) return null;
+  return {
+    highScore: Math.max(...teamScores),
+    lowScore: Math.min(...teamScores)
+  };
+}